@@ -0,0 +1,66 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { useQueryState } from 'nuqs'
+import { SetPasswordForm } from '@/components/auth/set-password-form'
+import { acceptInvitation, getInvitation, type InvitationInput } from '@/lib/api-service'
+import { useAuth } from '@/lib/auth-context'
+import { ROLES } from '@/lib/roles'
+
+export default function AcceptInvitePage() {
+  const [token] = useQueryState('token')
+  const [invitation, setInvitation] = useState<InvitationInput | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const { refresh } = useAuth()
+  const router = useRouter()
+
+  useEffect(() => {
+    if (!token) {
+      setError('This invitation link is incomplete')
+      return
+    }
+    getInvitation(token)
+      .then(setInvitation)
+      .catch(loadError => setError(loadError instanceof Error ? loadError.message : 'Failed to load invitation'))
+  }, [token])
+
+  const handleSubmit = async (input: { name: string, password: string }) => {
+    await acceptInvitation(token!, input)
+    await refresh()
+    router.push('/requests')
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 px-8 py-12">
+      <div className="w-full max-w-md bg-white rounded-lg shadow-sm border p-8">
+        <div className="flex items-center space-x-2 mb-8">
+          <div className="w-8 h-8 bg-blue-600 rounded-lg flex items-center justify-center">
+            <span className="text-white font-bold text-sm">E</span>
+          </div>
+          <span className="text-2xl font-bold text-gray-900">Ecoleap</span>
+        </div>
+
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">Accept Invitation</h1>
+
+        {error ? (
+          <p className="text-red-600">{error}</p>
+        ) : !invitation ? (
+          <p className="text-gray-500">Loading invitation...</p>
+        ) : (
+          <>
+            <p className="text-gray-600 mb-6">
+              You have been invited as {ROLES[invitation.role].label} with {invitation.email}. Choose a password to
+              activate your account.
+            </p>
+            <SetPasswordForm
+              submitLabel="Create Account"
+              initialName={invitation.name}
+              onSubmit={handleSubmit}
+            />
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { approveAnalysis, getAnalysis } from '@/lib/server/analysis-queue'
+import { authorize, canAccessAnalysis } from '@/lib/server/authorization'
+
+/**
+ * Records a reviewer's approval of an analysed file
+ */
+export async function POST(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const { user, errorResponse } = await authorize(request, 'analyses:approve')
+        if (!user) return errorResponse
+
+        const analysis = await getAnalysis(params.id)
+
+        if (!analysis || !(await canAccessAnalysis(user, analysis))) {
+            return NextResponse.json(
+                { error: 'Analysis not found' },
+                { status: 404 }
+            )
+        }
+
+        if (analysis.status !== 'completed') {
+            return NextResponse.json(
+                { error: `Analysis is ${analysis.status}`, status: analysis.status },
+                { status: 409 }
+            )
+        }
+
+        const approved = await approveAnalysis(params.id, user.name)
+
+        return NextResponse.json(approved)
+
+    } catch (error) {
+        console.error('Error approving analysis:', error)
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        )
+    }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { parseKmlBytes } from '@/lib/kml/parse'
+import { getAnalysis } from '@/lib/server/analysis-queue'
+import { authorize, canAccessAnalysis } from '@/lib/server/authorization'
+import { readUploadedFile } from '@/lib/server/uploaded-files'
+
+/**
+ * The parsed contents of an analysed file, for drawing it on the map
+ * Read from storage on each request so the browser never needs access to the bucket
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const { user, errorResponse } = await authorize(request)
+        if (!user) return errorResponse
+
+        const analysis = await getAnalysis(params.id)
+
+        if (!analysis || !(await canAccessAnalysis(user, analysis))) {
+            return NextResponse.json(
+                { error: 'Analysis not found' },
+                { status: 404 }
+            )
+        }
+
+        return NextResponse.json(parseKmlBytes(await readUploadedFile(analysis.fileKey)))
+
+    } catch (error) {
+        console.error('Error reading KML document:', error)
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        )
+    }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAnalysis } from '@/lib/server/analysis-queue'
+import { authorize, canAccessAnalysis } from '@/lib/server/authorization'
+import { findExternalOverlaps } from '@/lib/server/plot-index'
+
+/**
+ * Lists overlaps between an analysed file's plots and the plots of every other
+ * analysed file the user may see; overlaps within the file are part of the analysis result
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const { user, errorResponse } = await authorize(request)
+        if (!user) return errorResponse
+
+        const analysis = await getAnalysis(params.id)
+
+        if (!analysis || !(await canAccessAnalysis(user, analysis))) {
+            return NextResponse.json(
+                { error: 'Analysis not found' },
+                { status: 404 }
+            )
+        }
+
+        if (analysis.status !== 'completed') {
+            return NextResponse.json(
+                { error: `Analysis is ${analysis.status}`, status: analysis.status },
+                { status: 409 }
+            )
+        }
+
+        // Other files' names, plots and requests are only shown to users who can open them
+        const overlaps = await findExternalOverlaps(params.id)
+        const otherIds = overlaps
+            .map(overlap => overlap.other.analysisId)
+            .filter((id, index, all) => all.indexOf(id) === index)
+        const isVisible = await Promise.all(otherIds.map(async (id) => {
+            const other = await getAnalysis(id)
+            return !!other && canAccessAnalysis(user, other)
+        }))
+        const visibleIds = otherIds.filter((id, index) => isVisible[index])
+
+        return NextResponse.json({
+            overlaps: overlaps.filter(overlap => visibleIds.indexOf(overlap.other.analysisId) !== -1)
+        })
+
+    } catch (error) {
+        console.error('Error finding overlaps:', error)
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        )
+    }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { parseKmlBytes } from '@/lib/kml/parse'
+import { repairDocument } from '@/lib/kml/repair'
+import { serializeKml } from '@/lib/kml/serialize'
+import { getAnalysis } from '@/lib/server/analysis-queue'
+import { authorize, canAccessAnalysis } from '@/lib/server/authorization'
+import { readUploadedFile } from '@/lib/server/uploaded-files'
+
+/**
+ * Repairs the geometry of an analysed file
+ * Returns the corrected KML together with the per-Placemark change log
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const { user, errorResponse } = await authorize(request)
+        if (!user) return errorResponse
+
+        const analysis = await getAnalysis(params.id)
+
+        if (!analysis || !(await canAccessAnalysis(user, analysis))) {
+            return NextResponse.json(
+                { error: 'Analysis not found' },
+                { status: 404 }
+            )
+        }
+
+        const document = parseKmlBytes(await readUploadedFile(analysis.fileKey))
+        const { document: repaired, repairs } = repairDocument(document)
+        const baseName = analysis.fileName.replace(/\.km[lz]$/i, '')
+
+        return NextResponse.json({
+            fileName: `${baseName}_repaired.kml`,
+            repairs,
+            kml: serializeKml(repaired)
+        })
+
+    } catch (error) {
+        console.error('Error repairing KML:', error)
+        return NextResponse.json(
+            { error: error instanceof Error ? error.message : 'Internal server error' },
+            { status: 500 }
+        )
+    }
+}
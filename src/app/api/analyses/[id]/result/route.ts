@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAnalysis, getAnalysisResult } from '@/lib/server/analysis-queue'
+import { authorize, canAccessAnalysis } from '@/lib/server/authorization'
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const { user, errorResponse } = await authorize(request)
+        if (!user) return errorResponse
+
+        const analysis = await getAnalysis(params.id)
+
+        if (!analysis || !(await canAccessAnalysis(user, analysis))) {
+            return NextResponse.json(
+                { error: 'Analysis not found' },
+                { status: 404 }
+            )
+        }
+
+        if (analysis.status !== 'completed') {
+            return NextResponse.json(
+                { error: `Analysis is ${analysis.status}`, status: analysis.status },
+                { status: 409 }
+            )
+        }
+
+        const result = await getAnalysisResult(params.id)
+        if (!result) {
+            return NextResponse.json(
+                { error: 'Analysis result not found' },
+                { status: 404 }
+            )
+        }
+
+        return NextResponse.json(result)
+
+    } catch (error) {
+        console.error('Error fetching analysis result:', error)
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        )
+    }
+}
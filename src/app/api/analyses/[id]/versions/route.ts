@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isEditedPlacemark, type EditedPlacemark } from '@/lib/kml/edit'
+import { isKmz, readKmlSource, replaceKmzDocument } from '@/lib/kml/kmz'
+import { parseKml } from '@/lib/kml/parse'
+import { writePlacemarkEdits } from '@/lib/kml/write-edits'
+import { enqueueVersion, getAnalysis } from '@/lib/server/analysis-queue'
+import { authorize, canAccessAnalysis } from '@/lib/server/authorization'
+import { readJsonBody } from '@/lib/server/request-body'
+import { uploadKey } from '@/lib/server/storage'
+import { readUploadedFile, writeUploadedFile } from '@/lib/server/uploaded-files'
+
+/**
+ * Saves edited geometry or ExtendedData as a new version of an analysed file
+ * The body lists the Placemarks of the new version (see writePlacemarkEdits). The edits are
+ * written into the original file read back from storage, so everything not edited is taken
+ * from it, not from the browser, and a KMZ stays a KMZ with its other entries. The new file
+ * is stored and analysed like an upload, and replaces the original in its request.
+ */
+export async function POST(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const { user, errorResponse } = await authorize(request, 'kml:edit')
+        if (!user) return errorResponse
+
+        const analysis = await getAnalysis(params.id)
+
+        if (!analysis || !(await canAccessAnalysis(user, analysis))) {
+            return NextResponse.json(
+                { error: 'Analysis not found' },
+                { status: 404 }
+            )
+        }
+
+        if (analysis.supersededBy) {
+            return NextResponse.json(
+                { error: 'This file has already been replaced by a newer version' },
+                { status: 409 }
+            )
+        }
+
+        const { body, errorResponse: bodyErrorResponse } = await readJsonBody(request)
+        if (!body) return bodyErrorResponse
+        const { placemarks } = body
+        if (!Array.isArray(placemarks) || !placemarks.every(isEditedPlacemark)) {
+            return NextResponse.json(
+                { error: 'placemarks must be a list of edited Placemarks' },
+                { status: 400 }
+            )
+        }
+
+        const source = await readUploadedFile(analysis.fileKey)
+        const text = readKmlSource(source)
+        const document = parseKml(text)
+        const placemarkIds = document.placemarks.map(placemark => placemark.id)
+        const unknown = (placemarks as EditedPlacemark[]).filter(edit => placemarkIds.indexOf(edit.sourceId) === -1)
+        if (unknown.length > 0) {
+            return NextResponse.json(
+                { error: `Unknown Placemark ${unknown[0].sourceId}` },
+                { status: 400 }
+            )
+        }
+
+        const version = (analysis.version || 1) + 1
+        const extension = isKmz(source) ? 'kmz' : 'kml'
+        const fileName = `${analysis.fileName.replace(/(_v\d+)?\.km[lz]$/i, '')}_v${version}.${extension}`
+        const fileKey = uploadKey(fileName)
+        const kml = writePlacemarkEdits(text, document, placemarks)
+        await writeUploadedFile(fileKey, isKmz(source) ? replaceKmzDocument(source, kml) : new TextEncoder().encode(kml))
+
+        // Checked again under the lock: another save may have replaced the original meanwhile
+        const job = await enqueueVersion({
+            fileKey,
+            fileName,
+            requestId: analysis.requestId,
+            createdBy: user.id,
+            versionOf: analysis.id,
+            version
+        })
+        if (!job) {
+            return NextResponse.json(
+                { error: 'This file has already been replaced by a newer version' },
+                { status: 409 }
+            )
+        }
+
+        return NextResponse.json(
+            { analysisId: job.id, fileName, status: job.status },
+            { status: 202 }
+        )
+
+    } catch (error) {
+        console.error('Error saving KML version:', error)
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        )
+    }
+}
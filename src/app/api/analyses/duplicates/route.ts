@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { findDuplicateAnalyses, type FileDuplicate } from '@/lib/server/analysis-queue'
+import { authorize, canAccessAnalysis } from '@/lib/server/authorization'
+
+const SHA256_HEX = /^[0-9a-f]{64}$/
+
+export async function GET(request: NextRequest) {
+    try {
+        const { user, errorResponse } = await authorize(request, 'kml:upload')
+        if (!user) return errorResponse
+
+        const contentHash = request.nextUrl.searchParams.get('contentHash') || ''
+        const geometryFingerprint = request.nextUrl.searchParams.get('geometryFingerprint') || null
+
+        if (!SHA256_HEX.test(contentHash) || (geometryFingerprint && !SHA256_HEX.test(geometryFingerprint))) {
+            return NextResponse.json(
+                { error: 'contentHash and geometryFingerprint must be SHA-256 hex digests' },
+                { status: 400 }
+            )
+        }
+
+        const matches = await findDuplicateAnalyses({ contentHash, geometryFingerprint })
+        const isVisible = await Promise.all(matches.map(job => canAccessAnalysis(user, job)))
+        const duplicates: FileDuplicate[] = matches
+            .filter((job, index) => isVisible[index])
+            .map(job => ({
+                analysisId: job.id,
+                fileName: job.fileName,
+                requestId: job.requestId,
+                createdAt: job.createdAt,
+                match: job.match
+            }))
+
+        return NextResponse.json({ duplicates })
+
+    } catch (error) {
+        console.error('Error finding duplicate files:', error)
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        )
+    }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { enqueueAnalysis, listAnalyses } from '@/lib/server/analysis-queue'
+import { authorize, canAccessAnalysis, canAccessRequest } from '@/lib/server/authorization'
+import { readJsonBody } from '@/lib/server/request-body'
+import { getRequest } from '@/lib/server/requests'
+import { isUploadKeyOf } from '@/lib/server/upload-keys'
+
+export async function POST(request: NextRequest) {
+    try {
+        const { user, errorResponse } = await authorize(request, 'kml:upload')
+        if (!user) return errorResponse
+
+        const { body, errorResponse: bodyErrorResponse } = await readJsonBody(request)
+        if (!body) return bodyErrorResponse
+        const { fileKey } = body
+        const fileName = typeof body.fileName === 'string' ? body.fileName : undefined
+        const requestId = typeof body.requestId === 'string' ? body.requestId : undefined
+
+        if (!fileKey || typeof fileKey !== 'string') {
+            return NextResponse.json(
+                { error: 'fileKey is required' },
+                { status: 400 }
+            )
+        }
+
+        // Only files the user uploaded, so other clients' keys cannot be analysed and read back
+        if (!(await isUploadKeyOf(fileKey, user.id))) {
+            return NextResponse.json(
+                { error: 'File not found' },
+                { status: 404 }
+            )
+        }
+
+        if (requestId) {
+            const clientRequest = await getRequest(requestId)
+            if (!clientRequest || !canAccessRequest(user, clientRequest)) {
+                return NextResponse.json(
+                    { error: `Request ${requestId} not found` },
+                    { status: 404 }
+                )
+            }
+        }
+
+        const job = await enqueueAnalysis({ fileKey, fileName, requestId, createdBy: user.id })
+
+        return NextResponse.json(
+            { analysisId: job.id, status: job.status, progress: job.progress },
+            { status: 202 }
+        )
+
+    } catch (error) {
+        console.error('Error queueing analysis:', error)
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        )
+    }
+}
+
+export async function GET(request: NextRequest) {
+    try {
+        const { user, errorResponse } = await authorize(request)
+        if (!user) return errorResponse
+
+        const requestId = request.nextUrl.searchParams.get('requestId') || undefined
+        const analyses = await listAnalyses({ requestId })
+        const isVisible = await Promise.all(analyses.map(job => canAccessAnalysis(user, job)))
+
+        return NextResponse.json({ analyses: analyses.filter((job, index) => isVisible[index]) })
+
+    } catch (error) {
+        console.error('Error listing analyses:', error)
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        )
+    }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { sessionCookieOptions, validatePassword } from '@/lib/server/auth'
+import { acceptInvitation, getInvitationByToken } from '@/lib/server/invitations'
+import { readJsonBody } from '@/lib/server/request-body'
+import { SESSION_COOKIE } from '@/lib/server/session-token'
+
+/**
+ * Shows who an invitation link is for, before the invitee picks a password
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: { params: { token: string } }
+) {
+    try {
+        const invitation = await getInvitationByToken(params.token)
+
+        if (!invitation) {
+            return NextResponse.json(
+                { error: 'This invitation link is invalid or has expired' },
+                { status: 404 }
+            )
+        }
+
+        return NextResponse.json({ email: invitation.email, name: invitation.name, role: invitation.role })
+
+    } catch (error) {
+        console.error('Error reading invitation:', error)
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        )
+    }
+}
+
+/**
+ * Accepts an invitation: creates the account and logs the new user in
+ */
+export async function POST(
+    request: NextRequest,
+    { params }: { params: { token: string } }
+) {
+    try {
+        const { body, errorResponse: bodyErrorResponse } = await readJsonBody(request)
+        if (!body) return bodyErrorResponse
+        const { name, password } = body
+        const passwordError = validatePassword(password)
+
+        if (passwordError) {
+            return NextResponse.json(
+                { error: passwordError },
+                { status: 400 }
+            )
+        }
+
+        const accepted = await acceptInvitation(params.token, {
+            name: typeof name === 'string' ? name.trim() : '',
+            password: password as string
+        })
+
+        if (!accepted) {
+            return NextResponse.json(
+                { error: 'This invitation link is invalid or has expired' },
+                { status: 404 }
+            )
+        }
+
+        const response = NextResponse.json({ user: accepted.user }, { status: 201 })
+        response.cookies.set(SESSION_COOKIE, accepted.session.token, sessionCookieOptions(accepted.session.maxAge))
+        return response
+
+    } catch (error) {
+        console.error('Error accepting invitation:', error)
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        )
+    }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticate, createSession, sessionCookieOptions } from '@/lib/server/auth'
+import { clearFailedLogins, getLockoutSeconds, recordFailedLogin } from '@/lib/server/login-throttle'
+import { readJsonBody } from '@/lib/server/request-body'
+import { SESSION_COOKIE } from '@/lib/server/session-token'
+
+export async function POST(request: NextRequest) {
+    try {
+        const { body, errorResponse: bodyErrorResponse } = await readJsonBody(request)
+        if (!body) return bodyErrorResponse
+        const { email, password, rememberMe } = body
+
+        if (typeof email !== 'string' || typeof password !== 'string' || !email || !password) {
+            return NextResponse.json(
+                { error: 'email and password are required' },
+                { status: 400 }
+            )
+        }
+
+        const ip = clientIp(request)
+        const lockoutSeconds = await getLockoutSeconds(email, ip)
+        if (lockoutSeconds > 0) {
+            return lockedOutResponse(lockoutSeconds)
+        }
+
+        const user = await authenticate(email, password)
+
+        if (!user) {
+            const newLockoutSeconds = await recordFailedLogin(email, ip)
+            if (newLockoutSeconds > 0) {
+                return lockedOutResponse(newLockoutSeconds)
+            }
+            return NextResponse.json(
+                { error: 'Invalid email or password' },
+                { status: 401 }
+            )
+        }
+
+        await clearFailedLogins(email)
+        const { token, maxAge, info } = await createSession(user.id, rememberMe === true)
+        const response = NextResponse.json({ user, session: info })
+        response.cookies.set(SESSION_COOKIE, token, sessionCookieOptions(maxAge))
+        return response
+
+    } catch (error) {
+        console.error('Error logging in:', error)
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        )
+    }
+}
+
+function lockedOutResponse(retryAfterSeconds: number) {
+    const minutes = Math.ceil(retryAfterSeconds / 60)
+    return NextResponse.json(
+        { error: `Too many failed login attempts. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.` },
+        { status: 429, headers: { 'Retry-After': String(retryAfterSeconds) } }
+    )
+}
+
+function clientIp(request: NextRequest): string | null {
+    // The first x-forwarded-for entry is the client as seen by the outermost proxy
+    const forwardedFor = request.headers.get('x-forwarded-for')
+    return request.ip || (forwardedFor ? forwardedFor.split(',')[0].trim() : null) || null
+}
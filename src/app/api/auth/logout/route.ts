@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { destroySession, sessionCookieOptions } from '@/lib/server/auth'
+import { SESSION_COOKIE } from '@/lib/server/session-token'
+
+export async function POST(request: NextRequest) {
+    try {
+        await destroySession(request.cookies.get(SESSION_COOKIE)?.value)
+
+        const response = new NextResponse(null, { status: 204 })
+        response.cookies.set(SESSION_COOKIE, '', sessionCookieOptions(0))
+        return response
+
+    } catch (error) {
+        console.error('Error logging out:', error)
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        )
+    }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getSessionInfo } from '@/lib/server/auth'
+import { SESSION_COOKIE } from '@/lib/server/session-token'
+
+export async function GET(request: NextRequest) {
+    try {
+        const current = await getSessionInfo(request.cookies.get(SESSION_COOKIE)?.value)
+
+        if (!current) {
+            return NextResponse.json(
+                { error: 'Not authenticated' },
+                { status: 401 }
+            )
+        }
+
+        return NextResponse.json(current)
+
+    } catch (error) {
+        console.error('Error reading session:', error)
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        )
+    }
+}
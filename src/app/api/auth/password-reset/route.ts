@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { validatePassword } from '@/lib/server/auth'
+import { resetPassword } from '@/lib/server/password-resets'
+import { readJsonBody } from '@/lib/server/request-body'
+
+/**
+ * Sets a new password with the token of a password-reset link
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const { body, errorResponse: bodyErrorResponse } = await readJsonBody(request)
+        if (!body) return bodyErrorResponse
+        const { token, password } = body
+
+        if (typeof token !== 'string' || !token) {
+            return NextResponse.json(
+                { error: 'token is required' },
+                { status: 400 }
+            )
+        }
+
+        const passwordError = validatePassword(password)
+        if (passwordError) {
+            return NextResponse.json(
+                { error: passwordError },
+                { status: 400 }
+            )
+        }
+
+        const user = await resetPassword(token, password as string)
+
+        if (!user) {
+            return NextResponse.json(
+                { error: 'This reset link is invalid or has expired' },
+                { status: 404 }
+            )
+        }
+
+        return new NextResponse(null, { status: 204 })
+
+    } catch (error) {
+        console.error('Error resetting password:', error)
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        )
+    }
+}
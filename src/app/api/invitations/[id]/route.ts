@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/server/authorization'
+import { revokeInvitation } from '@/lib/server/invitations'
+
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const { user, errorResponse } = await authorize(request, 'users:manage')
+        if (!user) return errorResponse
+
+        const isRevoked = await revokeInvitation(params.id)
+
+        if (!isRevoked) {
+            return NextResponse.json(
+                { error: 'Invitation not found' },
+                { status: 404 }
+            )
+        }
+
+        return new NextResponse(null, { status: 204 })
+
+    } catch (error) {
+        console.error('Error revoking invitation:', error)
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        )
+    }
+}
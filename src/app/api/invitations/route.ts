@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/server/authorization'
+import {
+    createInvitation,
+    listInvitations,
+    parseInvitationInput,
+    type InvitationInput
+} from '@/lib/server/invitations'
+import { readJsonBody } from '@/lib/server/request-body'
+
+export async function GET(request: NextRequest) {
+    try {
+        const { user, errorResponse } = await authorize(request, 'users:manage')
+        if (!user) return errorResponse
+
+        return NextResponse.json({ invitations: await listInvitations() })
+
+    } catch (error) {
+        console.error('Error listing invitations:', error)
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        )
+    }
+}
+
+/**
+ * Invites a colleague by email
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const { user, errorResponse } = await authorize(request, 'users:manage')
+        if (!user) return errorResponse
+
+        const { body, errorResponse: bodyErrorResponse } = await readJsonBody(request)
+        if (!body) return bodyErrorResponse
+        const { input, error } = await parseInvitationInput(body)
+
+        if (error) {
+            return NextResponse.json(
+                { error },
+                { status: 400 }
+            )
+        }
+
+        const invitation = await createInvitation(input as InvitationInput, user, request.nextUrl.origin)
+
+        return NextResponse.json(invitation, { status: 201 })
+
+    } catch (error) {
+        console.error('Error creating invitation:', error)
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        )
+    }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/server/authorization'
+import { listMail } from '@/lib/server/mailer'
+
+/**
+ * Lists the messages caught by the local mail outbox
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const { user, errorResponse } = await authorize(request, 'users:manage')
+        if (!user) return errorResponse
+
+        return NextResponse.json({ messages: await listMail() })
+
+    } catch (error) {
+        console.error('Error listing mail:', error)
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        )
+    }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/server/authorization'
+import { completeMultipartUpload, getMultipartUpload } from '@/lib/server/multipart-uploads'
+import { recordUploadKey } from '@/lib/server/upload-keys'
+
+export async function POST(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const { user, errorResponse } = await authorize(request, 'kml:upload')
+        if (!user) return errorResponse
+
+        const upload = await getMultipartUpload(params.id)
+
+        if (!upload || upload.createdBy !== user.id) {
+            return NextResponse.json(
+                { error: 'Upload not found' },
+                { status: 404 }
+            )
+        }
+
+        const result = await completeMultipartUpload(upload.id)
+
+        if ('error' in result) {
+            return NextResponse.json(
+                { error: result.error },
+                { status: 409 }
+            )
+        }
+
+        await recordUploadKey(result.fileKey, user.id)
+        return NextResponse.json(result)
+
+    } catch (error) {
+        console.error('Error completing multipart upload:', error)
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        )
+    }
+}
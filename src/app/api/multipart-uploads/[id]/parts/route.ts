@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/server/authorization'
+import { getMultipartUpload, presignPartUrls } from '@/lib/server/multipart-uploads'
+import { readJsonBody } from '@/lib/server/request-body'
+
+export async function POST(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const { user, errorResponse } = await authorize(request, 'kml:upload')
+        if (!user) return errorResponse
+
+        const upload = await getMultipartUpload(params.id)
+
+        if (!upload || upload.createdBy !== user.id) {
+            return NextResponse.json(
+                { error: 'Upload not found' },
+                { status: 404 }
+            )
+        }
+
+        const { body, errorResponse: bodyErrorResponse } = await readJsonBody(request)
+        if (!body) return bodyErrorResponse
+        const { partNumbers } = body
+        const isValid = Array.isArray(partNumbers) && partNumbers.length > 0 && partNumbers.every(
+            (partNumber: unknown) => Number.isInteger(partNumber) && (partNumber as number) >= 1 && (partNumber as number) <= upload.partCount
+        )
+
+        if (!isValid) {
+            return NextResponse.json(
+                { error: `partNumbers must be a list of part numbers from 1 to ${upload.partCount}` },
+                { status: 400 }
+            )
+        }
+
+        return NextResponse.json({ parts: await presignPartUrls(upload.id, partNumbers) })
+
+    } catch (error) {
+        console.error('Error presigning upload parts:', error)
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        )
+    }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/server/authorization'
+import { abortMultipartUpload, getMultipartUpload, listUploadedParts } from '@/lib/server/multipart-uploads'
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const { user, errorResponse } = await authorize(request, 'kml:upload')
+        if (!user) return errorResponse
+
+        const upload = await getMultipartUpload(params.id)
+
+        if (!upload || upload.createdBy !== user.id) {
+            return NextResponse.json(
+                { error: 'Upload not found' },
+                { status: 404 }
+            )
+        }
+
+        return NextResponse.json({ upload, uploadedParts: await listUploadedParts(upload.id) })
+
+    } catch (error) {
+        console.error('Error fetching multipart upload:', error)
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        )
+    }
+}
+
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const { user, errorResponse } = await authorize(request, 'kml:upload')
+        if (!user) return errorResponse
+
+        const upload = await getMultipartUpload(params.id)
+
+        if (!upload || upload.createdBy !== user.id) {
+            return NextResponse.json(
+                { error: 'Upload not found' },
+                { status: 404 }
+            )
+        }
+
+        await abortMultipartUpload(upload.id)
+        return new NextResponse(null, { status: 204 })
+
+    } catch (error) {
+        console.error('Error aborting multipart upload:', error)
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        )
+    }
+}
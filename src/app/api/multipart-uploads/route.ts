@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/server/authorization'
+import {
+    createMultipartUpload,
+    parseMultipartUploadInput,
+    type MultipartUploadInput
+} from '@/lib/server/multipart-uploads'
+import { readJsonBody } from '@/lib/server/request-body'
+
+export async function POST(request: NextRequest) {
+    try {
+        const { user, errorResponse } = await authorize(request, 'kml:upload')
+        if (!user) return errorResponse
+
+        const { body, errorResponse: bodyErrorResponse } = await readJsonBody(request)
+        if (!body) return bodyErrorResponse
+        const { input, error } = parseMultipartUploadInput(body)
+
+        if (error) {
+            return NextResponse.json(
+                { error },
+                { status: 400 }
+            )
+        }
+
+        const upload = await createMultipartUpload(input as MultipartUploadInput, user.id)
+        return NextResponse.json({ upload }, { status: 201 })
+
+    } catch (error) {
+        console.error('Error starting multipart upload:', error)
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        )
+    }
+}
@@ -1,104 +1,45 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/server/authorization'
+import { readJsonBody } from '@/lib/server/request-body'
+import { getStorage, uploadKey, UPLOAD_URL_TTL_SECONDS } from '@/lib/server/storage'
+import { recordUploadKey } from '@/lib/server/upload-keys'
 
 export async function POST(request: NextRequest) {
     try {
-        const { fileName } = await request.json()
+        const { user, errorResponse } = await authorize(request, 'kml:upload')
+        if (!user) return errorResponse
 
-        if (!fileName) {
+        const { body, errorResponse: bodyErrorResponse } = await readJsonBody(request)
+        if (!body) return bodyErrorResponse
+        const { fileName } = body
+
+        if (typeof fileName !== 'string' || !fileName.trim()) {
             return NextResponse.json(
                 { error: 'fileName is required' },
                 { status: 400 }
             )
         }
-
-        // Make the request to your Lambda function
-        const response = await fetch('https://d356av4sajwc2nzt2zi62sjoyq0oimyh.lambda-url.ap-south-1.on.aws/', {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-            },
-            body: JSON.stringify({
-                fileName: fileName // fileName now includes the input_kml_files/ prefix
-            })
-        })
-
-        if (!response.ok) {
+        if (!/\.km[lz]$/i.test(fileName)) {
             return NextResponse.json(
-                { error: `Lambda function returned ${response.status}: ${response.statusText}` },
-                { status: response.status }
+                { error: 'Only KML and KMZ files are allowed' },
+                { status: 400 }
             )
         }
 
-        const data = await response.json()
+        const fileKey = uploadKey(fileName.trim())
+        const presignedUrl = getStorage().presignPut(fileKey, UPLOAD_URL_TTL_SECONDS)
+        await recordUploadKey(fileKey, user.id)
 
-        // Log the response for debugging
-        console.log('Lambda function response:', data)
-        console.log('Lambda fileKey:', data.fileKey)
-        console.log('Lambda uploadUrl:', data.uploadUrl)
-
-        // Check if the response has the expected format
-        if (!data.uploadUrl) {
-            console.warn('Lambda function did not return uploadUrl, using fallback')
-
-            // Fallback response for testing
-            const fallbackData = {
-                presignedUrl: `https://mock-s3-bucket.s3.amazonaws.com/${fileName}?X-Amz-Algorithm=AWS4-HMAC-SHA256&X-Amz-Credential=mock&X-Amz-Date=${new Date().toISOString().replace(/[-:]/g, '').split('.')[0]}Z&X-Amz-Expires=3600&X-Amz-SignedHeaders=host&X-Amz-Signature=mock`,
-                fileKey: `${fileName}`,
-                expiresIn: 3600,
-                fields: {
-                    'Content-Type': 'application/vnd.google-earth.kml',
-                    'x-amz-meta-original-name': fileName.split('/').pop() || fileName,
-                    'x-amz-meta-upload-timestamp': Date.now().toString()
-                }
-            }
-
-            return NextResponse.json(fallbackData, {
-                status: 200,
-                headers: {
-                    'Access-Control-Allow-Origin': '*',
-                    'Access-Control-Allow-Methods': 'POST, OPTIONS',
-                    'Access-Control-Allow-Headers': 'Content-Type',
-                },
-            })
-        }
-
-        // Transform the Lambda response to match expected format
-        const transformedData = {
-            presignedUrl: data.uploadUrl,
-            fileKey: data.fileKey || `${fileName}`,
-            expiresIn: data.expiresIn || 3600,
-            fields: data.fields || {
-                'x-amz-meta-original-name': fileName.split('/').pop() || fileName, // Extract just the filename for metadata
-                'x-amz-meta-upload-timestamp': Date.now().toString()
-            }
-        }
-
-        // Return the transformed response with proper CORS headers
-        return NextResponse.json(transformedData, {
-            status: 200,
-            headers: {
-                'Access-Control-Allow-Origin': '*',
-                'Access-Control-Allow-Methods': 'POST, OPTIONS',
-                'Access-Control-Allow-Headers': 'Content-Type',
-            },
-        })
+        return NextResponse.json(
+            { presignedUrl, fileKey, expiresIn: UPLOAD_URL_TTL_SECONDS },
+            { status: 200 }
+        )
 
     } catch (error) {
-        console.error('Error in presigned URL proxy:', error)
+        console.error('Error creating presigned URL:', error)
         return NextResponse.json(
             { error: 'Internal server error' },
             { status: 500 }
         )
     }
 }
-
-export async function OPTIONS() {
-    return new NextResponse(null, {
-        status: 200,
-        headers: {
-            'Access-Control-Allow-Origin': '*',
-            'Access-Control-Allow-Methods': 'POST, OPTIONS',
-            'Access-Control-Allow-Headers': 'Content-Type',
-        },
-    })
-}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize } from '@/lib/server/authorization'
+import {
+    getProjectDetails,
+    parseProjectInput,
+    updateProject
+} from '@/lib/server/projects'
+import { readJsonBody } from '@/lib/server/request-body'
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const { user, errorResponse } = await authorize(request, 'projects:view')
+        if (!user) return errorResponse
+
+        const project = await getProjectDetails(params.id)
+
+        if (!project) {
+            return NextResponse.json(
+                { error: 'Project not found' },
+                { status: 404 }
+            )
+        }
+
+        return NextResponse.json(project)
+
+    } catch (error) {
+        console.error('Error fetching project:', error)
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        )
+    }
+}
+
+/**
+ * Edits a project; archiving is a status change to "Archived"
+ */
+export async function PATCH(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const { user, errorResponse } = await authorize(request, 'projects:manage')
+        if (!user) return errorResponse
+
+        const { body, errorResponse: bodyErrorResponse } = await readJsonBody(request)
+        if (!body) return bodyErrorResponse
+        const { input, error } = parseProjectInput(body, true)
+
+        if (error) {
+            return NextResponse.json(
+                { error },
+                { status: 400 }
+            )
+        }
+
+        const project = await updateProject(params.id, input)
+
+        if (!project) {
+            return NextResponse.json(
+                { error: 'Project not found' },
+                { status: 404 }
+            )
+        }
+
+        return NextResponse.json(project)
+
+    } catch (error) {
+        console.error('Error updating project:', error)
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        )
+    }
+}
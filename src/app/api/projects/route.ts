@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+    createProject,
+    listProjects,
+    parseProjectInput,
+    type ProjectInput
+} from '@/lib/server/projects'
+import { authorize } from '@/lib/server/authorization'
+import { readJsonBody } from '@/lib/server/request-body'
+
+export async function GET(request: NextRequest) {
+    try {
+        const { user, errorResponse } = await authorize(request, 'projects:view')
+        if (!user) return errorResponse
+
+        const projects = await listProjects()
+
+        return NextResponse.json({ projects })
+
+    } catch (error) {
+        console.error('Error listing projects:', error)
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        )
+    }
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const { user, errorResponse } = await authorize(request, 'projects:manage')
+        if (!user) return errorResponse
+
+        const { body, errorResponse: bodyErrorResponse } = await readJsonBody(request)
+        if (!body) return bodyErrorResponse
+        const { input, error } = parseProjectInput(body)
+
+        if (error) {
+            return NextResponse.json(
+                { error },
+                { status: 400 }
+            )
+        }
+
+        const project = await createProject(input as ProjectInput)
+
+        return NextResponse.json(project, { status: 201 })
+
+    } catch (error) {
+        console.error('Error creating project:', error)
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        )
+    }
+}
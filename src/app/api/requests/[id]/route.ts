@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize, canAccessRequest } from '@/lib/server/authorization'
+import { getProject } from '@/lib/server/projects'
+import { readJsonBody } from '@/lib/server/request-body'
+import {
+    deleteRequest,
+    getRequest,
+    parseRequestInput,
+    updateRequest,
+    validateAssignees
+} from '@/lib/server/requests'
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const { user, errorResponse } = await authorize(request)
+        if (!user) return errorResponse
+
+        const clientRequest = await getRequest(params.id)
+
+        if (!clientRequest || !canAccessRequest(user, clientRequest)) {
+            return NextResponse.json(
+                { error: 'Request not found' },
+                { status: 404 }
+            )
+        }
+
+        return NextResponse.json(clientRequest)
+
+    } catch (error) {
+        console.error('Error fetching request:', error)
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        )
+    }
+}
+
+export async function PATCH(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const { user, errorResponse } = await authorize(request, 'requests:manage')
+        if (!user) return errorResponse
+
+        const { body, errorResponse: bodyErrorResponse } = await readJsonBody(request)
+        if (!body) return bodyErrorResponse
+        const { input, error } = parseRequestInput(body, true)
+
+        if (error) {
+            return NextResponse.json(
+                { error },
+                { status: 400 }
+            )
+        }
+
+        if (input.projectId && !(await getProject(input.projectId))) {
+            return NextResponse.json(
+                { error: `Project ${input.projectId} not found` },
+                { status: 400 }
+            )
+        }
+
+        const assigneeError = await validateAssignees(input.assignedUserIds)
+        if (assigneeError) {
+            return NextResponse.json(
+                { error: assigneeError },
+                { status: 400 }
+            )
+        }
+
+        const updated = await updateRequest(params.id, input)
+
+        if (!updated) {
+            return NextResponse.json(
+                { error: 'Request not found' },
+                { status: 404 }
+            )
+        }
+
+        return NextResponse.json(updated)
+
+    } catch (error) {
+        console.error('Error updating request:', error)
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        )
+    }
+}
+
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const { user, errorResponse } = await authorize(request, 'requests:manage')
+        if (!user) return errorResponse
+
+        const isDeleted = await deleteRequest(params.id)
+
+        if (!isDeleted) {
+            return NextResponse.json(
+                { error: 'Request not found' },
+                { status: 404 }
+            )
+        }
+
+        return new NextResponse(null, { status: 204 })
+
+    } catch (error) {
+        console.error('Error deleting request:', error)
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        )
+    }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorize, canAccessRequest } from '@/lib/server/authorization'
+import { getProject } from '@/lib/server/projects'
+import { readJsonBody } from '@/lib/server/request-body'
+import {
+    createRequest,
+    listRequests,
+    parseRequestInput,
+    validateAssignees,
+    type ClientRequestInput
+} from '@/lib/server/requests'
+
+export async function GET(request: NextRequest) {
+    try {
+        const { user, errorResponse } = await authorize(request)
+        if (!user) return errorResponse
+
+        const requests = (await listRequests()).filter(clientRequest => canAccessRequest(user, clientRequest))
+
+        return NextResponse.json({ requests })
+
+    } catch (error) {
+        console.error('Error listing requests:', error)
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        )
+    }
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const { user, errorResponse } = await authorize(request, 'requests:manage')
+        if (!user) return errorResponse
+
+        const { body, errorResponse: bodyErrorResponse } = await readJsonBody(request)
+        if (!body) return bodyErrorResponse
+        const { input, error } = parseRequestInput(body)
+
+        if (error) {
+            return NextResponse.json(
+                { error },
+                { status: 400 }
+            )
+        }
+
+        if (input.projectId && !(await getProject(input.projectId))) {
+            return NextResponse.json(
+                { error: `Project ${input.projectId} not found` },
+                { status: 400 }
+            )
+        }
+
+        const assigneeError = await validateAssignees(input.assignedUserIds)
+        if (assigneeError) {
+            return NextResponse.json(
+                { error: assigneeError },
+                { status: 400 }
+            )
+        }
+
+        const created = await createRequest(input as ClientRequestInput)
+
+        return NextResponse.json(created, { status: 201 })
+
+    } catch (error) {
+        console.error('Error creating request:', error)
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        )
+    }
+}
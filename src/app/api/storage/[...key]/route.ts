@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { verifyLocalUrl, writeLocalObject } from '@/lib/server/local-storage'
+import { getStorage, MAX_UPLOAD_BYTES } from '@/lib/server/storage'
+import { limitStreamSize } from '@/lib/server/upload-stream'
+
+/**
+ * Presigned URLs of the local storage backend
+ * The URL's signature is the permission, as with S3, so no role is checked here.
+ */
+
+export async function GET(
+    request: NextRequest,
+    { params }: { params: { key: string[] } }
+) {
+    try {
+        const key = params.key.join('/')
+        const refusal = checkRequest(request, key)
+        if (refusal) return refusal
+
+        const storage = getStorage()
+        const object = await storage.head(key)
+        if (!object) {
+            return NextResponse.json(
+                { error: 'File not found' },
+                { status: 404 }
+            )
+        }
+
+        return new NextResponse(Buffer.from(await storage.read(key)), {
+            status: 200,
+            headers: {
+                'Content-Type': 'application/octet-stream',
+                'Content-Length': String(object.size),
+                'Last-Modified': new Date(object.lastModified).toUTCString()
+            }
+        })
+
+    } catch (error) {
+        console.error('Error reading stored file:', error)
+        return NextResponse.json(
+            { error: 'Failed to read file' },
+            { status: 500 }
+        )
+    }
+}
+
+export async function PUT(
+    request: NextRequest,
+    { params }: { params: { key: string[] } }
+) {
+    try {
+        const key = params.key.join('/')
+        const refusal = checkRequest(request, key)
+        if (refusal) return refusal
+
+        const size = Number(request.headers.get('content-length'))
+        if (!size || !request.body) {
+            return NextResponse.json(
+                { error: 'Content-Length is required' },
+                { status: 411 }
+            )
+        }
+        if (size > MAX_UPLOAD_BYTES) {
+            return NextResponse.json(
+                { error: 'File size exceeds 50MB limit' },
+                { status: 413 }
+            )
+        }
+
+        await writeLocalObject(key, limitStreamSize(request.body, size))
+        return new NextResponse(null, { status: 200 })
+
+    } catch (error) {
+        console.error('Error storing file:', error)
+        return NextResponse.json(
+            { error: 'Failed to store file' },
+            { status: 500 }
+        )
+    }
+}
+
+function checkRequest(request: NextRequest, key: string): NextResponse | null {
+    // Other backends hand out their own URLs
+    if (getStorage().type !== 'local') {
+        return NextResponse.json(
+            { error: 'Not found' },
+            { status: 404 }
+        )
+    }
+
+    if (!verifyLocalUrl(request.method, key, request.nextUrl.searchParams)) {
+        return NextResponse.json(
+            { error: 'Invalid or expired URL' },
+            { status: 403 }
+        )
+    }
+
+    return null
+}
@@ -1,33 +1,65 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { sniffKmlFormat } from '@/lib/kml/inspect'
+import { authorize } from '@/lib/server/authorization'
+import { getStorage, MAX_UPLOAD_BYTES } from '@/lib/server/storage'
+import { limitStreamSize, peekStream } from '@/lib/server/upload-stream'
 
+// Enough to get past an XML declaration and leading comments to the <kml> element
+const SNIFF_BYTES = 4096
+
+/**
+ * Uploads a file to storage on behalf of browsers that cannot reach it directly
+ * The raw file is the request body and `presignedUrl` (from /api/presigned-url) says
+ * where it goes. Only URLs of the configured storage are accepted, and the body is
+ * streamed through rather than buffered.
+ */
 export async function POST(request: NextRequest) {
     try {
-        const formData = await request.formData()
-        const file = formData.get('file') as File
-        const presignedUrl = formData.get('presignedUrl') as string
+        const { user, errorResponse } = await authorize(request, 'kml:upload')
+        if (!user) return errorResponse
 
-        if (!file || !presignedUrl) {
+        const presignedUrl = request.nextUrl.searchParams.get('presignedUrl')
+        if (!presignedUrl || !request.body) {
             return NextResponse.json(
-                { error: 'File and presignedUrl are required' },
+                { error: 'File body and presignedUrl are required' },
                 { status: 400 }
             )
         }
 
-        // Upload file to S3 using the presigned URL
-        const uploadResponse = await fetch(presignedUrl, {
-            method: 'PUT',
-            body: file,
-            headers: {
-                'Content-Type': file.type,
-            }
-        })
+        const size = Number(request.headers.get('content-length'))
+        if (!size) {
+            return NextResponse.json(
+                { error: 'Content-Length is required' },
+                { status: 411 }
+            )
+        }
+        if (size > MAX_UPLOAD_BYTES) {
+            return NextResponse.json(
+                { error: 'File size exceeds 50MB limit' },
+                { status: 413 }
+            )
+        }
 
-        if (!uploadResponse.ok) {
-            throw new Error(`S3 upload failed: ${uploadResponse.status}`)
+        const storage = getStorage()
+        const fileKey = storage.keyFromUrl(presignedUrl)
+        if (!fileKey) {
+            return NextResponse.json(
+                { error: 'presignedUrl is not an upload URL of the configured storage' },
+                { status: 400 }
+            )
+        }
+
+        const { head, body } = await peekStream(request.body, SNIFF_BYTES)
+        const expectedFormat = /\.kmz$/i.test(fileKey) ? 'kmz' : 'kml'
+        if (sniffKmlFormat(head) !== expectedFormat) {
+            await body.cancel()
+            return NextResponse.json(
+                { error: `The file is not a valid ${expectedFormat.toUpperCase()} file` },
+                { status: 415 }
+            )
         }
 
-        // Extract file key from presigned URL
-        const fileKey = presignedUrl.split('/').pop()?.split('?')[0] || `input_kml_files/${Date.now()}-${file.name}`
+        await storage.putToUrl(presignedUrl, limitStreamSize(body, size), size)
 
         return NextResponse.json({
             success: true,
@@ -43,14 +75,3 @@ export async function POST(request: NextRequest) {
         )
     }
 }
-
-export async function OPTIONS() {
-    return new NextResponse(null, {
-        status: 200,
-        headers: {
-            'Access-Control-Allow-Origin': '*',
-            'Access-Control-Allow-Methods': 'POST, OPTIONS',
-            'Access-Control-Allow-Headers': 'Content-Type',
-        },
-    })
-}
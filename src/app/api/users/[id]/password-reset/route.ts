@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getUser } from '@/lib/server/auth'
+import { authorize } from '@/lib/server/authorization'
+import { sendPasswordReset } from '@/lib/server/password-resets'
+
+/**
+ * Emails a password-reset link to a user
+ */
+export async function POST(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const { user, errorResponse } = await authorize(request, 'users:manage')
+        if (!user) return errorResponse
+
+        const target = await getUser(params.id)
+
+        if (!target) {
+            return NextResponse.json(
+                { error: 'User not found' },
+                { status: 404 }
+            )
+        }
+
+        await sendPasswordReset(target, request.nextUrl.origin)
+
+        return new NextResponse(null, { status: 204 })
+
+    } catch (error) {
+        console.error('Error sending password reset:', error)
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        )
+    }
+}
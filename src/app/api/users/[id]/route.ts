@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isRole, ROLES } from '@/lib/roles'
+import { updateUser, type User } from '@/lib/server/auth'
+import { authorize } from '@/lib/server/authorization'
+import { readJsonBody } from '@/lib/server/request-body'
+
+/**
+ * Changes a user's name, role or active status
+ * Admins cannot demote or deactivate themselves, so there is always an admin left.
+ */
+export async function PATCH(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const { user, errorResponse } = await authorize(request, 'users:manage')
+        if (!user) return errorResponse
+
+        const { body, errorResponse: bodyErrorResponse } = await readJsonBody(request)
+        if (!body) return bodyErrorResponse
+        const changes: Partial<Pick<User, 'name' | 'role' | 'isActive'>> = {}
+
+        if (body.name !== undefined) {
+            if (typeof body.name !== 'string' || !body.name.trim()) {
+                return NextResponse.json(
+                    { error: 'name must be a non-empty string' },
+                    { status: 400 }
+                )
+            }
+            changes.name = body.name.trim()
+        }
+
+        if (body.role !== undefined) {
+            if (!isRole(body.role)) {
+                return NextResponse.json(
+                    { error: `role must be one of ${Object.keys(ROLES).join(', ')}` },
+                    { status: 400 }
+                )
+            }
+            changes.role = body.role
+        }
+
+        if (body.isActive !== undefined) {
+            if (typeof body.isActive !== 'boolean') {
+                return NextResponse.json(
+                    { error: 'isActive must be a boolean' },
+                    { status: 400 }
+                )
+            }
+            changes.isActive = body.isActive
+        }
+
+        if (params.id === user.id && (changes.isActive === false || (changes.role && changes.role !== user.role))) {
+            return NextResponse.json(
+                { error: 'You cannot deactivate your own account or change your own role' },
+                { status: 400 }
+            )
+        }
+
+        const updated = await updateUser(params.id, changes)
+
+        if (!updated) {
+            return NextResponse.json(
+                { error: 'User not found' },
+                { status: 404 }
+            )
+        }
+
+        return NextResponse.json(updated)
+
+    } catch (error) {
+        console.error('Error updating user:', error)
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        )
+    }
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { listUsers } from '@/lib/server/auth'
+import { authorize } from '@/lib/server/authorization'
+
+/**
+ * Lists user accounts, e.g. to pick the field uploaders assigned to a request
+ */
+export async function GET(request: NextRequest) {
+    try {
+        const { user, errorResponse } = await authorize(request, 'requests:manage')
+        if (!user) return errorResponse
+
+        return NextResponse.json({ users: await listUsers() })
+
+    } catch (error) {
+        console.error('Error listing users:', error)
+        return NextResponse.json(
+            { error: 'Internal server error' },
+            { status: 500 }
+        )
+    }
+}
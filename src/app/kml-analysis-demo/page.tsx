@@ -1,21 +1,17 @@
 'use client'
 
-import React, { useState, useEffect, useRef } from 'react'
+import React, { useMemo, useState } from 'react'
 import { motion } from 'framer-motion'
-import { MapPin, FileText, BarChart3, Download, Eye, Clock, CheckCircle, ChevronLeft, ChevronRight, ChevronDown } from 'lucide-react'
+import { MapPin, FileText, BarChart3, Download, Eye, Clock, CheckCircle, AlertCircle, ChevronLeft, ChevronRight, ChevronDown } from 'lucide-react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
+import { ProtectedRoute } from '@/components/auth/protected-route'
 import { FileUpload } from '@/components/forms/file-upload'
 import { Navbar } from '@/components/layout/navbar'
 import { Footer } from '@/components/layout/footer'
-
-// Google Maps types
-declare global {
-  interface Window {
-    google: any
-    initMap: () => void
-  }
-}
+import { KmlMap, type KmlMapLayer } from '@/components/kml/kml-map'
+import { getAnalysisDocument, getAnalysisStatus, getAnalysisResult } from '@/lib/api-service'
+import { formatArea, formatLength, type KmlDocument, type KmlSummary } from '@/lib/kml'
 
 /**
  * KML Analysis Demo Page
@@ -25,7 +21,7 @@ declare global {
  * - File upload with drag & drop support
  * - Real-time upload progress
  * - File validation and error handling
- * - Mock analysis processing
+ * - Server-side analysis jobs with status polling
  * - Results visualization
  */
 
@@ -35,21 +31,9 @@ interface AnalysisResult {
   fileKey: string
   status: 'processing' | 'completed' | 'error'
   progress: number
-  results?: {
-    totalFeatures: number
-    geometryTypes: string[]
-    boundingBox: {
-      north: number
-      south: number
-      east: number
-      west: number
-    }
-    statistics: {
-      points: number
-      lines: number
-      polygons: number
-    }
-  }
+  results?: KmlSummary
+  document?: KmlDocument
+  error?: string
   createdAt: string
 }
 
@@ -57,18 +41,20 @@ export default function KmlAnalysisDemoPage() {
   const [analysisResults, setAnalysisResults] = useState<AnalysisResult[]>([])
   const [isProcessing, setIsProcessing] = useState(false)
   const [currentImageIndex, setCurrentImageIndex] = useState(0)
-  const [isMapLoaded, setIsMapLoaded] = useState(false)
-  const [hasValidApiKey, setHasValidApiKey] = useState(true)
-  const mapRef = useRef<HTMLDivElement>(null)
-  const mapInstanceRef = useRef<any>(null)
+  const mapLayers = useMemo(
+    () => analysisResults.reduce<KmlMapLayer[]>((layers, { id, fileName, document }) => (
+      document ? layers.concat([{ id, name: fileName, document }]) : layers
+    ), []),
+    [analysisResults]
+  )
 
   // Sample images for the carousel - using free stock images
   const carouselImages = [
     {
       id: 1,
       type: 'map',
-      title: 'Google Maps KML Viewer',
-      description: 'Interactive KML visualization with Google Maps API'
+      title: 'Uploaded Plots',
+      description: 'Every Placemark of your analysed files; click a plot for its details'
     },
     {
       id: 2,
@@ -96,93 +82,11 @@ export default function KmlAnalysisDemoPage() {
     }
   ]
 
-  // Load Google Maps API
-  useEffect(() => {
-    let checkInterval: NodeJS.Timeout | null = null
-
-    const loadGoogleMapsAPI = () => {
-      // Check if Google Maps is already loaded
-      if (window.google && window.google.maps) {
-        setIsMapLoaded(true)
-        return
-      }
-
-      // Check if script is already being loaded
-      const existingScript = document.querySelector('script[src*="maps.googleapis.com"]')
-      if (existingScript) {
-        // Script is already loaded or loading, just wait for it
-        checkInterval = setInterval(() => {
-          if (window.google && window.google.maps) {
-            if (checkInterval) clearInterval(checkInterval)
-            setIsMapLoaded(true)
-          }
-        }, 100)
-        return
-      }
-
-      // Only load if we have a valid API key
-      const apiKey = process.env.NEXT_PUBLIC_GOOGLE_MAPS_API_KEY
-      if (!apiKey || apiKey === 'YOUR_API_KEY') {
-        console.warn('Google Maps API key not found. Please set NEXT_PUBLIC_GOOGLE_MAPS_API_KEY in your .env.local file')
-        setHasValidApiKey(false)
-        return
-      }
-
-      const script = document.createElement('script')
-      script.src = `https://maps.googleapis.com/maps/api/js?key=${apiKey}&callback=initMap`
-      script.async = true
-      script.defer = true
-      script.id = 'google-maps-script'
-      document.head.appendChild(script)
-
-      window.initMap = () => {
-        setIsMapLoaded(true)
-      }
-    }
-
-    loadGoogleMapsAPI()
-
-    // Cleanup function
-    return () => {
-      if (checkInterval) {
-        clearInterval(checkInterval)
-      }
-    }
-  }, [])
-
-  // Initialize map when it's loaded and we're on the map slide
-  useEffect(() => {
-    if (isMapLoaded && currentImageIndex === 0 && mapRef.current && !mapInstanceRef.current) {
-      initMap()
-    }
-  }, [isMapLoaded, currentImageIndex])
-
-  const initMap = () => {
-    if (!mapRef.current || !window.google) return
-
-    // Create the map
-    const map = new window.google.maps.Map(mapRef.current, {
-      center: { lat: 20.0, lng: 78.0 }, // Default center (India)
-      zoom: 6,
-      mapTypeId: "satellite", // Satellite view
-    })
-
-    // Load KML file from Cloudinary URL
-    const kmlLayer = new window.google.maps.KmlLayer({
-      url: "https://res.cloudinary.com/dk983csnp/raw/upload/v1758066685/MAH-PAN_04._umrai_bismilla._khan_2biga_crt_eegquf.kml",
-      map: map,
-      preserveViewport: false,   // auto-zoom to fit KML
-      suppressInfoWindows: false // show popups if available
-    })
-
-    mapInstanceRef.current = map
-  }
-
   /**
-   * Handles successful file upload and initiates analysis
+   * Handles successful file upload and polls the analysis API until the job finishes
    */
-  const handleUploadComplete = async (fileKey: string, analysisId: string) => {
-    const fileName = fileKey.split('/').pop() || 'Unknown file'
+  const handleUploadComplete = async (fileKey: string, analysisId: string, file: File) => {
+    const fileName = file.name || fileKey.split('/').pop() || 'Unknown file'
     
     // Create new analysis result entry
     const newAnalysis: AnalysisResult = {
@@ -197,62 +101,50 @@ export default function KmlAnalysisDemoPage() {
     setAnalysisResults(prev => [newAnalysis, ...prev])
     setIsProcessing(true)
 
-    // Simulate analysis progress updates
-    const progressInterval = setInterval(async () => {
-      try {
-        // In a real app, this would call the actual API
-        const mockStatus = await new Promise<{ status: string, progress: number }>((resolve) => {
-          setTimeout(() => {
-            const statuses = ['processing', 'processing', 'processing', 'completed']
-            const randomStatus = statuses[Math.floor(Math.random() * statuses.length)]
-            const progress = randomStatus === 'completed' ? 100 : Math.floor(Math.random() * 80) + 20
-            resolve({ status: randomStatus, progress })
-          }, 1000)
-        })
+    const updateAnalysis = (changes: Partial<AnalysisResult>) => {
+      setAnalysisResults(prev => prev.map(result =>
+        result.id === analysisId ? { ...result, ...changes } : result
+      ))
+    }
 
-        setAnalysisResults(prev => prev.map(result => 
-          result.id === analysisId 
-            ? { 
-                ...result, 
-                status: mockStatus.status as 'processing' | 'completed',
-                progress: mockStatus.progress,
-                ...(mockStatus.status === 'completed' && {
-                  results: {
-                    totalFeatures: Math.floor(Math.random() * 100) + 10,
-                    geometryTypes: ['Point', 'LineString', 'Polygon'].slice(0, Math.floor(Math.random() * 3) + 1),
-                    boundingBox: {
-                      north: 40.7128 + Math.random() * 0.1,
-                      south: 40.7128 - Math.random() * 0.1,
-                      east: -74.0060 + Math.random() * 0.1,
-                      west: -74.0060 - Math.random() * 0.1
-                    },
-                    statistics: {
-                      points: Math.floor(Math.random() * 50),
-                      lines: Math.floor(Math.random() * 30),
-                      polygons: Math.floor(Math.random() * 20)
-                    }
-                  }
-                })
-              }
-            : result
-        ))
+    const stopPolling = () => {
+      clearInterval(progressInterval)
+      clearTimeout(pollingTimeout)
+      setIsProcessing(false)
+    }
 
-        if (mockStatus.status === 'completed') {
-          clearInterval(progressInterval)
-          setIsProcessing(false)
+    const progressInterval = setInterval(async () => {
+      try {
+        const analysisStatus = await getAnalysisStatus(analysisId)
+
+        if (analysisStatus.status === 'completed') {
+          stopPolling()
+          const [analysis, document] = await Promise.all([
+            getAnalysisResult(analysisId),
+            getAnalysisDocument(analysisId)
+          ])
+          updateAnalysis({ status: 'completed', progress: 100, results: analysis.summary, document })
+        } else if (analysisStatus.status === 'error') {
+          stopPolling()
+          updateAnalysis({ status: 'error', progress: 100, error: analysisStatus.error })
+        } else {
+          updateAnalysis({ progress: analysisStatus.progress })
         }
       } catch (error) {
         console.error('Error checking analysis status:', error)
-        clearInterval(progressInterval)
-        setIsProcessing(false)
+        stopPolling()
+        updateAnalysis({
+          status: 'error',
+          error: error instanceof Error ? error.message : 'Failed to check analysis status'
+        })
       }
-    }, 2000)
+    }, 1500)
 
-    // Cleanup interval after 30 seconds to prevent infinite loops
-    setTimeout(() => {
-      clearInterval(progressInterval)
-      setIsProcessing(false)
-    }, 30000)
+    // Stop polling after 5 minutes to prevent infinite loops
+    const pollingTimeout = setTimeout(() => {
+      stopPolling()
+      updateAnalysis({ status: 'error', error: 'Analysis timed out' })
+    }, 5 * 60 * 1000)
   }
 
   /**
@@ -297,6 +189,7 @@ export default function KmlAnalysisDemoPage() {
   }
 
   return (
+    <ProtectedRoute requiredRole={['admin', 'field-uploader']}>
     <div className="min-h-screen bg-background">
       <Navbar />
       
@@ -369,43 +262,16 @@ export default function KmlAnalysisDemoPage() {
                   className="w-full h-full"
                 >
                   {carouselImages[currentImageIndex].type === 'map' ? (
-                    <>
-                      {/* Google Maps Container */}
-                      <div 
-                        ref={mapRef}
-                        className="w-full h-full"
-                        style={{ minHeight: '320px' }}
-                      />
-                      
-                      {/* Map Loading Overlay */}
-                      {!isMapLoaded && hasValidApiKey && (
-                        <div className="absolute inset-0 bg-gray-100 flex items-center justify-center">
-                          <div className="text-center">
-                            <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin mx-auto mb-2"></div>
-                            <p className="text-sm text-gray-600">Loading Google Maps...</p>
-                          </div>
+                    mapLayers.length > 0 ? (
+                      <KmlMap layers={mapLayers} />
+                    ) : (
+                      <div className="w-full h-full flex items-center justify-center">
+                        <div className="text-center p-4">
+                          <MapPin className="h-10 w-10 text-gray-400 mx-auto mb-3" />
+                          <p className="text-sm text-gray-600">Upload a KML file to see its plots on the map</p>
                         </div>
-                      )}
-
-                      {/* API Key Missing Overlay */}
-                      {!hasValidApiKey && (
-                        <div className="absolute inset-0 bg-gray-100 flex items-center justify-center">
-                          <div className="text-center p-4">
-                            <div className="w-16 h-16 bg-gray-300 rounded-full flex items-center justify-center mb-4 mx-auto">
-                              <span className="text-2xl">🗺️</span>
-                            </div>
-                            <h4 className="font-medium text-gray-800 mb-2">Google Maps API Key Required</h4>
-                            <p className="text-sm text-gray-600 mb-4">
-                              To view the interactive KML map, please add your Google Maps API key to the environment variables.
-                            </p>
-                            <div className="bg-gray-200 rounded p-3 text-xs font-mono text-left">
-                              <p className="text-gray-700">Add to .env.local:</p>
-                              <p className="text-blue-600">NEXT_PUBLIC_GOOGLE_MAPS_API_KEY=your_api_key_here</p>
-                            </div>
-                          </div>
-                        </div>
-                      )}
-                    </>
+                      </div>
+                    )
                   ) : (
                     <>
                       {/* Regular Image */}
@@ -434,7 +300,7 @@ export default function KmlAnalysisDemoPage() {
                 <Button 
                   variant="ghost" 
                   size="icon" 
-                  className="absolute left-2 top-1/2 transform -translate-y-1/2 bg-white/80 hover:bg-white/90 opacity-0 group-hover:opacity-100 transition-opacity"
+                  className="absolute left-2 top-1/2 z-[1000] transform -translate-y-1/2 bg-white/80 hover:bg-white/90 opacity-0 group-hover:opacity-100 transition-opacity"
                   onClick={prevImage}
                 >
                   <ChevronLeft className="h-4 w-4" />
@@ -442,7 +308,7 @@ export default function KmlAnalysisDemoPage() {
                 <Button 
                   variant="ghost" 
                   size="icon" 
-                  className="absolute right-2 top-1/2 transform -translate-y-1/2 bg-white/80 hover:bg-white/90 opacity-0 group-hover:opacity-100 transition-opacity"
+                  className="absolute right-2 top-1/2 z-[1000] transform -translate-y-1/2 bg-white/80 hover:bg-white/90 opacity-0 group-hover:opacity-100 transition-opacity"
                   onClick={nextImage}
                 >
                   <ChevronRight className="h-4 w-4" />
@@ -489,6 +355,104 @@ export default function KmlAnalysisDemoPage() {
           </motion.div>
         </div>
 
+        {/* Analysis Results */}
+        {analysisResults.length > 0 && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.6 }}
+            className="mt-12"
+          >
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <BarChart3 className="h-5 w-5" />
+                  <span>Analysis Results</span>
+                  {isProcessing && <Clock className="h-4 w-4 text-muted-foreground animate-pulse" />}
+                </CardTitle>
+                <CardDescription>
+                  Feature counts, geometry types and geographic extent of your uploaded files.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {analysisResults.map((analysis) => (
+                  <div key={analysis.id} className="border rounded-lg p-4 space-y-3">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center space-x-2 min-w-0">
+                        {analysis.status === 'completed' ? (
+                          <CheckCircle className="h-4 w-4 text-green-500 shrink-0" />
+                        ) : analysis.status === 'error' ? (
+                          <AlertCircle className="h-4 w-4 text-destructive shrink-0" />
+                        ) : (
+                          <Clock className="h-4 w-4 text-muted-foreground shrink-0" />
+                        )}
+                        <span className="font-medium truncate">{analysis.fileName}</span>
+                      </div>
+                      <span className="text-xs text-muted-foreground">{formatDate(analysis.createdAt)}</span>
+                    </div>
+
+                    {analysis.status === 'processing' && (
+                      <div className="w-full bg-muted rounded-full h-2">
+                        <div
+                          className="bg-primary h-2 rounded-full transition-all"
+                          style={{ width: `${analysis.progress}%` }}
+                        />
+                      </div>
+                    )}
+
+                    {analysis.status === 'error' && (
+                      <p className="text-sm text-destructive">{analysis.error}</p>
+                    )}
+
+                    {analysis.results && (
+                      <div className="grid grid-cols-2 md:grid-cols-3 gap-4 text-sm">
+                        <div>
+                          <p className="text-muted-foreground">Total Features</p>
+                          <p className="font-semibold">{analysis.results.totalFeatures}</p>
+                        </div>
+                        <div>
+                          <p className="text-muted-foreground">Geometry Types</p>
+                          <p className="font-semibold">{analysis.results.geometryTypes.join(', ') || 'None'}</p>
+                        </div>
+                        <div>
+                          <p className="text-muted-foreground">Points / Lines / Polygons</p>
+                          <p className="font-semibold">
+                            {analysis.results.statistics.points} / {analysis.results.statistics.lines} / {analysis.results.statistics.polygons}
+                          </p>
+                        </div>
+                        <div>
+                          <p className="text-muted-foreground">Polygon Area</p>
+                          <p className="font-semibold">
+                            {formatArea(analysis.results.statistics.areaSquareMeters, 'hectares')} / {formatArea(analysis.results.statistics.areaSquareMeters, 'acres')}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            {formatArea(analysis.results.statistics.areaSquareMeters, 'bigha')} / {formatArea(analysis.results.statistics.areaSquareMeters, 'guntha')}
+                          </p>
+                        </div>
+                        <div>
+                          <p className="text-muted-foreground">Perimeter</p>
+                          <p className="font-semibold">{formatLength(analysis.results.statistics.perimeterMeters)}</p>
+                        </div>
+                        <div>
+                          <p className="text-muted-foreground">Bounding Box</p>
+                          {analysis.results.boundingBox ? (
+                            <p className="font-mono text-xs">
+                              N {analysis.results.boundingBox.north.toFixed(6)}, S {analysis.results.boundingBox.south.toFixed(6)}<br />
+                              E {analysis.results.boundingBox.east.toFixed(6)}, W {analysis.results.boundingBox.west.toFixed(6)}
+                            </p>
+                          ) : (
+                            <p className="font-semibold">No coordinates</p>
+                          )}
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          </motion.div>
+        )}
+
         {/* Features Section */}
         <motion.div
           initial={{ opacity: 0, y: 20 }}
@@ -533,5 +497,6 @@ export default function KmlAnalysisDemoPage() {
 
       <Footer />
     </div>
+    </ProtectedRoute>
   )
 }
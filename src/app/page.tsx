@@ -2,18 +2,38 @@
 
 import { useEffect } from 'react'
 import { useRouter } from 'next/navigation'
+import { useQueryState } from 'nuqs'
 import { useAuth } from '@/lib/auth-context'
 import { LoginPage } from '@/components/auth/login-page'
 
+/**
+ * Accepts only same-site paths so a crafted login link cannot redirect elsewhere
+ * The value is resolved the way the browser would, since URL parsing drops tabs and
+ * newlines and turns backslashes into slashes (`/\t/evil.com` is `//evil.com`).
+ */
+function safeReturnPath(returnTo: string | null): string {
+  if (!returnTo) return '/requests'
+
+  try {
+    const url = new URL(returnTo, window.location.origin)
+    if (url.origin !== window.location.origin) return '/requests'
+    return url.pathname + url.search + url.hash
+  } catch {
+    return '/requests'
+  }
+}
+
 export default function Home() {
   const { user, isLoading } = useAuth()
+  const [returnTo] = useQueryState('returnTo')
   const router = useRouter()
 
+  // Runs both for users who are already logged in and right after a login
   useEffect(() => {
     if (!isLoading && user) {
-      router.push('/requests')
+      router.push(safeReturnPath(returnTo))
     }
-  }, [user, isLoading, router])
+  }, [user, isLoading, returnTo, router])
 
   // Debug information
   console.log('Auth state:', { user, isLoading })
@@ -38,7 +58,7 @@ export default function Home() {
     <div className="min-h-screen flex items-center justify-center">
       <div className="text-center">
         <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-600 mx-auto mb-4"></div>
-        <p className="text-gray-600">Redirecting to requests...</p>
+        <p className="text-gray-600">Redirecting...</p>
       </div>
     </div>
   )
@@ -0,0 +1,223 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Archive, ChevronLeft, Edit } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Modal } from '@/components/ui/modal'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { ProtectedRoute } from '@/components/auth/protected-route'
+import { ProjectForm } from '@/components/forms/project-form'
+import { ProjectStatusBadge } from '@/components/projects/project-status-badge'
+import { archiveProject, getProject, type ProjectDetails } from '@/lib/api-service'
+import { useAuth } from '@/lib/auth-context'
+import { convertArea } from '@/lib/kml/units'
+
+interface ProjectDetailPageProps {
+  params: {
+    id: string
+  }
+}
+
+export default function ProjectDetailPage({ params }: ProjectDetailPageProps) {
+  const [project, setProject] = useState<ProjectDetails | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [isEditModalOpen, setIsEditModalOpen] = useState(false)
+  const { can } = useAuth()
+
+  const loadProject = useCallback(async () => {
+    try {
+      setProject(await getProject(params.id))
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load project')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [params.id])
+
+  useEffect(() => {
+    loadProject()
+  }, [loadProject])
+
+  const handleArchive = async () => {
+    if (!project || !window.confirm(`Archive ${project.name}?`)) return
+    try {
+      await archiveProject(project.id)
+      await loadProject()
+    } catch (archiveError) {
+      setError(archiveError instanceof Error ? archiveError.message : 'Failed to archive project')
+    }
+  }
+
+  return (
+    <ProtectedRoute requiredRole={['admin', 'reviewer']}>
+      <div className="min-h-screen bg-gray-50">
+      {/* Sidebar */}
+      <div className="fixed left-0 top-0 h-full w-64 bg-gray-800 text-white">
+        <div className="p-6">
+          <div className="flex items-center space-x-2 mb-8">
+            <div className="w-8 h-8 bg-blue-600 rounded-lg flex items-center justify-center">
+              <span className="text-white font-bold text-sm">E</span>
+            </div>
+            <span className="text-xl font-bold">Editor</span>
+          </div>
+
+          <nav className="space-y-2">
+            <a href="/requests" className="flex items-center space-x-3 px-4 py-3 hover:bg-gray-700 rounded-lg">
+              <div className="w-5 h-5 bg-gray-400 rounded-sm"></div>
+              <span>Requests</span>
+            </a>
+            <a href="/projects" className="flex items-center space-x-3 px-4 py-3 bg-blue-600 rounded-lg">
+              <div className="w-5 h-5 bg-white rounded-sm"></div>
+              <span>Projects</span>
+            </a>
+            <a href="/kml-analysis-demo" className="flex items-center space-x-3 px-4 py-3 hover:bg-gray-700 rounded-lg">
+              <div className="w-5 h-5 bg-gray-400 rounded-sm"></div>
+              <span>KML Demo</span>
+            </a>
+            <a href="/settings" className="flex items-center space-x-3 px-4 py-3 hover:bg-gray-700 rounded-lg">
+              <div className="w-5 h-5 bg-gray-400 rounded-sm"></div>
+              <span>Settings</span>
+            </a>
+          </nav>
+        </div>
+      </div>
+
+      {/* Main Content */}
+      <div className="ml-64 p-8">
+        <div className="max-w-7xl mx-auto">
+          <a href="/projects" className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900 mb-4">
+            <ChevronLeft className="h-4 w-4 mr-1" />
+            All Projects
+          </a>
+
+          {isLoading ? (
+            <p className="text-gray-500">Loading project...</p>
+          ) : !project ? (
+            <p className="text-red-600">{error || 'Project not found'}</p>
+          ) : (
+            <>
+              <div className="flex justify-between items-start mb-8">
+                <div>
+                  <div className="flex items-center space-x-3 mb-2">
+                    <h1 className="text-3xl font-bold text-gray-900">{project.name}</h1>
+                    <ProjectStatusBadge status={project.status} />
+                  </div>
+                  <p className="text-gray-600">ID: {project.id}{project.description && ` · ${project.description}`}</p>
+                </div>
+                {can('projects:manage') && (
+                  <div className="flex items-center space-x-4">
+                    <Button variant="outline" onClick={() => setIsEditModalOpen(true)}>
+                      <Edit className="h-4 w-4 mr-2" />
+                      Edit
+                    </Button>
+                    {project.status !== 'Archived' && (
+                      <Button variant="outline" onClick={handleArchive}>
+                        <Archive className="h-4 w-4 mr-2" />
+                        Archive
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+              {/* Totals */}
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-sm text-gray-600">Requests</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <p className="text-3xl font-bold text-gray-900">{project.requestCount}</p>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-sm text-gray-600">Plots</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <p className="text-3xl font-bold text-gray-900">{project.plotCount}</p>
+                  </CardContent>
+                </Card>
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-sm text-gray-600">Total Area</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <p className="text-3xl font-bold text-gray-900">
+                      {convertArea(project.areaSquareMeters, 'hectares').toFixed(2)} ha
+                    </p>
+                  </CardContent>
+                </Card>
+              </div>
+
+              <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+                {/* Requests */}
+                <div className="lg:col-span-2 bg-white rounded-lg shadow-sm border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="font-semibold">Request ID</TableHead>
+                        <TableHead className="font-semibold">Client Name</TableHead>
+                        <TableHead className="font-semibold">Date Received</TableHead>
+                        <TableHead className="font-semibold">KML Files</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {project.requests.length === 0 && (
+                        <TableRow>
+                          <TableCell colSpan={4} className="text-center text-gray-500">
+                            No requests are linked to this project yet
+                          </TableCell>
+                        </TableRow>
+                      )}
+                      {project.requests.map(request => (
+                        <TableRow key={request.id}>
+                          <TableCell className="font-medium">{request.id}</TableCell>
+                          <TableCell>{request.clientName}</TableCell>
+                          <TableCell>{request.receivedOn.split('-').reverse().join('-')}</TableCell>
+                          <TableCell>
+                            <a href={`/view-kml/${request.id}`} className="text-blue-600 hover:text-blue-800">
+                              View/Edit
+                            </a>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+
+                {/* Status History */}
+                <div className="bg-white rounded-lg shadow-sm border p-6">
+                  <h3 className="text-lg font-semibold text-gray-900 mb-4">Status History</h3>
+                  <ol className="space-y-3">
+                    {project.statusHistory.slice().reverse().map(change => (
+                      <li key={change.changedAt} className="flex items-center justify-between">
+                        <ProjectStatusBadge status={change.status} />
+                        <span className="text-sm text-gray-500">{new Date(change.changedAt).toLocaleString()}</span>
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+
+      {project && (
+        <Modal
+          isOpen={isEditModalOpen}
+          onClose={() => setIsEditModalOpen(false)}
+          title="Edit Project"
+        >
+          <ProjectForm project={project} onClose={() => setIsEditModalOpen(false)} onSaved={loadProject} />
+        </Modal>
+      )}
+      </div>
+    </ProtectedRoute>
+  )
+}
@@ -1,59 +1,34 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { Search, MoreVertical, Folder } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Modal } from '@/components/ui/modal'
 import { ProtectedRoute } from '@/components/auth/protected-route'
+import { ProjectForm } from '@/components/forms/project-form'
+import { ProjectStatusBadge } from '@/components/projects/project-status-badge'
+import { listProjects, type ProjectSummary } from '@/lib/api-service'
+import { useAuth } from '@/lib/auth-context'
+import { convertArea } from '@/lib/kml/units'
 
-interface Project {
-  id: string
-  name: string
-  description: string
-  status: 'Active' | 'Completed' | 'Pending'
-  lastModified: string
-  requestCount: number
-}
+export default function ProjectsPage() {
+  const [searchTerm, setSearchTerm] = useState('')
+  const [isAddModalOpen, setIsAddModalOpen] = useState(false)
+  const [projects, setProjects] = useState<ProjectSummary[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const { can } = useAuth()
 
-const mockProjects: Project[] = [
-  {
-    id: 'P001',
-    name: 'Urban Planning Project',
-    description: 'KML files for urban development planning',
-    status: 'Active',
-    lastModified: '2025-01-15',
-    requestCount: 12
-  },
-  {
-    id: 'P002',
-    name: 'Environmental Survey',
-    description: 'Environmental impact assessment KML data',
-    status: 'Completed',
-    lastModified: '2025-01-10',
-    requestCount: 8
-  },
-  {
-    id: 'P003',
-    name: 'Infrastructure Mapping',
-    description: 'Infrastructure development mapping project',
-    status: 'Pending',
-    lastModified: '2025-01-08',
-    requestCount: 5
-  },
-  {
-    id: 'P004',
-    name: 'Land Use Analysis',
-    description: 'Comprehensive land use analysis project',
-    status: 'Active',
-    lastModified: '2025-01-12',
-    requestCount: 15
+  const loadProjects = () => {
+    listProjects()
+      .then(setProjects)
+      .catch(loadError => setError(loadError instanceof Error ? loadError.message : 'Failed to load projects'))
+      .finally(() => setIsLoading(false))
   }
-]
 
-export default function ProjectsPage() {
-  const [searchTerm, setSearchTerm] = useState('')
-  const [projects] = useState<Project[]>(mockProjects)
+  useEffect(loadProjects, [])
 
   const filteredProjects = projects.filter(project =>
     project.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -61,21 +36,8 @@ export default function ProjectsPage() {
     project.id.toLowerCase().includes(searchTerm.toLowerCase())
   )
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'Active':
-        return 'bg-green-100 text-green-800'
-      case 'Completed':
-        return 'bg-blue-100 text-blue-800'
-      case 'Pending':
-        return 'bg-yellow-100 text-yellow-800'
-      default:
-        return 'bg-gray-100 text-gray-800'
-    }
-  }
-
   return (
-    <ProtectedRoute>
+    <ProtectedRoute requiredRole={['admin', 'reviewer']}>
       <div className="min-h-screen bg-gray-50">
       {/* Sidebar */}
       <div className="fixed left-0 top-0 h-full w-64 bg-gray-800 text-white">
@@ -126,12 +88,22 @@ export default function ProjectsPage() {
                   className="pl-10 w-64"
                 />
               </div>
-              <Button>
-                New Project
-              </Button>
+              {can('projects:manage') && (
+                <Button onClick={() => setIsAddModalOpen(true)}>
+                  New Project
+                </Button>
+              )}
             </div>
           </div>
 
+          {(isLoading || error || filteredProjects.length === 0) && (
+            <p className={error ? 'text-red-600' : 'text-gray-500'}>
+              {isLoading
+                ? 'Loading projects...'
+                : error || (searchTerm ? 'No projects match your search' : 'No projects yet')}
+            </p>
+          )}
+
           {/* Projects Grid */}
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
             {filteredProjects.map((project) => (
@@ -160,9 +132,7 @@ export default function ProjectsPage() {
                   <div className="space-y-3">
                     <div className="flex items-center justify-between">
                       <span className="text-sm text-gray-600">Status:</span>
-                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(project.status)}`}>
-                        {project.status}
-                      </span>
+                      <ProjectStatusBadge status={project.status} />
                     </div>
                     
                     <div className="flex items-center justify-between">
@@ -170,16 +140,25 @@ export default function ProjectsPage() {
                       <span className="text-sm font-medium">{project.requestCount}</span>
                     </div>
                     
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm text-gray-600">Plots:</span>
+                      <span className="text-sm font-medium">
+                        {project.plotCount} ({convertArea(project.areaSquareMeters, 'hectares').toFixed(2)} ha)
+                      </span>
+                    </div>
+                    
                     <div className="flex items-center justify-between">
                       <span className="text-sm text-gray-600">Last Modified:</span>
-                      <span className="text-sm font-medium">{project.lastModified}</span>
+                      <span className="text-sm font-medium">{project.updatedAt.slice(0, 10)}</span>
                     </div>
                   </div>
                   
                   <div className="mt-4 pt-4 border-t">
-                    <Button variant="outline" className="w-full">
-                      View Details
-                    </Button>
+                    <a href={`/projects/${project.id}`}>
+                      <Button variant="outline" className="w-full">
+                        View Details
+                      </Button>
+                    </a>
                   </div>
                 </CardContent>
               </Card>
@@ -187,6 +166,15 @@ export default function ProjectsPage() {
           </div>
         </div>
       </div>
+
+      {/* New Project Modal */}
+      <Modal
+        isOpen={isAddModalOpen}
+        onClose={() => setIsAddModalOpen(false)}
+        title="New Project"
+      >
+        <ProjectForm onClose={() => setIsAddModalOpen(false)} onSaved={loadProjects} />
+      </Modal>
       </div>
     </ProtectedRoute>
   )
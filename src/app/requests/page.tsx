@@ -1,6 +1,6 @@
 'use client'
 
-import React, { useState } from 'react'
+import React, { useEffect, useState } from 'react'
 import { Search, MoreVertical } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
@@ -8,57 +8,30 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { Modal } from '@/components/ui/modal'
 import { AddNewRequestForm } from '@/components/forms/add-new-request-form'
 import { ProtectedRoute } from '@/components/auth/protected-route'
+import { listRequests, type ClientRequest } from '@/lib/api-service'
+import { useAuth } from '@/lib/auth-context'
 
-interface Request {
-  id: string
-  clientName: string
-  email: string
-  dateReceived: string
-  kmlFiles: string
+/**
+ * Formats a YYYY-MM-DD date as DD-MM-YYYY
+ */
+function formatReceivedOn(date: string): string {
+  return date.split('-').reverse().join('-')
 }
 
-const mockRequests: Request[] = [
-  {
-    id: 'R00001',
-    clientName: 'Client A',
-    email: 'alexander.louis@example.com',
-    dateReceived: '11-01-2025',
-    kmlFiles: 'View/Edit'
-  },
-  {
-    id: 'R00002',
-    clientName: 'Client B',
-    email: 'michael.henry@example.com',
-    dateReceived: '14-06-2025',
-    kmlFiles: 'View/Edit'
-  },
-  {
-    id: 'R00003',
-    clientName: 'Client C',
-    email: 'stephen.lara@example.com',
-    dateReceived: '24-01-2025',
-    kmlFiles: 'View/Edit'
-  },
-  {
-    id: 'R00004',
-    clientName: 'Client D',
-    email: 'christoper.john@example.com',
-    dateReceived: '17-02-2025',
-    kmlFiles: 'View/Edit'
-  },
-  {
-    id: 'R00005',
-    clientName: 'Client E',
-    email: 'lara.olive@example.com',
-    dateReceived: '14-03-2025',
-    kmlFiles: 'View/Edit'
-  }
-]
-
 export default function RequestsPage() {
   const [searchTerm, setSearchTerm] = useState('')
   const [isAddModalOpen, setIsAddModalOpen] = useState(false)
-  const [requests] = useState<Request[]>(mockRequests)
+  const [requests, setRequests] = useState<ClientRequest[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const { can } = useAuth()
+
+  useEffect(() => {
+    listRequests()
+      .then(setRequests)
+      .catch(loadError => setError(loadError instanceof Error ? loadError.message : 'Failed to load requests'))
+      .finally(() => setIsLoading(false))
+  }, [])
 
   const filteredRequests = requests.filter(request =>
     request.clientName.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -118,9 +91,11 @@ export default function RequestsPage() {
                     className="pl-10 w-64"
                   />
                 </div>
-                <Button onClick={() => setIsAddModalOpen(true)}>
-                  Add New Request
-                </Button>
+                {can('requests:manage') && (
+                  <Button onClick={() => setIsAddModalOpen(true)}>
+                    Add New Request
+                  </Button>
+                )}
               </div>
             </div>
 
@@ -138,15 +113,24 @@ export default function RequestsPage() {
                   </TableRow>
                 </TableHeader>
                 <TableBody>
+                  {(isLoading || error || filteredRequests.length === 0) && (
+                    <TableRow>
+                      <TableCell colSpan={6} className={error ? 'text-center text-red-600' : 'text-center text-gray-500'}>
+                        {isLoading
+                          ? 'Loading requests...'
+                          : error || (searchTerm ? 'No requests match your search' : 'No requests yet')}
+                      </TableCell>
+                    </TableRow>
+                  )}
                   {filteredRequests.map((request) => (
                     <TableRow key={request.id}>
                       <TableCell className="font-medium">{request.id}</TableCell>
                       <TableCell>{request.clientName}</TableCell>
                       <TableCell>{request.email}</TableCell>
-                      <TableCell>{request.dateReceived}</TableCell>
+                      <TableCell>{formatReceivedOn(request.receivedOn)}</TableCell>
                       <TableCell>
                         <a href={`/view-kml/${request.id}`} className="text-blue-600 hover:text-blue-800">
-                          {request.kmlFiles}
+                          View/Edit
                         </a>
                       </TableCell>
                       <TableCell>
@@ -170,7 +154,10 @@ export default function RequestsPage() {
           onClose={() => setIsAddModalOpen(false)}
           title="Add New"
         >
-          <AddNewRequestForm onClose={() => setIsAddModalOpen(false)} />
+          <AddNewRequestForm
+            onClose={() => setIsAddModalOpen(false)}
+            onCreated={request => setRequests(current => [request].concat(current))}
+          />
         </Modal>
       </div>
     </ProtectedRoute>
@@ -0,0 +1,42 @@
+'use client'
+
+import { useState } from 'react'
+import { useQueryState } from 'nuqs'
+import { SetPasswordForm } from '@/components/auth/set-password-form'
+import { resetPassword } from '@/lib/api-service'
+
+export default function ResetPasswordPage() {
+  const [token] = useQueryState('token')
+  const [isDone, setIsDone] = useState(false)
+
+  const handleSubmit = async ({ password }: { password: string }) => {
+    await resetPassword(token || '', password)
+    setIsDone(true)
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 px-8 py-12">
+      <div className="w-full max-w-md bg-white rounded-lg shadow-sm border p-8">
+        <div className="flex items-center space-x-2 mb-8">
+          <div className="w-8 h-8 bg-blue-600 rounded-lg flex items-center justify-center">
+            <span className="text-white font-bold text-sm">E</span>
+          </div>
+          <span className="text-2xl font-bold text-gray-900">Ecoleap</span>
+        </div>
+
+        <h1 className="text-2xl font-bold text-gray-900 mb-6">Reset Password</h1>
+
+        {!token ? (
+          <p className="text-red-600">This reset link is incomplete</p>
+        ) : isDone ? (
+          <p className="text-gray-600">
+            Your password has been changed. <a href="/" className="text-blue-600 hover:text-blue-800">Log in</a> with
+            your new password.
+          </p>
+        ) : (
+          <SetPasswordForm submitLabel="Change Password" onSubmit={handleSubmit} />
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,105 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { ChevronLeft } from 'lucide-react'
+import { ProtectedRoute } from '@/components/auth/protected-route'
+import { listMail, type MailMessage } from '@/lib/api-service'
+
+/**
+ * Splits a plain-text body into text and links, so links in caught mail can be followed
+ */
+function renderMailText(text: string) {
+  return text.split(/(https?:\/\/\S+)/).map((part, index) => /^https?:\/\//.test(part) ? (
+    <a key={index} href={part} className="text-blue-600 hover:text-blue-800 break-all">{part}</a>
+  ) : (
+    <span key={index}>{part}</span>
+  ))
+}
+
+export default function MailOutboxPage() {
+  const [messages, setMessages] = useState<MailMessage[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    listMail()
+      .then(setMessages)
+      .catch(loadError => setError(loadError instanceof Error ? loadError.message : 'Failed to load mail'))
+      .finally(() => setIsLoading(false))
+  }, [])
+
+  return (
+    <ProtectedRoute requiredRole="admin">
+      <div className="min-h-screen bg-gray-50">
+      {/* Sidebar */}
+      <div className="fixed left-0 top-0 h-full w-64 bg-gray-800 text-white">
+        <div className="p-6">
+          <div className="flex items-center space-x-2 mb-8">
+            <div className="w-8 h-8 bg-blue-600 rounded-lg flex items-center justify-center">
+              <span className="text-white font-bold text-sm">E</span>
+            </div>
+            <span className="text-xl font-bold">Editor</span>
+          </div>
+
+          <nav className="space-y-2">
+            <a href="/requests" className="flex items-center space-x-3 px-4 py-3 hover:bg-gray-700 rounded-lg">
+              <div className="w-5 h-5 bg-gray-400 rounded-sm"></div>
+              <span>Requests</span>
+            </a>
+            <a href="/projects" className="flex items-center space-x-3 px-4 py-3 hover:bg-gray-700 rounded-lg">
+              <div className="w-5 h-5 bg-gray-400 rounded-sm"></div>
+              <span>Projects</span>
+            </a>
+            <a href="/kml-analysis-demo" className="flex items-center space-x-3 px-4 py-3 hover:bg-gray-700 rounded-lg">
+              <div className="w-5 h-5 bg-gray-400 rounded-sm"></div>
+              <span>KML Demo</span>
+            </a>
+            <a href="/settings" className="flex items-center space-x-3 px-4 py-3 bg-blue-600 rounded-lg">
+              <div className="w-5 h-5 bg-white rounded-sm"></div>
+              <span>Settings</span>
+            </a>
+          </nav>
+        </div>
+      </div>
+
+      {/* Main Content */}
+      <div className="ml-64 p-8">
+        <div className="max-w-4xl mx-auto">
+          <a href="/settings" className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900 mb-4">
+            <ChevronLeft className="h-4 w-4 mr-1" />
+            Settings
+          </a>
+
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Mail Outbox</h1>
+            <p className="text-gray-600">Emails sent by the app are caught here instead of being delivered</p>
+          </div>
+
+          {isLoading ? (
+            <p className="text-gray-500">Loading mail...</p>
+          ) : error ? (
+            <p className="text-red-600">{error}</p>
+          ) : messages.length === 0 ? (
+            <p className="text-gray-500">No mail has been sent yet</p>
+          ) : (
+            <div className="space-y-4">
+              {messages.map(message => (
+                <div key={message.id} className="bg-white rounded-lg shadow-sm border p-6">
+                  <div className="flex justify-between items-start mb-2">
+                    <div>
+                      <p className="font-semibold text-gray-900">{message.subject}</p>
+                      <p className="text-sm text-gray-600">To: {message.to}</p>
+                    </div>
+                    <span className="text-sm text-gray-500">{new Date(message.sentAt).toLocaleString()}</span>
+                  </div>
+                  <p className="text-sm text-gray-700 whitespace-pre-wrap">{renderMailText(message.text)}</p>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+      </div>
+    </ProtectedRoute>
+  )
+}
@@ -0,0 +1,93 @@
+'use client'
+
+import { Mail, Users } from 'lucide-react'
+import { Card, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { ProtectedRoute } from '@/components/auth/protected-route'
+import { useAuth } from '@/lib/auth-context'
+
+const SECTIONS = [
+  {
+    href: '/settings/users',
+    title: 'Users',
+    description: 'Invite colleagues, change roles, deactivate accounts and send password-reset links',
+    icon: Users
+  },
+  {
+    href: '/settings/mail',
+    title: 'Mail Outbox',
+    description: 'Invitation and password-reset emails caught by the local mail outbox',
+    icon: Mail
+  }
+]
+
+export default function SettingsPage() {
+  const { can } = useAuth()
+  const sections = can('users:manage') ? SECTIONS : []
+
+  return (
+    <ProtectedRoute>
+      <div className="min-h-screen bg-gray-50">
+      {/* Sidebar */}
+      <div className="fixed left-0 top-0 h-full w-64 bg-gray-800 text-white">
+        <div className="p-6">
+          <div className="flex items-center space-x-2 mb-8">
+            <div className="w-8 h-8 bg-blue-600 rounded-lg flex items-center justify-center">
+              <span className="text-white font-bold text-sm">E</span>
+            </div>
+            <span className="text-xl font-bold">Editor</span>
+          </div>
+
+          <nav className="space-y-2">
+            <a href="/requests" className="flex items-center space-x-3 px-4 py-3 hover:bg-gray-700 rounded-lg">
+              <div className="w-5 h-5 bg-gray-400 rounded-sm"></div>
+              <span>Requests</span>
+            </a>
+            <a href="/projects" className="flex items-center space-x-3 px-4 py-3 hover:bg-gray-700 rounded-lg">
+              <div className="w-5 h-5 bg-gray-400 rounded-sm"></div>
+              <span>Projects</span>
+            </a>
+            <a href="/kml-analysis-demo" className="flex items-center space-x-3 px-4 py-3 hover:bg-gray-700 rounded-lg">
+              <div className="w-5 h-5 bg-gray-400 rounded-sm"></div>
+              <span>KML Demo</span>
+            </a>
+            <a href="/settings" className="flex items-center space-x-3 px-4 py-3 bg-blue-600 rounded-lg">
+              <div className="w-5 h-5 bg-white rounded-sm"></div>
+              <span>Settings</span>
+            </a>
+          </nav>
+        </div>
+      </div>
+
+      {/* Main Content */}
+      <div className="ml-64 p-8">
+        <div className="max-w-7xl mx-auto">
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold text-gray-900 mb-2">Settings</h1>
+            <p className="text-gray-600">Manage who can use the app and how</p>
+          </div>
+
+          {sections.length === 0 ? (
+            <p className="text-gray-500">There are no settings available for your role</p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              {sections.map(({ href, title, description, icon: Icon }) => (
+                <a key={href} href={href}>
+                  <Card className="hover:shadow-md transition-shadow">
+                    <CardHeader>
+                      <CardTitle className="flex items-center space-x-2">
+                        <Icon className="h-5 w-5" />
+                        <span>{title}</span>
+                      </CardTitle>
+                      <CardDescription>{description}</CardDescription>
+                    </CardHeader>
+                  </Card>
+                </a>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+      </div>
+    </ProtectedRoute>
+  )
+}
@@ -0,0 +1,248 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { UserPlus } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Modal } from '@/components/ui/modal'
+import { Select } from '@/components/ui/select'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { ProtectedRoute } from '@/components/auth/protected-route'
+import { InviteUserForm } from '@/components/forms/invite-user-form'
+import {
+  listInvitations,
+  listUsers,
+  revokeInvitation,
+  sendPasswordReset,
+  updateUser,
+  type Invitation,
+  type User
+} from '@/lib/api-service'
+import { useAuth } from '@/lib/auth-context'
+import { ROLES, type Role } from '@/lib/roles'
+
+export default function UsersSettingsPage() {
+  const [users, setUsers] = useState<User[]>([])
+  const [invitations, setInvitations] = useState<Invitation[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+  const [isInviteModalOpen, setIsInviteModalOpen] = useState(false)
+  const { user: currentUser } = useAuth()
+
+  const loadUsers = useCallback(async () => {
+    try {
+      const [loadedUsers, loadedInvitations] = await Promise.all([listUsers(), listInvitations()])
+      setUsers(loadedUsers)
+      setInvitations(loadedInvitations)
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load users')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadUsers()
+  }, [loadUsers])
+
+  /**
+   * Runs an action, then shows its outcome above the tables
+   */
+  const runAction = async (action: () => Promise<void>, successMessage: string) => {
+    setError(null)
+    setNotice(null)
+    try {
+      await action()
+      setNotice(successMessage)
+    } catch (actionError) {
+      setError(actionError instanceof Error ? actionError.message : 'Something went wrong')
+    }
+  }
+
+  const handleRoleChange = (user: User, role: Role) => runAction(async () => {
+    const updated = await updateUser(user.id, { role })
+    setUsers(current => current.map(item => item.id === updated.id ? updated : item))
+  }, `${user.name} is now ${ROLES[role].label}`)
+
+  const handleToggleActive = (user: User) => runAction(async () => {
+    const updated = await updateUser(user.id, { isActive: !user.isActive })
+    setUsers(current => current.map(item => item.id === updated.id ? updated : item))
+  }, `${user.name} has been ${user.isActive ? 'deactivated' : 'reactivated'}`)
+
+  const handlePasswordReset = (user: User) => runAction(
+    () => sendPasswordReset(user.id),
+    `A password-reset link has been emailed to ${user.email}`
+  )
+
+  const handleRevoke = (invitation: Invitation) => runAction(async () => {
+    await revokeInvitation(invitation.id)
+    setInvitations(current => current.filter(item => item.id !== invitation.id))
+  }, `The invitation for ${invitation.email} has been revoked`)
+
+  return (
+    <ProtectedRoute requiredRole="admin">
+      <div className="min-h-screen bg-gray-50">
+      {/* Sidebar */}
+      <div className="fixed left-0 top-0 h-full w-64 bg-gray-800 text-white">
+        <div className="p-6">
+          <div className="flex items-center space-x-2 mb-8">
+            <div className="w-8 h-8 bg-blue-600 rounded-lg flex items-center justify-center">
+              <span className="text-white font-bold text-sm">E</span>
+            </div>
+            <span className="text-xl font-bold">Editor</span>
+          </div>
+
+          <nav className="space-y-2">
+            <a href="/requests" className="flex items-center space-x-3 px-4 py-3 hover:bg-gray-700 rounded-lg">
+              <div className="w-5 h-5 bg-gray-400 rounded-sm"></div>
+              <span>Requests</span>
+            </a>
+            <a href="/projects" className="flex items-center space-x-3 px-4 py-3 hover:bg-gray-700 rounded-lg">
+              <div className="w-5 h-5 bg-gray-400 rounded-sm"></div>
+              <span>Projects</span>
+            </a>
+            <a href="/kml-analysis-demo" className="flex items-center space-x-3 px-4 py-3 hover:bg-gray-700 rounded-lg">
+              <div className="w-5 h-5 bg-gray-400 rounded-sm"></div>
+              <span>KML Demo</span>
+            </a>
+            <a href="/settings" className="flex items-center space-x-3 px-4 py-3 bg-blue-600 rounded-lg">
+              <div className="w-5 h-5 bg-white rounded-sm"></div>
+              <span>Settings</span>
+            </a>
+          </nav>
+        </div>
+      </div>
+
+      {/* Main Content */}
+      <div className="ml-64 p-8">
+        <div className="max-w-7xl mx-auto">
+          <div className="flex justify-between items-center mb-8">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900 mb-2">Users</h1>
+              <p className="text-gray-600">Invite colleagues, change roles and manage access</p>
+            </div>
+            <Button onClick={() => setIsInviteModalOpen(true)}>
+              <UserPlus className="h-4 w-4 mr-2" />
+              Invite User
+            </Button>
+          </div>
+
+          {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+          {notice && <p className="text-sm text-green-700 mb-4">{notice}</p>}
+
+          {/* Users Table */}
+          <div className="bg-white rounded-lg shadow-sm border mb-8">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="font-semibold">Name</TableHead>
+                  <TableHead className="font-semibold">Email</TableHead>
+                  <TableHead className="font-semibold">Role</TableHead>
+                  <TableHead className="font-semibold">Status</TableHead>
+                  <TableHead className="font-semibold">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading && (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-gray-500">Loading users...</TableCell>
+                  </TableRow>
+                )}
+                {users.map((user) => {
+                  const isCurrentUser = user.id === currentUser?.id
+                  return (
+                    <TableRow key={user.id}>
+                      <TableCell className="font-medium">{user.name}{isCurrentUser && ' (you)'}</TableCell>
+                      <TableCell>{user.email}</TableCell>
+                      <TableCell>
+                        <Select
+                          value={user.role}
+                          onChange={(e) => handleRoleChange(user, e.target.value as Role)}
+                          disabled={isCurrentUser}
+                          className="w-44"
+                        >
+                          {Object.entries(ROLES).map(([value, { label }]) => (
+                            <option key={value} value={value}>{label}</option>
+                          ))}
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        <span className={user.isActive ? 'text-green-700' : 'text-gray-500'}>
+                          {user.isActive ? 'Active' : 'Deactivated'}
+                        </span>
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex space-x-2">
+                          <Button variant="outline" size="sm" onClick={() => handlePasswordReset(user)}>
+                            Send Reset Link
+                          </Button>
+                          {!isCurrentUser && (
+                            <Button variant="outline" size="sm" onClick={() => handleToggleActive(user)}>
+                              {user.isActive ? 'Deactivate' : 'Reactivate'}
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          </div>
+
+          {/* Pending Invitations */}
+          <h2 className="text-xl font-semibold text-gray-900 mb-4">Pending Invitations</h2>
+          <div className="bg-white rounded-lg shadow-sm border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="font-semibold">Email</TableHead>
+                  <TableHead className="font-semibold">Role</TableHead>
+                  <TableHead className="font-semibold">Invited By</TableHead>
+                  <TableHead className="font-semibold">Expires</TableHead>
+                  <TableHead className="font-semibold">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {!isLoading && invitations.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-gray-500">No pending invitations</TableCell>
+                  </TableRow>
+                )}
+                {invitations.map(invitation => (
+                  <TableRow key={invitation.id}>
+                    <TableCell className="font-medium">{invitation.email}</TableCell>
+                    <TableCell>{ROLES[invitation.role].label}</TableCell>
+                    <TableCell>{invitation.invitedBy}</TableCell>
+                    <TableCell>{new Date(invitation.expiresAt).toLocaleString()}</TableCell>
+                    <TableCell>
+                      <Button variant="outline" size="sm" onClick={() => handleRevoke(invitation)}>
+                        Revoke
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      </div>
+
+      {/* Invite User Modal */}
+      <Modal
+        isOpen={isInviteModalOpen}
+        onClose={() => setIsInviteModalOpen(false)}
+        title="Invite User"
+      >
+        <InviteUserForm
+          onClose={() => setIsInviteModalOpen(false)}
+          onInvited={(invitation) => {
+            setInvitations(current => [invitation].concat(current.filter(item => item.email !== invitation.email)))
+            setNotice(`An invitation has been emailed to ${invitation.email}`)
+          }}
+        />
+      </Modal>
+      </div>
+    </ProtectedRoute>
+  )
+}
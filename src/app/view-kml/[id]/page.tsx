@@ -1,10 +1,32 @@
 'use client'
 
-import { useState } from 'react'
-import { ChevronDown, ChevronLeft, ChevronRight, CheckSquare, Download, Edit } from 'lucide-react'
+import { useEffect, useMemo, useState } from 'react'
+import { ChevronDown, ChevronLeft, ChevronRight, CheckSquare, Download, Edit, Table2, Upload } from 'lucide-react'
 import { Button } from '@/components/ui/button'
+import { Modal } from '@/components/ui/modal'
 import { Select } from '@/components/ui/select'
 import { ProtectedRoute } from '@/components/auth/protected-route'
+import { FileUpload } from '@/components/forms/file-upload'
+import { AnalysisApproval } from '@/components/kml/analysis-approval'
+import { AttributeEditor } from '@/components/kml/attribute-editor'
+import { AreaDiscrepancyList } from '@/components/kml/area-discrepancy-list'
+import { GeometryIssueList } from '@/components/kml/geometry-issue-list'
+import { KmlEditor } from '@/components/kml/kml-editor'
+import { KmlMap, type KmlMapLayer } from '@/components/kml/kml-map'
+import { OverlapList } from '@/components/kml/overlap-list'
+import { PlotDetails } from '@/components/kml/plot-details'
+import { PlotMeasurements } from '@/components/kml/plot-measurements'
+import { RegistryChecklist } from '@/components/kml/registry-checklist'
+import { RepairDownloadModal } from '@/components/kml/repair-download-modal'
+import { saveAnalysisVersion } from '@/lib/api-service'
+import { PROJECT_TYPES, REGISTRIES, evaluateChecklist, resolveRules } from '@/lib/checklist'
+import { useAuth } from '@/lib/auth-context'
+import { NAVIGATION_STEPS, usePlotNavigation, type NavigationStep } from '@/lib/hooks/use-plot-navigation'
+import { useRequestAnalyses } from '@/lib/hooks/use-request-analyses'
+import type { EditedPlacemark } from '@/lib/kml'
+
+// Beyond this many plots the dots would not fit and only the counter is shown
+const MAX_NAVIGATION_DOTS = 24
 
 interface ViewKMLPageProps {
   params: {
@@ -16,6 +38,75 @@ export default function ViewKMLPage({ params }: ViewKMLPageProps) {
   const [selectedProjectType, setSelectedProjectType] = useState('')
   const [selectedRegistry, setSelectedRegistry] = useState('')
   const [selectedFolder, setSelectedFolder] = useState('')
+  const [isChecklistVisible, setIsChecklistVisible] = useState(false)
+  const [isDownloadOpen, setIsDownloadOpen] = useState(false)
+  const [isUploadOpen, setIsUploadOpen] = useState(false)
+  const [openEditor, setOpenEditor] = useState<'geometry' | 'attributes' | null>(null)
+  const { analyses, isLoading, error, reload } = useRequestAnalyses(params.id)
+  const { can } = useAuth()
+  const navigation = usePlotNavigation(analyses)
+  const { current, previous, next, select } = navigation
+
+  const completedAnalyses = analyses.filter(analysis => analysis.result)
+  const completedJobs = useMemo(
+    () => analyses.filter(analysis => analysis.result).map(analysis => analysis.job),
+    [analyses]
+  )
+  const mapLayers = useMemo(
+    () => analyses.reduce<KmlMapLayer[]>((layers, { job, document }) => (
+      document ? layers.concat([{ id: job.id, name: job.fileName, document }]) : layers
+    ), []),
+    [analyses]
+  )
+  const flaggedPlotCount = completedAnalyses.reduce((count, { result, externalOverlaps }) => {
+    const overlappingIds = result!.overlaps
+      .reduce<string[]>((ids, overlap) => ids.concat([overlap.plotId, overlap.otherPlotId]), [])
+      .concat(externalOverlaps.map(overlap => overlap.plotId))
+    return count + result!.plots.filter(plot =>
+      plot.issues.length > 0 ||
+      (plot.areaCheck && !plot.areaCheck.isWithinTolerance) ||
+      overlappingIds.indexOf(plot.id) !== -1
+    ).length
+  }, 0)
+  const checklistRules = selectedRegistry && selectedProjectType
+    ? resolveRules(selectedRegistry, selectedProjectType)
+    : []
+  const currentAnalysis = current
+    ? completedAnalyses.filter(({ job }) => job.id === current.analysisId)[0]
+    : undefined
+  // The editors open on the file shown in the map, or the first one with a document
+  const editableAnalysis = currentAnalysis && currentAnalysis.document
+    ? currentAnalysis
+    : completedAnalyses.filter(analysis => analysis.document)[0]
+
+  const handleSaveVersion = async (placemarks: EditedPlacemark[]) => {
+    if (!editableAnalysis) return
+    await saveAnalysisVersion(editableAnalysis.job.id, placemarks)
+    setOpenEditor(null)
+    select(null)
+    reload()
+  }
+
+  // Arrow keys step through the plots, Escape goes back to the overview
+  const isModalOpen = isDownloadOpen || isUploadOpen || openEditor !== null
+  useEffect(() => {
+    if (isModalOpen) return
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement
+      if (event.altKey || event.ctrlKey || event.metaKey || event.shiftKey) return
+      if (target.isContentEditable || ['INPUT', 'SELECT', 'TEXTAREA'].indexOf(target.tagName) !== -1) return
+
+      if (event.key === 'ArrowLeft') previous()
+      else if (event.key === 'ArrowRight') next()
+      else if (event.key === 'Escape') select(null)
+      else return
+      event.preventDefault()
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [isModalOpen, previous, next, select])
 
   return (
     <ProtectedRoute>
@@ -67,8 +158,9 @@ export default function ViewKMLPage({ params }: ViewKMLPageProps) {
                 onChange={(e) => setSelectedProjectType(e.target.value)}
               >
                 <option value="">Project Type</option>
-                <option value="type1">Type 1</option>
-                <option value="type2">Type 2</option>
+                {Object.entries(PROJECT_TYPES).map(([value, { label }]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
               </Select>
             </div>
             
@@ -78,14 +170,20 @@ export default function ViewKMLPage({ params }: ViewKMLPageProps) {
                 onChange={(e) => setSelectedRegistry(e.target.value)}
               >
                 <option value="">Registry</option>
-                <option value="registry1">Registry 1</option>
-                <option value="registry2">Registry 2</option>
+                {Object.entries(REGISTRIES).map(([value, { label }]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
               </Select>
             </div>
             
-            <Button className="bg-purple-600 hover:bg-purple-700">
-              View Checklist
-            </Button>
+            {can('checklist:run') && (
+              <Button
+                className="bg-purple-600 hover:bg-purple-700"
+                onClick={() => setIsChecklistVisible(visible => !visible)}
+              >
+                {isChecklistVisible ? 'Hide Checklist' : 'View Checklist'}
+              </Button>
+            )}
             
             <div className="w-48">
               <Select
@@ -98,12 +196,33 @@ export default function ViewKMLPage({ params }: ViewKMLPageProps) {
               </Select>
             </div>
             
-            <Button variant="outline" className="bg-purple-600 text-white hover:bg-purple-700">
-              <Edit className="h-4 w-4 mr-2" />
-              Edit KML
-            </Button>
+            {can('kml:upload') && (
+              <Button variant="outline" onClick={() => setIsUploadOpen(true)}>
+                <Upload className="h-4 w-4 mr-2" />
+                Upload KML
+              </Button>
+            )}
+
+            {can('kml:edit') && (
+              <>
+                <Button
+                  variant="outline"
+                  className="bg-purple-600 text-white hover:bg-purple-700"
+                  onClick={() => setOpenEditor('geometry')}
+                  disabled={!editableAnalysis}
+                >
+                  <Edit className="h-4 w-4 mr-2" />
+                  Edit KML
+                </Button>
+
+                <Button variant="outline" onClick={() => setOpenEditor('attributes')} disabled={!editableAnalysis}>
+                  <Table2 className="h-4 w-4 mr-2" />
+                  Edit Attributes
+                </Button>
+              </>
+            )}
             
-            <Button variant="outline">
+            <Button variant="outline" onClick={() => setIsDownloadOpen(true)}>
               <Download className="h-4 w-4 mr-2" />
               Download
             </Button>
@@ -117,35 +236,140 @@ export default function ViewKMLPage({ params }: ViewKMLPageProps) {
                 <div className="flex justify-center mb-4">
                   <div className="relative">
                     <CheckSquare className="h-16 w-16 text-gray-400" />
-                    <div className="absolute -top-1 -right-1 w-4 h-4 bg-green-500 rounded-full flex items-center justify-center">
-                      <span className="text-white text-xs font-bold">2</span>
-                    </div>
+                    {flaggedPlotCount > 0 && (
+                      <div className="absolute -top-1 -right-1 w-4 h-4 bg-amber-500 rounded-full flex items-center justify-center">
+                        <span className="text-white text-xs font-bold">{flaggedPlotCount}</span>
+                      </div>
+                    )}
                   </div>
                 </div>
                 <h3 className="text-lg font-semibold text-gray-900 mb-2">Checklist</h3>
-                <p className="text-gray-600">Select filters to view checklist</p>
+                <p className="text-gray-600">
+                  {isChecklistVisible && completedAnalyses.length === 0
+                    ? 'No analysed KML files for this request'
+                    : checklistRules.length === 0
+                      ? 'Select filters to view checklist'
+                      : `${REGISTRIES[selectedRegistry as keyof typeof REGISTRIES].label} · ${PROJECT_TYPES[selectedProjectType as keyof typeof PROJECT_TYPES].label}`}
+                </p>
               </div>
+
+              {isChecklistVisible && completedAnalyses.length > 0 && (
+                <div className="mt-6 pt-6 border-t space-y-6">
+                  {completedAnalyses.map(({ job, result, externalOverlaps }) => (
+                    <div key={job.id} className="space-y-4">
+                      <div className="flex items-center justify-between gap-2">
+                        <p className="text-xs text-gray-500 truncate">{job.fileName}</p>
+                        <AnalysisApproval job={job} canApprove={can('analyses:approve')} onApproved={reload} />
+                      </div>
+                      {checklistRules.length > 0 && (
+                        <RegistryChecklist
+                          items={evaluateChecklist(checklistRules, { analysis: result!, externalOverlaps })}
+                        />
+                      )}
+                      <GeometryIssueList plots={result!.plots} />
+                      <AreaDiscrepancyList plots={result!.plots} />
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
 
             {/* Right Panel - KML Preview */}
             <div className="bg-white rounded-lg shadow-sm border p-6">
-              <div className="bg-gray-100 rounded-lg h-80 flex items-center justify-center relative">
-                {/* Placeholder for KML viewer */}
-                <div className="text-center">
-                  <div className="w-16 h-16 bg-gray-300 rounded-full flex items-center justify-center mb-4 mx-auto">
-                    <span className="text-2xl">🌍</span>
-                  </div>
-                  <p className="text-gray-500">KML Preview Area</p>
-                </div>
+              <div className="bg-gray-100 rounded-lg h-80 overflow-hidden relative">
+                <KmlMap
+                  layers={mapLayers}
+                  selected={current ? { layerId: current.analysisId, placemarkId: current.placemarkId } : null}
+                  onPlacemarkClick={({ layerId, placemarkId }) => select({
+                    analysisId: layerId,
+                    placemarkId: navigation.step === 'file' ? null : placemarkId
+                  })}
+                />
                 
                 {/* Navigation arrows */}
-                <Button variant="ghost" size="icon" className="absolute left-2 top-1/2 transform -translate-y-1/2">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="absolute left-2 top-1/2 z-[1000] transform -translate-y-1/2 bg-white/80 hover:bg-white/90"
+                  onClick={previous}
+                  disabled={navigation.items.length === 0}
+                  title="Previous (←)"
+                  aria-label="Previous"
+                >
                   <ChevronLeft className="h-4 w-4" />
                 </Button>
-                <Button variant="ghost" size="icon" className="absolute right-2 top-1/2 transform -translate-y-1/2">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="absolute right-2 top-1/2 z-[1000] transform -translate-y-1/2 bg-white/80 hover:bg-white/90"
+                  onClick={next}
+                  disabled={navigation.items.length === 0}
+                  title="Next (→)"
+                  aria-label="Next"
+                >
                   <ChevronRight className="h-4 w-4" />
                 </Button>
               </div>
+
+              {/* Plot navigation */}
+              <div className="mt-4 flex items-center justify-between gap-4">
+                <div className="flex rounded-md border text-xs overflow-hidden">
+                  {(Object.keys(NAVIGATION_STEPS) as NavigationStep[]).map(step => (
+                    <button
+                      key={step}
+                      type="button"
+                      onClick={() => navigation.setStep(step)}
+                      className={`px-3 py-1 ${navigation.step === step ? 'bg-blue-600 text-white' : 'text-gray-600 hover:bg-gray-100'}`}
+                    >
+                      {NAVIGATION_STEPS[step].label}
+                    </button>
+                  ))}
+                </div>
+                <div className="flex items-center space-x-3 min-w-0">
+                  {navigation.items.length <= MAX_NAVIGATION_DOTS && (
+                    <div className="flex items-center space-x-1.5">
+                      {navigation.items.map((item, index) => (
+                        <button
+                          key={`${item.analysisId}/${item.placemarkId}`}
+                          type="button"
+                          onClick={() => select(item)}
+                          className={`w-2.5 h-2.5 rounded-full transition-colors ${
+                            index === navigation.index ? 'bg-blue-600' : 'bg-gray-300 hover:bg-gray-400'
+                          }`}
+                          aria-label={`Go to ${navigation.step} ${index + 1}`}
+                        />
+                      ))}
+                    </div>
+                  )}
+                  <span className="text-xs text-gray-500 whitespace-nowrap">
+                    {current
+                      ? `${navigation.index + 1} of ${navigation.items.length}`
+                      : `${navigation.items.length} ${NAVIGATION_STEPS[navigation.step].label.toLowerCase()}`}
+                  </span>
+                </div>
+              </div>
+
+              <div className="mt-4 pt-4 border-t">
+                {current && currentAnalysis ? (
+                  <PlotDetails
+                    fileName={currentAnalysis.job.fileName}
+                    analysis={currentAnalysis.result!}
+                    plotId={current.placemarkId}
+                    checklistItems={checklistRules.length > 0
+                      ? evaluateChecklist(checklistRules, {
+                        analysis: currentAnalysis.result!,
+                        externalOverlaps: currentAnalysis.externalOverlaps
+                      })
+                      : []}
+                  />
+                ) : (
+                  <p className="text-sm text-gray-500">
+                    {navigation.items.length === 0
+                      ? 'No analysed plots to show yet'
+                      : 'Click a plot or use the arrows (← →) to step through them; Esc shows everything'}
+                  </p>
+                )}
+              </div>
               
               {/* Google Earth Integration */}
               <div className="mt-4 flex items-center justify-between">
@@ -155,20 +379,81 @@ export default function ViewKMLPage({ params }: ViewKMLPageProps) {
                 </div>
               </div>
               
-              {/* Timeline/Progress indicators */}
-              <div className="mt-6 flex items-center space-x-2">
-                <div className="w-3 h-3 bg-gray-300 rounded-full"></div>
-                <div className="w-3 h-3 bg-gray-300 rounded-full"></div>
-                <div className="w-3 h-3 bg-blue-600 rounded-full flex items-center justify-center">
-                  <span className="text-white text-xs">+</span>
+              {/* Overlaps */}
+              {completedAnalyses.length > 0 && (
+                <div className="mt-6 pt-6 border-t space-y-4">
+                  <h4 className="text-sm font-semibold text-gray-900">Plot Overlaps</h4>
+                  {completedAnalyses.map(({ job, result, externalOverlaps }) => (
+                    <OverlapList
+                      key={job.id}
+                      fileName={job.fileName}
+                      overlaps={result!.overlaps}
+                      externalOverlaps={externalOverlaps}
+                    />
+                  ))}
                 </div>
-                <div className="w-3 h-3 bg-gray-300 rounded-full"></div>
-              </div>
+              )}
             </div>
           </div>
+
+          {/* Plot Measurements */}
+          <div className="mt-8 bg-white rounded-lg shadow-sm border p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Plot Measurements</h3>
+            {isLoading ? (
+              <p className="text-sm text-gray-500">Loading analyses...</p>
+            ) : error ? (
+              <p className="text-sm text-red-600">{error}</p>
+            ) : analyses.length === 0 ? (
+              <p className="text-sm text-gray-500">No KML files have been analysed for this request yet</p>
+            ) : (
+              <div className="space-y-6">
+                {analyses.map(({ job, result }) => result ? (
+                  <PlotMeasurements key={job.id} fileName={job.fileName} plots={result.plots} />
+                ) : (
+                  <p key={job.id} className="text-sm text-gray-500">
+                    {job.fileName}: {job.status === 'error' ? job.error : `analysis ${job.status}`}
+                  </p>
+                ))}
+              </div>
+            )}
+          </div>
         </div>
       </div>
       </div>
+
+      <RepairDownloadModal
+        isOpen={isDownloadOpen}
+        onClose={() => setIsDownloadOpen(false)}
+        jobs={completedJobs}
+      />
+
+      <Modal
+        isOpen={isUploadOpen}
+        onClose={() => setIsUploadOpen(false)}
+        title="Upload KML"
+      >
+        <FileUpload requestId={params.id} onUploadComplete={reload} />
+      </Modal>
+
+      {openEditor === 'geometry' && editableAnalysis && (
+        <KmlEditor
+          key={editableAnalysis.job.id}
+          fileName={editableAnalysis.job.fileName}
+          document={editableAnalysis.document!}
+          onSave={handleSaveVersion}
+          onClose={() => setOpenEditor(null)}
+        />
+      )}
+
+      {openEditor === 'attributes' && editableAnalysis && (
+        <AttributeEditor
+          key={editableAnalysis.job.id}
+          fileName={editableAnalysis.job.fileName}
+          document={editableAnalysis.document!}
+          onSave={handleSaveVersion}
+          onClose={() => setOpenEditor(null)}
+        />
+      )}
     </ProtectedRoute>
   )
 }
@@ -1,7 +1,7 @@
 'use client'
 
 import { useState } from 'react'
-import { useRouter } from 'next/navigation'
+import { useQueryState } from 'nuqs'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Checkbox } from '@/components/ui/checkbox'
@@ -15,20 +15,21 @@ export function LoginPage() {
   const [isLoading, setIsLoading] = useState(false)
   
   const { login } = useAuth()
-  const router = useRouter()
+  // Set when the app logged the user out because the session ended
+  const [expired] = useQueryState('expired')
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setError('')
     setIsLoading(true)
 
-    // Simulate API call delay
-    await new Promise(resolve => setTimeout(resolve, 500))
-
-    if (login(email, password)) {
-      router.push('/requests')
-    } else {
-      setError('Invalid email or password')
+    try {
+      // The home page redirects once the user is set
+      if (!(await login(email, password, rememberMe))) {
+        setError('Invalid email or password')
+      }
+    } catch (loginError) {
+      setError(loginError instanceof Error ? loginError.message : 'Login failed')
     }
     
     setIsLoading(false)
@@ -50,6 +51,12 @@ export function LoginPage() {
           {/* Greeting */}
           <h1 className="text-3xl font-bold text-gray-900 mb-8">Hello Again!</h1>
 
+          {expired && (
+            <div className="mb-6 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+              Your session has expired. Please sign in again to continue.
+            </div>
+          )}
+
           {/* Login Form */}
           <form onSubmit={handleSubmit} className="space-y-6">
             {/* Email Field */}
@@ -90,7 +97,7 @@ export function LoginPage() {
                 <Checkbox
                   id="remember"
                   checked={rememberMe}
-                  onCheckedChange={(checked) => setRememberMe(checked as boolean)}
+                  onChange={(e) => setRememberMe(e.target.checked)}
                 />
                 <label htmlFor="remember" className="text-sm text-gray-600">
                   Remember me
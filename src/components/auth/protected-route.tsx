@@ -3,12 +3,15 @@
 import { useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 import { useAuth } from '@/lib/auth-context'
+import { ROLES, type Role } from '@/lib/roles'
 
 interface ProtectedRouteProps {
   children: React.ReactNode
+  /** Roles allowed to see the page; any logged-in user when omitted */
+  requiredRole?: Role | Role[]
 }
 
-export function ProtectedRoute({ children }: ProtectedRouteProps) {
+export function ProtectedRoute({ children, requiredRole }: ProtectedRouteProps) {
   const { user, isLoading } = useAuth()
   const router = useRouter()
 
@@ -30,5 +33,18 @@ export function ProtectedRoute({ children }: ProtectedRouteProps) {
     return null
   }
 
+  const allowedRoles = requiredRole === undefined ? null : ([] as Role[]).concat(requiredRole)
+  if (allowedRoles && allowedRoles.indexOf(user.role) === -1) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center text-center">
+        <h1 className="text-2xl font-bold text-gray-900 mb-2">Access denied</h1>
+        <p className="text-gray-600 mb-4">
+          This page is not available to the {ROLES[user.role].label} role.
+        </p>
+        <a href="/requests" className="text-blue-600 hover:text-blue-800">Back to Requests</a>
+      </div>
+    )
+  }
+
   return <>{children}</>
 }
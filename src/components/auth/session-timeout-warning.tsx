@@ -0,0 +1,119 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Modal } from '@/components/ui/modal'
+import { notifySessionExpired, SESSION_ACTIVITY_EVENT } from '@/lib/api-service'
+import { useAuth } from '@/lib/auth-context'
+
+// How long before the session ends the warning opens
+const WARNING_MS = 2 * 60 * 1000
+// Activity pings the server at most this often, which keeps the idle timer there running
+const KEEPALIVE_MS = 60 * 1000
+// The server records activity with one-minute resolution, so end the session that much earlier here
+const SERVER_RESOLUTION_MS = 60 * 1000
+const ACTIVITY_EVENTS = ['mousedown', 'keydown', 'scroll', 'touchstart', SESSION_ACTIVITY_EVENT]
+
+/**
+ * Warns before an idle or expiring session ends and logs the user out when it does
+ * Input and running uploads count as activity; an idle session can be extended from
+ * the warning, a session reaching its absolute limit cannot.
+ */
+export function SessionTimeoutWarning() {
+  const { user, session, refresh, logout } = useAuth()
+  const [secondsLeft, setSecondsLeft] = useState<number | null>(null)
+  const [isIdleWarning, setIsIdleWarning] = useState(true)
+  const lastContactRef = useRef(Date.now())
+  const isWarningOpenRef = useRef(false)
+  const isLimitWarningDismissedRef = useRef(false)
+
+  // Every session refresh is a request the server counted as activity
+  useEffect(() => {
+    lastContactRef.current = Date.now()
+  }, [session])
+
+  useEffect(() => {
+    if (!user || !session) return
+
+    const handleActivity = () => {
+      // Once warned, only the buttons keep the session alive
+      if (isWarningOpenRef.current) return
+      if (session.idleTimeoutSeconds !== null && Date.now() - lastContactRef.current >= KEEPALIVE_MS) {
+        lastContactRef.current = Date.now()
+        refresh()
+      }
+    }
+
+    const tick = () => {
+      const now = Date.now()
+      const expiresAt = Date.parse(session.expiresAt)
+      const idleEndsAt = session.idleTimeoutSeconds === null
+        ? Infinity
+        : lastContactRef.current + session.idleTimeoutSeconds * 1000 - SERVER_RESOLUTION_MS
+      const endsAt = Math.min(expiresAt, idleEndsAt)
+
+      if (now >= endsAt) {
+        window.clearInterval(timer)
+        notifySessionExpired()
+        return
+      }
+
+      const isIdle = idleEndsAt < expiresAt
+      const isOpen = endsAt - now <= WARNING_MS && (isIdle || !isLimitWarningDismissedRef.current)
+      isWarningOpenRef.current = isOpen
+      setIsIdleWarning(isIdle)
+      setSecondsLeft(isOpen ? Math.ceil((endsAt - now) / 1000) : null)
+    }
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }))
+    const timer = window.setInterval(tick, 1000)
+    tick()
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity))
+      window.clearInterval(timer)
+    }
+  }, [user, session, refresh])
+
+  if (secondsLeft === null) return null
+
+  const handleStayLoggedIn = async () => {
+    isWarningOpenRef.current = false
+    setSecondsLeft(null)
+    await refresh()
+  }
+
+  const handleDismissLimitWarning = () => {
+    isLimitWarningDismissedRef.current = true
+    isWarningOpenRef.current = false
+    setSecondsLeft(null)
+  }
+
+  const minutes = Math.floor(secondsLeft / 60)
+  const seconds = String(secondsLeft % 60).padStart(2, '0')
+
+  return (
+    <Modal
+      isOpen
+      onClose={isIdleWarning ? handleStayLoggedIn : handleDismissLimitWarning}
+      title="Your session is about to end"
+      className="max-w-md"
+    >
+      <p className="text-gray-700 mb-6">
+        {isIdleWarning
+          ? `You have been inactive for a while. You will be logged out in ${minutes}:${seconds}.`
+          : `Your session reaches its time limit in ${minutes}:${seconds}. Save your work; you will need to sign in again.`}
+      </p>
+      <div className="flex justify-end space-x-4">
+        <Button variant="outline" onClick={logout}>
+          Log out
+        </Button>
+        {isIdleWarning && (
+          <Button onClick={handleStayLoggedIn}>
+            Stay logged in
+          </Button>
+        )}
+      </div>
+    </Modal>
+  )
+}
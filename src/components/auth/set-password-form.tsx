@@ -0,0 +1,98 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+
+interface SetPasswordFormProps {
+  submitLabel: string
+  /** Ask for a display name too, prefilled with this value */
+  initialName?: string
+  onSubmit: (input: { name: string, password: string }) => Promise<void>
+}
+
+/**
+ * Password and confirmation fields shared by the invitation and password-reset pages
+ */
+export function SetPasswordForm({ submitLabel, initialName, onSubmit }: SetPasswordFormProps) {
+  const [name, setName] = useState(initialName || '')
+  const [password, setPassword] = useState('')
+  const [confirmation, setConfirmation] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (password !== confirmation) {
+      setError('Passwords do not match')
+      return
+    }
+
+    setIsSubmitting(true)
+    setError(null)
+
+    try {
+      await onSubmit({ name, password })
+    } catch (submitError) {
+      setError(submitError instanceof Error ? submitError.message : 'Failed to save password')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {initialName !== undefined && (
+        <div>
+          <label htmlFor="name" className="block text-sm font-medium text-gray-700 mb-2">
+            Name
+          </label>
+          <Input
+            id="name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Enter your name"
+            required
+          />
+        </div>
+      )}
+
+      <div>
+        <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-2">
+          Password
+        </label>
+        <Input
+          id="password"
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder="At least 8 characters"
+          minLength={8}
+          required
+        />
+      </div>
+
+      <div>
+        <label htmlFor="confirmation" className="block text-sm font-medium text-gray-700 mb-2">
+          Confirm Password
+        </label>
+        <Input
+          id="confirmation"
+          type="password"
+          value={confirmation}
+          onChange={(e) => setConfirmation(e.target.value)}
+          placeholder="Repeat the password"
+          required
+        />
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600">{error}</p>
+      )}
+
+      <Button type="submit" className="w-full bg-blue-600 hover:bg-blue-700" disabled={isSubmitting}>
+        {isSubmitting ? 'Saving...' : submitLabel}
+      </Button>
+    </form>
+  )
+}
@@ -1,31 +1,101 @@
 'use client'
 
-import { useState } from 'react'
-import { Upload, Cloud, Image } from 'lucide-react'
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { Upload, Cloud, Image, FolderOpen } from 'lucide-react'
 import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
 import { Input } from '@/components/ui/input'
 import { Select } from '@/components/ui/select'
+import { UploadQueueList } from '@/components/forms/upload-queue-list'
+import {
+  createRequest,
+  listProjects,
+  listUsers,
+  type ClientRequest,
+  type ClientRequestInput,
+  type ProjectSummary,
+  type User
+} from '@/lib/api-service'
+import { PROJECT_TYPES, REGISTRIES } from '@/lib/checklist'
+import { filesFromDataTransfer, filesFromInput, hasAcceptedExtension, type SelectedFile } from '@/lib/file-selection'
+import { useUploadQueue } from '@/lib/hooks/use-upload-queue'
+
+const ACCEPTED_TYPES = ['.kml', '.kmz']
+const MAX_FILE_SIZE_MB = 50
 
 interface AddNewRequestFormProps {
   onClose: () => void
+  onCreated?: (request: ClientRequest) => void
 }
 
-export function AddNewRequestForm({ onClose }: AddNewRequestFormProps) {
-  const [formData, setFormData] = useState({
-    requestId: '',
+export function AddNewRequestForm({ onClose, onCreated }: AddNewRequestFormProps) {
+  const [formData, setFormData] = useState<ClientRequestInput>({
     clientName: '',
+    email: '',
     receivedOn: '',
     location: '',
     registry: '',
     projectType: '',
-    folderName: ''
+    folderName: '',
+    projectId: '',
+    assignedUserIds: []
+  })
+  const [projects, setProjects] = useState<ProjectSummary[]>([])
+  const [uploaders, setUploaders] = useState<User[]>([])
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  // Set once saved; the selected files are then uploaded to it
+  const [createdRequest, setCreatedRequest] = useState<ClientRequest | null>(null)
+  const [isDragOver, setIsDragOver] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const folderInputRef = useRef<HTMLInputElement | null>(null)
+
+  const {
+    items,
+    summary,
+    addFiles,
+    start,
+    retry,
+    retryFailed,
+    pause,
+    resume,
+    remove
+  } = useUploadQueue({
+    validate: (file) => file.size > MAX_FILE_SIZE_MB * 1024 * 1024 ? `File size must be less than ${MAX_FILE_SIZE_MB}MB` : null
   })
 
-  const handleSubmit = (e: React.FormEvent) => {
+  useEffect(() => {
+    listProjects()
+      .then(items => setProjects(items.filter(project => project.status !== 'Archived')))
+      .catch(() => setProjects([]))
+    listUsers()
+      .then(users => setUploaders(users.filter(user => user.role === 'field-uploader')))
+      .catch(() => setUploaders([]))
+  }, [])
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
-    // Handle form submission
-    console.log('Form submitted:', formData)
-    onClose()
+    // Enter in a field must not save the request a second time while its files upload
+    if (createdRequest) return
+    // Files still being checked would be left out of the upload
+    if (summary.inspecting > 0) return
+    setIsSubmitting(true)
+    setError(null)
+
+    try {
+      const request = await createRequest(formData)
+      onCreated?.(request)
+      if (summary.pending === 0) {
+        onClose()
+        return
+      }
+      setCreatedRequest(request)
+      start(request.id)
+    } catch (submitError) {
+      setError(submitError instanceof Error ? submitError.message : 'Failed to save request')
+    } finally {
+      setIsSubmitting(false)
+    }
   }
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
@@ -35,34 +105,64 @@ export function AddNewRequestForm({ onClose }: AddNewRequestFormProps) {
     }))
   }
 
+  /**
+   * Adds KML/KMZ files to the list; other files from dropped folders are ignored
+   */
+  const handleFilesSelected = useCallback((files: SelectedFile[]) => {
+    addFiles(files.filter(({ path }) => hasAcceptedExtension(path, ACCEPTED_TYPES)))
+  }, [addFiles])
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault()
+    setIsDragOver(false)
+    filesFromDataTransfer(e.dataTransfer)
+      .then(handleFilesSelected)
+      .catch(() => setError('Failed to read the dropped files'))
+  }
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    handleFilesSelected(filesFromInput(e.target.files))
+    e.target.value = ''
+  }
+
+  const toggleUploader = (userId: string, isAssigned: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      assignedUserIds: isAssigned
+        ? prev.assignedUserIds.concat(userId)
+        : prev.assignedUserIds.filter(id => id !== userId)
+    }))
+  }
+
   return (
     <form onSubmit={handleSubmit} className="space-y-6">
       {/* Primary Fields */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
         <div>
-          <label htmlFor="requestId" className="block text-sm font-medium text-gray-700 mb-2">
-            Request ID
+          <label htmlFor="clientName" className="block text-sm font-medium text-gray-700 mb-2">
+            Client Name
           </label>
           <Input
-            id="requestId"
-            name="requestId"
-            value={formData.requestId}
+            id="clientName"
+            name="clientName"
+            value={formData.clientName}
             onChange={handleChange}
-            placeholder="Enter Request ID"
+            placeholder="Enter Client Name"
             required
           />
         </div>
         
         <div>
-          <label htmlFor="clientName" className="block text-sm font-medium text-gray-700 mb-2">
-            Client Name
+          <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
+            Email
           </label>
           <Input
-            id="clientName"
-            name="clientName"
-            value={formData.clientName}
+            id="email"
+            name="email"
+            type="email"
+            value={formData.email}
             onChange={handleChange}
-            placeholder="Enter Client Name"
+            placeholder="Enter Email"
             required
           />
         </div>
@@ -83,7 +183,33 @@ export function AddNewRequestForm({ onClose }: AddNewRequestFormProps) {
       </div>
 
       {/* File Upload Area */}
-      <div className="border-2 border-dashed border-gray-300 rounded-lg p-8 text-center hover:border-gray-400 transition-colors">
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={ACCEPTED_TYPES.join(',')}
+        multiple
+        onChange={handleInputChange}
+        className="hidden"
+      />
+      <input
+        ref={(input) => {
+          // Not in React's input attributes; lets the picker choose a whole folder
+          input?.setAttribute('webkitdirectory', '')
+          folderInputRef.current = input
+        }}
+        type="file"
+        onChange={handleInputChange}
+        className="hidden"
+      />
+      <div
+        className={`border-2 border-dashed rounded-lg p-8 text-center transition-colors ${isDragOver ? 'border-blue-500 bg-blue-50' : 'border-gray-300 hover:border-gray-400'}`}
+        onDragOver={(e) => {
+          e.preventDefault()
+          setIsDragOver(true)
+        }}
+        onDragLeave={() => setIsDragOver(false)}
+        onDrop={handleDrop}
+      >
         <div className="flex flex-col items-center space-y-4">
           <div className="relative">
             <Cloud className="h-12 w-12 text-gray-400" />
@@ -91,15 +217,31 @@ export function AddNewRequestForm({ onClose }: AddNewRequestFormProps) {
           </div>
           <div>
             <p className="text-lg font-medium text-gray-700">Browse and Upload KML Files</p>
-            <p className="text-sm text-gray-500 mt-1">Drag and drop files here or click to browse</p>
+            <p className="text-sm text-gray-500 mt-1">Drag and drop files or folders here or click to browse</p>
+          </div>
+          <div className="flex space-x-2 mt-4">
+            <Button type="button" variant="outline" onClick={() => fileInputRef.current?.click()}>
+              <Upload className="h-4 w-4 mr-2" />
+              Choose Files
+            </Button>
+            <Button type="button" variant="outline" onClick={() => folderInputRef.current?.click()}>
+              <FolderOpen className="h-4 w-4 mr-2" />
+              Choose Folder
+            </Button>
           </div>
-          <Button type="button" variant="outline" className="mt-4">
-            <Upload className="h-4 w-4 mr-2" />
-            Choose Files
-          </Button>
         </div>
       </div>
 
+      <UploadQueueList
+        items={items}
+        summary={summary}
+        onRetry={retry}
+        onRetryFailed={retryFailed}
+        onPause={pause}
+        onResume={resume}
+        onRemove={remove}
+      />
+
       {/* Additional Details Section */}
       <div>
         <h3 className="text-lg font-semibold text-gray-900 mb-4">Add Additional Details</h3>
@@ -121,26 +263,51 @@ export function AddNewRequestForm({ onClose }: AddNewRequestFormProps) {
             <label htmlFor="registry" className="block text-sm font-medium text-gray-700 mb-2">
               Registry
             </label>
-            <Input
+            <Select
               id="registry"
               name="registry"
               value={formData.registry}
               onChange={handleChange}
-              placeholder="Enter Registry"
-            />
+            >
+              <option value="">Select Registry</option>
+              {Object.entries(REGISTRIES).map(([value, { label }]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </Select>
           </div>
           
           <div>
             <label htmlFor="projectType" className="block text-sm font-medium text-gray-700 mb-2">
               Project Type
             </label>
-            <Input
+            <Select
               id="projectType"
               name="projectType"
               value={formData.projectType}
               onChange={handleChange}
-              placeholder="Enter Project Type"
-            />
+            >
+              <option value="">Select Project Type</option>
+              {Object.entries(PROJECT_TYPES).map(([value, { label }]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </Select>
+          </div>
+          
+          <div>
+            <label htmlFor="projectId" className="block text-sm font-medium text-gray-700 mb-2">
+              Project
+            </label>
+            <Select
+              id="projectId"
+              name="projectId"
+              value={formData.projectId}
+              onChange={handleChange}
+            >
+              <option value="">No Project</option>
+              {projects.map(project => (
+                <option key={project.id} value={project.id}>{project.id} · {project.name}</option>
+              ))}
+            </Select>
           </div>
           
           <div>
@@ -156,17 +323,51 @@ export function AddNewRequestForm({ onClose }: AddNewRequestFormProps) {
             />
           </div>
         </div>
+
+        {uploaders.length > 0 && (
+          <div>
+            <p className="block text-sm font-medium text-gray-700 mb-2">Assigned Uploaders</p>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+              {uploaders.map(uploader => (
+                <label key={uploader.id} className="flex items-center space-x-2 text-sm text-gray-700">
+                  <Checkbox
+                    checked={formData.assignedUserIds.indexOf(uploader.id) !== -1}
+                    onChange={(e) => toggleUploader(uploader.id, e.target.checked)}
+                  />
+                  <span>{uploader.name}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
       </div>
 
+      {error && (
+        <p className="text-sm text-red-600">{error}</p>
+      )}
+
       {/* Action Buttons */}
-      <div className="flex justify-end space-x-4 pt-6 border-t">
-        <Button type="button" variant="outline" onClick={onClose}>
-          Cancel
-        </Button>
-        <Button type="submit" className="bg-green-600 hover:bg-green-700">
-          Save
-        </Button>
-      </div>
+      {createdRequest ? (
+        <div className="flex justify-between items-center pt-6 border-t">
+          <p className="text-sm text-gray-600">
+            {summary.active > 0
+              ? `Request ${createdRequest.id} saved. Uploading files...`
+              : `Request ${createdRequest.id} saved with ${summary.succeeded} of ${summary.total} files uploaded.`}
+          </p>
+          <Button type="button" onClick={onClose} disabled={summary.active > 0}>
+            Done
+          </Button>
+        </div>
+      ) : (
+        <div className="flex justify-end space-x-4 pt-6 border-t">
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="submit" className="bg-green-600 hover:bg-green-700" disabled={isSubmitting || summary.inspecting > 0}>
+            {isSubmitting ? 'Saving...' : summary.inspecting > 0 ? 'Checking Files...' : summary.pending > 0 ? `Save and Upload ${summary.pending} File${summary.pending === 1 ? '' : 's'}` : 'Save'}
+          </Button>
+        </div>
+      )}
     </form>
   )
 }
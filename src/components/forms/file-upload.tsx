@@ -1,23 +1,21 @@
 'use client'
 
 import React, { useState, useCallback, useRef } from 'react'
-import { motion, AnimatePresence } from 'framer-motion'
-import { Upload, File, X, CheckCircle, AlertCircle, Loader2 } from 'lucide-react'
+import { motion } from 'framer-motion'
+import { Upload, FolderOpen } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent } from '@/components/ui/card'
+import { UploadQueueList } from '@/components/forms/upload-queue-list'
 import { cn } from '@/lib/utils'
-import { 
-  requestPresignedUrl, 
-  uploadFileToS3, 
-  processKmlFile,
-  type PresignedUrlResponse,
-  type UploadStatus,
-  type UploadProgress
-} from '@/lib/api-service'
+import { filesFromDataTransfer, filesFromInput, hasAcceptedExtension, type SelectedFile } from '@/lib/file-selection'
+import { useUploadQueue } from '@/lib/hooks/use-upload-queue'
 
 interface FileUploadProps {
-  onUploadComplete?: (fileKey: string, analysisId: string) => void
+  /** Called once for every file that is uploaded and queued for analysis */
+  onUploadComplete?: (fileKey: string, analysisId: string, file: File) => void
   onUploadError?: (error: string) => void
+  /** The request uploaded files are analysed for */
+  requestId?: string
   maxFileSize?: number // in MB
   acceptedTypes?: string[]
   className?: string
@@ -26,10 +24,11 @@ interface FileUploadProps {
 /**
  * FileUpload component for handling KML file uploads with presigned URLs
  * Features:
- * - Drag and drop support
- * - File validation
- * - Upload progress tracking
- * - Error handling
+ * - Drag and drop of files and whole folders
+ * - File validation, including a check of each file's contents in a Web Worker
+ * - Several files uploading at once, with per-file progress tracking
+ * - Retry of failed files
+ * - Multipart uploads that can be paused, and resumed after a page reload
  * - Modern UI with animations
  */
 export function FileUpload({
@@ -37,104 +36,51 @@ export function FileUpload({
   onUploadError,
   maxFileSize = 50, // 50MB default
   acceptedTypes = ['.kml', '.kmz'],
+  requestId,
   className
 }: FileUploadProps) {
-  const [uploadStatus, setUploadStatus] = useState<UploadStatus>({
-    status: 'idle',
-    progress: { loaded: 0, total: 0, percentage: 0 }
-  })
-  const [selectedFile, setSelectedFile] = useState<File | null>(null)
   const [isDragOver, setIsDragOver] = useState(false)
+  const [skippedCount, setSkippedCount] = useState(0)
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const folderInputRef = useRef<HTMLInputElement | null>(null)
 
   /**
-   * Validates the selected file against size and type constraints
+   * Validates a file against size constraints; the type is checked when files are added
    */
   const validateFile = useCallback((file: File): string | null => {
-    // Check file size
     if (file.size > maxFileSize * 1024 * 1024) {
       return `File size must be less than ${maxFileSize}MB`
     }
-
-    // Check file type
-    const fileExtension = '.' + file.name.split('.').pop()?.toLowerCase()
-    if (!acceptedTypes.includes(fileExtension)) {
-      return `Only ${acceptedTypes.join(', ')} files are allowed`
-    }
-
     return null
-  }, [maxFileSize, acceptedTypes])
+  }, [maxFileSize])
+
+  const {
+    items,
+    summary,
+    addFiles,
+    start,
+    retry,
+    retryFailed,
+    pause,
+    resume,
+    remove,
+    clearFinished: clearFinishedItems
+  } = useUploadQueue({
+    validate: validateFile,
+    onItemComplete: (item, fileKey, analysisId) => onUploadComplete?.(fileKey, analysisId, item.file),
+    onItemError: (item, error) => onUploadError?.(`${item.path}: ${error}`)
+  })
 
   /**
-   * Handles file selection from input or drag and drop
+   * Adds selected files to the queue
+   * Folders usually hold other files too, so anything that is not KML/KMZ is skipped
+   * and counted rather than listed.
    */
-  const handleFileSelect = useCallback((file: File) => {
-    const validationError = validateFile(file)
-    
-    if (validationError) {
-      setUploadStatus({
-        status: 'error',
-        progress: { loaded: 0, total: 0, percentage: 0 },
-        error: validationError
-      })
-      onUploadError?.(validationError)
-      return
-    }
-
-    setSelectedFile(file)
-    setUploadStatus({
-      status: 'idle',
-      progress: { loaded: 0, total: 0, percentage: 0 }
-    })
-  }, [validateFile, onUploadError])
-
-  /**
-   * Handles the complete upload process
-   */
-  const handleUpload = useCallback(async () => {
-    if (!selectedFile) return
-
-    try {
-      setUploadStatus(prev => ({ ...prev, status: 'uploading' }))
-
-      // Step 1: Request presigned URL
-      const presignedData: PresignedUrlResponse = await requestPresignedUrl(
-        selectedFile.name,
-        selectedFile.type,
-        selectedFile.size
-      )
-
-      // Step 2: Upload file to S3
-      const fileKey = await uploadFileToS3(
-        selectedFile,
-        presignedData.presignedUrl,
-        presignedData.fields,
-        (progress: UploadProgress) => {
-          setUploadStatus(prev => ({ ...prev, progress }))
-        }
-      )
-
-      // Step 3: Process the uploaded file
-      const { analysisId } = await processKmlFile(fileKey)
-
-      setUploadStatus(prev => ({
-        ...prev,
-        status: 'success',
-        fileKey
-      }))
-
-      onUploadComplete?.(fileKey, analysisId)
-
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Upload failed'
-      setUploadStatus({
-        status: 'error',
-        progress: { loaded: 0, total: 0, percentage: 0 },
-        error: errorMessage
-      })
-      onUploadError?.(errorMessage)
-    }
-  }, [selectedFile, onUploadComplete, onUploadError])
+  const handleFilesSelected = useCallback((files: SelectedFile[]) => {
+    const accepted = files.filter(({ path }) => hasAcceptedExtension(path, acceptedTypes))
+    setSkippedCount(count => count + files.length - accepted.length)
+    addFiles(accepted)
+  }, [acceptedTypes, addFiles])
 
   /**
    * Handles drag and drop events
@@ -152,200 +98,142 @@ export function FileUpload({
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault()
     setIsDragOver(false)
-    
-    const files = Array.from(e.dataTransfer.files)
-    if (files.length > 0) {
-      handleFileSelect(files[0])
-    }
-  }, [handleFileSelect])
 
-  /**
-   * Handles file input change
-   */
-  const handleFileInputChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    const files = e.target.files
-    if (files && files.length > 0) {
-      handleFileSelect(files[0])
-    }
-  }, [handleFileSelect])
+    filesFromDataTransfer(e.dataTransfer)
+      .then(handleFilesSelected)
+      .catch(error => onUploadError?.(error instanceof Error ? error.message : 'Failed to read dropped files'))
+  }, [handleFilesSelected, onUploadError])
 
   /**
-   * Clears the selected file and resets status
+   * Handles file and folder input changes
    */
-  const clearFile = useCallback(() => {
-    setSelectedFile(null)
-    setUploadStatus({
-      status: 'idle',
-      progress: { loaded: 0, total: 0, percentage: 0 }
-    })
-    if (fileInputRef.current) {
-      fileInputRef.current.value = ''
-    }
-  }, [])
+  const handleInputChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    handleFilesSelected(filesFromInput(e.target.files))
+    e.target.value = ''
+  }, [handleFilesSelected])
 
   /**
-   * Opens the file picker dialog
+   * Clears finished files and resets the skipped count
    */
-  const openFilePicker = useCallback(() => {
-    fileInputRef.current?.click()
-  }, [])
+  const clearFinished = useCallback(() => {
+    clearFinishedItems()
+    setSkippedCount(0)
+  }, [clearFinishedItems])
+
+  const isBusy = summary.active > 0
 
   return (
-    <div className={cn("w-full", className)}>
-      {/* File Input (Hidden) */}
+    <div className={cn("w-full space-y-4", className)}>
+      {/* File Inputs (Hidden) */}
       <input
         ref={fileInputRef}
         type="file"
         accept={acceptedTypes.join(',')}
-        onChange={handleFileInputChange}
+        multiple
+        onChange={handleInputChange}
+        className="hidden"
+      />
+      <input
+        ref={(input) => {
+          // Not in React's input attributes; lets the picker choose a whole folder
+          input?.setAttribute('webkitdirectory', '')
+          folderInputRef.current = input
+        }}
+        type="file"
+        onChange={handleInputChange}
         className="hidden"
       />
 
       {/* Upload Area */}
       <Card
         className={cn(
-          "border-2 border-dashed transition-all duration-200 cursor-pointer",
-          isDragOver && "border-primary bg-primary/5",
-          uploadStatus.status === 'error' && "border-destructive bg-destructive/5",
-          uploadStatus.status === 'success' && "border-green-500 bg-green-50",
-          !selectedFile && "hover:border-primary/50"
+          "border-2 border-dashed transition-all duration-200 cursor-pointer hover:border-primary/50",
+          isDragOver && "border-primary bg-primary/5"
         )}
         onDragOver={handleDragOver}
         onDragLeave={handleDragLeave}
         onDrop={handleDrop}
-        onClick={!selectedFile ? openFilePicker : undefined}
+        onClick={() => fileInputRef.current?.click()}
       >
         <CardContent className="p-8">
           <div className="flex flex-col items-center justify-center space-y-4">
             {/* Upload Icon */}
             <motion.div
-              animate={{
-                scale: isDragOver ? 1.1 : 1,
-                rotate: uploadStatus.status === 'uploading' ? 360 : 0
-              }}
+              animate={{ scale: isDragOver ? 1.1 : 1 }}
               transition={{ duration: 0.2 }}
             >
-              {uploadStatus.status === 'uploading' ? (
-                <Loader2 className="h-12 w-12 text-primary animate-spin" />
-              ) : uploadStatus.status === 'success' ? (
-                <CheckCircle className="h-12 w-12 text-green-500" />
-              ) : uploadStatus.status === 'error' ? (
-                <AlertCircle className="h-12 w-12 text-destructive" />
-              ) : (
-                <Upload className="h-12 w-12 text-muted-foreground" />
-              )}
+              <Upload className="h-12 w-12 text-muted-foreground" />
             </motion.div>
 
             {/* Upload Text */}
             <div className="text-center space-y-2">
-              <h3 className="text-lg font-semibold">
-                {uploadStatus.status === 'success' ? 'Upload Complete!' :
-                 uploadStatus.status === 'error' ? 'Upload Failed' :
-                 selectedFile ? 'File Selected' : 'Upload KML File'}
-              </h3>
-              
+              <h3 className="text-lg font-semibold">Upload KML Files</h3>
               <p className="text-sm text-muted-foreground">
-                {uploadStatus.status === 'success' ? 'Your KML file has been uploaded successfully' :
-                 uploadStatus.status === 'error' ? uploadStatus.error :
-                 selectedFile ? selectedFile.name :
-                 'Drag and drop your KML file here, or click to browse'}
+                Drag and drop KML files or folders here, or click to browse
+              </p>
+              <p className="text-xs text-muted-foreground">
+                Supported formats: {acceptedTypes.join(', ')} • Max size: {maxFileSize}MB per file
               </p>
-
-              {uploadStatus.status === 'idle' && !selectedFile && (
-                <p className="text-xs text-muted-foreground">
-                  Supported formats: {acceptedTypes.join(', ')} • Max size: {maxFileSize}MB
-                </p>
-              )}
             </div>
 
-            {/* Selected File Info */}
-            <AnimatePresence>
-              {selectedFile && (
-                <motion.div
-                  initial={{ opacity: 0, y: 10 }}
-                  animate={{ opacity: 1, y: 0 }}
-                  exit={{ opacity: 0, y: -10 }}
-                  className="w-full max-w-md"
-                >
-                  <div className="flex items-center space-x-3 p-3 bg-muted rounded-lg">
-                    <File className="h-5 w-5 text-muted-foreground" />
-                    <div className="flex-1 min-w-0">
-                      <p className="text-sm font-medium truncate">{selectedFile.name}</p>
-                      <p className="text-xs text-muted-foreground">
-                        {(selectedFile.size / 1024 / 1024).toFixed(2)} MB
-                      </p>
-                    </div>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={(e) => {
-                        e.stopPropagation()
-                        clearFile()
-                      }}
-                    >
-                      <X className="h-4 w-4" />
-                    </Button>
-                  </div>
-                </motion.div>
-              )}
-            </AnimatePresence>
-
-            {/* Upload Progress */}
-            <AnimatePresence>
-              {uploadStatus.status === 'uploading' && (
-                <motion.div
-                  initial={{ opacity: 0, y: 10 }}
-                  animate={{ opacity: 1, y: 0 }}
-                  exit={{ opacity: 0, y: -10 }}
-                  className="w-full max-w-md space-y-2"
-                >
-                  <div className="flex justify-between text-sm">
-                    <span>Uploading...</span>
-                    <span>{uploadStatus.progress.percentage}%</span>
-                  </div>
-                  <div className="w-full bg-muted rounded-full h-2">
-                    <motion.div
-                      className="bg-primary h-2 rounded-full"
-                      initial={{ width: 0 }}
-                      animate={{ width: `${uploadStatus.progress.percentage}%` }}
-                      transition={{ duration: 0.3 }}
-                    />
-                  </div>
-                </motion.div>
-              )}
-            </AnimatePresence>
-
-            {/* Action Buttons */}
             <div className="flex space-x-2">
-              {!selectedFile && (
-                <Button onClick={openFilePicker} variant="outline">
-                  <Upload className="h-4 w-4 mr-2" />
-                  Choose File
-                </Button>
-              )}
-              
-              {selectedFile && uploadStatus.status === 'idle' && (
-                <Button onClick={handleUpload}>
-                  <Upload className="h-4 w-4 mr-2" />
-                  Upload File
-                </Button>
-              )}
-              
-              {uploadStatus.status === 'success' && (
-                <Button onClick={clearFile} variant="outline">
-                  Upload Another
-                </Button>
-              )}
-              
-              {uploadStatus.status === 'error' && (
-                <Button onClick={clearFile} variant="outline">
-                  Try Again
-                </Button>
-              )}
+              <Button
+                variant="outline"
+                onClick={(e) => {
+                  e.stopPropagation()
+                  fileInputRef.current?.click()
+                }}
+              >
+                <Upload className="h-4 w-4 mr-2" />
+                Choose Files
+              </Button>
+              <Button
+                variant="outline"
+                onClick={(e) => {
+                  e.stopPropagation()
+                  folderInputRef.current?.click()
+                }}
+              >
+                <FolderOpen className="h-4 w-4 mr-2" />
+                Choose Folder
+              </Button>
             </div>
           </div>
         </CardContent>
       </Card>
+
+      {skippedCount > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Skipped {skippedCount} file{skippedCount === 1 ? '' : 's'} that {skippedCount === 1 ? 'is' : 'are'} not {acceptedTypes.join(' or ')}
+        </p>
+      )}
+
+      <UploadQueueList
+        items={items}
+        summary={summary}
+        onRetry={retry}
+        onRetryFailed={retryFailed}
+        onPause={pause}
+        onResume={resume}
+        onRemove={remove}
+      />
+
+      {/* Action Buttons */}
+      {summary.total > 0 && (
+        <div className="flex justify-end space-x-2">
+          {(summary.succeeded > 0 || summary.failed > 0) && !isBusy && (
+            <Button variant="outline" onClick={clearFinished}>
+              Clear Finished
+            </Button>
+          )}
+          {summary.pending > 0 && (
+            <Button onClick={() => start(requestId)} disabled={summary.inspecting > 0}>
+              <Upload className="h-4 w-4 mr-2" />
+              Upload {summary.pending} File{summary.pending === 1 ? '' : 's'}
+            </Button>
+          )}
+        </div>
+      )}
     </div>
   )
 }
@@ -0,0 +1,106 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Select } from '@/components/ui/select'
+import { inviteUser, type Invitation, type InvitationInput } from '@/lib/api-service'
+import { ROLES } from '@/lib/roles'
+
+interface InviteUserFormProps {
+  onClose: () => void
+  onInvited?: (invitation: Invitation) => void
+}
+
+export function InviteUserForm({ onClose, onInvited }: InviteUserFormProps) {
+  const [formData, setFormData] = useState<InvitationInput>({
+    email: '',
+    name: '',
+    role: 'field-uploader'
+  })
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+    setError(null)
+
+    try {
+      onInvited?.(await inviteUser(formData))
+      onClose()
+    } catch (submitError) {
+      setError(submitError instanceof Error ? submitError.message : 'Failed to send invitation')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    setFormData(prev => ({
+      ...prev,
+      [e.target.name]: e.target.value
+    }))
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div>
+        <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-2">
+          Email
+        </label>
+        <Input
+          id="email"
+          name="email"
+          type="email"
+          value={formData.email}
+          onChange={handleChange}
+          placeholder="Enter Email"
+          required
+        />
+      </div>
+
+      <div>
+        <label htmlFor="name" className="block text-sm font-medium text-gray-700 mb-2">
+          Name
+        </label>
+        <Input
+          id="name"
+          name="name"
+          value={formData.name}
+          onChange={handleChange}
+          placeholder="Enter Name"
+        />
+      </div>
+
+      <div>
+        <label htmlFor="role" className="block text-sm font-medium text-gray-700 mb-2">
+          Role
+        </label>
+        <Select
+          id="role"
+          name="role"
+          value={formData.role}
+          onChange={handleChange}
+        >
+          {Object.entries(ROLES).map(([value, { label }]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </Select>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600">{error}</p>
+      )}
+
+      <div className="flex justify-end space-x-4 pt-6 border-t">
+        <Button type="button" variant="outline" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button type="submit" className="bg-green-600 hover:bg-green-700" disabled={isSubmitting}>
+          {isSubmitting ? 'Sending...' : 'Send Invitation'}
+        </Button>
+      </div>
+    </form>
+  )
+}
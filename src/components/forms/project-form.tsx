@@ -0,0 +1,110 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Select } from '@/components/ui/select'
+import { createProject, updateProject, type Project, type ProjectInput } from '@/lib/api-service'
+import { PROJECT_STATUSES } from '@/lib/project-status'
+
+interface ProjectFormProps {
+  /** The project to edit; a new project is created when omitted */
+  project?: Project
+  onClose: () => void
+  onSaved?: (project: Project) => void
+}
+
+export function ProjectForm({ project, onClose, onSaved }: ProjectFormProps) {
+  const [formData, setFormData] = useState<ProjectInput>({
+    name: project?.name || '',
+    description: project?.description || '',
+    status: project?.status || 'Pending'
+  })
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+    setError(null)
+
+    try {
+      const saved = project
+        ? await updateProject(project.id, formData)
+        : await createProject(formData)
+      onSaved?.(saved)
+      onClose()
+    } catch (submitError) {
+      setError(submitError instanceof Error ? submitError.message : 'Failed to save project')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    setFormData(prev => ({
+      ...prev,
+      [e.target.name]: e.target.value
+    }))
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div>
+        <label htmlFor="name" className="block text-sm font-medium text-gray-700 mb-2">
+          Project Name
+        </label>
+        <Input
+          id="name"
+          name="name"
+          value={formData.name}
+          onChange={handleChange}
+          placeholder="Enter Project Name"
+          required
+        />
+      </div>
+
+      <div>
+        <label htmlFor="description" className="block text-sm font-medium text-gray-700 mb-2">
+          Description
+        </label>
+        <Input
+          id="description"
+          name="description"
+          value={formData.description}
+          onChange={handleChange}
+          placeholder="Enter Description"
+        />
+      </div>
+
+      <div>
+        <label htmlFor="status" className="block text-sm font-medium text-gray-700 mb-2">
+          Status
+        </label>
+        <Select
+          id="status"
+          name="status"
+          value={formData.status}
+          onChange={handleChange}
+        >
+          {PROJECT_STATUSES.map(status => (
+            <option key={status} value={status}>{status}</option>
+          ))}
+        </Select>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600">{error}</p>
+      )}
+
+      <div className="flex justify-end space-x-4 pt-6 border-t">
+        <Button type="button" variant="outline" onClick={onClose}>
+          Cancel
+        </Button>
+        <Button type="submit" className="bg-green-600 hover:bg-green-700" disabled={isSubmitting}>
+          {isSubmitting ? 'Saving...' : 'Save'}
+        </Button>
+      </div>
+    </form>
+  )
+}
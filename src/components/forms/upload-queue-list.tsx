@@ -0,0 +1,163 @@
+'use client'
+
+import { CheckCircle, AlertCircle, Loader2, Pause, Play, RotateCcw, X, File } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { hasResumableUpload, type FileDuplicate } from '@/lib/api-service'
+import { formatArea, type KmlInspection } from '@/lib/kml'
+import type { UploadItem, UploadItemStatus, UploadSummary } from '@/lib/hooks/use-upload-queue'
+
+interface UploadQueueListProps {
+  items: UploadItem[]
+  summary: UploadSummary
+  onRetry: (id: string) => void
+  onRetryFailed: () => void
+  onPause: (id: string) => void
+  onResume: (id: string) => void
+  onRemove: (id: string) => void
+}
+
+const STATUS_LABELS: Record<UploadItemStatus, string> = {
+  inspecting: 'Checking',
+  selected: 'Ready',
+  queued: 'Waiting',
+  uploading: 'Uploading',
+  paused: 'Paused',
+  processing: 'Queueing analysis',
+  success: 'Uploaded',
+  error: 'Failed'
+}
+
+/**
+ * One row per file of an upload queue, with its progress and actions, plus a summary
+ */
+export function UploadQueueList({
+  items,
+  summary,
+  onRetry,
+  onRetryFailed,
+  onPause,
+  onResume,
+  onRemove
+}: UploadQueueListProps) {
+  if (items.length === 0) return null
+
+  const retryableCount = items.filter(item => item.status === 'error' && item.canRetry).length
+
+  return (
+    <div className="w-full space-y-3">
+      <div className="flex items-center justify-between text-sm">
+        <span className="text-gray-700">
+          {summary.succeeded} of {summary.total} uploaded
+          {summary.inspecting > 0 && ` · ${summary.inspecting} being checked`}
+          {summary.active > 0 && ` · ${summary.active} in progress`}
+          {summary.pending > 0 && ` · ${summary.pending} ready`}
+          {summary.failed > 0 && <span className="text-red-600"> · {summary.failed} failed</span>}
+        </span>
+        {retryableCount > 0 && (
+          <Button type="button" variant="outline" size="sm" onClick={onRetryFailed}>
+            <RotateCcw className="h-4 w-4 mr-2" />
+            Retry Failed ({retryableCount})
+          </Button>
+        )}
+      </div>
+
+      <ul className="max-h-72 overflow-y-auto divide-y border rounded-lg">
+        {items.map(item => (
+          <li key={item.id} className="flex items-center space-x-3 px-3 py-2">
+            <StatusIcon status={item.status} />
+            <div className="flex-1 min-w-0">
+              <div className="flex justify-between text-sm">
+                <span className="font-medium truncate" title={item.path}>{item.path}</span>
+                <span className="text-gray-500 ml-2 shrink-0">
+                  {item.status === 'uploading' ? `${item.progress.percentage}%` :
+                   item.status === 'selected' && hasResumableUpload(item.file) ? 'Resumes earlier upload' :
+                   STATUS_LABELS[item.status]}
+                </span>
+              </div>
+              {(item.status === 'uploading' || item.status === 'paused') && (
+                <div className="w-full bg-muted rounded-full h-1.5 mt-1">
+                  <div className="bg-primary h-1.5 rounded-full" style={{ width: `${item.progress.percentage}%` }} />
+                </div>
+              )}
+              {item.status === 'error' ? (
+                <p className="text-xs text-red-600 truncate" title={item.error}>{item.error}</p>
+              ) : (
+                <p className="text-xs text-gray-500">
+                  {(item.file.size / 1024 / 1024).toFixed(2)} MB
+                  {item.inspection && ` · ${describeInspection(item.inspection)}`}
+                </p>
+              )}
+              {item.status !== 'error' && item.inspection?.warnings.map(warning => (
+                <p key={warning} className="text-xs text-amber-600">{warning}</p>
+              ))}
+              {item.duplicates && item.status !== 'error' && item.status !== 'success' && (
+                <DuplicateNotice duplicates={item.duplicates} />
+              )}
+            </div>
+            <div className="flex shrink-0">
+              {item.status === 'uploading' && (
+                <Button type="button" variant="ghost" size="sm" onClick={() => onPause(item.id)} title="Pause">
+                  <Pause className="h-4 w-4" />
+                </Button>
+              )}
+              {item.status === 'paused' && (
+                <Button type="button" variant="ghost" size="sm" onClick={() => onResume(item.id)} title="Resume">
+                  <Play className="h-4 w-4" />
+                </Button>
+              )}
+              {item.status === 'error' && item.canRetry && (
+                <Button type="button" variant="ghost" size="sm" onClick={() => onRetry(item.id)} title="Retry">
+                  <RotateCcw className="h-4 w-4" />
+                </Button>
+              )}
+              {item.status !== 'processing' && item.status !== 'success' && (
+                <Button type="button" variant="ghost" size="sm" onClick={() => onRemove(item.id)} title="Remove">
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+// Links open in a new tab so the uploads on this page keep running
+function DuplicateNotice({ duplicates }: { duplicates: FileDuplicate[] }) {
+  const [first] = duplicates
+  const others = duplicates.length - 1
+
+  return (
+    <p className="text-xs text-amber-600">
+      {first.match === 'identical' ? 'Already uploaded as ' : 'Same plots as '}
+      {first.requestId ? (
+        <a href={`/view-kml/${first.requestId}`} target="_blank" rel="noopener noreferrer" className="underline">
+          {first.fileName} in {first.requestId}
+        </a>
+      ) : first.fileName}
+      {` on ${new Date(first.createdAt).toLocaleDateString()}`}
+      {others > 0 && ` and ${others} other file${others === 1 ? '' : 's'}`}
+    </p>
+  )
+}
+
+function StatusIcon({ status }: { status: UploadItemStatus }) {
+  if (status === 'success') return <CheckCircle className="h-5 w-5 text-green-500 shrink-0" />
+  if (status === 'error') return <AlertCircle className="h-5 w-5 text-destructive shrink-0" />
+  if (status === 'paused') return <Pause className="h-5 w-5 text-muted-foreground shrink-0" />
+  if (status === 'inspecting' || status === 'uploading' || status === 'processing') {
+    return <Loader2 className="h-5 w-5 text-primary animate-spin shrink-0" />
+  }
+  return <File className="h-5 w-5 text-muted-foreground shrink-0" />
+}
+
+// e.g. "KMZ · 12 placemarks · 11 polygons · 4.20 ha"
+function describeInspection({ format, placemarkCount, summary }: KmlInspection): string {
+  const parts = [format.toUpperCase(), `${placemarkCount} placemark${placemarkCount === 1 ? '' : 's'}`]
+  if (summary && summary.statistics.polygons > 0) {
+    parts.push(`${summary.statistics.polygons} polygon${summary.statistics.polygons === 1 ? '' : 's'}`)
+    parts.push(formatArea(summary.statistics.areaSquareMeters, 'hectares'))
+  }
+  return parts.join(' · ')
+}
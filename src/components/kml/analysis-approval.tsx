@@ -0,0 +1,54 @@
+'use client'
+
+import { useState } from 'react'
+import { CheckCircle } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { approveAnalysis, type AnalysisJob } from '@/lib/api-service'
+
+interface AnalysisApprovalProps {
+  job: AnalysisJob
+  /** Show the Approve button; otherwise only an existing approval is shown */
+  canApprove: boolean
+  onApproved?: (job: AnalysisJob) => void
+}
+
+/**
+ * Reviewer sign-off for one analysed file
+ */
+export function AnalysisApproval({ job, canApprove, onApproved }: AnalysisApprovalProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  if (job.approvedAt) {
+    return (
+      <span className="inline-flex items-center text-xs text-green-700">
+        <CheckCircle className="h-3 w-3 mr-1" />
+        Approved by {job.approvedBy} on {new Date(job.approvedAt).toLocaleDateString()}
+      </span>
+    )
+  }
+
+  if (!canApprove) return null
+
+  const handleApprove = async () => {
+    setIsSubmitting(true)
+    setError(null)
+
+    try {
+      onApproved?.(await approveAnalysis(job.id))
+    } catch (approveError) {
+      setError(approveError instanceof Error ? approveError.message : 'Failed to approve')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <span className="inline-flex items-center space-x-2">
+      {error && <span className="text-xs text-red-600">{error}</span>}
+      <Button size="sm" variant="outline" onClick={handleApprove} disabled={isSubmitting}>
+        {isSubmitting ? 'Approving...' : 'Approve'}
+      </Button>
+    </span>
+  )
+}
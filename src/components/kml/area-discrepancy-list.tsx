@@ -0,0 +1,60 @@
+import { AlertTriangle, CheckCircle } from 'lucide-react'
+import { convertArea, formatDeclaredArea, type PlotReport } from '@/lib/kml'
+
+interface AreaDiscrepancyListProps {
+  plots: PlotReport[]
+}
+
+/**
+ * Checklist section comparing declared plot areas against the measured ones
+ * Plots outside the tolerance are listed with both values and the difference
+ */
+export function AreaDiscrepancyList({ plots }: AreaDiscrepancyListProps) {
+  const checkedPlots = plots.filter(plot => plot.areaCheck)
+  const flaggedPlots = checkedPlots.filter(plot => !plot.areaCheck?.isWithinTolerance)
+  const undeclaredCount = plots.filter(plot => plot.areaSquareMeters > 0 && !plot.declaredArea).length
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          {flaggedPlots.length > 0 ? (
+            <AlertTriangle className="h-4 w-4 text-amber-500" />
+          ) : (
+            <CheckCircle className="h-4 w-4 text-green-500" />
+          )}
+          <span className="text-sm font-medium text-gray-900">Declared vs measured area</span>
+        </div>
+        <span className="text-xs text-gray-500">
+          {checkedPlots.length - flaggedPlots.length}/{checkedPlots.length} within tolerance
+        </span>
+      </div>
+
+      {flaggedPlots.length > 0 && (
+        <ul className="space-y-2">
+          {flaggedPlots.map((plot) => {
+            const check = plot.areaCheck!
+            const measured = convertArea(check.measuredSquareMeters, check.declared.unit)
+            return (
+              <li key={plot.id} className="text-sm bg-amber-50 border border-amber-200 rounded-md px-3 py-2">
+                <p className="font-medium text-gray-900 truncate">{plot.name || plot.id}</p>
+                <p className="text-gray-600">
+                  Declared {formatDeclaredArea(check.declared)}, measured {measured.toFixed(2)} {check.declared.unit}{' '}
+                  <span className="font-medium text-amber-700">
+                    ({check.differencePercent > 0 ? '+' : ''}{check.differencePercent.toFixed(1)}%, tolerance ±{check.tolerancePercent}%)
+                  </span>
+                </p>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+
+      {undeclaredCount > 0 && (
+        <p className="text-xs text-gray-500">
+          {undeclaredCount} plot{undeclaredCount === 1 ? '' : 's'} without a declared area
+        </p>
+      )}
+    </div>
+  )
+}
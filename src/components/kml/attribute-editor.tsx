@@ -0,0 +1,377 @@
+'use client'
+
+import { useEffect, useMemo, useRef, useState, type ChangeEvent } from 'react'
+import { FileSpreadsheet, Plus, Redo2, Replace, Save, Undo2, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Select } from '@/components/ui/select'
+import {
+  addAttributeColumn,
+  attributeEdits,
+  attributeTable,
+  joinCsvAttributes,
+  parseCsv,
+  removeAttributeColumn,
+  replaceInAttributes,
+  setAttribute,
+  type AttributeTable,
+  type EditedPlacemark,
+  type KmlDocument
+} from '@/lib/kml'
+import { useEditHistory } from '@/lib/hooks/use-edit-history'
+
+export interface AttributeEditorProps {
+  fileName: string
+  document: KmlDocument
+  /** Stores the edited Placemarks; the editor stays open if it throws */
+  onSave: (placemarks: EditedPlacemark[]) => Promise<void>
+  onClose: () => void
+}
+
+interface CsvImport {
+  fileName: string
+  rows: string[][]
+  csvKeyColumn: string
+  /** Table column holding the plot ID; empty for Placemark names */
+  keyColumn: string
+}
+
+interface EditorMessage {
+  text: string
+  isError: boolean
+}
+
+/**
+ * Spreadsheet-like editor for the ExtendedData of every Placemark in a file
+ * Cells are edited in place and committed on blur or Enter; find-and-replace, column
+ * changes and CSV imports each make one undo step.
+ */
+export function AttributeEditor({ fileName, document, onSave, onClose }: AttributeEditorProps) {
+  const initialTable = useMemo(() => attributeTable(document), [document])
+  const history = useEditHistory<AttributeTable>(initialTable)
+  const { push, undo, redo } = history
+  const table = history.state
+  const [find, setFind] = useState('')
+  const [replace, setReplace] = useState('')
+  const [replaceColumn, setReplaceColumn] = useState('')
+  const [matchCase, setMatchCase] = useState(false)
+  const [wholeCell, setWholeCell] = useState(false)
+  const [newColumn, setNewColumn] = useState('')
+  const [csvImport, setCsvImport] = useState<CsvImport | null>(null)
+  const [message, setMessage] = useState<EditorMessage | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const csvInputRef = useRef<HTMLInputElement>(null)
+
+  const hasChanges = table !== initialTable
+
+  const handleReplace = () => {
+    const result = replaceInAttributes(table, {
+      find,
+      replace,
+      column: replaceColumn || null,
+      matchCase,
+      wholeCell
+    })
+    if (result.count > 0) push(result.table)
+    setMessage({ text: `Replaced ${result.count} ${result.count === 1 ? 'cell' : 'cells'}`, isError: false })
+  }
+
+  const handleAddColumn = () => {
+    const column = newColumn.trim()
+    if (!column) return
+    if (table.columns.indexOf(column) !== -1) {
+      setMessage({ text: `There is already a column ${column}`, isError: true })
+      return
+    }
+    push(addAttributeColumn(table, column))
+    setNewColumn('')
+    setMessage(null)
+  }
+
+  const handleRemoveColumn = (column: string) => {
+    const hasValues = table.rows.some(row => !!row.fields[column])
+    if (hasValues && !window.confirm(`Remove ${column} from every plot?`)) return
+    push(removeAttributeColumn(table, column))
+    if (replaceColumn === column) setReplaceColumn('')
+  }
+
+  const handleCsvSelected = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files && event.target.files[0]
+    event.target.value = ''
+    if (!file) return
+
+    const rows = parseCsv(await file.text())
+    const header = rows[0] || []
+    if (rows.length < 2 || header.length < 2) {
+      setMessage({ text: `${file.name} needs a header row, a plot ID column and at least one row of values`, isError: true })
+      return
+    }
+    // Pre-select a CSV column named like one of the table's columns, else the first
+    const lowerColumns = table.columns.map(column => column.toLowerCase())
+    const sharedColumn = header.filter(column => lowerColumns.indexOf(column.trim().toLowerCase()) !== -1)[0]
+    setCsvImport({
+      fileName: file.name,
+      rows,
+      csvKeyColumn: sharedColumn || header[0],
+      keyColumn: sharedColumn ? table.columns[lowerColumns.indexOf(sharedColumn.trim().toLowerCase())] : ''
+    })
+    setMessage(null)
+  }
+
+  const handleImport = () => {
+    if (!csvImport) return
+    const result = joinCsvAttributes(table, csvImport.rows, {
+      csvKeyColumn: csvImport.csvKeyColumn,
+      keyColumn: csvImport.keyColumn || null
+    })
+    if (result.matchedRowCount > 0) push(result.table)
+    setCsvImport(null)
+
+    const unmatched = result.unmatchedKeys.length > 0
+      ? `; no plot found for ${result.unmatchedKeys.slice(0, 5).join(', ')}${result.unmatchedKeys.length > 5 ? ` and ${result.unmatchedKeys.length - 5} more` : ''}`
+      : ''
+    setMessage({
+      text: `Updated ${result.matchedRowCount} ${result.matchedRowCount === 1 ? 'plot' : 'plots'} from ${csvImport.fileName}${unmatched}`,
+      isError: result.matchedRowCount === 0
+    })
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    setMessage(null)
+    try {
+      await onSave(attributeEdits(document, table))
+    } catch (error) {
+      setMessage({ text: error instanceof Error ? error.message : 'Failed to save the new version', isError: true })
+      setIsSaving(false)
+    }
+  }
+
+  const handleClose = () => {
+    if (hasChanges && !window.confirm('Discard your changes to this file?')) return
+    onClose()
+  }
+
+  // Inputs keep the browser's own undo; elsewhere the shortcuts undo table edits
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement
+      if (target.isContentEditable || ['INPUT', 'SELECT', 'TEXTAREA'].indexOf(target.tagName) !== -1) return
+
+      const key = event.key.toLowerCase()
+      if ((event.ctrlKey || event.metaKey) && key === 'z') {
+        if (event.shiftKey) redo()
+        else undo()
+      } else if ((event.ctrlKey || event.metaKey) && key === 'y') {
+        redo()
+      } else {
+        return
+      }
+      event.preventDefault()
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [undo, redo])
+
+  return (
+    <div className="fixed inset-0 z-[1100] flex flex-col bg-white">
+      <div className="flex flex-wrap items-center gap-2 border-b px-4 py-3">
+        <div className="mr-auto min-w-0">
+          <h2 className="text-lg font-semibold text-gray-900 truncate">Attributes of {fileName}</h2>
+          <p className="text-xs text-gray-500">Saved as a new version; the original file is kept</p>
+        </div>
+
+        <Button variant="outline" size="sm" onClick={undo} disabled={!history.canUndo} title="Undo (Ctrl+Z)">
+          <Undo2 className="h-4 w-4 mr-1" />
+          Undo
+        </Button>
+        <Button variant="outline" size="sm" onClick={redo} disabled={!history.canRedo} title="Redo (Ctrl+Shift+Z)">
+          <Redo2 className="h-4 w-4 mr-1" />
+          Redo
+        </Button>
+
+        <div className="w-px h-6 bg-gray-200 mx-2" />
+
+        <Button variant="outline" size="sm" onClick={handleClose} disabled={isSaving}>
+          <X className="h-4 w-4 mr-1" />
+          Cancel
+        </Button>
+        <Button size="sm" onClick={handleSave} disabled={!hasChanges || isSaving}>
+          <Save className="h-4 w-4 mr-1" />
+          {isSaving ? 'Saving...' : 'Save as New Version'}
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-x-6 gap-y-3 border-b bg-gray-50 px-4 py-3">
+        <div className="flex flex-wrap items-end gap-2">
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Find</label>
+            <Input value={find} onChange={(e) => setFind(e.target.value)} className="h-9 w-40" />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Replace with</label>
+            <Input value={replace} onChange={(e) => setReplace(e.target.value)} className="h-9 w-40" />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">In</label>
+            <Select value={replaceColumn} onChange={(e) => setReplaceColumn(e.target.value)} className="h-9 w-40 py-1">
+              <option value="">All columns</option>
+              {table.columns.map(column => (
+                <option key={column} value={column}>{column}</option>
+              ))}
+            </Select>
+          </div>
+          <label className="flex items-center space-x-2 text-sm text-gray-700 h-9">
+            <Checkbox checked={matchCase} onChange={(e) => setMatchCase(e.target.checked)} />
+            <span>Match case</span>
+          </label>
+          <label className="flex items-center space-x-2 text-sm text-gray-700 h-9">
+            <Checkbox checked={wholeCell} onChange={(e) => setWholeCell(e.target.checked)} />
+            <span>Whole cell</span>
+          </label>
+          <Button variant="outline" size="sm" onClick={handleReplace} disabled={!find}>
+            <Replace className="h-4 w-4 mr-1" />
+            Replace All
+          </Button>
+        </div>
+
+        <form
+          className="flex items-end gap-2"
+          onSubmit={(event) => {
+            event.preventDefault()
+            handleAddColumn()
+          }}
+        >
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">New column</label>
+            <Input value={newColumn} onChange={(e) => setNewColumn(e.target.value)} className="h-9 w-40" />
+          </div>
+          <Button type="submit" variant="outline" size="sm" disabled={!newColumn.trim()}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add
+          </Button>
+        </form>
+
+        <div>
+          <input ref={csvInputRef} type="file" accept=".csv,text/csv" className="hidden" onChange={handleCsvSelected} />
+          <Button variant="outline" size="sm" onClick={() => csvInputRef.current?.click()}>
+            <FileSpreadsheet className="h-4 w-4 mr-1" />
+            Import CSV
+          </Button>
+        </div>
+      </div>
+
+      {csvImport && (
+        <div className="flex flex-wrap items-end gap-2 border-b bg-blue-50 px-4 py-3">
+          <p className="text-sm text-gray-700 mr-2 self-center">
+            Join <span className="font-medium">{csvImport.fileName}</span> on plot ID:
+          </p>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">CSV column</label>
+            <Select
+              value={csvImport.csvKeyColumn}
+              onChange={(e) => setCsvImport({ ...csvImport, csvKeyColumn: e.target.value })}
+              className="h-9 w-44 py-1"
+            >
+              {csvImport.rows[0].map(column => (
+                <option key={column} value={column}>{column}</option>
+              ))}
+            </Select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Matches</label>
+            <Select
+              value={csvImport.keyColumn}
+              onChange={(e) => setCsvImport({ ...csvImport, keyColumn: e.target.value })}
+              className="h-9 w-44 py-1"
+            >
+              <option value="">Placemark name</option>
+              {table.columns.map(column => (
+                <option key={column} value={column}>{column}</option>
+              ))}
+            </Select>
+          </div>
+          <Button size="sm" onClick={handleImport}>Import</Button>
+          <Button variant="outline" size="sm" onClick={() => setCsvImport(null)}>Cancel</Button>
+        </div>
+      )}
+
+      {message && (
+        <p className={`px-4 py-2 text-sm border-b ${message.isError ? 'text-red-600' : 'text-gray-600'}`}>{message.text}</p>
+      )}
+
+      <div className="flex-1 min-h-0 overflow-auto">
+        <table className="min-w-full text-sm border-separate border-spacing-0">
+          <thead className="sticky top-0 z-10 bg-gray-100">
+            <tr>
+              <th className="sticky left-0 z-20 bg-gray-100 border-b border-r px-3 py-2 text-left font-medium text-gray-700">
+                Placemark
+              </th>
+              {table.columns.map(column => (
+                <th key={column} className="border-b border-r px-3 py-2 text-left font-medium text-gray-700 whitespace-nowrap">
+                  <span className="inline-flex items-center space-x-1">
+                    <span>{column}</span>
+                    <button
+                      type="button"
+                      onClick={() => handleRemoveColumn(column)}
+                      className="text-gray-400 hover:text-red-600"
+                      title={`Remove ${column}`}
+                      aria-label={`Remove column ${column}`}
+                    >
+                      <X className="h-3.5 w-3.5" />
+                    </button>
+                  </span>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {table.rows.map(row => (
+              <tr key={row.id}>
+                <td className="sticky left-0 bg-white border-b border-r px-3 py-1 text-gray-900 whitespace-nowrap max-w-xs truncate">
+                  {row.name || <span className="text-gray-400">{row.id}</span>}
+                </td>
+                {table.columns.map(column => (
+                  <td key={column} className="border-b border-r p-0">
+                    <AttributeCell
+                      value={row.fields[column] || ''}
+                      onCommit={value => push(setAttribute(table, row.id, column, value))}
+                    />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {table.columns.length === 0 && (
+          <p className="p-4 text-sm text-gray-500">This file has no ExtendedData yet; add a column or import a CSV</p>
+        )}
+      </div>
+    </div>
+  )
+}
+
+// Uncontrolled until blur, so typing does not make an undo step per keystroke
+function AttributeCell({ value, onCommit }: { value: string, onCommit: (value: string) => void }) {
+  return (
+    <input
+      // Remounts with the new value after undo, redo or a bulk change
+      key={value}
+      defaultValue={value}
+      onBlur={(event) => {
+        if (event.target.value !== value) onCommit(event.target.value)
+      }}
+      onKeyDown={(event) => {
+        if (event.key === 'Enter') {
+          event.currentTarget.blur()
+        } else if (event.key === 'Escape') {
+          event.currentTarget.value = value
+          event.currentTarget.blur()
+        }
+      }}
+      className="w-full min-w-[8rem] bg-transparent px-3 py-1 focus:bg-blue-50 focus:outline-none"
+    />
+  )
+}
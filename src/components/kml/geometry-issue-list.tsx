@@ -0,0 +1,63 @@
+import { AlertCircle, AlertTriangle, CheckCircle } from 'lucide-react'
+import { GEOMETRY_ISSUE_TYPES, type PlotReport } from '@/lib/kml'
+
+interface GeometryIssueListProps {
+  plots: PlotReport[]
+}
+
+/**
+ * Checklist section listing geometry validity issues per plot
+ * Each issue shows the first coordinate involved so it can be located on the map
+ */
+export function GeometryIssueList({ plots }: GeometryIssueListProps) {
+  const plotsWithIssues = plots.filter(plot => plot.issues.length > 0)
+  const errorCount = plotsWithIssues.reduce((count, plot) =>
+    count + plot.issues.filter(issue => issue.severity === 'error').length, 0)
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          {errorCount > 0 ? (
+            <AlertCircle className="h-4 w-4 text-red-500" />
+          ) : plotsWithIssues.length > 0 ? (
+            <AlertTriangle className="h-4 w-4 text-amber-500" />
+          ) : (
+            <CheckCircle className="h-4 w-4 text-green-500" />
+          )}
+          <span className="text-sm font-medium text-gray-900">Geometry validity</span>
+        </div>
+        <span className="text-xs text-gray-500">
+          {plots.length - plotsWithIssues.length}/{plots.length} plots valid
+        </span>
+      </div>
+
+      {plotsWithIssues.length > 0 && (
+        <ul className="space-y-2">
+          {plotsWithIssues.map(plot => (
+            <li key={plot.id} className="text-sm border rounded-md px-3 py-2">
+              <p className="font-medium text-gray-900 truncate mb-1">{plot.name || plot.id}</p>
+              <ul className="space-y-1">
+                {plot.issues.map((issue, index) => {
+                  const [lon, lat] = issue.coordinates[0] || []
+                  return (
+                    <li key={index} className="flex items-start space-x-2">
+                      <span className={`mt-1.5 h-2 w-2 rounded-full shrink-0 ${issue.severity === 'error' ? 'bg-red-500' : 'bg-amber-500'}`} />
+                      <span className="text-gray-600">
+                        <span className="font-medium text-gray-800">{GEOMETRY_ISSUE_TYPES[issue.type].label}:</span>{' '}
+                        {issue.message}
+                        {lat !== undefined && (
+                          <span className="text-xs font-mono text-gray-400"> @ {lat.toFixed(6)}, {lon.toFixed(6)}</span>
+                        )}
+                      </span>
+                    </li>
+                  )
+                })}
+              </ul>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
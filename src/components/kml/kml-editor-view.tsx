@@ -0,0 +1,485 @@
+'use client'
+
+import { useEffect, useMemo, useRef, useState } from 'react'
+import L from 'leaflet'
+import 'leaflet/dist/leaflet.css'
+import { Combine, Magnet, Redo2, Save, Scissors, Undo2, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  editableRings,
+  flattenGeometry,
+  insertVertex,
+  mergePolygons,
+  moveVertex,
+  removeVertex,
+  splitPolygon,
+  startEditing,
+  type Coordinate,
+  type EditedPlacemark,
+  type KmlDocument,
+  type KmlGeometry,
+  type SimpleGeometry,
+  type VertexPath
+} from '@/lib/kml'
+import { useEditHistory } from '@/lib/hooks/use-edit-history'
+import {
+  DEFAULT_CENTER,
+  DEFAULT_STYLE,
+  DEFAULT_ZOOM,
+  addBasemaps,
+  fitToFeatures,
+  geometryShape,
+  toCoordinate,
+  toLatLng,
+  type PlacemarkShape
+} from './leaflet-utils'
+
+export interface KmlEditorViewProps {
+  fileName: string
+  document: KmlDocument
+  /** Stores the edited Placemarks; the editor stays open if it throws */
+  onSave: (placemarks: EditedPlacemark[]) => Promise<void>
+  onClose: () => void
+}
+
+const EDITOR_MODES = {
+  edit: 'Drag a corner to move it, drag or click a midpoint to add one, right-click a corner to delete it. Shift-click to select several plots.',
+  split: 'Click two points on a straight line across the selected plot to cut it in two. Esc cancels.'
+} as const
+
+type EditorMode = keyof typeof EDITOR_MODES
+
+// A dragged corner snaps to another plot's corner or edge within this distance
+const SNAP_PIXELS = 10
+
+const PLOT_COLOR = '#2563eb'
+const SELECTED_COLOR = '#d97706'
+
+const VERTEX_ICON = L.divIcon({ className: 'bg-white border-2 border-amber-600 rounded-sm', iconSize: [10, 10] })
+const MIDPOINT_ICON = L.divIcon({ className: 'bg-amber-200 border border-amber-600 rounded-full opacity-80', iconSize: [8, 8] })
+
+interface SnapTarget {
+  coordinates: Coordinate[]
+  /** The coordinates in map pixels */
+  points: L.Point[]
+}
+
+/**
+ * Full-screen editor for the geometry of one KML file
+ * Corners can be moved, added and deleted, plots split along a line and merged, and
+ * every change can be undone (Ctrl+Z) and redone (Ctrl+Shift+Z or Ctrl+Y). Names, styles
+ * and ExtendedData are not edited here; they are carried over when the version is saved.
+ * Import `KmlEditor` rather than this component: Leaflet needs `window` at import time.
+ */
+export function KmlEditorView({ fileName, document, onSave, onClose }: KmlEditorViewProps) {
+  const initialPlacemarks = useMemo(() => startEditing(document), [document])
+  const history = useEditHistory(initialPlacemarks)
+  const { push, undo, redo } = history
+  const placemarks = history.state
+  const [selectedKeys, setSelectedKeys] = useState<string[]>([])
+  const [mode, setMode] = useState<EditorMode>('edit')
+  const [splitStart, setSplitStart] = useState<Coordinate | null>(null)
+  const [isSnapping, setIsSnapping] = useState(true)
+  const [message, setMessage] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const containerRef = useRef<HTMLDivElement>(null)
+  const mapRef = useRef<L.Map | null>(null)
+  const shapesRef = useRef<L.FeatureGroup | null>(null)
+  const handlesRef = useRef<L.LayerGroup | null>(null)
+  const splitLayerRef = useRef<L.LayerGroup | null>(null)
+
+  const names = useMemo(() => document.placemarks.reduce<Record<string, string>>((result, placemark) => {
+    result[placemark.id] = placemark.name || placemark.id
+    return result
+  }, {}), [document])
+
+  const hasChanges = placemarks !== initialPlacemarks
+  const selected = selectedPlacemarks(placemarks, selectedKeys)
+  const active = selected.length === 1 ? selected[0] : null
+  const canSplit = !!active && active.geometry?.type === 'Polygon'
+  const canMerge = selected.length > 1 &&
+    selected.every(placemark => flattenGeometry(placemark.geometry).some(part => part.type === 'Polygon'))
+
+  useEffect(() => {
+    if (!containerRef.current) return
+
+    const map = L.map(containerRef.current, { center: DEFAULT_CENTER, zoom: DEFAULT_ZOOM, doubleClickZoom: false })
+    addBasemaps(map)
+    shapesRef.current = L.featureGroup().addTo(map)
+    handlesRef.current = L.layerGroup().addTo(map)
+    splitLayerRef.current = L.layerGroup().addTo(map)
+    mapRef.current = map
+    fitToFeatures(map, L.featureGroup(initialPlacemarks
+      .map(placemark => geometryShape(placemark.geometry, DEFAULT_STYLE))
+      .filter((shape): shape is PlacemarkShape => shape !== null)))
+
+    return () => {
+      map.remove()
+      mapRef.current = null
+    }
+  }, [initialPlacemarks])
+
+  // Plots and the corner handles of the selected plot, redrawn after every change
+  useEffect(() => {
+    const map = mapRef.current
+    const shapes = shapesRef.current
+    const handles = handlesRef.current
+    if (!map || !shapes || !handles) return
+
+    shapes.clearLayers()
+    handles.clearLayers()
+    const selection = selectedPlacemarks(placemarks, selectedKeys)
+    const active = selection.length === 1 ? selection[0] : null
+    let activeShape: PlacemarkShape | null = null
+
+    placemarks.forEach((placemark) => {
+      const isSelected = selectedKeys.indexOf(placemark.key) !== -1
+      const shape = geometryShape(placemark.geometry, { ...DEFAULT_STYLE, color: isSelected ? SELECTED_COLOR : PLOT_COLOR })
+      if (!shape) return
+
+      shape.bindTooltip(names[placemark.sourceId], { sticky: true })
+      shape.on('click', (event) => {
+        // In split mode the click is a point of the cut line, handled by the map
+        if (mode === 'split') return
+        L.DomEvent.stopPropagation(event)
+        const isAdding = (event as L.LeafletMouseEvent).originalEvent.shiftKey
+        setSelectedKeys(keys => !isAdding
+          ? [placemark.key]
+          : keys.indexOf(placemark.key) === -1
+            ? keys.concat([placemark.key])
+            : keys.filter(key => key !== placemark.key))
+      })
+      shapes.addLayer(shape)
+      if (active && placemark.key === active.key) activeShape = shape
+    })
+
+    const rings = active && mode === 'edit' ? editableRings(active.geometry) : null
+    if (!active || !active.geometry || !rings || !activeShape) return
+    const geometry = active.geometry
+    const shape: PlacemarkShape = activeShape
+    let snapTargets: SnapTarget[] = []
+
+    const replaceGeometry = (edited: KmlGeometry) => {
+      setMessage(null)
+      push(placemarks.map(placemark => (placemark.key === active.key ? { ...placemark, geometry: edited } : placemark)))
+    }
+
+    const addHandle = (
+      coordinate: Coordinate,
+      icon: L.DivIcon,
+      edit: (position: Coordinate) => KmlGeometry | null
+    ) => {
+      const handle = L.marker(toLatLng(coordinate), { icon, draggable: true, keyboard: false })
+      handle.on('dragstart', () => {
+        snapTargets = isSnapping ? projectSnapTargets(map, placemarks, active.key) : []
+      })
+      handle.on('drag', () => {
+        handle.setLatLng(snapLatLng(map, handle.getLatLng(), snapTargets))
+        const preview = edit(toCoordinate(handle.getLatLng()))
+        if (preview) previewGeometry(shape, preview)
+      })
+      handle.on('dragend', () => {
+        const edited = edit(toCoordinate(handle.getLatLng()))
+        if (edited) replaceGeometry(edited)
+      })
+      handles.addLayer(handle)
+      return handle
+    }
+
+    rings.forEach((ring, ringIndex) => {
+      ring.forEach((vertex, index) => {
+        const path: VertexPath = { ring: ringIndex, index }
+        const handle = addHandle(vertex, VERTEX_ICON, position => moveVertex(geometry, path, position))
+        handle.on('contextmenu', () => {
+          const edited = removeVertex(geometry, path)
+          if (edited) replaceGeometry(edited)
+          else setMessage(geometry.type === 'Point' ? 'Points have no corners to delete' : 'This ring cannot lose any more corners')
+        })
+      })
+
+      if (geometry.type === 'Point') return
+      // Polygon rings also have a segment from the last corner back to the first
+      const segmentCount = geometry.type === 'Polygon' ? ring.length : ring.length - 1
+      ring.slice(0, segmentCount).forEach((start, index) => {
+        const end = ring[(index + 1) % ring.length]
+        const midpoint: Coordinate = [(start[0] + end[0]) / 2, (start[1] + end[1]) / 2]
+        const path: VertexPath = { ring: ringIndex, index: index + 1 }
+        const handle = addHandle(midpoint, MIDPOINT_ICON, position => insertVertex(geometry, path, position))
+        handle.on('click', () => replaceGeometry(insertVertex(geometry, path, midpoint)))
+      })
+    })
+  }, [placemarks, selectedKeys, mode, isSnapping, names, push])
+
+  // Split mode: the first click starts the cut line, the second one cuts
+  useEffect(() => {
+    const map = mapRef.current
+    const splitLayer = splitLayerRef.current
+    if (!map || !splitLayer) return
+
+    splitLayer.clearLayers()
+    if (mode !== 'split') {
+      const clearSelection = () => setSelectedKeys([])
+      map.on('click', clearSelection)
+      return () => { map.off('click', clearSelection) }
+    }
+
+    const guide = L.polyline([], { color: SELECTED_COLOR, weight: 2, dashArray: '6 4', interactive: false })
+    if (splitStart) {
+      L.circleMarker(toLatLng(splitStart), { radius: 5, color: SELECTED_COLOR, interactive: false }).addTo(splitLayer)
+      guide.addTo(splitLayer)
+    }
+
+    const handleMove = (event: L.LeafletMouseEvent) => {
+      if (splitStart) guide.setLatLngs([toLatLng(splitStart), event.latlng])
+    }
+    const selection = selectedPlacemarks(placemarks, selectedKeys)
+    const active = selection.length === 1 ? selection[0] : null
+    const handleClick = (event: L.LeafletMouseEvent) => {
+      const point = toCoordinate(event.latlng)
+      if (!splitStart) {
+        setSplitStart(point)
+        return
+      }
+
+      const pieces = active && active.geometry?.type === 'Polygon'
+        ? splitPolygon(active.geometry, splitStart, point)
+        : null
+      setSplitStart(null)
+      if (!active || !pieces) {
+        setMessage('The line does not cut the selected plot in two')
+        return
+      }
+
+      setMessage(null)
+      push(placemarks.reduce<EditedPlacemark[]>((result, placemark) => result.concat(placemark.key !== active.key
+        ? [placemark]
+        : pieces.map((geometry, index) => ({ key: `${placemark.key}.${index + 1}`, sourceId: placemark.sourceId, geometry }))
+      ), []))
+      setSelectedKeys([`${active.key}.1`])
+      setMode('edit')
+    }
+
+    map.on('mousemove', handleMove)
+    map.on('click', handleClick)
+    return () => {
+      map.off('mousemove', handleMove)
+      map.off('click', handleClick)
+    }
+  }, [mode, splitStart, placemarks, selectedKeys, push])
+
+  const handleMerge = () => {
+    const geometry = mergePolygons(selected.map(placemark => placemark.geometry))
+    if (!geometry) {
+      setMessage('These plots could not be merged')
+      return
+    }
+
+    // The first plot selected keeps its name and attributes
+    const [keeper] = selectedKeys
+    setMessage(null)
+    push(placemarks
+      .filter(placemark => placemark.key === keeper || selectedKeys.indexOf(placemark.key) === -1)
+      .map(placemark => (placemark.key === keeper ? { ...placemark, geometry } : placemark)))
+    setSelectedKeys([keeper])
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    setMessage(null)
+    try {
+      await onSave(placemarks)
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : 'Failed to save the new version')
+      setIsSaving(false)
+    }
+  }
+
+  const handleClose = () => {
+    if (hasChanges && !window.confirm('Discard your changes to this file?')) return
+    onClose()
+  }
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement
+      if (target.isContentEditable || ['INPUT', 'SELECT', 'TEXTAREA'].indexOf(target.tagName) !== -1) return
+
+      const key = event.key.toLowerCase()
+      if ((event.ctrlKey || event.metaKey) && key === 'z') {
+        if (event.shiftKey) redo()
+        else undo()
+      } else if ((event.ctrlKey || event.metaKey) && key === 'y') {
+        redo()
+      } else if (event.key === 'Escape') {
+        setMode('edit')
+        setSplitStart(null)
+      } else {
+        return
+      }
+      event.preventDefault()
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [undo, redo])
+
+  return (
+    <div className="fixed inset-0 z-[1100] flex flex-col bg-white">
+      <div className="flex flex-wrap items-center gap-2 border-b px-4 py-3">
+        <div className="mr-auto min-w-0">
+          <h2 className="text-lg font-semibold text-gray-900 truncate">Edit {fileName}</h2>
+          <p className="text-xs text-gray-500">Saved as a new version; the original file is kept</p>
+        </div>
+
+        <Button variant="outline" size="sm" onClick={undo} disabled={!history.canUndo} title="Undo (Ctrl+Z)">
+          <Undo2 className="h-4 w-4 mr-1" />
+          Undo
+        </Button>
+        <Button variant="outline" size="sm" onClick={redo} disabled={!history.canRedo} title="Redo (Ctrl+Shift+Z)">
+          <Redo2 className="h-4 w-4 mr-1" />
+          Redo
+        </Button>
+        <Button
+          variant={mode === 'split' ? 'default' : 'outline'}
+          size="sm"
+          onClick={() => {
+            setMode(mode === 'split' ? 'edit' : 'split')
+            setSplitStart(null)
+          }}
+          disabled={!canSplit && mode !== 'split'}
+          title="Cut the selected plot in two"
+        >
+          <Scissors className="h-4 w-4 mr-1" />
+          Split
+        </Button>
+        <Button variant="outline" size="sm" onClick={handleMerge} disabled={!canMerge} title="Join the selected plots into one">
+          <Combine className="h-4 w-4 mr-1" />
+          Merge
+        </Button>
+        <Button
+          variant={isSnapping ? 'default' : 'outline'}
+          size="sm"
+          onClick={() => setIsSnapping(snapping => !snapping)}
+          title="Snap dragged corners to neighbouring plots"
+        >
+          <Magnet className="h-4 w-4 mr-1" />
+          Snap
+        </Button>
+
+        <div className="w-px h-6 bg-gray-200 mx-2" />
+
+        <Button variant="outline" size="sm" onClick={handleClose} disabled={isSaving}>
+          <X className="h-4 w-4 mr-1" />
+          Cancel
+        </Button>
+        <Button size="sm" onClick={handleSave} disabled={!hasChanges || isSaving}>
+          <Save className="h-4 w-4 mr-1" />
+          {isSaving ? 'Saving...' : 'Save as New Version'}
+        </Button>
+      </div>
+
+      <div className="flex flex-1 min-h-0">
+        <div ref={containerRef} className="flex-1 bg-gray-100" />
+
+        <div className="w-72 border-l flex flex-col">
+          <div className="p-4 border-b space-y-2">
+            <p className="text-xs text-gray-600">{EDITOR_MODES[mode]}</p>
+            {message && <p className="text-xs text-red-600">{message}</p>}
+          </div>
+          <ul className="flex-1 overflow-y-auto p-2 space-y-1">
+            {placemarks.map(placemark => (
+              <li key={placemark.key}>
+                <button
+                  type="button"
+                  onClick={(event) => {
+                    const isAdding = event.shiftKey
+                    setSelectedKeys(keys => !isAdding
+                      ? [placemark.key]
+                      : keys.indexOf(placemark.key) === -1 ? keys.concat([placemark.key]) : keys)
+                  }}
+                  className={`w-full text-left text-sm px-3 py-1.5 rounded-md truncate ${
+                    selectedKeys.indexOf(placemark.key) !== -1 ? 'bg-amber-100 text-amber-900' : 'hover:bg-gray-100 text-gray-700'
+                  }`}
+                >
+                  {names[placemark.sourceId]}
+                  {placemark.key !== placemark.sourceId && <span className="text-xs text-gray-500"> (edited piece)</span>}
+                  {!placemark.geometry && <span className="text-xs text-gray-500"> (no geometry)</span>}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+// In the order they were selected
+function selectedPlacemarks(placemarks: EditedPlacemark[], keys: string[]): EditedPlacemark[] {
+  return keys
+    .map(key => placemarks.filter(placemark => placemark.key === key)[0])
+    .filter((placemark): placemark is EditedPlacemark => !!placemark)
+}
+
+// Redraws a shape while one of its corners is being dragged, without a React render
+function previewGeometry(shape: PlacemarkShape, geometry: KmlGeometry) {
+  if (geometry.type === 'Polygon' && shape instanceof L.Polygon) {
+    shape.setLatLngs([geometry.outerBoundary].concat(geometry.innerBoundaries).map(ring => ring.map(toLatLng)))
+  } else if (geometry.type === 'LineString' && shape instanceof L.Polyline) {
+    shape.setLatLngs(geometry.coordinates.map(toLatLng))
+  } else if (geometry.type === 'Point' && shape instanceof L.CircleMarker) {
+    shape.setLatLng(toLatLng(geometry.coordinates))
+  }
+}
+
+// Corners and edges of every plot but the one being edited, projected once per drag
+function projectSnapTargets(map: L.Map, placemarks: EditedPlacemark[], activeKey: string): SnapTarget[] {
+  return placemarks
+    .filter(placemark => placemark.key !== activeKey)
+    .reduce<Coordinate[][]>((lines, placemark) => lines.concat(
+      flattenGeometry(placemark.geometry).reduce<Coordinate[][]>((parts, part) => parts.concat(partLines(part)), [])
+    ), [])
+    .map(coordinates => ({
+      coordinates,
+      points: coordinates.map(coordinate => map.latLngToLayerPoint(toLatLng(coordinate)))
+    }))
+}
+
+function partLines(part: SimpleGeometry): Coordinate[][] {
+  switch (part.type) {
+    case 'Point':
+      return [[part.coordinates]]
+    case 'LineString':
+      return [part.coordinates]
+    case 'Polygon':
+      return [part.outerBoundary].concat(part.innerBoundaries)
+  }
+}
+
+// Corners win over edges, so shared corners end up exactly on top of each other
+function snapLatLng(map: L.Map, latLng: L.LatLng, targets: SnapTarget[]): L.LatLng {
+  if (targets.length === 0) return latLng
+  const point = map.latLngToLayerPoint(latLng)
+
+  const corner = { coordinate: null as Coordinate | null, distance: SNAP_PIXELS }
+  targets.forEach(({ coordinates, points }) => points.forEach((vertex, index) => {
+    const distance = vertex.distanceTo(point)
+    if (distance < corner.distance) {
+      corner.coordinate = coordinates[index]
+      corner.distance = distance
+    }
+  }))
+  if (corner.coordinate) return L.latLng(toLatLng(corner.coordinate))
+
+  const edge = { point: null as L.Point | null, distance: SNAP_PIXELS }
+  targets.forEach(({ points }) => points.slice(1).forEach((end, index) => {
+    const closest = L.LineUtil.closestPointOnSegment(point, points[index], end)
+    const distance = closest.distanceTo(point)
+    if (distance < edge.distance) {
+      edge.point = closest
+      edge.distance = distance
+    }
+  }))
+  return edge.point ? map.layerPointToLatLng(edge.point) : latLng
+}
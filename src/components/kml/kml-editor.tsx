@@ -0,0 +1,21 @@
+'use client'
+
+import dynamic from 'next/dynamic'
+
+export type { KmlEditorViewProps as KmlEditorProps } from './kml-editor-view'
+
+/**
+ * Geometry editor for one KML file (see KmlEditorView)
+ * Loaded only in the browser because Leaflet reads `window` when it is imported.
+ */
+export const KmlEditor = dynamic(
+  () => import('./kml-editor-view').then(mod => mod.KmlEditorView),
+  {
+    ssr: false,
+    loading: () => (
+      <div className="fixed inset-0 z-[1100] flex items-center justify-center bg-white">
+        <p className="text-sm text-gray-500">Loading editor...</p>
+      </div>
+    )
+  }
+)
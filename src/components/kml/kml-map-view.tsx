@@ -0,0 +1,204 @@
+'use client'
+
+import { useEffect, useRef } from 'react'
+import L from 'leaflet'
+import 'leaflet/dist/leaflet.css'
+import { Maximize } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import type { KmlDocument, KmlPlacemark } from '@/lib/kml'
+import { cn } from '@/lib/utils'
+import {
+  DEFAULT_CENTER,
+  DEFAULT_STYLE,
+  DEFAULT_ZOOM,
+  addBasemaps,
+  fitToFeatures,
+  geometryShape,
+  type PlacemarkShape
+} from './leaflet-utils'
+
+export interface KmlMapLayer {
+  /** Stable key, e.g. the analysis ID */
+  id: string
+  /** Shown in popups; usually the file name */
+  name: string
+  document: KmlDocument
+}
+
+export interface KmlMapSelection {
+  layerId: string
+  /** null selects the whole file */
+  placemarkId: string | null
+}
+
+export interface KmlMapViewProps {
+  layers: KmlMapLayer[]
+  /** Zoomed to and highlighted; null shows every file */
+  selected?: KmlMapSelection | null
+  onPlacemarkClick?: (selection: { layerId: string, placemarkId: string }) => void
+  className?: string
+}
+
+// One colour per file so plots from different uploads can be told apart
+const LAYER_COLORS = ['#2563eb', '#dc2626', '#16a34a', '#d97706', '#7c3aed', '#0891b2', '#db2777']
+
+const HOVER_STYLE: L.PathOptions = { weight: 4, fillOpacity: 0.45 }
+const SELECTED_STYLE: L.PathOptions = { weight: 5, fillOpacity: 0.5 }
+
+/**
+ * Leaflet map of the Placemarks in one or more parsed KML files
+ * Hovering a feature shows its name and clicking it opens its ExtendedData. A selected
+ * plot or file is zoomed to, and a selected plot is drawn on top with a heavier outline.
+ * Import `KmlMap` rather than this component: Leaflet needs `window` at import time.
+ */
+export function KmlMapView({ layers, selected = null, onPlacemarkClick, className }: KmlMapViewProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const mapRef = useRef<L.Map | null>(null)
+  const featuresRef = useRef<L.FeatureGroup | null>(null)
+  // Shapes by file, and by `${layerId}/${placemarkId}`, for zooming to a selection
+  const layerGroupsRef = useRef<Record<string, L.FeatureGroup>>({})
+  const shapesRef = useRef<Record<string, PlacemarkShape>>({})
+  const selectedShapeRef = useRef<PlacemarkShape | null>(null)
+  const onPlacemarkClickRef = useRef(onPlacemarkClick)
+  onPlacemarkClickRef.current = onPlacemarkClick
+
+  const selectedLayerId = selected ? selected.layerId : null
+  const selectedPlacemarkId = selected ? selected.placemarkId : null
+
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+
+    const map = L.map(container, { center: DEFAULT_CENTER, zoom: DEFAULT_ZOOM })
+    addBasemaps(map)
+    featuresRef.current = L.featureGroup().addTo(map)
+    mapRef.current = map
+
+    // The container can be resized without the window changing, e.g. inside a carousel
+    const resizeObserver = new ResizeObserver(() => map.invalidateSize())
+    resizeObserver.observe(container)
+
+    return () => {
+      resizeObserver.disconnect()
+      map.remove()
+      mapRef.current = null
+      featuresRef.current = null
+    }
+  }, [])
+
+  useEffect(() => {
+    const map = mapRef.current
+    const features = featuresRef.current
+    if (!map || !features) return
+
+    features.clearLayers()
+    layerGroupsRef.current = {}
+    shapesRef.current = {}
+    selectedShapeRef.current = null
+
+    layers.forEach((layer, index) => {
+      const color = LAYER_COLORS[index % LAYER_COLORS.length]
+      const group = L.featureGroup().addTo(features)
+      layerGroupsRef.current[layer.id] = group
+
+      layer.document.placemarks.forEach((placemark) => {
+        const shape = geometryShape(placemark.geometry, { ...DEFAULT_STYLE, color })
+        if (!shape) return
+
+        shape.bindTooltip(placemark.name || placemark.id, { sticky: true })
+        shape.bindPopup(() => popupContent(layer.name, placemark), { maxHeight: 240, maxWidth: 320 })
+        shape.on('mouseover', () => shape.setStyle(HOVER_STYLE))
+        shape.on('mouseout', () => shape.setStyle(shape === selectedShapeRef.current ? SELECTED_STYLE : DEFAULT_STYLE))
+        shape.on('click', () => onPlacemarkClickRef.current?.({ layerId: layer.id, placemarkId: placemark.id }))
+        group.addLayer(shape)
+        shapesRef.current[`${layer.id}/${placemark.id}`] = shape
+      })
+    })
+
+    fitToFeatures(map, features)
+  }, [layers])
+
+  // Runs after the shapes are rebuilt, so a selection survives new data
+  useEffect(() => {
+    const map = mapRef.current
+    const features = featuresRef.current
+    if (!map || !features) return
+
+    selectedShapeRef.current?.setStyle(DEFAULT_STYLE)
+    selectedShapeRef.current = null
+
+    const shape = selectedLayerId && selectedPlacemarkId
+      ? shapesRef.current[`${selectedLayerId}/${selectedPlacemarkId}`]
+      : undefined
+    if (shape) {
+      shape.setStyle(SELECTED_STYLE)
+      shape.bringToFront()
+      selectedShapeRef.current = shape
+      fitToFeatures(map, shape)
+      return
+    }
+
+    const group = selectedLayerId ? layerGroupsRef.current[selectedLayerId] : undefined
+    fitToFeatures(map, group || features)
+  }, [layers, selectedLayerId, selectedPlacemarkId])
+
+  const handleFit = () => {
+    if (mapRef.current && featuresRef.current) fitToFeatures(mapRef.current, featuresRef.current)
+  }
+
+  return (
+    <div className={cn('relative h-full w-full', className)}>
+      <div ref={containerRef} className="h-full w-full bg-gray-100" />
+      <Button
+        variant="outline"
+        size="icon"
+        className="absolute left-3 bottom-6 z-[1000] h-8 w-8 bg-white"
+        onClick={handleFit}
+        title="Zoom to all plots"
+        aria-label="Zoom to all plots"
+      >
+        <Maximize className="h-4 w-4" />
+      </Button>
+    </div>
+  )
+}
+
+// Built with DOM nodes and textContent: names and ExtendedData come from uploaded files
+function popupContent(fileName: string, placemark: KmlPlacemark): HTMLElement {
+  const container = document.createElement('div')
+  container.className = 'text-xs space-y-1'
+
+  const title = document.createElement('div')
+  title.className = 'text-sm font-semibold text-gray-900'
+  title.textContent = placemark.name || placemark.id
+  const subtitle = document.createElement('div')
+  subtitle.className = 'text-gray-500'
+  subtitle.textContent = fileName
+  container.appendChild(title)
+  container.appendChild(subtitle)
+
+  const fieldNames = Object.keys(placemark.extendedData.fields)
+  if (fieldNames.length === 0) {
+    const empty = document.createElement('div')
+    empty.className = 'text-gray-500'
+    empty.textContent = 'No ExtendedData'
+    container.appendChild(empty)
+    return container
+  }
+
+  const table = document.createElement('table')
+  table.className = 'mt-1'
+  fieldNames.forEach((fieldName) => {
+    const row = table.insertRow()
+    const label = document.createElement('th')
+    label.className = 'pr-3 py-0.5 text-left align-top font-medium text-gray-600'
+    label.textContent = fieldName
+    row.appendChild(label)
+    const value = row.insertCell()
+    value.className = 'py-0.5 text-gray-900 break-words'
+    value.textContent = placemark.extendedData.fields[fieldName]
+  })
+  container.appendChild(table)
+
+  return container
+}
@@ -0,0 +1,21 @@
+'use client'
+
+import dynamic from 'next/dynamic'
+
+export type { KmlMapLayer, KmlMapSelection, KmlMapViewProps as KmlMapProps } from './kml-map-view'
+
+/**
+ * Interactive map of parsed KML files (see KmlMapView)
+ * Loaded only in the browser because Leaflet reads `window` when it is imported.
+ */
+export const KmlMap = dynamic(
+  () => import('./kml-map-view').then(mod => mod.KmlMapView),
+  {
+    ssr: false,
+    loading: () => (
+      <div className="h-full w-full flex items-center justify-center bg-gray-100">
+        <p className="text-sm text-gray-500">Loading map...</p>
+      </div>
+    )
+  }
+)
@@ -0,0 +1,143 @@
+import L from 'leaflet'
+import type { Coordinate, KmlGeometry } from '@/lib/kml'
+
+/**
+ * Leaflet building blocks shared by the KML map and editor
+ * Only import this from components loaded with `ssr: false`: Leaflet needs `window`.
+ */
+
+export type PlacemarkShape = L.Path | L.FeatureGroup
+
+interface Basemap {
+  label: string
+  /** Tile URL template; null for the blank basemap, which needs no network */
+  url: string | null
+  attribution?: string
+}
+
+const MAPTILER_API_KEY = process.env.NEXT_PUBLIC_MAPTILER_API_KEY
+
+// MapTiler imagery needs a key; without one the map falls back to OpenStreetMap tiles
+const TILE_BASEMAPS: Basemap[] = MAPTILER_API_KEY
+  ? [
+      {
+        label: 'Satellite',
+        url: `https://api.maptiler.com/maps/hybrid/256/{z}/{x}/{y}.jpg?key=${MAPTILER_API_KEY}`,
+        attribution: '&copy; MapTiler &copy; OpenStreetMap contributors'
+      },
+      {
+        label: 'Streets',
+        url: `https://api.maptiler.com/maps/streets-v2/256/{z}/{x}/{y}.png?key=${MAPTILER_API_KEY}`,
+        attribution: '&copy; MapTiler &copy; OpenStreetMap contributors'
+      }
+    ]
+  : [
+      {
+        label: 'OpenStreetMap',
+        url: 'https://tile.openstreetmap.org/{z}/{x}/{y}.png',
+        attribution: '&copy; OpenStreetMap contributors'
+      }
+    ]
+const BASEMAPS = TILE_BASEMAPS.concat([{ label: 'Blank', url: null }])
+
+// Central India, where most of our projects are
+export const DEFAULT_CENTER: L.LatLngTuple = [20, 78]
+export const DEFAULT_ZOOM = 5
+const FIT_PADDING: L.PointTuple = [24, 24]
+const MAX_FIT_ZOOM = 18
+
+export const DEFAULT_STYLE: L.PathOptions = { weight: 2, fillOpacity: 0.25 }
+
+/**
+ * Adds the basemaps and the control to switch between them
+ * The map starts on the first basemap and switches to the blank one when its tiles
+ * cannot be fetched (offline, blocked), so the plots stay readable.
+ *
+ * @param map - The map to add them to
+ */
+export function addBasemaps(map: L.Map) {
+  const baseLayers = BASEMAPS.reduce<Record<string, L.Layer>>((result, basemap) => {
+    result[basemap.label] = basemap.url
+      ? L.tileLayer(basemap.url, { attribution: basemap.attribution, maxZoom: 19 })
+      : L.layerGroup()
+    return result
+  }, {})
+  const initialLayer = baseLayers[BASEMAPS[0].label]
+  const blankLayer = baseLayers[BASEMAPS[BASEMAPS.length - 1].label]
+
+  initialLayer.addTo(map)
+  L.control.layers(baseLayers).addTo(map)
+
+  if (initialLayer instanceof L.TileLayer) {
+    let hasLoadedTile = false
+    initialLayer.on('tileload', () => { hasLoadedTile = true })
+    initialLayer.once('tileerror', () => {
+      if (hasLoadedTile || !map.hasLayer(initialLayer)) return
+      map.removeLayer(initialLayer)
+      blankLayer.addTo(map)
+    })
+  }
+}
+
+/**
+ * Zooms the map to a shape or group of shapes
+ *
+ * @param map - The map
+ * @param features - What to show; nothing happens when it is empty
+ */
+export function fitToFeatures(map: L.Map, features: PlacemarkShape) {
+  // Points have no extent; fitting their one-point bounds zooms in to MAX_FIT_ZOOM
+  const bounds = features instanceof L.CircleMarker
+    ? L.latLngBounds([features.getLatLng(), features.getLatLng()])
+    : (features as L.Polyline | L.FeatureGroup).getBounds()
+  if (bounds.isValid()) map.fitBounds(bounds, { padding: FIT_PADDING, maxZoom: MAX_FIT_ZOOM })
+}
+
+/**
+ * Converts a KML coordinate, longitude first, to Leaflet's latitude-first order
+ *
+ * @param coordinate - KML coordinate
+ * @returns L.LatLngTuple - The same position for Leaflet
+ */
+export function toLatLng(coordinate: Coordinate): L.LatLngTuple {
+  return [coordinate[1], coordinate[0]]
+}
+
+/**
+ * Converts a Leaflet position back to a KML coordinate
+ * Rounded to 7 decimal places (about 1 cm), which is more than GPS gives anyway.
+ *
+ * @param latLng - Leaflet position
+ * @returns Coordinate - Longitude, latitude
+ */
+export function toCoordinate(latLng: L.LatLng): Coordinate {
+  return [Number(latLng.lng.toFixed(7)), Number(latLng.lat.toFixed(7))]
+}
+
+/**
+ * Builds the vector layer for a geometry
+ *
+ * @param geometry - The Placemark's geometry
+ * @param style - Path options, including the colour
+ * @returns PlacemarkShape | null - The layer, or null when there is nothing drawable
+ */
+export function geometryShape(geometry: KmlGeometry | null, style: L.PathOptions): PlacemarkShape | null {
+  if (!geometry) return null
+
+  switch (geometry.type) {
+    case 'Point':
+      return L.circleMarker(toLatLng(geometry.coordinates), { ...style, radius: 6 })
+    case 'LineString':
+      return geometry.coordinates.length > 1 ? L.polyline(geometry.coordinates.map(toLatLng), style) : null
+    case 'Polygon':
+      return geometry.outerBoundary.length > 2
+        ? L.polygon([geometry.outerBoundary].concat(geometry.innerBoundaries).map(ring => ring.map(toLatLng)), style)
+        : null
+    case 'MultiGeometry': {
+      const parts = geometry.geometries
+        .map(part => geometryShape(part, style))
+        .filter((part): part is PlacemarkShape => part !== null)
+      return parts.length > 0 ? L.featureGroup(parts) : null
+    }
+  }
+}
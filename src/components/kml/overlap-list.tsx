@@ -0,0 +1,73 @@
+import { CheckCircle, Layers } from 'lucide-react'
+import { formatArea, type PlotOverlap } from '@/lib/kml'
+import type { ExternalPlotOverlap } from '@/lib/api-service'
+
+interface OverlapListProps {
+  fileName: string
+  overlaps: PlotOverlap[]
+  externalOverlaps: ExternalPlotOverlap[]
+}
+
+/**
+ * Lists intersecting plot pairs, first within the file and then against plots
+ * already submitted in other files or requests
+ */
+export function OverlapList({ fileName, overlaps, externalOverlaps }: OverlapListProps) {
+  const total = overlaps.length + externalOverlaps.length
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          {total > 0 ? (
+            <Layers className="h-4 w-4 text-red-500" />
+          ) : (
+            <CheckCircle className="h-4 w-4 text-green-500" />
+          )}
+          <span className="text-sm font-medium text-gray-900 truncate">{fileName}</span>
+        </div>
+        <span className="text-xs text-gray-500">
+          {total === 0 ? 'No overlaps' : `${total} overlap${total === 1 ? '' : 's'}`}
+        </span>
+      </div>
+
+      {total > 0 && (
+        <ul className="space-y-2">
+          {overlaps.map(overlap => (
+            <OverlapItem
+              key={`${overlap.plotId}:${overlap.otherPlotId}`}
+              overlap={overlap}
+              otherLabel="same file"
+            />
+          ))}
+          {externalOverlaps.map(overlap => (
+            <OverlapItem
+              key={`${overlap.plotId}:${overlap.other.analysisId}:${overlap.otherPlotId}`}
+              overlap={overlap}
+              otherLabel={overlap.other.requestId
+                ? `${overlap.other.requestId} / ${overlap.other.fileName}`
+                : overlap.other.fileName}
+            />
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+function OverlapItem({ overlap, otherLabel }: { overlap: PlotOverlap, otherLabel: string }) {
+  return (
+    <li className="text-sm bg-red-50 border border-red-200 rounded-md px-3 py-2">
+      <p className="font-medium text-gray-900 truncate">
+        {overlap.plotName || overlap.plotId} ∩ {overlap.otherPlotName || overlap.otherPlotId}
+      </p>
+      <p className="text-xs text-gray-500 truncate">{otherLabel}</p>
+      <p className="text-gray-600">
+        {formatArea(overlap.areaSquareMeters, 'hectares', 4)}{' '}
+        <span className="font-medium text-red-700">
+          ({overlap.percentOfPlot.toFixed(1)}% / {overlap.percentOfOther.toFixed(1)}% of each plot)
+        </span>
+      </p>
+    </li>
+  )
+}
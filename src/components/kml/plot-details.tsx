@@ -0,0 +1,144 @@
+import { CHECKLIST_STATUS_STYLES } from '@/components/kml/registry-checklist'
+import type { ChecklistItem, ChecklistStatus } from '@/lib/checklist'
+import { formatArea, formatDeclaredArea, formatLength, type KmlAnalysis, type PlotReport } from '@/lib/kml'
+
+interface PlotDetailsProps {
+  fileName: string
+  analysis: KmlAnalysis
+  /** The plot to describe; null describes the whole file */
+  plotId: string | null
+  /** The file's checklist; empty until a registry and project type are chosen */
+  checklistItems: ChecklistItem[]
+}
+
+interface ChecklistStatusRow {
+  ruleId: string
+  label: string
+  status: ChecklistStatus
+  detail: string
+}
+
+/**
+ * Summary of the plot (or file) selected in the map preview: area, declared area,
+ * geometry issues, checklist outcome and ExtendedData
+ */
+export function PlotDetails({ fileName, analysis, plotId, checklistItems }: PlotDetailsProps) {
+  const plot = plotId ? analysis.plots.filter(report => report.id === plotId)[0] : undefined
+
+  if (!plotId) {
+    const polygonPlots = analysis.plots.filter(report => report.areaSquareMeters > 0)
+    const totalArea = polygonPlots.reduce((sum, report) => sum + report.areaSquareMeters, 0)
+    return (
+      <div className="space-y-3">
+        <div>
+          <h4 className="text-sm font-semibold text-gray-900 truncate">{fileName}</h4>
+          <p className="text-xs text-gray-500">
+            {analysis.plots.length} plots · {formatArea(totalArea, 'hectares')} · {formatArea(totalArea, 'acres')}
+          </p>
+        </div>
+        <ChecklistStatusList
+          items={checklistItems.map(item => ({
+            ruleId: item.ruleId,
+            label: item.label,
+            status: item.status,
+            detail: `${item.passedCount}/${item.checkedCount}`
+          }))}
+        />
+      </div>
+    )
+  }
+
+  if (!plot) {
+    return <p className="text-sm text-gray-500">This plot is not in the analysis of {fileName}</p>
+  }
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <h4 className="text-sm font-semibold text-gray-900 truncate">{plot.name || plot.id}</h4>
+        <p className="text-xs text-gray-500 truncate">{[fileName].concat(plot.path).join(' / ')}</p>
+      </div>
+
+      <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+        {plot.areaSquareMeters > 0 && (
+          <>
+            <dt className="text-gray-500">Area</dt>
+            <dd className="text-gray-900">{formatArea(plot.areaSquareMeters, 'hectares', 3)} · {formatArea(plot.areaSquareMeters, 'acres', 3)}</dd>
+            <dt className="text-gray-500">Perimeter</dt>
+            <dd className="text-gray-900">{formatLength(plot.perimeterMeters)}</dd>
+          </>
+        )}
+        {plot.areaCheck && (
+          <>
+            <dt className="text-gray-500">Declared area</dt>
+            <dd className={plot.areaCheck.isWithinTolerance ? 'text-gray-900' : 'text-amber-700'}>
+              {formatDeclaredArea(plot.areaCheck.declared)}{' '}
+              ({plot.areaCheck.differencePercent > 0 ? '+' : ''}{plot.areaCheck.differencePercent.toFixed(1)}%)
+            </dd>
+          </>
+        )}
+        <dt className="text-gray-500">Geometry</dt>
+        <dd className={plot.issues.length > 0 ? 'text-amber-700' : 'text-gray-900'}>
+          {plot.geometryType || 'None'}
+          {plot.issues.length > 0 && ` · ${plot.issues.length} ${plot.issues.length === 1 ? 'issue' : 'issues'}`}
+        </dd>
+      </dl>
+
+      <ChecklistStatusList items={plotChecklist(plot, checklistItems)} />
+
+      <ExtendedDataTable fields={plot.extendedData} />
+    </div>
+  )
+}
+
+// Every rule as it applies to one plot: failed or warned only when the plot is among the violations
+function plotChecklist(plot: PlotReport, items: ChecklistItem[]): ChecklistStatusRow[] {
+  return items.map((item) => {
+    const violations = item.violations.filter(violation => violation.plotId === plot.id)
+    return {
+      ruleId: item.ruleId,
+      label: item.label,
+      status: violations.length > 0 ? item.status : 'pass',
+      detail: violations.map(violation => violation.message).join('; ')
+    }
+  })
+}
+
+function ChecklistStatusList({ items }: { items: ChecklistStatusRow[] }) {
+  if (items.length === 0) {
+    return <p className="text-xs text-gray-500">Select a project type and registry to see the checklist</p>
+  }
+
+  return (
+    <ul className="space-y-1">
+      {items.map(({ ruleId, label, status, detail }) => {
+        const { icon: Icon, className } = CHECKLIST_STATUS_STYLES[status]
+        return (
+          <li key={ruleId} className="flex items-start space-x-2 text-sm">
+            <Icon className={`h-4 w-4 mt-0.5 flex-shrink-0 ${className}`} />
+            <span className="text-gray-900">{label}</span>
+            {detail && <span className="text-xs text-gray-500 mt-0.5">{detail}</span>}
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
+
+function ExtendedDataTable({ fields }: { fields: Record<string, string> }) {
+  const fieldNames = Object.keys(fields)
+  if (fieldNames.length === 0) {
+    return <p className="text-xs text-gray-500">No ExtendedData</p>
+  }
+
+  return (
+    <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm border-t pt-3">
+      {fieldNames.map(fieldName => (
+        <div key={fieldName} className="contents">
+          <dt className="text-gray-500 truncate">{fieldName}</dt>
+          <dd className="text-gray-900 break-words">{fields[fieldName]}</dd>
+        </div>
+      ))}
+    </dl>
+  )
+}
@@ -0,0 +1,58 @@
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { AREA_UNITS, DISPLAY_AREA_UNITS, convertArea, formatLength, type PlotReport } from '@/lib/kml'
+
+interface PlotMeasurementsProps {
+  fileName: string
+  plots: PlotReport[]
+}
+
+/**
+ * Table of geodesic area and perimeter for every polygon Placemark in a file,
+ * with the file total in the footer
+ */
+export function PlotMeasurements({ fileName, plots }: PlotMeasurementsProps) {
+  const polygonPlots = plots.filter(plot => plot.areaSquareMeters > 0)
+  const totalArea = polygonPlots.reduce((sum, plot) => sum + plot.areaSquareMeters, 0)
+  const totalPerimeter = polygonPlots.reduce((sum, plot) => sum + plot.perimeterMeters, 0)
+
+  return (
+    <div className="space-y-2">
+      <h4 className="text-sm font-semibold text-gray-900">{fileName}</h4>
+      {polygonPlots.length === 0 ? (
+        <p className="text-sm text-gray-500">No polygon plots in this file</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="font-semibold">Plot</TableHead>
+              {DISPLAY_AREA_UNITS.map(unit => (
+                <TableHead key={unit} className="font-semibold text-right">{AREA_UNITS[unit].label}</TableHead>
+              ))}
+              <TableHead className="font-semibold text-right">Perimeter</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {polygonPlots.map(plot => (
+              <TableRow key={plot.id}>
+                <TableCell className="font-medium">{plot.name || plot.id}</TableCell>
+                {DISPLAY_AREA_UNITS.map(unit => (
+                  <TableCell key={unit} className="text-right">{convertArea(plot.areaSquareMeters, unit).toFixed(3)}</TableCell>
+                ))}
+                <TableCell className="text-right">{formatLength(plot.perimeterMeters)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+          <TableFooter>
+            <TableRow>
+              <TableCell>Total ({polygonPlots.length} plots)</TableCell>
+              {DISPLAY_AREA_UNITS.map(unit => (
+                <TableCell key={unit} className="text-right">{convertArea(totalArea, unit).toFixed(3)}</TableCell>
+              ))}
+              <TableCell className="text-right">{formatLength(totalPerimeter)}</TableCell>
+            </TableRow>
+          </TableFooter>
+        </Table>
+      )}
+    </div>
+  )
+}
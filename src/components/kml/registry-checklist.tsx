@@ -0,0 +1,71 @@
+import { AlertTriangle, CheckCircle, XCircle } from 'lucide-react'
+import type { ChecklistItem, ChecklistStatus } from '@/lib/checklist'
+
+interface RegistryChecklistProps {
+  items: ChecklistItem[]
+}
+
+export const CHECKLIST_STATUS_STYLES: Record<ChecklistStatus, { icon: typeof CheckCircle, className: string }> = {
+  pass: { icon: CheckCircle, className: 'text-green-500' },
+  warn: { icon: AlertTriangle, className: 'text-amber-500' },
+  fail: { icon: XCircle, className: 'text-red-500' }
+}
+
+// Violations listed per rule before the rest are summarised
+const MAX_VIOLATIONS_SHOWN = 5
+
+/**
+ * Checklist of registry requirements for one file
+ * Each rule shows pass/warn/fail, how many plots satisfied it and the offending plots
+ */
+export function RegistryChecklist({ items }: RegistryChecklistProps) {
+  const failCount = items.filter(item => item.status === 'fail').length
+  const warnCount = items.filter(item => item.status === 'warn').length
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-gray-900">Registry requirements</span>
+        <span className="text-xs text-gray-500">
+          {items.length - failCount - warnCount} passed, {warnCount} warnings, {failCount} failed
+        </span>
+      </div>
+
+      <ul className="space-y-2">
+        {items.map((item) => {
+          const { icon: Icon, className } = CHECKLIST_STATUS_STYLES[item.status]
+          return (
+            <li key={item.ruleId} className="text-sm border rounded-md px-3 py-2">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-2 min-w-0">
+                  <Icon className={`h-4 w-4 flex-shrink-0 ${className}`} />
+                  <span className="text-gray-900 truncate">{item.label}</span>
+                </div>
+                <span className="text-xs text-gray-500 flex-shrink-0 ml-2">
+                  {item.passedCount}/{item.checkedCount}
+                </span>
+              </div>
+              {item.violations.length > 0 && (
+                <ul className="mt-1 ml-6 space-y-0.5 text-gray-600">
+                  {item.violations.slice(0, MAX_VIOLATIONS_SHOWN).map((violation, index) => (
+                    <li key={`${violation.plotId}-${index}`} className="truncate">
+                      {violation.plotId && (
+                        <span className="font-medium">{violation.plotName || violation.plotId}: </span>
+                      )}
+                      {violation.message}
+                    </li>
+                  ))}
+                  {item.violations.length > MAX_VIOLATIONS_SHOWN && (
+                    <li className="text-xs text-gray-500">
+                      and {item.violations.length - MAX_VIOLATIONS_SHOWN} more
+                    </li>
+                  )}
+                </ul>
+              )}
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
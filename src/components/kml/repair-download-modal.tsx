@@ -0,0 +1,122 @@
+import { useEffect, useState } from 'react'
+import { CheckCircle, Download, Wrench, XCircle } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Modal } from '@/components/ui/modal'
+import { getRepairedKml, type AnalysisJob, type RepairedKml } from '@/lib/api-service'
+
+interface RepairDownloadModalProps {
+  isOpen: boolean
+  onClose: () => void
+  jobs: AnalysisJob[]
+}
+
+interface RepairState {
+  job: AnalysisJob
+  repaired?: RepairedKml
+  error?: string
+}
+
+/**
+ * Download dialog for geometry-repaired KML files
+ * Each file is repaired on the server when the dialog opens and listed with the
+ * changes made to every Placemark, plus anything that still needs a manual fix
+ */
+export function RepairDownloadModal({ isOpen, onClose, jobs }: RepairDownloadModalProps) {
+  const [repairs, setRepairs] = useState<RepairState[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+
+  useEffect(() => {
+    if (!isOpen) return
+    let isCancelled = false
+
+    setIsLoading(true)
+    Promise.all(jobs.map(job =>
+      getRepairedKml(job.id)
+        .then((repaired): RepairState => ({ job, repaired }))
+        .catch((err): RepairState => ({ job, error: err instanceof Error ? err.message : 'Repair failed' }))
+    )).then((results) => {
+      if (isCancelled) return
+      setRepairs(results)
+      setIsLoading(false)
+    })
+
+    return () => {
+      isCancelled = true
+    }
+  }, [isOpen, jobs])
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Download Corrected KML">
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Repairing geometry...</p>
+      ) : repairs.length === 0 ? (
+        <p className="text-sm text-gray-500">No analysed KML files to download</p>
+      ) : (
+        <div className="space-y-6">
+          {repairs.map(({ job, repaired, error }) => (
+            <div key={job.id} className="space-y-3">
+              <div className="flex items-center justify-between">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 truncate">{job.fileName}</p>
+                  {repaired && (
+                    <p className="text-xs text-gray-500">
+                      {repaired.repairs.length === 0
+                        ? 'No repairs needed'
+                        : `${repaired.repairs.length} placemark${repaired.repairs.length === 1 ? '' : 's'} changed`}
+                    </p>
+                  )}
+                </div>
+                {repaired && (
+                  <Button size="sm" variant="outline" onClick={() => downloadKml(repaired)}>
+                    <Download className="h-4 w-4 mr-2" />
+                    {repaired.fileName}
+                  </Button>
+                )}
+              </div>
+
+              {error && <p className="text-sm text-red-600">{error}</p>}
+
+              {repaired && repaired.repairs.length > 0 && (
+                <ul className="space-y-2">
+                  {repaired.repairs.map(repair => (
+                    <li key={repair.placemarkId} className="text-sm border rounded-md px-3 py-2">
+                      <p className="font-medium text-gray-900 truncate">{repair.name || repair.placemarkId}</p>
+                      {repair.changes.map(change => (
+                        <p key={change} className="flex items-center text-gray-600">
+                          <Wrench className="h-3 w-3 mr-2 text-green-600 flex-shrink-0" />
+                          {change}
+                        </p>
+                      ))}
+                      {repair.unresolved.map(problem => (
+                        <p key={problem} className="flex items-center text-red-700">
+                          <XCircle className="h-3 w-3 mr-2 flex-shrink-0" />
+                          {problem}
+                        </p>
+                      ))}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {repaired && repaired.repairs.length === 0 && (
+                <p className="flex items-center text-sm text-gray-600">
+                  <CheckCircle className="h-4 w-4 mr-2 text-green-500" />
+                  Geometry is already valid
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </Modal>
+  )
+}
+
+function downloadKml(repaired: RepairedKml) {
+  const url = URL.createObjectURL(new Blob([repaired.kml], { type: 'application/vnd.google-earth.kml+xml' }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = repaired.fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,16 @@
+import type { ProjectStatus } from '@/lib/project-status'
+
+const STATUS_COLORS: Record<ProjectStatus, string> = {
+  Pending: 'bg-yellow-100 text-yellow-800',
+  Active: 'bg-green-100 text-green-800',
+  Completed: 'bg-blue-100 text-blue-800',
+  Archived: 'bg-gray-100 text-gray-800'
+}
+
+export function ProjectStatusBadge({ status }: { status: ProjectStatus }) {
+  return (
+    <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_COLORS[status]}`}>
+      {status}
+    </span>
+  )
+}
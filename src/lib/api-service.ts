@@ -3,6 +3,41 @@
  * This service handles backend API calls for KML file upload functionality
  */
 
+import type { AnalysisJob, FileDuplicate } from '@/lib/server/analysis-queue'
+import type { SessionInfo, User } from '@/lib/server/auth'
+import type { Invitation, InvitationInput } from '@/lib/server/invitations'
+import type { MailMessage } from '@/lib/server/mailer'
+import type { MultipartUpload } from '@/lib/server/multipart-uploads'
+import type { ExternalPlotOverlap } from '@/lib/server/plot-index'
+import type { Project, ProjectDetails, ProjectInput, ProjectSummary } from '@/lib/server/projects'
+import type { ClientRequest, ClientRequestInput } from '@/lib/server/requests'
+import type { KmlAnalysis } from '@/lib/kml/analysis'
+import type { EditedPlacemark } from '@/lib/kml/edit'
+import type { KmlFingerprint } from '@/lib/kml/fingerprint'
+import type { KmlDocument } from '@/lib/kml/types'
+import type { PlacemarkRepair } from '@/lib/kml/repair'
+
+export type {
+    AnalysisJob,
+    ClientRequest,
+    ClientRequestInput,
+    ExternalPlotOverlap,
+    FileDuplicate,
+    Invitation,
+    InvitationInput,
+    KmlAnalysis,
+    KmlDocument,
+    MailMessage,
+    MultipartUpload,
+    PlacemarkRepair,
+    Project,
+    ProjectDetails,
+    ProjectInput,
+    ProjectSummary,
+    SessionInfo,
+    User
+}
+
 // Types for API responses
 export interface PresignedUrlResponse {
     presignedUrl: string
@@ -17,15 +52,26 @@ export interface UploadProgress {
     percentage: number
 }
 
+export interface CurrentSession {
+    user: User
+    session: SessionInfo
+}
+
+/** Window event dispatched when an API call is refused because the session has ended */
+export const SESSION_EXPIRED_EVENT = 'kml:session-expired'
+
+/** Window event dispatched while a long-running transfer is in progress, so it counts as activity */
+export const SESSION_ACTIVITY_EVENT = 'kml:session-activity'
+
 export interface UploadStatus {
-    status: 'idle' | 'uploading' | 'success' | 'error'
+    status: 'idle' | 'uploading' | 'paused' | 'success' | 'error'
     progress: UploadProgress
     error?: string
     fileKey?: string
 }
 
 /**
- * API call to request a presigned URL for file upload from backend Lambda function
+ * API call to request a presigned URL for file upload from the configured storage backend
  * 
  * @param fileName - The name of the file to upload
  * @param fileType - The MIME type of the file
@@ -50,13 +96,13 @@ export async function requestPresignedUrl(
     }
 
     try {
-        const response = await fetch('/api/presigned-url', {
+        const response = await apiFetch('/api/presigned-url', {
             method: 'POST',
             headers: {
                 'Content-Type': 'application/json',
             },
             body: JSON.stringify({
-                fileName: `input_kml_files/${fileName}`
+                fileName // the server chooses the storage key
             })
         })
 
@@ -66,19 +112,16 @@ export async function requestPresignedUrl(
 
         const data = await response.json()
 
-        // Log the response for debugging
-        console.log('API response data:', data)
-
-        // Check if presignedUrl exists in the response
-        if (!data.presignedUrl) {
-            console.error('Missing presignedUrl in response:', data)
-            throw new Error('Invalid response from server: missing presignedUrl')
+        // The server chooses the key; it cannot be derived from the URL of every backend
+        if (!data.presignedUrl || !data.fileKey) {
+            console.error('Missing presignedUrl or fileKey in response:', data)
+            throw new Error('Invalid response from server: missing presignedUrl or fileKey')
         }
 
         // Return the response from the backend
         return {
             presignedUrl: data.presignedUrl,
-            fileKey: data.fileKey || `kml-uploads/${Date.now()}-${fileName}`,
+            fileKey: data.fileKey,
             expiresIn: data.expiresIn || 3600,
             fields: data.fields || {
                 'Content-Type': fileType,
@@ -88,114 +131,934 @@ export async function requestPresignedUrl(
         }
     } catch (error) {
         if (error instanceof Error) {
-            // Check for CORS errors specifically
-            if (error.message.includes('CORS') || error.message.includes('Access-Control-Allow-Origin')) {
-                throw new Error('CORS Error: The server is returning duplicate CORS headers. Please fix the backend Lambda function to return only one Access-Control-Allow-Origin header.')
-            }
             throw new Error(`Failed to request presigned URL: ${error.message}`)
         }
         throw new Error('Failed to request presigned URL: Unknown error')
     }
 }
 
+export interface MultipartUploadHandle {
+    /** Resolves with the file key once the whole file is stored */
+    done: Promise<string>
+    /** Stops sending parts, keeping those already stored; false before the upload has started */
+    pause: () => boolean
+    resume: () => void
+    /** Stops the upload and discards the parts stored so far */
+    cancel: () => Promise<void>
+}
+
+// Unfinished uploads by file, so choosing the same file after a reload resumes it
+const MULTIPART_STORAGE_KEY = 'kml-multipart-uploads'
+const PART_CONCURRENCY = 3
+const PART_MAX_ATTEMPTS = 5
+// A request is given up on when it runs slower than this, but never sooner than MIN_REQUEST_TIMEOUT_MS
+const MIN_UPLOAD_BYTES_PER_SECOND = 16 * 1024
+const MIN_REQUEST_TIMEOUT_MS = 60 * 1000
+
 /**
- * Upload file to S3 using presigned URL
- * In a real application, this would upload to actual S3
- * 
+ * Uploads a file to S3 in parts, retrying failed parts with backoff
+ * Parts already stored by an earlier attempt at the same file (e.g. before a page
+ * reload) are skipped.
+ *
  * @param file - The file to upload
- * @param presignedUrl - The presigned URL for upload
- * @param fields - Additional form fields for the upload
+ * @param onProgress - Callback for upload progress updates
+ * @returns MultipartUploadHandle - The running upload
+ */
+export function startMultipartUpload(
+    file: File,
+    onProgress?: (progress: UploadProgress) => void
+): MultipartUploadHandle {
+    const partLoaded: Record<number, number> = {}
+    const activeRequests: XMLHttpRequest[] = []
+    let resumeWaiters: (() => void)[] = []
+    let isPaused = false
+    let isCancelled = false
+    let uploadId: string | null = null
+
+    const reportProgress = () => {
+        const loaded = Object.keys(partLoaded).reduce((sum, partNumber) => sum + partLoaded[Number(partNumber)], 0)
+        onProgress?.({ loaded, total: file.size, percentage: Math.round((loaded / file.size) * 100) })
+    }
+
+    const waitWhilePaused = () => isPaused
+        ? new Promise<void>(resolve => resumeWaiters.push(resolve))
+        : Promise.resolve()
+
+    // Sends one part until it is stored, backing off between failures
+    const uploadPart = async (upload: MultipartUpload, partNumber: number) => {
+        const start = (partNumber - 1) * upload.partSize
+        const blob = file.slice(start, Math.min(start + upload.partSize, file.size))
+        let failures = 0
+
+        for (;;) {
+            await waitWhilePaused()
+            if (isCancelled) throw new Error('Upload cancelled')
+
+            try {
+                // Presign right before sending, so a long pause cannot outlive the URL
+                const [{ url }] = await presignUploadParts(upload.id, [partNumber])
+                if (isPaused) continue
+                await putPart(url, blob, activeRequests, (loaded) => {
+                    partLoaded[partNumber] = loaded
+                    reportProgress()
+                })
+                partLoaded[partNumber] = blob.size
+                reportProgress()
+                return
+            } catch (error) {
+                partLoaded[partNumber] = 0
+                reportProgress()
+                if (isCancelled) throw new Error('Upload cancelled')
+                // Aborted by pause(); not a failure
+                if (isPaused) continue
+
+                failures++
+                if (failures >= PART_MAX_ATTEMPTS) {
+                    throw new Error(`Part ${partNumber} failed after ${failures} attempts: ${error instanceof Error ? error.message : error}`)
+                }
+                // 1s, 2s, 4s, 8s with jitter
+                await delay(1000 * Math.pow(2, failures - 1) * (0.75 + Math.random() / 2))
+            }
+        }
+    }
+
+    const run = async (): Promise<string> => {
+        const { upload, uploadedParts } = await findOrStartMultipartUpload(file)
+        uploadId = upload.id
+        const queue: number[] = []
+        for (let partNumber = 1; partNumber <= upload.partCount; partNumber++) {
+            if (uploadedParts.indexOf(partNumber) === -1) {
+                queue.push(partNumber)
+            } else {
+                partLoaded[partNumber] = Math.min(upload.partSize, file.size - (partNumber - 1) * upload.partSize)
+            }
+        }
+        reportProgress()
+
+        const worker = async () => {
+            while (queue.length > 0) {
+                await uploadPart(upload, queue.shift() as number)
+            }
+        }
+        await Promise.all(Array.from({ length: Math.min(PART_CONCURRENCY, queue.length) }, worker))
+
+        const response = await apiFetch(`/api/multipart-uploads/${encodeURIComponent(upload.id)}/complete`, { method: 'POST' })
+        if (!response.ok) {
+            throw new Error(`Failed to complete upload: ${await readErrorMessage(response)}`)
+        }
+        forgetStoredUpload(file)
+
+        const data = await response.json()
+        return data.fileKey
+    }
+
+    const resume = () => {
+        isPaused = false
+        const waiters = resumeWaiters
+        resumeWaiters = []
+        waiters.forEach(resolve => resolve())
+    }
+
+    return {
+        done: run(),
+        pause: () => {
+            if (!uploadId) return false
+            isPaused = true
+            activeRequests.slice().forEach(xhr => xhr.abort())
+            return true
+        },
+        resume,
+        cancel: async () => {
+            isCancelled = true
+            activeRequests.slice().forEach(xhr => xhr.abort())
+            resume()
+            forgetStoredUpload(file)
+            if (uploadId) {
+                await apiFetch(`/api/multipart-uploads/${encodeURIComponent(uploadId)}`, { method: 'DELETE' })
+            }
+        }
+    }
+}
+
+/**
+ * Uploads a file and resolves with its storage key
+ * Kept for existing callers: the file now goes through startMultipartUpload, so it is
+ * sent in retried parts and continues an interrupted earlier upload. The server picks
+ * the key when the upload starts, so the presigned URL and form fields are not used.
+ *
+ * @param file - The file to upload
+ * @param presignedUrl - Unused
+ * @param fields - Unused
  * @param onProgress - Callback for upload progress updates
  * @returns Promise<string> - The file key after successful upload
+ * @deprecated Use startMultipartUpload, which can also pause, resume and cancel
  */
-export async function uploadFileToS3(
+export function uploadFileToS3(
     file: File,
-    presignedUrl: string,
-    fields: Record<string, string> = {},
+    presignedUrl?: string,
+    fields?: Record<string, string>,
     onProgress?: (progress: UploadProgress) => void
 ): Promise<string> {
+    return startMultipartUpload(file, onProgress).done
+}
+
+/**
+ * Whether an earlier upload of this file was interrupted and can be resumed
+ *
+ * @param file - The selected file
+ * @returns boolean - Whether startMultipartUpload will continue an earlier upload
+ */
+export function hasResumableUpload(file: File): boolean {
+    return Boolean(readStoredUploads()[uploadFingerprint(file)])
+}
+
+async function findOrStartMultipartUpload(
+    file: File
+): Promise<{ upload: MultipartUpload, uploadedParts: number[] }> {
+    const storedId = readStoredUploads()[uploadFingerprint(file)]
+    if (storedId) {
+        const response = await apiFetch(`/api/multipart-uploads/${encodeURIComponent(storedId)}`)
+        if (response.ok) return response.json()
+        // Completed, aborted or started by another user; start over
+        forgetStoredUpload(file)
+    }
+
+    const response = await apiFetch('/api/multipart-uploads', {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ fileName: file.name, fileSize: file.size })
+    })
+
+    if (!response.ok) {
+        throw new Error(`Failed to start upload: ${await readErrorMessage(response)}`)
+    }
+
+    const { upload } = await response.json()
+    writeStoredUploads({ ...readStoredUploads(), [uploadFingerprint(file)]: upload.id })
+    return { upload, uploadedParts: [] }
+}
+
+async function presignUploadParts(uploadId: string, partNumbers: number[]): Promise<{ partNumber: number, url: string }[]> {
+    const response = await apiFetch(`/api/multipart-uploads/${encodeURIComponent(uploadId)}/parts`, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ partNumbers })
+    })
+
+    if (!response.ok) {
+        throw new Error(`Failed to presign upload parts: ${await readErrorMessage(response)}`)
+    }
+
+    const data = await response.json()
+    return data.parts
+}
+
+function putPart(
+    url: string,
+    blob: Blob,
+    activeRequests: XMLHttpRequest[],
+    onLoaded: (loaded: number) => void
+): Promise<void> {
     return new Promise((resolve, reject) => {
         const xhr = new XMLHttpRequest()
+        const settle = (error?: Error) => {
+            activeRequests.splice(activeRequests.indexOf(xhr), 1)
+            if (error) {
+                reject(error)
+            } else {
+                resolve()
+            }
+        }
 
-        // Track upload progress
         xhr.upload.addEventListener('progress', (event) => {
-            if (event.lengthComputable && onProgress) {
-                const progress: UploadProgress = {
-                    loaded: event.loaded,
-                    total: event.total,
-                    percentage: Math.round((event.loaded / event.total) * 100)
-                }
-                onProgress(progress)
-            }
+            notifySessionActivity()
+            onLoaded(event.loaded)
         })
-
-        // Handle successful upload
         xhr.addEventListener('load', () => {
-            if (xhr.status >= 200 && xhr.status < 300) {
-                // Extract file key from the presigned URL or use a mock one
-                const fileKey = presignedUrl.split('/').pop()?.split('?')[0] || `input_kml_files/${Date.now()}-${file.name}`
-                resolve(fileKey)
-            } else {
-                reject(new Error(`Upload failed with status: ${xhr.status}`))
-            }
+            settle(xhr.status >= 200 && xhr.status < 300 ? undefined : new Error(`Upload failed with status: ${xhr.status}`))
         })
+        xhr.addEventListener('error', () => settle(new Error('Upload failed due to network error')))
+        xhr.addEventListener('timeout', () => settle(new Error('Upload timed out')))
+        xhr.addEventListener('abort', () => settle(new Error('Upload aborted')))
 
-        // Handle upload errors
-        xhr.addEventListener('error', () => {
-            reject(new Error('Upload failed due to network error'))
-        })
+        xhr.open('PUT', url)
+        xhr.timeout = Math.max(MIN_REQUEST_TIMEOUT_MS, (blob.size / MIN_UPLOAD_BYTES_PER_SECOND) * 1000)
+        activeRequests.push(xhr)
+        xhr.send(blob)
+    })
+}
 
-        // Handle upload timeout
-        xhr.addEventListener('timeout', () => {
-            reject(new Error('Upload timed out'))
-        })
+function uploadFingerprint(file: File): string {
+    return `${file.name}:${file.size}:${file.lastModified}`
+}
 
-        // Set up the request
-        xhr.open('PUT', presignedUrl)
+function readStoredUploads(): Record<string, string> {
+    try {
+        return JSON.parse(window.localStorage.getItem(MULTIPART_STORAGE_KEY) || '{}')
+    } catch {
+        return {}
+    }
+}
 
-        // Don't set any custom headers to avoid CORS preflight
-        // Let S3 handle everything automatically
+function writeStoredUploads(stored: Record<string, string>): void {
+    window.localStorage.setItem(MULTIPART_STORAGE_KEY, JSON.stringify(stored))
+}
 
-        // Set timeout (30 seconds)
-        xhr.timeout = 30000
+function forgetStoredUpload(file: File): void {
+    const stored = readStoredUploads()
+    delete stored[uploadFingerprint(file)]
+    writeStoredUploads(stored)
+}
 
-        // Start the upload
-        xhr.send(file)
-    })
+function delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms))
 }
 
 /**
- * Mock API call to process uploaded KML file
- * In a real application, this would trigger backend processing
+ * Queues server-side analysis of an uploaded KML file
  * 
  * @param fileKey - The S3 key of the uploaded file
+ * @param options - Optional display name and the request the file belongs to
  * @returns Promise<{ analysisId: string }> - The analysis ID for tracking
  */
-export async function processKmlFile(fileKey: string): Promise<{ analysisId: string }> {
-    // Simulate processing delay
-    await new Promise(resolve => setTimeout(resolve, 2000))
+export async function processKmlFile(
+    fileKey: string,
+    options: { fileName?: string, requestId?: string } = {}
+): Promise<{ analysisId: string }> {
+    const response = await apiFetch('/api/analyses', {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ fileKey, ...options })
+    })
 
-    // Generate mock analysis ID
-    const analysisId = `analysis-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+    if (!response.ok) {
+        throw new Error(`Failed to start analysis: ${await readErrorMessage(response)}`)
+    }
 
-    return { analysisId }
+    const data = await response.json()
+    return { analysisId: data.analysisId }
 }
 
 /**
- * Mock API call to get analysis status
- * In a real application, this would check the actual processing status
+ * Gets the status and progress of an analysis job
  * 
  * @param analysisId - The analysis ID to check
- * @returns Promise<{ status: string, progress: number }> - Analysis status and progress
+ * @returns Promise<AnalysisJob> - The job, including status, progress and any error
+ */
+export async function getAnalysisStatus(analysisId: string): Promise<AnalysisJob> {
+    const response = await apiFetch(`/api/analyses/${encodeURIComponent(analysisId)}`)
+
+    if (!response.ok) {
+        throw new Error(`Failed to get analysis status: ${await readErrorMessage(response)}`)
+    }
+
+    return response.json()
+}
+
+/**
+ * Gets the result document of a completed analysis
+ * 
+ * @param analysisId - The analysis ID
+ * @returns Promise<KmlAnalysis> - The analysis result document
+ */
+export async function getAnalysisResult(analysisId: string): Promise<KmlAnalysis> {
+    const response = await apiFetch(`/api/analyses/${encodeURIComponent(analysisId)}/result`)
+
+    if (!response.ok) {
+        throw new Error(`Failed to get analysis result: ${await readErrorMessage(response)}`)
+    }
+
+    return response.json()
+}
+
+/**
+ * Gets the parsed contents of an analysed file
+ * 
+ * @param analysisId - The analysis ID
+ * @returns Promise<KmlDocument> - Every Placemark with its geometry, style and ExtendedData
+ */
+export async function getAnalysisDocument(analysisId: string): Promise<KmlDocument> {
+    const response = await apiFetch(`/api/analyses/${encodeURIComponent(analysisId)}/document`)
+
+    if (!response.ok) {
+        throw new Error(`Failed to get KML document: ${await readErrorMessage(response)}`)
+    }
+
+    return response.json()
+}
+
+/**
+ * Saves edited geometry or ExtendedData as a new version of an analysed file
+ * The new file is analysed like an upload and replaces the original in its request
+ * 
+ * @param analysisId - The analysis of the file that was edited
+ * @param placemarks - Every Placemark of the new version
+ * @returns Promise<{ analysisId, fileName }> - The analysis of the new version and its file name
+ */
+export async function saveAnalysisVersion(
+    analysisId: string,
+    placemarks: EditedPlacemark[]
+): Promise<{ analysisId: string, fileName: string }> {
+    const response = await apiFetch(`/api/analyses/${encodeURIComponent(analysisId)}/versions`, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ placemarks })
+    })
+
+    if (!response.ok) {
+        throw new Error(`Failed to save the new version: ${await readErrorMessage(response)}`)
+    }
+
+    return response.json()
+}
+
+/**
+ * Lists analysis jobs, optionally restricted to one request
+ * 
+ * @param requestId - Only return analyses for this request
+ * @returns Promise<AnalysisJob[]> - Jobs, newest first
+ */
+export async function listAnalyses(requestId?: string): Promise<AnalysisJob[]> {
+    const query = requestId ? `?requestId=${encodeURIComponent(requestId)}` : ''
+    const response = await apiFetch(`/api/analyses${query}`)
+
+    if (!response.ok) {
+        throw new Error(`Failed to list analyses: ${await readErrorMessage(response)}`)
+    }
+
+    const data = await response.json()
+    return data.analyses
+}
+
+/**
+ * Finds files uploaded before that are identical to a selected file or have the same plots
+ * 
+ * @param fingerprint - The selected file's fingerprint, from its inspection
+ * @returns Promise<FileDuplicate[]> - Earlier uploads the user can see, identical files first
  */
-export async function getAnalysisStatus(analysisId: string): Promise<{ status: string, progress: number }> {
-    // Simulate network delay
-    await new Promise(resolve => setTimeout(resolve, 500))
+export async function findDuplicateFiles(fingerprint: KmlFingerprint): Promise<FileDuplicate[]> {
+    const query = new URLSearchParams({ contentHash: fingerprint.contentHash })
+    if (fingerprint.geometryFingerprint) query.set('geometryFingerprint', fingerprint.geometryFingerprint)
+    const response = await apiFetch(`/api/analyses/duplicates?${query}`)
 
-    // Mock status progression
-    const statuses = ['queued', 'processing', 'analyzing', 'completed']
-    const randomStatus = statuses[Math.floor(Math.random() * statuses.length)]
-    const progress = randomStatus === 'completed' ? 100 : Math.floor(Math.random() * 90) + 10
+    if (!response.ok) {
+        throw new Error(`Failed to check for duplicates: ${await readErrorMessage(response)}`)
+    }
+
+    const data = await response.json()
+    return data.duplicates
+}
+
+/**
+ * Gets overlaps between an analysed file's plots and plots stored for other files and requests
+ * 
+ * @param analysisId - The analysis ID
+ * @returns Promise<ExternalPlotOverlap[]> - Intersecting pairs, largest overlap first
+ */
+export async function getExternalOverlaps(analysisId: string): Promise<ExternalPlotOverlap[]> {
+    const response = await apiFetch(`/api/analyses/${encodeURIComponent(analysisId)}/overlaps`)
+
+    if (!response.ok) {
+        throw new Error(`Failed to get overlaps: ${await readErrorMessage(response)}`)
+    }
+
+    const data = await response.json()
+    return data.overlaps
+}
+
+/**
+ * Approves a completed analysis as the logged-in reviewer
+ *
+ * @param analysisId - The analysis ID
+ * @returns Promise<AnalysisJob> - The job with approvedBy and approvedAt set
+ */
+export async function approveAnalysis(analysisId: string): Promise<AnalysisJob> {
+    const response = await apiFetch(`/api/analyses/${encodeURIComponent(analysisId)}/approve`, { method: 'POST' })
+
+    if (!response.ok) {
+        throw new Error(`Failed to approve analysis: ${await readErrorMessage(response)}`)
+    }
+
+    return response.json()
+}
+
+export interface RepairedKml {
+    fileName: string
+    repairs: PlacemarkRepair[]
+    kml: string
+}
+
+/**
+ * Gets the geometry-repaired version of an analysed file
+ * 
+ * @param analysisId - The analysis ID of the source file
+ * @returns Promise<RepairedKml> - Corrected KML text, its file name and the change log per Placemark
+ */
+export async function getRepairedKml(analysisId: string): Promise<RepairedKml> {
+    const response = await apiFetch(`/api/analyses/${encodeURIComponent(analysisId)}/repair`)
+
+    if (!response.ok) {
+        throw new Error(`Failed to repair KML: ${await readErrorMessage(response)}`)
+    }
+
+    return response.json()
+}
+
+/**
+ * Lists all client requests
+ * 
+ * @returns Promise<ClientRequest[]> - Requests, newest first
+ */
+export async function listRequests(): Promise<ClientRequest[]> {
+    const response = await apiFetch('/api/requests')
+
+    if (!response.ok) {
+        throw new Error(`Failed to list requests: ${await readErrorMessage(response)}`)
+    }
+
+    const data = await response.json()
+    return data.requests
+}
+
+/**
+ * Gets a single client request
+ * 
+ * @param requestId - The request ID, e.g. "R00006"
+ * @returns Promise<ClientRequest> - The request
+ */
+export async function getRequest(requestId: string): Promise<ClientRequest> {
+    const response = await apiFetch(`/api/requests/${encodeURIComponent(requestId)}`)
+
+    if (!response.ok) {
+        throw new Error(`Failed to get request: ${await readErrorMessage(response)}`)
+    }
+
+    return response.json()
+}
 
-    return { status: randomStatus, progress }
+/**
+ * Creates a client request; the server assigns the next sequential ID
+ * 
+ * @param input - Request details
+ * @returns Promise<ClientRequest> - The created request
+ */
+export async function createRequest(input: ClientRequestInput): Promise<ClientRequest> {
+    const response = await apiFetch('/api/requests', {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(input)
+    })
+
+    if (!response.ok) {
+        throw new Error(`Failed to create request: ${await readErrorMessage(response)}`)
+    }
+
+    return response.json()
+}
+
+/**
+ * Updates the details of a client request
+ * 
+ * @param requestId - The request ID
+ * @param changes - Fields to change
+ * @returns Promise<ClientRequest> - The updated request
+ */
+export async function updateRequest(requestId: string, changes: Partial<ClientRequestInput>): Promise<ClientRequest> {
+    const response = await apiFetch(`/api/requests/${encodeURIComponent(requestId)}`, {
+        method: 'PATCH',
+        headers: {
+            'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(changes)
+    })
+
+    if (!response.ok) {
+        throw new Error(`Failed to update request: ${await readErrorMessage(response)}`)
+    }
+
+    return response.json()
+}
+
+/**
+ * Deletes a client request
+ * 
+ * @param requestId - The request ID
+ */
+export async function deleteRequest(requestId: string): Promise<void> {
+    const response = await apiFetch(`/api/requests/${encodeURIComponent(requestId)}`, { method: 'DELETE' })
+
+    if (!response.ok) {
+        throw new Error(`Failed to delete request: ${await readErrorMessage(response)}`)
+    }
+}
+
+/**
+ * Lists all projects with their request and plot totals
+ * 
+ * @returns Promise<ProjectSummary[]> - Projects, most recently updated first
+ */
+export async function listProjects(): Promise<ProjectSummary[]> {
+    const response = await apiFetch('/api/projects')
+
+    if (!response.ok) {
+        throw new Error(`Failed to list projects: ${await readErrorMessage(response)}`)
+    }
+
+    const data = await response.json()
+    return data.projects
+}
+
+/**
+ * Gets a project with its requests and totals
+ * 
+ * @param projectId - The project ID, e.g. "P001"
+ * @returns Promise<ProjectDetails> - The project
+ */
+export async function getProject(projectId: string): Promise<ProjectDetails> {
+    const response = await apiFetch(`/api/projects/${encodeURIComponent(projectId)}`)
+
+    if (!response.ok) {
+        throw new Error(`Failed to get project: ${await readErrorMessage(response)}`)
+    }
+
+    return response.json()
+}
+
+/**
+ * Creates a project; the server assigns the next sequential ID
+ * 
+ * @param input - Project details
+ * @returns Promise<Project> - The created project
+ */
+export async function createProject(input: ProjectInput): Promise<Project> {
+    const response = await apiFetch('/api/projects', {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(input)
+    })
+
+    if (!response.ok) {
+        throw new Error(`Failed to create project: ${await readErrorMessage(response)}`)
+    }
+
+    return response.json()
+}
+
+/**
+ * Updates a project; a status change is added to its history
+ * 
+ * @param projectId - The project ID
+ * @param changes - Fields to change
+ * @returns Promise<Project> - The updated project
+ */
+export async function updateProject(projectId: string, changes: Partial<ProjectInput>): Promise<Project> {
+    const response = await apiFetch(`/api/projects/${encodeURIComponent(projectId)}`, {
+        method: 'PATCH',
+        headers: {
+            'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(changes)
+    })
+
+    if (!response.ok) {
+        throw new Error(`Failed to update project: ${await readErrorMessage(response)}`)
+    }
+
+    return response.json()
+}
+
+/**
+ * Archives a project
+ * 
+ * @param projectId - The project ID
+ * @returns Promise<Project> - The archived project
+ */
+export function archiveProject(projectId: string): Promise<Project> {
+    return updateProject(projectId, { status: 'Archived' })
+}
+
+/**
+ * Logs in and starts a session cookie
+ * 
+ * @param email - Login email
+ * @param password - Password
+ * @param rememberMe - Keep the user logged in for 30 days instead of until the browser closes
+ * @returns Promise<CurrentSession | null> - The user and session, or null when the credentials were rejected
+ */
+export async function loginUser(email: string, password: string, rememberMe = false): Promise<CurrentSession | null> {
+    const response = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ email, password, rememberMe })
+    })
+
+    if (response.status === 401) return null
+    if (response.status === 429) {
+        // Locked out; the message says for how long
+        throw new Error(await readErrorMessage(response))
+    }
+    if (!response.ok) {
+        throw new Error(`Failed to log in: ${await readErrorMessage(response)}`)
+    }
+
+    return response.json()
+}
+
+/**
+ * Ends the current session
+ */
+export async function logoutUser(): Promise<void> {
+    const response = await fetch('/api/auth/logout', { method: 'POST' })
+
+    if (!response.ok) {
+        throw new Error(`Failed to log out: ${await readErrorMessage(response)}`)
+    }
+}
+
+/**
+ * Gets the user and timing of the current session; also counts as session activity
+ * 
+ * @returns Promise<CurrentSession | null> - The user and session, or null when not logged in
+ */
+export async function getCurrentSession(): Promise<CurrentSession | null> {
+    const response = await fetch('/api/auth/me', { cache: 'no-store' })
+
+    if (response.status === 401) return null
+    if (!response.ok) {
+        throw new Error(`Failed to get current user: ${await readErrorMessage(response)}`)
+    }
+
+    return response.json()
+}
+
+/**
+ * Lists user accounts
+ *
+ * @returns Promise<User[]> - Users, sorted by name
+ */
+export async function listUsers(): Promise<User[]> {
+    const response = await apiFetch('/api/users')
+
+    if (!response.ok) {
+        throw new Error(`Failed to list users: ${await readErrorMessage(response)}`)
+    }
+
+    const data = await response.json()
+    return data.users
+}
+
+/**
+ * Changes a user's name, role or active status
+ *
+ * @param userId - The user ID
+ * @param changes - Fields to change
+ * @returns Promise<User> - The updated user
+ */
+export async function updateUser(
+    userId: string,
+    changes: Partial<Pick<User, 'name' | 'role' | 'isActive'>>
+): Promise<User> {
+    const response = await apiFetch(`/api/users/${encodeURIComponent(userId)}`, {
+        method: 'PATCH',
+        headers: {
+            'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(changes)
+    })
+
+    if (!response.ok) {
+        throw new Error(`Failed to update user: ${await readErrorMessage(response)}`)
+    }
+
+    return response.json()
+}
+
+/**
+ * Emails a password-reset link to a user
+ *
+ * @param userId - The user ID
+ */
+export async function sendPasswordReset(userId: string): Promise<void> {
+    const response = await apiFetch(`/api/users/${encodeURIComponent(userId)}/password-reset`, { method: 'POST' })
+
+    if (!response.ok) {
+        throw new Error(`Failed to send password reset: ${await readErrorMessage(response)}`)
+    }
+}
+
+/**
+ * Lists pending invitations
+ *
+ * @returns Promise<Invitation[]> - Invitations, newest first
+ */
+export async function listInvitations(): Promise<Invitation[]> {
+    const response = await apiFetch('/api/invitations')
+
+    if (!response.ok) {
+        throw new Error(`Failed to list invitations: ${await readErrorMessage(response)}`)
+    }
+
+    const data = await response.json()
+    return data.invitations
+}
+
+/**
+ * Invites a colleague by email
+ *
+ * @param input - Email, display name and role
+ * @returns Promise<Invitation> - The invitation
+ */
+export async function inviteUser(input: InvitationInput): Promise<Invitation> {
+    const response = await apiFetch('/api/invitations', {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(input)
+    })
+
+    if (!response.ok) {
+        throw new Error(`Failed to invite user: ${await readErrorMessage(response)}`)
+    }
+
+    return response.json()
+}
+
+/**
+ * Withdraws a pending invitation
+ *
+ * @param invitationId - The invitation ID
+ */
+export async function revokeInvitation(invitationId: string): Promise<void> {
+    const response = await apiFetch(`/api/invitations/${encodeURIComponent(invitationId)}`, { method: 'DELETE' })
+
+    if (!response.ok) {
+        throw new Error(`Failed to revoke invitation: ${await readErrorMessage(response)}`)
+    }
+}
+
+/**
+ * Gets who an invitation link is for
+ *
+ * @param token - The token from the invitation link
+ * @returns Promise<InvitationInput> - The invited email, name and role
+ */
+export async function getInvitation(token: string): Promise<InvitationInput> {
+    const response = await fetch(`/api/auth/invitations/${encodeURIComponent(token)}`)
+
+    if (!response.ok) {
+        throw new Error(await readErrorMessage(response))
+    }
+
+    return response.json()
+}
+
+/**
+ * Accepts an invitation, creating the account and starting a session
+ *
+ * @param token - The token from the invitation link
+ * @param input - The display name and password the invitee chose
+ * @returns Promise<User> - The new user
+ */
+export async function acceptInvitation(token: string, input: { name: string, password: string }): Promise<User> {
+    const response = await fetch(`/api/auth/invitations/${encodeURIComponent(token)}`, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(input)
+    })
+
+    if (!response.ok) {
+        throw new Error(await readErrorMessage(response))
+    }
+
+    const data = await response.json()
+    return data.user
+}
+
+/**
+ * Sets a new password with a password-reset link
+ *
+ * @param token - The token from the reset link
+ * @param password - The new password
+ */
+export async function resetPassword(token: string, password: string): Promise<void> {
+    const response = await fetch('/api/auth/password-reset', {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ token, password })
+    })
+
+    if (!response.ok) {
+        throw new Error(await readErrorMessage(response))
+    }
+}
+
+/**
+ * Lists the messages caught by the local mail outbox
+ *
+ * @returns Promise<MailMessage[]> - Messages, newest first
+ */
+export async function listMail(): Promise<MailMessage[]> {
+    const response = await apiFetch('/api/mail', { cache: 'no-store' })
+
+    if (!response.ok) {
+        throw new Error(`Failed to list mail: ${await readErrorMessage(response)}`)
+    }
+
+    const data = await response.json()
+    return data.messages
+}
+
+/**
+ * Tells the app that the session has ended, so it can log out and return to the login page
+ */
+export function notifySessionExpired(): void {
+    window.dispatchEvent(new Event(SESSION_EXPIRED_EVENT))
+}
+
+/**
+ * Tells the app that the user is still busy even without input, e.g. during an upload
+ */
+export function notifySessionActivity(): void {
+    window.dispatchEvent(new Event(SESSION_ACTIVITY_EVENT))
+}
+
+/**
+ * fetch for API routes that require a session; a 401 means the session ended meanwhile
+ */
+async function apiFetch(input: string, init?: RequestInit): Promise<Response> {
+    const response = await fetch(input, init)
+    if (response.status === 401) notifySessionExpired()
+    return response
+}
+
+/**
+ * Extracts the `error` field of a JSON error response, falling back to the status line
+ */
+async function readErrorMessage(response: Response): Promise<string> {
+    try {
+        const data = await response.json()
+        if (data?.error) return data.error
+    } catch {
+        // Not a JSON body
+    }
+    return `${response.status} ${response.statusText}`
 }
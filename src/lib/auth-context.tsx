@@ -1,59 +1,97 @@
 'use client'
 
-import { createContext, useContext, useState, useEffect, ReactNode } from 'react'
+import { createContext, useCallback, useContext, useState, useEffect, ReactNode } from 'react'
 import { useRouter } from 'next/navigation'
-
-interface User {
-  email: string
-  name?: string
-}
+import {
+  getCurrentSession,
+  loginUser,
+  logoutUser,
+  SESSION_EXPIRED_EVENT,
+  type SessionInfo,
+  type User
+} from '@/lib/api-service'
+import { hasPermission, type Permission } from '@/lib/roles'
 
 interface AuthContextType {
   user: User | null
-  login: (email: string, password: string) => boolean
-  logout: () => void
+  /** When the session ends, so the app can warn before logging the user out */
+  session: SessionInfo | null
+  login: (email: string, password: string, rememberMe?: boolean) => Promise<boolean>
+  logout: () => Promise<void>
+  /** Reloads the user after the server started or changed the session */
+  refresh: () => Promise<void>
+  /** Whether the logged-in user's role grants a permission */
+  can: (permission: Permission) => boolean
   isLoading: boolean
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined)
 
-// In-memory credentials store
-const credentials: Record<string, string> = {
-  'hrushikesh.mande@climateconnect.digital': 'test1234'
-}
-
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null)
+  const [session, setSession] = useState<SessionInfo | null>(null)
   const [isLoading, setIsLoading] = useState(true)
   const router = useRouter()
 
-  useEffect(() => {
-    // Check if user is logged in (from localStorage)
-    const savedUser = localStorage.getItem('user')
-    if (savedUser) {
-      setUser(JSON.parse(savedUser))
+  // The session lives in an HTTP-only cookie, so ask the server who is logged in
+  const refresh = useCallback(async () => {
+    try {
+      const current = await getCurrentSession()
+      setUser(current ? current.user : null)
+      setSession(current ? current.session : null)
+    } catch (error) {
+      console.error('Failed to load session:', error)
+      setUser(null)
+      setSession(null)
+    } finally {
+      setIsLoading(false)
     }
-    setIsLoading(false)
   }, [])
 
-  const login = (email: string, password: string): boolean => {
-    if (credentials[email] === password) {
-      const userData = { email, name: email.split('@')[0] }
-      setUser(userData)
-      localStorage.setItem('user', JSON.stringify(userData))
-      return true
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  // An API call was refused mid-session (expired, idle, revoked or deactivated).
+  // Reload onto the login page so no stale state survives, and come back afterwards.
+  useEffect(() => {
+    if (!user) return
+
+    const handleExpired = async () => {
+      try {
+        await logoutUser()
+      } catch {
+        // The cookie is cleared on the next login either way
+      }
+      const returnTo = `${window.location.pathname}${window.location.search}`
+      window.location.assign(`/?expired=1&returnTo=${encodeURIComponent(returnTo)}`)
     }
-    return false
+
+    window.addEventListener(SESSION_EXPIRED_EVENT, handleExpired)
+    return () => window.removeEventListener(SESSION_EXPIRED_EVENT, handleExpired)
+  }, [user])
+
+  const login = async (email: string, password: string, rememberMe = false): Promise<boolean> => {
+    const loggedIn = await loginUser(email, password, rememberMe)
+    setUser(loggedIn ? loggedIn.user : null)
+    setSession(loggedIn ? loggedIn.session : null)
+    return loggedIn !== null
   }
 
-  const logout = () => {
-    setUser(null)
-    localStorage.removeItem('user')
-    router.push('/')
+  const logout = async () => {
+    try {
+      await logoutUser()
+    } finally {
+      setUser(null)
+      setSession(null)
+      router.push('/')
+    }
   }
 
+  const can = (permission: Permission) => user !== null && hasPermission(user.role, permission)
+
   return (
-    <AuthContext.Provider value={{ user, login, logout, isLoading }}>
+    <AuthContext.Provider value={{ user, session, login, logout, refresh, can, isLoading }}>
       {children}
     </AuthContext.Provider>
   )
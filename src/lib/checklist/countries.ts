@@ -0,0 +1,15 @@
+import type { BoundingBox } from '@/lib/kml/types'
+
+/**
+ * Country extents for the within-country rule
+ * These are bounding boxes, so the check catches swapped or mistyped coordinates and
+ * files from the wrong region, not plots just across a border.
+ */
+export const COUNTRIES: Record<string, { name: string, extent: BoundingBox }> = {
+    BR: { name: 'Brazil', extent: { west: -74.0, east: -34.7, south: -33.8, north: 5.3 } },
+    ID: { name: 'Indonesia', extent: { west: 95.0, east: 141.1, south: -11.0, north: 6.1 } },
+    IN: { name: 'India', extent: { west: 68.1, east: 97.4, south: 6.7, north: 35.7 } },
+    KE: { name: 'Kenya', extent: { west: 33.9, east: 41.9, south: -4.7, north: 5.0 } },
+    TZ: { name: 'Tanzania', extent: { west: 29.3, east: 40.5, south: -11.8, north: -0.9 } },
+    UG: { name: 'Uganda', extent: { west: 29.5, east: 35.0, south: -1.5, north: 4.3 } }
+}
@@ -0,0 +1,195 @@
+import type { KmlAnalysis, PlotReport } from '@/lib/kml/analysis'
+import { formatDeclaredArea } from '@/lib/kml/declared-area'
+import type { PlotOverlap } from '@/lib/kml/overlap'
+import { GEOMETRY_ISSUE_TYPES } from '@/lib/kml/validate'
+import { formatArea } from '@/lib/kml/units'
+import { COUNTRIES } from './countries'
+import type {
+    ChecklistItem,
+    ChecklistRule,
+    ChecklistViolation
+} from './types'
+
+/**
+ * Checklist engine
+ * Evaluates rules against the analysis result of one file. Every rule is checked per
+ * plot; a rule passes when none of the plots it applies to violate it.
+ */
+
+export interface ChecklistInput {
+    analysis: KmlAnalysis
+    /** Overlaps with plots of other files, for no-overlaps rules with scope 'all' */
+    externalOverlaps?: PlotOverlap[]
+}
+
+interface RuleOutcome {
+    checkedCount: number
+    violations: ChecklistViolation[]
+}
+
+/**
+ * Evaluates a list of rules
+ *
+ * @param rules - Rules to evaluate, usually from resolveRules
+ * @param input - The analysis result and cross-file overlaps of one file
+ * @returns ChecklistItem[] - One item per rule, in rule order
+ */
+export function evaluateChecklist(rules: ChecklistRule[], input: ChecklistInput): ChecklistItem[] {
+    return rules.map((rule) => {
+        const { checkedCount, violations } = evaluateRule(rule, input)
+        const failedPlots = violations
+            .map(violation => violation.plotId)
+            .filter((plotId, index, all) => all.indexOf(plotId) === index)
+
+        return {
+            ruleId: rule.id,
+            type: rule.type,
+            label: rule.label || describeRule(rule),
+            status: violations.length === 0 ? 'pass' : rule.severity,
+            checkedCount,
+            passedCount: checkedCount - failedPlots.length,
+            violations
+        }
+    })
+}
+
+/**
+ * Generates the display text of a rule
+ *
+ * @param rule - The rule
+ * @returns string - Human-readable requirement
+ */
+export function describeRule(rule: ChecklistRule): string {
+    switch (rule.type) {
+        case 'min-plot-area':
+            return `Plots are at least ${rule.hectares} ha`
+        case 'max-plot-area':
+            return `Plots are at most ${rule.hectares} ha`
+        case 'max-vertices':
+            return `Plots have at most ${rule.count} vertices`
+        case 'required-extended-data':
+            return `Plots have ${rule.fields.join(', ')} in ExtendedData`
+        case 'no-overlaps':
+            return rule.scope === 'all'
+                ? 'No overlaps with other plots or previous submissions'
+                : 'No overlaps between plots in the file'
+        case 'within-country':
+            return `Plots are within ${COUNTRIES[rule.country]?.name || rule.country}`
+        case 'valid-geometry':
+            return 'Plot geometry is valid'
+        case 'polygons-only':
+            return 'Every Placemark is a polygon'
+        case 'declared-area':
+            return 'Declared areas match measured areas'
+    }
+}
+
+function evaluateRule(rule: ChecklistRule, { analysis, externalOverlaps = [] }: ChecklistInput): RuleOutcome {
+    const polygons = analysis.plots.filter(plot => plot.areaSquareMeters > 0)
+
+    switch (rule.type) {
+        case 'min-plot-area':
+            return checkPlots(polygons, plot => plot.areaSquareMeters < rule.hectares * 10000
+                ? `${formatArea(plot.areaSquareMeters, 'hectares')} is below ${rule.hectares} ha`
+                : null)
+
+        case 'max-plot-area':
+            return checkPlots(polygons, plot => plot.areaSquareMeters > rule.hectares * 10000
+                ? `${formatArea(plot.areaSquareMeters, 'hectares')} exceeds ${rule.hectares} ha`
+                : null)
+
+        case 'max-vertices':
+            return checkPlots(analysis.plots, plot => plot.vertexCount > rule.count
+                ? `${plot.vertexCount} vertices`
+                : null)
+
+        case 'required-extended-data':
+            return checkPlots(analysis.plots, (plot) => {
+                const present = Object.keys(plot.extendedData)
+                    .filter(key => plot.extendedData[key].trim() !== '')
+                    .map(normalizeKey)
+                const missing = rule.fields.filter(field => present.indexOf(normalizeKey(field)) === -1)
+                return missing.length > 0 ? `Missing ${missing.join(', ')}` : null
+            })
+
+        case 'no-overlaps': {
+            const overlaps = analysis.overlaps
+                .concat(analysis.overlaps.map(mirrorOverlap))
+                .concat(rule.scope === 'all' ? externalOverlaps : [])
+            return checkPlots(polygons, (plot) => {
+                const plotOverlaps = overlaps.filter(overlap => overlap.plotId === plot.id)
+                if (plotOverlaps.length === 0) return null
+                const largest = Math.max(...plotOverlaps.map(overlap => overlap.percentOfPlot))
+                return `Overlaps ${plotOverlaps.length} plot${plotOverlaps.length === 1 ? '' : 's'} (up to ${largest.toFixed(1)}%)`
+            })
+        }
+
+        case 'within-country': {
+            const country = COUNTRIES[rule.country]
+            if (!country) {
+                return {
+                    checkedCount: 0,
+                    violations: [{ plotId: '', message: `No boundary configured for country ${rule.country}` }]
+                }
+            }
+            const { extent } = country
+            return checkPlots(analysis.plots.filter(plot => plot.boundingBox), (plot) => {
+                const box = plot.boundingBox!
+                const isInside = box.west >= extent.west && box.east <= extent.east &&
+                    box.south >= extent.south && box.north <= extent.north
+                return isInside ? null : `Outside ${country.name}`
+            })
+        }
+
+        case 'valid-geometry':
+            return checkPlots(analysis.plots.filter(plot => plot.geometryType), (plot) => {
+                const errors = plot.issues.filter(issue => issue.severity === 'error')
+                if (errors.length === 0) return null
+                return errors
+                    .map(issue => GEOMETRY_ISSUE_TYPES[issue.type].label)
+                    .filter((label, index, all) => all.indexOf(label) === index)
+                    .join(', ')
+            })
+
+        case 'polygons-only':
+            return checkPlots(analysis.plots, plot => plot.areaSquareMeters > 0
+                ? null
+                : plot.geometryType ? `${plot.geometryType} without polygon area` : 'No geometry')
+
+        case 'declared-area':
+            return checkPlots(polygons, (plot) => {
+                if (!plot.areaCheck) return rule.isRequired ? 'No declared area' : null
+                if (plot.areaCheck.isWithinTolerance) return null
+                const { declared, differencePercent } = plot.areaCheck
+                return `Declared ${formatDeclaredArea(declared)}, measured ${differencePercent > 0 ? '+' : ''}${differencePercent.toFixed(1)}%`
+            })
+    }
+}
+
+function checkPlots(plots: PlotReport[], check: (plot: PlotReport) => string | null): RuleOutcome {
+    const violations: ChecklistViolation[] = []
+    plots.forEach((plot) => {
+        const message = check(plot)
+        if (message) violations.push({ plotId: plot.id, plotName: plot.name, message })
+    })
+    return { checkedCount: plots.length, violations }
+}
+
+/**
+ * Within-file overlaps are stored once per pair; this gives the second plot's view
+ */
+function mirrorOverlap(overlap: PlotOverlap): PlotOverlap {
+    return {
+        plotId: overlap.otherPlotId,
+        plotName: overlap.otherPlotName,
+        otherPlotId: overlap.plotId,
+        otherPlotName: overlap.plotName,
+        areaSquareMeters: overlap.areaSquareMeters,
+        percentOfPlot: overlap.percentOfOther,
+        percentOfOther: overlap.percentOfPlot
+    }
+}
+
+function normalizeKey(key: string): string {
+    return key.toLowerCase().replace(/[^a-z0-9]/g, '')
+}
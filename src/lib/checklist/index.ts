@@ -0,0 +1,4 @@
+export * from './types'
+export { COUNTRIES } from './countries'
+export { REGISTRIES, PROJECT_TYPES, RULE_SETS, resolveRules } from './rule-sets'
+export { evaluateChecklist, describeRule, type ChecklistInput } from './engine'
@@ -0,0 +1,112 @@
+import type { ChecklistRule, RuleSet } from './types'
+
+/**
+ * Registry rule sets
+ * Thresholds are this deployment's defaults and are meant to be tuned here as
+ * registry requirements change.
+ */
+
+export const REGISTRIES = {
+    'verra': { label: 'Verra (VCS)' },
+    'gold-standard': { label: 'Gold Standard' },
+    'plan-vivo': { label: 'Plan Vivo' }
+}
+
+export const PROJECT_TYPES = {
+    'arr': { label: 'ARR' },
+    'agroforestry': { label: 'Agroforestry' },
+    'alm': { label: 'Agricultural Land Management' }
+}
+
+// Country plots are expected in unless a rule set names another
+const PROJECT_COUNTRY = process.env.NEXT_PUBLIC_PROJECT_COUNTRY || 'IN'
+
+export const RULE_SETS: RuleSet[] = [
+    {
+        registry: 'verra',
+        projectType: null,
+        rules: [
+            { id: 'valid-geometry', type: 'valid-geometry', severity: 'fail' },
+            { id: 'polygons-only', type: 'polygons-only', severity: 'fail' },
+            { id: 'no-overlaps', type: 'no-overlaps', scope: 'all', severity: 'fail' },
+            { id: 'within-country', type: 'within-country', country: PROJECT_COUNTRY, severity: 'fail' },
+            { id: 'max-vertices', type: 'max-vertices', count: 1000, severity: 'warn' }
+        ]
+    },
+    {
+        registry: 'verra',
+        projectType: 'arr',
+        rules: [
+            { id: 'min-plot-area', type: 'min-plot-area', hectares: 0.05, severity: 'fail' },
+            { id: 'declared-area', type: 'declared-area', isRequired: true, severity: 'warn' }
+        ]
+    },
+    {
+        registry: 'verra',
+        projectType: 'alm',
+        rules: [
+            { id: 'min-plot-area', type: 'min-plot-area', hectares: 0.1, severity: 'warn' },
+            { id: 'required-extended-data', type: 'required-extended-data', fields: ['farmer_name', 'village'], severity: 'fail' }
+        ]
+    },
+    {
+        registry: 'gold-standard',
+        projectType: null,
+        rules: [
+            { id: 'valid-geometry', type: 'valid-geometry', severity: 'fail' },
+            { id: 'polygons-only', type: 'polygons-only', severity: 'fail' },
+            { id: 'no-overlaps', type: 'no-overlaps', scope: 'all', severity: 'fail' },
+            { id: 'within-country', type: 'within-country', country: PROJECT_COUNTRY, severity: 'fail' },
+            { id: 'declared-area', type: 'declared-area', isRequired: false, severity: 'warn' }
+        ]
+    },
+    {
+        registry: 'gold-standard',
+        projectType: 'arr',
+        rules: [
+            { id: 'min-plot-area', type: 'min-plot-area', hectares: 0.5, severity: 'fail' }
+        ]
+    },
+    {
+        registry: 'gold-standard',
+        projectType: 'agroforestry',
+        rules: [
+            { id: 'max-plot-area', type: 'max-plot-area', hectares: 50, severity: 'warn' }
+        ]
+    },
+    {
+        registry: 'plan-vivo',
+        projectType: null,
+        rules: [
+            { id: 'valid-geometry', type: 'valid-geometry', severity: 'fail' },
+            { id: 'no-overlaps', type: 'no-overlaps', scope: 'file', severity: 'fail' },
+            { id: 'within-country', type: 'within-country', country: PROJECT_COUNTRY, severity: 'fail' },
+            { id: 'required-extended-data', type: 'required-extended-data', fields: ['participant_id'], severity: 'fail' },
+            { id: 'max-plot-area', type: 'max-plot-area', hectares: 20, severity: 'warn' }
+        ]
+    }
+]
+
+/**
+ * Collects the rules that apply to a registry and project type
+ * The registry-wide set comes first; project-type rules replace rules with the same ID.
+ *
+ * @param registry - Registry key
+ * @param projectType - Project type key
+ * @param ruleSets - Rule sets to choose from
+ * @returns ChecklistRule[] - The applicable rules, empty when no set matches
+ */
+export function resolveRules(
+    registry: string,
+    projectType: string,
+    ruleSets: RuleSet[] = RULE_SETS
+): ChecklistRule[] {
+    const matching = ruleSets
+        .filter(set => set.registry === registry && (set.projectType === null || set.projectType === projectType))
+        .sort((a, b) => (a.projectType === null ? 0 : 1) - (b.projectType === null ? 0 : 1))
+
+    return matching.reduce<ChecklistRule[]>((rules, set) => {
+        const overridden = set.rules.map(rule => rule.id)
+        return rules.filter(rule => overridden.indexOf(rule.id) === -1).concat(set.rules)
+    }, [])
+}
@@ -0,0 +1,107 @@
+/**
+ * Registry checklist rule-set format
+ * A rule set is plain data: which registry and project type it applies to and the
+ * rules to evaluate. Rule sets for the same registry are merged, so a registry-wide
+ * set can hold the common rules and project-type sets only add or override them.
+ */
+
+/** How a violated rule is reported */
+export type RuleSeverity = 'fail' | 'warn'
+
+interface RuleBase {
+    /** Stable ID; a later rule set replaces an earlier rule with the same ID */
+    id: string
+    severity: RuleSeverity
+    /** Overrides the generated description */
+    label?: string
+}
+
+export interface MinPlotAreaRule extends RuleBase {
+    type: 'min-plot-area'
+    hectares: number
+}
+
+export interface MaxPlotAreaRule extends RuleBase {
+    type: 'max-plot-area'
+    hectares: number
+}
+
+export interface MaxVerticesRule extends RuleBase {
+    type: 'max-vertices'
+    count: number
+}
+
+export interface RequiredExtendedDataRule extends RuleBase {
+    type: 'required-extended-data'
+    /** Field names, matched case- and punctuation-insensitively */
+    fields: string[]
+}
+
+export interface NoOverlapsRule extends RuleBase {
+    type: 'no-overlaps'
+    /** 'file' only checks plots against each other; 'all' includes other files and requests */
+    scope: 'file' | 'all'
+}
+
+export interface WithinCountryRule extends RuleBase {
+    type: 'within-country'
+    /** ISO 3166-1 alpha-2 code of a country in ./countries */
+    country: string
+}
+
+export interface ValidGeometryRule extends RuleBase {
+    type: 'valid-geometry'
+}
+
+export interface PolygonsOnlyRule extends RuleBase {
+    type: 'polygons-only'
+}
+
+export interface DeclaredAreaRule extends RuleBase {
+    type: 'declared-area'
+    /** Also report plots without any declared area */
+    isRequired: boolean
+}
+
+export type ChecklistRule =
+    | MinPlotAreaRule
+    | MaxPlotAreaRule
+    | MaxVerticesRule
+    | RequiredExtendedDataRule
+    | NoOverlapsRule
+    | WithinCountryRule
+    | ValidGeometryRule
+    | PolygonsOnlyRule
+    | DeclaredAreaRule
+
+export type ChecklistRuleType = ChecklistRule['type']
+
+export interface RuleSet {
+    registry: string
+    /** null applies the set to every project type of the registry */
+    projectType: string | null
+    rules: ChecklistRule[]
+}
+
+export type ChecklistStatus = 'pass' | RuleSeverity
+
+export interface ChecklistViolation {
+    plotId: string
+    plotName?: string
+    message: string
+}
+
+/**
+ * Outcome of one rule for one file
+ */
+export interface ChecklistItem {
+    ruleId: string
+    type: ChecklistRuleType
+    label: string
+    status: ChecklistStatus
+    /** Plots the rule applied to */
+    checkedCount: number
+    /** Plots that satisfied the rule */
+    passedCount: number
+    violations: ChecklistViolation[]
+}
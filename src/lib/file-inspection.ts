@@ -0,0 +1,62 @@
+import { inspectKml, type KmlInspection } from '@/lib/kml/inspect'
+
+/**
+ * Checking selected KML/KMZ files in the browser before they are uploaded
+ */
+
+interface PendingInspection {
+    resolve: (inspection: KmlInspection) => void
+    reject: (error: Error) => void
+}
+
+let worker: Worker | null = null
+let nextInspectionId = 0
+const pending: Record<number, PendingInspection> = {}
+
+/**
+ * Inspects a selected file in a Web Worker
+ * Falls back to the main thread where workers are unavailable.
+ *
+ * @param file - A selected KML or KMZ file
+ * @returns Promise<KmlInspection> - Blocking errors, warnings and a summary of the file
+ */
+export async function inspectKmlFile(file: File): Promise<KmlInspection> {
+    const inspector = getWorker()
+    if (!inspector) {
+        return inspectKml(new Uint8Array(await file.arrayBuffer()), file.name)
+    }
+
+    const id = ++nextInspectionId
+    return new Promise<KmlInspection>((resolve, reject) => {
+        pending[id] = { resolve, reject }
+        inspector.postMessage({ id, file })
+    })
+}
+
+// One worker shared by every inspection, created on first use
+function getWorker(): Worker | null {
+    if (worker) return worker
+    if (typeof Worker === 'undefined') return null
+
+    worker = new Worker(new URL('./file-inspection.worker.ts', import.meta.url))
+    worker.addEventListener('message', (event: MessageEvent<{ id: number, inspection?: KmlInspection, error?: string }>) => {
+        const { id, inspection, error } = event.data
+        const request = pending[id]
+        if (!request) return
+
+        delete pending[id]
+        if (inspection) request.resolve(inspection)
+        else request.reject(new Error(error || 'The file could not be inspected'))
+    })
+    worker.addEventListener('error', (event) => {
+        // A worker that fails to load or crashes answers nothing; fail what is waiting
+        console.error('File inspection worker failed:', event.message)
+        Object.keys(pending).forEach((id) => {
+            pending[Number(id)].reject(new Error('The file could not be inspected'))
+            delete pending[Number(id)]
+        })
+        worker?.terminate()
+        worker = null
+    })
+    return worker
+}
@@ -0,0 +1,14 @@
+import { inspectKml } from '@/lib/kml/inspect'
+
+/**
+ * Inspects selected files off the main thread, so parsing a large KML does not freeze the page
+ * Receives `{ id, file }` and answers `{ id, inspection }`.
+ */
+self.addEventListener('message', (event: MessageEvent<{ id: number, file: File }>) => {
+    const { id, file } = event.data
+
+    file.arrayBuffer()
+        .then(buffer => inspectKml(new Uint8Array(buffer), file.name))
+        .then(inspection => self.postMessage({ id, inspection }))
+        .catch(error => self.postMessage({ id, error: error instanceof Error ? error.message : 'The file could not be read' }))
+})
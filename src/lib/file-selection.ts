@@ -0,0 +1,90 @@
+/**
+ * Reading files out of drag-and-drop events and file inputs, including whole folders
+ */
+
+export interface SelectedFile {
+    file: File
+    /** Path inside a dropped or chosen folder, e.g. "village-a/plot-12.kml"; the file name otherwise */
+    path: string
+}
+
+/**
+ * Collects the files of a drop event, walking into dropped folders
+ * Must be called from the drop handler itself: the browser empties the DataTransfer
+ * once the handler returns, so the entries are taken before the first await.
+ *
+ * @param dataTransfer - The drop event's DataTransfer
+ * @returns Promise<SelectedFile[]> - Every file dropped, hidden files excluded
+ */
+export async function filesFromDataTransfer(dataTransfer: DataTransfer): Promise<SelectedFile[]> {
+    const entries = Array.from(dataTransfer.items)
+        .map(item => (typeof item.webkitGetAsEntry === 'function' ? item.webkitGetAsEntry() : null))
+        .filter((entry): entry is FileSystemEntry => entry !== null)
+
+    // Browsers without the entries API only see top-level files
+    if (entries.length === 0) {
+        return Array.from(dataTransfer.files).map(file => ({ file, path: file.name }))
+    }
+
+    const nested = await Promise.all(entries.map(readEntry))
+    return flatten(nested).filter(selected => !isHidden(selected.path))
+}
+
+/**
+ * Converts the files of a file input, keeping folder paths when a folder was chosen
+ *
+ * @param fileList - The input's files
+ * @returns SelectedFile[] - The chosen files, hidden files excluded
+ */
+export function filesFromInput(fileList: FileList | null): SelectedFile[] {
+    return Array.from(fileList || [])
+        .map(file => ({ file, path: file.webkitRelativePath || file.name }))
+        .filter(selected => !isHidden(selected.path))
+}
+
+/**
+ * Checks a file name against a list of extensions
+ *
+ * @param fileName - The file name or path
+ * @param acceptedTypes - Extensions including the dot, e.g. ['.kml', '.kmz']
+ * @returns boolean - Whether the extension is accepted
+ */
+export function hasAcceptedExtension(fileName: string, acceptedTypes: string[]): boolean {
+    const extension = '.' + (fileName.split('.').pop() || '').toLowerCase()
+    return acceptedTypes.indexOf(extension) !== -1
+}
+
+async function readEntry(entry: FileSystemEntry): Promise<SelectedFile[]> {
+    if (entry.isFile) {
+        const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject))
+        return [{ file, path: entry.fullPath.replace(/^\//, '') }]
+    }
+
+    if (entry.isDirectory) {
+        const children = await readDirectory(entry as FileSystemDirectoryEntry)
+        return flatten(await Promise.all(children.map(readEntry)))
+    }
+
+    return []
+}
+
+async function readDirectory(directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+    const reader = directory.createReader()
+    const entries: FileSystemEntry[] = []
+
+    // readEntries returns the directory in batches (100 in Chrome) until it returns none
+    for (;;) {
+        const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject))
+        if (batch.length === 0) return entries
+        entries.push(...batch)
+    }
+}
+
+function flatten<T>(lists: T[][]): T[] {
+    return ([] as T[]).concat(...lists)
+}
+
+// .DS_Store, ._resource forks and files inside hidden folders
+function isHidden(path: string): boolean {
+    return path.split('/').some(segment => segment.charAt(0) === '.')
+}
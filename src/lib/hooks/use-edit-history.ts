@@ -0,0 +1,55 @@
+'use client'
+
+import { useCallback, useState } from 'react'
+
+interface History<T> {
+  past: T[]
+  present: T
+  future: T[]
+}
+
+// Oldest states are dropped beyond this many undo steps
+const MAX_UNDO_STEPS = 100
+
+/**
+ * Undo/redo over immutable states
+ * `push` records a new state and clears the redo stack.
+ *
+ * @param initial - The starting state; undo never goes back further
+ */
+export function useEditHistory<T>(initial: T) {
+  const [history, setHistory] = useState<History<T>>({ past: [], present: initial, future: [] })
+
+  const push = useCallback((state: T) => {
+    setHistory(({ past, present }) => ({
+      past: past.concat([present]).slice(-MAX_UNDO_STEPS),
+      present: state,
+      future: []
+    }))
+  }, [])
+
+  const undo = useCallback(() => {
+    setHistory(current => current.past.length === 0 ? current : {
+      past: current.past.slice(0, -1),
+      present: current.past[current.past.length - 1],
+      future: [current.present].concat(current.future)
+    })
+  }, [])
+
+  const redo = useCallback(() => {
+    setHistory(current => current.future.length === 0 ? current : {
+      past: current.past.concat([current.present]),
+      present: current.future[0],
+      future: current.future.slice(1)
+    })
+  }, [])
+
+  return {
+    state: history.present,
+    push,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0
+  }
+}
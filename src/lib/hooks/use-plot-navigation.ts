@@ -0,0 +1,71 @@
+'use client'
+
+import { useCallback, useMemo } from 'react'
+import { parseAsString, parseAsStringLiteral, useQueryStates } from 'nuqs'
+import type { RequestAnalysis } from './use-request-analyses'
+
+export const NAVIGATION_STEPS = {
+  plot: { label: 'Plots' },
+  file: { label: 'Files' }
+} as const
+
+export type NavigationStep = keyof typeof NAVIGATION_STEPS
+
+export interface NavigationItem {
+  analysisId: string
+  /** null when stepping through files */
+  placemarkId: string | null
+}
+
+const navigationParsers = {
+  step: parseAsStringLiteral(Object.keys(NAVIGATION_STEPS) as NavigationStep[]).withDefault('plot'),
+  file: parseAsString,
+  plot: parseAsString
+}
+
+/**
+ * Steps through the plots, or the files, of a request's completed analyses
+ * The position is kept in the URL (`?step=plot&file=<analysis ID>&plot=<placemark ID>`)
+ * so a link opens on the same plot. Only Placemarks with geometry are stepped through,
+ * since the others cannot be shown on the map.
+ */
+export function usePlotNavigation(analyses: RequestAnalysis[]) {
+  const [{ step, file, plot }, setQuery] = useQueryStates(navigationParsers)
+
+  const items = useMemo(() => analyses.reduce<NavigationItem[]>((result, { job, result: analysis, document }) => {
+    if (!analysis || !document) return result
+    if (step === 'file') return result.concat([{ analysisId: job.id, placemarkId: null }])
+
+    return result.concat(document.placemarks
+      .filter(placemark => placemark.geometry)
+      .map(placemark => ({ analysisId: job.id, placemarkId: placemark.id })))
+  }, []), [analyses, step])
+
+  // -1 while nothing is selected, or the selection is not in this request
+  const index = items.findIndex(item =>
+    item.analysisId === file && (step === 'file' || item.placemarkId === plot)
+  )
+  const current = index === -1 ? null : items[index]
+
+  const select = useCallback((item: NavigationItem | null) => {
+    setQuery({
+      file: item ? item.analysisId : null,
+      plot: item ? item.placemarkId : null
+    })
+  }, [setQuery])
+
+  const setStep = useCallback((nextStep: NavigationStep) => {
+    // Switching to files keeps the file of the current plot selected
+    setQuery({ step: nextStep, plot: null })
+  }, [setQuery])
+
+  const next = useCallback(() => {
+    if (items.length > 0) select(items[(index + 1) % items.length])
+  }, [items, index, select])
+
+  const previous = useCallback(() => {
+    if (items.length > 0) select(items[index <= 0 ? items.length - 1 : index - 1])
+  }, [items, index, select])
+
+  return { step, setStep, items, index, current, select, next, previous }
+}
@@ -0,0 +1,98 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import {
+  getAnalysisDocument,
+  getAnalysisResult,
+  getExternalOverlaps,
+  listAnalyses,
+  type AnalysisJob,
+  type ExternalPlotOverlap,
+  type KmlAnalysis,
+  type KmlDocument
+} from '@/lib/api-service'
+
+export interface RequestAnalysis {
+  job: AnalysisJob
+  result: KmlAnalysis | null
+  /** The parsed file, for the map; null until the analysis completes */
+  document: KmlDocument | null
+  /** Overlaps with plots of other files; empty until the analysis completes */
+  externalOverlaps: ExternalPlotOverlap[]
+}
+
+const POLL_INTERVAL_MS = 1500
+
+/**
+ * Loads every analysis job for a request together with the result documents, parsed
+ * files and cross-file overlaps of the completed ones
+ * While any job is still queued or running the list is polled, so new uploads and saved
+ * versions show their results without a reload.
+ */
+export function useRequestAnalyses(requestId: string) {
+  const [analyses, setAnalyses] = useState<RequestAnalysis[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const analysesRef = useRef(analyses)
+  analysesRef.current = analyses
+
+  const fetchAnalyses = useCallback(async (): Promise<RequestAnalysis[]> => {
+    // Files replaced by an edited version are only kept for the record
+    const jobs = (await listAnalyses(requestId)).filter(job => !job.supersededBy)
+    return Promise.all(jobs.map(async (job): Promise<RequestAnalysis> => {
+      if (job.status !== 'completed') return { job, result: null, document: null, externalOverlaps: [] }
+
+      // A finished result never changes, but overlaps grow as other files complete
+      const loaded = analysesRef.current.find(item => item.job.id === job.id && item.result && item.document)
+      if (loaded) return { ...loaded, job, externalOverlaps: await getExternalOverlaps(job.id) }
+
+      const [result, document, externalOverlaps] = await Promise.all([
+        getAnalysisResult(job.id),
+        getAnalysisDocument(job.id),
+        getExternalOverlaps(job.id)
+      ])
+      return { job, result, document, externalOverlaps }
+    }))
+  }, [requestId])
+
+  const load = useCallback(async () => {
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      setAnalyses(await fetchAnalyses())
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load analyses')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [fetchAnalyses])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const isPending = analyses.some(({ job }) => job.status !== 'completed' && job.status !== 'error')
+
+  // Polls without the loading state, so the page does not flicker; stops on the first error
+  useEffect(() => {
+    if (!isPending || error) return
+
+    let isCancelled = false
+    const timer = window.setTimeout(async () => {
+      try {
+        const polled = await fetchAnalyses()
+        if (!isCancelled) setAnalyses(polled)
+      } catch (pollError) {
+        if (!isCancelled) setError(pollError instanceof Error ? pollError.message : 'Failed to load analyses')
+      }
+    }, POLL_INTERVAL_MS)
+
+    return () => {
+      isCancelled = true
+      window.clearTimeout(timer)
+    }
+  }, [analyses, isPending, error, fetchAnalyses])
+
+  return { analyses, isLoading, error, reload: load }
+}
@@ -0,0 +1,229 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import {
+  findDuplicateFiles,
+  processKmlFile,
+  startMultipartUpload,
+  type FileDuplicate,
+  type MultipartUploadHandle,
+  type UploadProgress
+} from '@/lib/api-service'
+import { inspectKmlFile } from '@/lib/file-inspection'
+import type { SelectedFile } from '@/lib/file-selection'
+import type { KmlInspection } from '@/lib/kml/inspect'
+
+export type UploadItemStatus = 'inspecting' | 'selected' | 'queued' | 'uploading' | 'paused' | 'processing' | 'success' | 'error'
+
+export interface UploadItem {
+  id: string
+  file: File
+  path: string
+  status: UploadItemStatus
+  progress: UploadProgress
+  error?: string
+  /** False for files that were rejected before uploading, which a retry cannot fix */
+  canRetry: boolean
+  /** What the file contains, once it has been inspected */
+  inspection?: KmlInspection
+  /** Earlier uploads of the same file or of the same plots */
+  duplicates?: FileDuplicate[]
+  fileKey?: string
+  analysisId?: string
+}
+
+export interface UploadSummary {
+  total: number
+  /** Still being checked before they can be uploaded */
+  inspecting: number
+  /** Selected but not started yet */
+  pending: number
+  /** Queued, uploading, paused or being queued for analysis */
+  active: number
+  succeeded: number
+  failed: number
+}
+
+interface UploadQueueOptions {
+  /** Files uploaded at the same time */
+  concurrency?: number
+  /** Returns why a file cannot be uploaded, or null */
+  validate?: (file: File) => string | null
+  onItemComplete?: (item: UploadItem, fileKey: string, analysisId: string) => void
+  onItemError?: (item: UploadItem, error: string) => void
+}
+
+const EMPTY_PROGRESS: UploadProgress = { loaded: 0, total: 0, percentage: 0 }
+const ACTIVE_STATUSES: UploadItemStatus[] = ['uploading', 'paused', 'processing']
+
+let nextItemId = 0
+
+/**
+ * Uploads many files, a few at a time, and queues each one for analysis
+ * Files are added as "selected" and only start once `start` is called, so callers
+ * can show them first or wait until the request they belong to exists.
+ */
+export function useUploadQueue({ concurrency = 3, validate, onItemComplete, onItemError }: UploadQueueOptions = {}) {
+  const [items, setItems] = useState<UploadItem[]>([])
+  const handlesRef = useRef<Record<string, MultipartUploadHandle>>({})
+  const launchedRef = useRef<Record<string, boolean>>({})
+  const requestIdRef = useRef<string | undefined>(undefined)
+  // Kept current so running uploads report to the latest callbacks
+  const callbacksRef = useRef({ onItemComplete, onItemError })
+  callbacksRef.current = { onItemComplete, onItemError }
+
+  const updateItem = useCallback((id: string, changes: Partial<UploadItem>) => {
+    setItems(current => current.map(item => item.id === id ? { ...item, ...changes } : item))
+  }, [])
+
+  const runItem = useCallback(async (item: UploadItem) => {
+    updateItem(item.id, { status: 'uploading', progress: EMPTY_PROGRESS, error: undefined })
+
+    try {
+      const upload = startMultipartUpload(item.file, progress => updateItem(item.id, { progress }))
+      handlesRef.current[item.id] = upload
+      const fileKey = await upload.done
+      delete handlesRef.current[item.id]
+
+      updateItem(item.id, { status: 'processing', fileKey })
+      const { analysisId } = await processKmlFile(fileKey, { fileName: item.path, requestId: requestIdRef.current })
+
+      updateItem(item.id, { status: 'success', analysisId })
+      callbacksRef.current.onItemComplete?.(item, fileKey, analysisId)
+    } catch (error) {
+      // Removed from the queue while uploading
+      if (!launchedRef.current[item.id]) return
+
+      const message = error instanceof Error ? error.message : 'Upload failed'
+      updateItem(item.id, { status: 'error', error: message })
+      callbacksRef.current.onItemError?.(item, message)
+    } finally {
+      delete handlesRef.current[item.id]
+      delete launchedRef.current[item.id]
+    }
+  }, [updateItem])
+
+  // Start queued files while fewer than `concurrency` are running
+  useEffect(() => {
+    const running = items.filter(item => ACTIVE_STATUSES.indexOf(item.status) !== -1).length
+    const next = items
+      .filter(item => item.status === 'queued' && !launchedRef.current[item.id])
+      .slice(0, Math.max(0, concurrency - running))
+
+    next.forEach((item) => {
+      launchedRef.current[item.id] = true
+      runItem(item)
+    })
+  }, [items, concurrency, runItem])
+
+  /**
+   * Reads a file's contents; broken files are listed as errors that cannot be retried
+   * Usable files are then looked up among earlier uploads, which only warns.
+   */
+  const inspectItem = useCallback(async (item: UploadItem) => {
+    let inspection: KmlInspection
+    try {
+      inspection = await inspectKmlFile(item.file)
+      updateItem(item.id, inspection.errors.length > 0
+        ? { status: 'error', inspection, error: inspection.errors.join('; '), canRetry: false }
+        : { status: 'selected', inspection })
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'The file could not be inspected'
+      updateItem(item.id, { status: 'error', error: message, canRetry: false })
+      return
+    }
+
+    if (inspection.errors.length > 0 || !inspection.fingerprint) return
+    try {
+      const duplicates = await findDuplicateFiles(inspection.fingerprint)
+      if (duplicates.length > 0) updateItem(item.id, { duplicates })
+    } catch (error) {
+      console.error('Failed to check for duplicates:', error)
+    }
+  }, [updateItem])
+
+  /**
+   * Adds files to the list and inspects their contents; files failing validation are listed as errors
+   */
+  const addFiles = useCallback((files: SelectedFile[]) => {
+    const added = files.map(({ file, path }): UploadItem => {
+      const error = validate?.(file) || undefined
+      return {
+        id: `upload-${++nextItemId}`,
+        file,
+        path,
+        status: error ? 'error' : 'inspecting',
+        progress: EMPTY_PROGRESS,
+        error,
+        canRetry: !error
+      }
+    })
+    setItems(current => current.concat(added))
+    added.filter(item => item.status === 'inspecting').forEach(inspectItem)
+  }, [validate, inspectItem])
+
+  /**
+   * Starts uploading every selected file
+   *
+   * @param requestId - The request the files are analysed for
+   */
+  const start = useCallback((requestId?: string) => {
+    requestIdRef.current = requestId
+    setItems(current => current.map(item => item.status === 'selected' ? { ...item, status: 'queued' } : item))
+  }, [])
+
+  const retry = useCallback((id: string) => {
+    setItems(current => current.map(item =>
+      item.id === id && item.status === 'error' && item.canRetry
+        ? { ...item, status: 'queued', error: undefined, progress: EMPTY_PROGRESS }
+        : item
+    ))
+  }, [])
+
+  const retryFailed = useCallback(() => {
+    setItems(current => current.map(item =>
+      item.status === 'error' && item.canRetry
+        ? { ...item, status: 'queued', error: undefined, progress: EMPTY_PROGRESS }
+        : item
+    ))
+  }, [])
+
+  const pause = useCallback((id: string) => {
+    if (handlesRef.current[id]?.pause()) updateItem(id, { status: 'paused' })
+  }, [updateItem])
+
+  const resume = useCallback((id: string) => {
+    handlesRef.current[id]?.resume()
+    updateItem(id, { status: 'uploading' })
+  }, [updateItem])
+
+  /**
+   * Drops a file from the list, cancelling its upload if it is running
+   */
+  const remove = useCallback((id: string) => {
+    const handle = handlesRef.current[id]
+    delete launchedRef.current[id]
+    if (handle) {
+      handle.cancel().catch(error => console.error('Failed to cancel upload:', error))
+    }
+    setItems(current => current.filter(item => item.id !== id))
+  }, [])
+
+  /**
+   * Drops every file that is not being uploaded
+   */
+  const clearFinished = useCallback(() => {
+    setItems(current => current.filter(item => item.status !== 'success' && item.status !== 'error'))
+  }, [])
+
+  const summary: UploadSummary = {
+    total: items.length,
+    inspecting: items.filter(item => item.status === 'inspecting').length,
+    pending: items.filter(item => item.status === 'selected').length,
+    active: items.filter(item => item.status === 'queued' || ACTIVE_STATUSES.indexOf(item.status) !== -1).length,
+    succeeded: items.filter(item => item.status === 'success').length,
+    failed: items.filter(item => item.status === 'error').length
+  }
+
+  return { items, summary, addFiles, start, retry, retryFailed, pause, resume, remove, clearFinished }
+}
@@ -0,0 +1,126 @@
+import {
+    compareDeclaredArea,
+    extractDeclaredArea,
+    resolveDeclaredAreaConfig,
+    type AreaCheck,
+    type DeclaredArea,
+    type DeclaredAreaConfig
+} from './declared-area'
+import { computeBoundingBox, geometryCoordinates } from './geometry'
+import { measureGeometry } from './measure'
+import { findOverlaps, plotFootprint, type PlotFootprint, type PlotOverlap } from './overlap'
+import { summarizeKml, type KmlSummary } from './summary'
+import {
+    DEFAULT_VALIDATION_OPTIONS,
+    validateGeometry,
+    type GeometryIssue,
+    type ValidationOptions
+} from './validate'
+import type { BoundingBox, GeometryType, KmlDocument, KmlPlacemark } from './types'
+
+/**
+ * Per-Placemark entry of the analysis result document
+ */
+export interface PlotReport {
+    id: string
+    name?: string
+    path: string[]
+    geometryType: GeometryType | null
+    extendedData: Record<string, string>
+    /** Geodesic polygon area in square meters (0 for non-polygon Placemarks) */
+    areaSquareMeters: number
+    /** Geodesic length of the polygon outer boundaries in meters */
+    perimeterMeters: number
+    /** Number of coordinates in the geometry, including closing vertices */
+    vertexCount: number
+    boundingBox: BoundingBox | null
+    /** Area declared in the name or ExtendedData, if any */
+    declaredArea: DeclaredArea | null
+    /** Declared vs measured comparison; null for non-polygons or when nothing was declared */
+    areaCheck: AreaCheck | null
+    /** Geometry validity problems */
+    issues: GeometryIssue[]
+}
+
+/**
+ * Result document produced by the analysis pipeline for one uploaded file
+ */
+export interface KmlAnalysis {
+    summary: KmlSummary
+    plots: PlotReport[]
+    validation: {
+        errorCount: number
+        warningCount: number
+        /** Placemarks with at least one error-severity issue */
+        invalidPlotCount: number
+    }
+    /** Intersecting plot pairs within the file */
+    overlaps: PlotOverlap[]
+}
+
+export interface AnalysisOptions {
+    declaredArea?: Partial<DeclaredAreaConfig>
+    validation?: Partial<ValidationOptions>
+}
+
+/**
+ * Runs every analysis step over a parsed document
+ *
+ * @param document - The parsed KML document
+ * @param options - Per-deployment configuration of the individual checks
+ * @returns KmlAnalysis - The analysis result document
+ */
+export function analyzeKml(document: KmlDocument, options: AnalysisOptions = {}): KmlAnalysis {
+    const declaredAreaConfig = resolveDeclaredAreaConfig(options.declaredArea)
+    const validationOptions = { ...DEFAULT_VALIDATION_OPTIONS, ...options.validation }
+    const plots = document.placemarks.map(placemark =>
+        reportPlacemark(placemark, declaredAreaConfig, validationOptions))
+    const footprints = document.placemarks
+        .map(plotFootprint)
+        .filter((footprint): footprint is PlotFootprint => footprint !== null)
+
+    return {
+        summary: summarizeKml(document),
+        plots,
+        validation: {
+            errorCount: countIssues(plots, 'error'),
+            warningCount: countIssues(plots, 'warning'),
+            invalidPlotCount: plots.filter(plot => plot.issues.some(issue => issue.severity === 'error')).length
+        },
+        overlaps: findOverlaps(footprints)
+    }
+}
+
+function reportPlacemark(
+    placemark: KmlPlacemark,
+    declaredAreaConfig: DeclaredAreaConfig,
+    validationOptions: ValidationOptions
+): PlotReport {
+    const { areaSquareMeters, perimeterMeters } = measureGeometry(placemark.geometry)
+    const coordinates = geometryCoordinates(placemark.geometry)
+    const declaredArea = extractDeclaredArea(
+        { name: placemark.name, extendedData: placemark.extendedData.fields },
+        declaredAreaConfig
+    )
+
+    return {
+        id: placemark.id,
+        name: placemark.name,
+        path: placemark.path,
+        geometryType: placemark.geometry?.type || null,
+        extendedData: placemark.extendedData.fields,
+        areaSquareMeters,
+        perimeterMeters,
+        vertexCount: coordinates.length,
+        boundingBox: computeBoundingBox(coordinates),
+        declaredArea,
+        areaCheck: declaredArea && areaSquareMeters > 0
+            ? compareDeclaredArea(declaredArea, areaSquareMeters, declaredAreaConfig.tolerancePercent)
+            : null,
+        issues: validateGeometry(placemark.geometry, validationOptions)
+    }
+}
+
+function countIssues(plots: PlotReport[], severity: GeometryIssue['severity']): number {
+    return plots.reduce((count, plot) => count + plot.issues.filter(issue => issue.severity === severity).length, 0)
+}
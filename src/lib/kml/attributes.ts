@@ -0,0 +1,295 @@
+import { startEditing, type EditedPlacemark } from './edit'
+import type { KmlDocument } from './types'
+
+/**
+ * ExtendedData as a table
+ * Pure operations behind the attribute editor: one row per Placemark, one column per
+ * ExtendedData field found anywhere in the document. Every operation returns a new
+ * table, so edits can be undone by keeping the old ones.
+ */
+
+export interface AttributeRow {
+    /** ID of the Placemark in the document */
+    id: string
+    name: string
+    /** Only the fields the Placemark has; a missing field shows as an empty cell */
+    fields: Record<string, string>
+}
+
+export interface AttributeTable {
+    /** Field names in the order they first appear in the document */
+    columns: string[]
+    rows: AttributeRow[]
+}
+
+export interface FindReplaceOptions {
+    find: string
+    replace: string
+    /** Only search this column; null searches all of them */
+    column: string | null
+    matchCase: boolean
+    /** Only replace cells whose whole value matches */
+    wholeCell: boolean
+}
+
+export interface CsvJoinOptions {
+    /** CSV header of the column holding the plot ID */
+    csvKeyColumn: string
+    /** Table column holding the plot ID; null matches Placemark names */
+    keyColumn: string | null
+}
+
+export interface CsvJoinResult {
+    table: AttributeTable
+    /** Rows of the table that received values */
+    matchedRowCount: number
+    /** Plot IDs in the CSV that no Placemark has */
+    unmatchedKeys: string[]
+    /** CSV columns the table did not have yet */
+    addedColumns: string[]
+}
+
+/**
+ * Builds the table for a document
+ *
+ * @param document - The parsed document
+ * @returns AttributeTable - One row per Placemark
+ */
+export function attributeTable(document: KmlDocument): AttributeTable {
+    const columns: string[] = []
+    const rows = document.placemarks.map((placemark) => {
+        Object.keys(placemark.extendedData.fields).forEach((key) => {
+            if (columns.indexOf(key) === -1) columns.push(key)
+        })
+        return { id: placemark.id, name: placemark.name || '', fields: placemark.extendedData.fields }
+    })
+    return { columns, rows }
+}
+
+/**
+ * Sets one cell
+ *
+ * @param table - The table
+ * @param rowId - The Placemark
+ * @param column - The field
+ * @param value - Its new value
+ * @returns AttributeTable - The changed table
+ */
+export function setAttribute(table: AttributeTable, rowId: string, column: string, value: string): AttributeTable {
+    return {
+        ...table,
+        rows: table.rows.map(row => (row.id === rowId ? { ...row, fields: { ...row.fields, [column]: value } } : row))
+    }
+}
+
+/**
+ * Adds an empty column at the end
+ *
+ * @param table - The table
+ * @param column - The new field name; nothing changes if the table already has it
+ * @returns AttributeTable - The changed table
+ */
+export function addAttributeColumn(table: AttributeTable, column: string): AttributeTable {
+    if (table.columns.indexOf(column) !== -1) return table
+    return { ...table, columns: table.columns.concat([column]) }
+}
+
+/**
+ * Removes a column and its values from every Placemark
+ *
+ * @param table - The table
+ * @param column - The field to remove
+ * @returns AttributeTable - The changed table
+ */
+export function removeAttributeColumn(table: AttributeTable, column: string): AttributeTable {
+    return {
+        columns: table.columns.filter(name => name !== column),
+        rows: table.rows.map(row => ({ ...row, fields: withoutField(row.fields, column) }))
+    }
+}
+
+/**
+ * Replaces text in every cell that has a value
+ *
+ * @param table - The table
+ * @param options - What to find, what to put instead and where
+ * @returns { table, count } - The changed table and how many cells changed
+ */
+export function replaceInAttributes(
+    table: AttributeTable,
+    options: FindReplaceOptions
+): { table: AttributeTable, count: number } {
+    if (!options.find) return { table, count: 0 }
+
+    const pattern = new RegExp(
+        options.wholeCell ? `^${escapeRegExp(options.find)}$` : escapeRegExp(options.find),
+        options.matchCase ? 'g' : 'gi'
+    )
+    const columns = options.column ? [options.column] : table.columns
+    let count = 0
+
+    const rows = table.rows.map((row) => {
+        let fields = row.fields
+        columns.forEach((column) => {
+            const value = fields[column]
+            if (value === undefined) return
+            // A function replacement keeps `$` in the replacement text literal
+            const replaced = value.replace(pattern, () => options.replace)
+            if (replaced === value) return
+            fields = { ...fields, [column]: replaced }
+            count++
+        })
+        return fields === row.fields ? row : { ...row, fields }
+    })
+
+    return { table: count > 0 ? { ...table, rows } : table, count }
+}
+
+/**
+ * Parses CSV text (RFC 4180: quoted fields may hold commas, quotes and line breaks)
+ *
+ * @param text - The file's contents
+ * @returns string[][] - The rows, without blank lines; the first is the header
+ */
+export function parseCsv(text: string): string[][] {
+    const rows: string[][] = []
+    let row: string[] = []
+    let field = ''
+    let isQuoted = false
+    const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+
+    for (let index = 0; index < input.length; index++) {
+        const char = input[index]
+        if (isQuoted) {
+            if (char === '"' && input[index + 1] === '"') {
+                field += '"'
+                index++
+            } else if (char === '"') {
+                isQuoted = false
+            } else {
+                field += char
+            }
+        } else if (char === '"') {
+            isQuoted = true
+        } else if (char === ',') {
+            row.push(field)
+            field = ''
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && input[index + 1] === '\n') index++
+            row.push(field)
+            rows.push(row)
+            row = []
+            field = ''
+        } else {
+            field += char
+        }
+    }
+    row.push(field)
+    rows.push(row)
+
+    return rows.filter(cells => cells.some(cell => cell.trim() !== ''))
+}
+
+/**
+ * Copies CSV columns into the Placemarks whose plot ID matches
+ * IDs are compared trimmed and case-insensitively. Empty CSV cells leave the Placemark's
+ * value alone, so a CSV with a few columns filled in only changes those. When the CSV
+ * repeats an ID, its last row wins.
+ *
+ * @param table - The table
+ * @param csv - Parsed CSV, header first
+ * @param options - The columns holding the plot ID on both sides
+ * @returns CsvJoinResult - The changed table and what matched
+ */
+export function joinCsvAttributes(table: AttributeTable, csv: string[][], options: CsvJoinOptions): CsvJoinResult {
+    const header = csv[0] || []
+    const keyIndex = header.indexOf(options.csvKeyColumn)
+    if (keyIndex === -1) throw new Error(`The CSV has no column ${options.csvKeyColumn}`)
+
+    const valueColumns = header
+        .map((column, index) => ({ column: column.trim(), index }))
+        .filter(({ column, index }) => column && index !== keyIndex)
+    const csvRows: Record<string, string[]> = {}
+    csv.slice(1).forEach((cells) => {
+        const key = normalizeKey(cells[keyIndex])
+        if (key) csvRows[key] = cells
+    })
+
+    const matchedKeys: string[] = []
+    let matchedRowCount = 0
+    const rows = table.rows.map((row) => {
+        const key = normalizeKey(options.keyColumn === null ? row.name : row.fields[options.keyColumn])
+        const cells = key ? csvRows[key] : undefined
+        if (!cells) return row
+
+        if (matchedKeys.indexOf(key) === -1) matchedKeys.push(key)
+        matchedRowCount++
+        const fields = { ...row.fields }
+        valueColumns.forEach(({ column, index }) => {
+            const value = (cells[index] || '').trim()
+            if (value) fields[column] = value
+        })
+        return { ...row, fields }
+    })
+
+    const addedColumns = valueColumns
+        .map(({ column }) => column)
+        .filter((column, index, all) => table.columns.indexOf(column) === -1 && all.indexOf(column) === index)
+
+    return {
+        table: { columns: table.columns.concat(addedColumns), rows },
+        matchedRowCount,
+        unmatchedKeys: Object.keys(csvRows)
+            .filter(key => matchedKeys.indexOf(key) === -1)
+            .map(key => csvRows[key][keyIndex].trim()),
+        addedColumns
+    }
+}
+
+/**
+ * Turns the table into the Placemarks of a new version, geometry unchanged
+ * Only rows whose fields changed carry ExtendedData, so the saved file is rewritten
+ * for those Placemarks alone; fields a Placemark never had stay absent.
+ *
+ * @param document - The original document
+ * @param table - The edited table
+ * @returns EditedPlacemark[] - To pass to writePlacemarkEdits
+ */
+export function attributeEdits(document: KmlDocument, table: AttributeTable): EditedPlacemark[] {
+    const rowsById = table.rows.reduce<Record<string, AttributeRow>>((result, row) => {
+        result[row.id] = row
+        return result
+    }, {})
+
+    return startEditing(document).map((edit, index) => {
+        const row = rowsById[edit.sourceId]
+        const original = document.placemarks[index].extendedData.fields
+        if (!row || sameFields(row.fields, original)) return edit
+        const extendedData = table.columns.reduce<Record<string, string>>((fields, column) => {
+            if (row.fields[column] !== undefined) fields[column] = row.fields[column]
+            return fields
+        }, {})
+        return { ...edit, extendedData }
+    })
+}
+
+function sameFields(fields: Record<string, string>, original: Record<string, string>): boolean {
+    const keys = Object.keys(fields)
+    return keys.length === Object.keys(original).length && keys.every(key => original[key] === fields[key])
+}
+
+function withoutField(fields: Record<string, string>, column: string): Record<string, string> {
+    if (fields[column] === undefined) return fields
+    return Object.keys(fields).reduce<Record<string, string>>((result, key) => {
+        if (key !== column) result[key] = fields[key]
+        return result
+    }, {})
+}
+
+function normalizeKey(value: string | undefined): string {
+    return (value || '').trim().toLowerCase()
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
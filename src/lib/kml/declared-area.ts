@@ -0,0 +1,168 @@
+import { toSquareMeters, type AreaUnit } from './units'
+
+/**
+ * Declared-area extraction and comparison
+ * Plot names often encode the declared size ("umrai_bismilla_khan_2biga") and
+ * ExtendedData frequently carries an area field. The declared value is compared
+ * against the measured polygon area and flagged when outside the tolerance.
+ */
+
+export interface DeclaredAreaConfig {
+    /** ExtendedData fields holding a declared area; matched case- and punctuation-insensitively */
+    extendedDataKeys: { key: string, unit: AreaUnit }[]
+    /** Regular expressions (source strings, case-insensitive) whose first group is the declared value */
+    namePatterns: { pattern: string, unit: AreaUnit }[]
+    /** Allowed difference between declared and measured area, as a percentage of the declared area */
+    tolerancePercent: number
+}
+
+export interface DeclaredArea {
+    value: number
+    unit: AreaUnit
+    squareMeters: number
+    source: 'extendedData' | 'name'
+    /** The ExtendedData key or the matched part of the name */
+    sourceText: string
+}
+
+export interface AreaCheck {
+    declared: DeclaredArea
+    measuredSquareMeters: number
+    /** Signed difference of measured vs declared, as a percentage of the declared area */
+    differencePercent: number
+    tolerancePercent: number
+    isWithinTolerance: boolean
+}
+
+// A number followed by a unit word that is not itself followed by more letters
+const NUMBER = '(\\d+(?:\\.\\d+)?)\\s*'
+const END_OF_UNIT = '(?![a-z])'
+
+export const DEFAULT_DECLARED_AREA_CONFIG: DeclaredAreaConfig = {
+    extendedDataKeys: [
+        { key: 'area_ha', unit: 'hectares' },
+        { key: 'area_hectares', unit: 'hectares' },
+        { key: 'hectares', unit: 'hectares' },
+        { key: 'area_acres', unit: 'acres' },
+        { key: 'acres', unit: 'acres' },
+        { key: 'area_bigha', unit: 'bigha' },
+        { key: 'bigha', unit: 'bigha' },
+        { key: 'area_guntha', unit: 'guntha' },
+        { key: 'declared_area', unit: 'acres' },
+        { key: 'area', unit: 'acres' }
+    ],
+    namePatterns: [
+        { pattern: `${NUMBER}(?:bighas?|bigah|bigas?)${END_OF_UNIT}`, unit: 'bigha' },
+        { pattern: `${NUMBER}(?:gunthas?|guntas?)${END_OF_UNIT}`, unit: 'guntha' },
+        { pattern: `${NUMBER}(?:acres?|ac)${END_OF_UNIT}`, unit: 'acres' },
+        { pattern: `${NUMBER}(?:hectares?|ha)${END_OF_UNIT}`, unit: 'hectares' }
+    ],
+    tolerancePercent: 10
+}
+
+/**
+ * Finds the declared area of a Placemark
+ * ExtendedData takes precedence over the name. A unit written inside an ExtendedData
+ * value ("2 bigha") overrides the unit configured for the key.
+ *
+ * @param placemark - The Placemark name and ExtendedData fields
+ * @param config - Keys, patterns and tolerance to use
+ * @returns DeclaredArea | null - The declared area, or null when none was found
+ */
+export function extractDeclaredArea(
+    placemark: { name?: string, extendedData: Record<string, string> },
+    config: DeclaredAreaConfig = DEFAULT_DECLARED_AREA_CONFIG
+): DeclaredArea | null {
+    const fieldsByKey: Record<string, { key: string, value: string }> = {}
+    Object.keys(placemark.extendedData).forEach((key) => {
+        fieldsByKey[normalizeKey(key)] = { key, value: placemark.extendedData[key] }
+    })
+
+    for (const { key, unit } of config.extendedDataKeys) {
+        const field = fieldsByKey[normalizeKey(key)]
+        if (!field || !field.value.trim()) continue
+
+        const withUnit = matchNamePatterns(field.value, config)
+        if (withUnit) {
+            return { ...withUnit, source: 'extendedData', sourceText: field.key }
+        }
+
+        const value = parseFloat(field.value.replace(/,/g, ''))
+        if (!isNaN(value) && value > 0) {
+            return { value, unit, squareMeters: toSquareMeters(value, unit), source: 'extendedData', sourceText: field.key }
+        }
+    }
+
+    if (placemark.name) {
+        const fromName = matchNamePatterns(placemark.name, config)
+        if (fromName) return { ...fromName, source: 'name' }
+    }
+
+    return null
+}
+
+/**
+ * Compares a declared area against the measured one
+ *
+ * @param declared - The declared area
+ * @param measuredSquareMeters - The measured geodesic area
+ * @param tolerancePercent - Allowed difference as a percentage of the declared area
+ * @returns AreaCheck - The comparison result
+ */
+export function compareDeclaredArea(
+    declared: DeclaredArea,
+    measuredSquareMeters: number,
+    tolerancePercent: number
+): AreaCheck {
+    const differencePercent = ((measuredSquareMeters - declared.squareMeters) / declared.squareMeters) * 100
+
+    return {
+        declared,
+        measuredSquareMeters,
+        differencePercent,
+        tolerancePercent,
+        isWithinTolerance: Math.abs(differencePercent) <= tolerancePercent
+    }
+}
+
+/**
+ * Merges a partial configuration (e.g. from an environment variable) over the defaults
+ *
+ * @param overrides - Fields to replace
+ * @returns DeclaredAreaConfig - The merged configuration
+ */
+export function resolveDeclaredAreaConfig(overrides: Partial<DeclaredAreaConfig> = {}): DeclaredAreaConfig {
+    return {
+        extendedDataKeys: overrides.extendedDataKeys || DEFAULT_DECLARED_AREA_CONFIG.extendedDataKeys,
+        namePatterns: overrides.namePatterns || DEFAULT_DECLARED_AREA_CONFIG.namePatterns,
+        tolerancePercent: overrides.tolerancePercent ?? DEFAULT_DECLARED_AREA_CONFIG.tolerancePercent
+    }
+}
+
+/**
+ * Formats a declared area the way it was written, e.g. "2 bigha"
+ *
+ * @param declared - The declared area
+ * @returns string - Value and unit
+ */
+export function formatDeclaredArea(declared: DeclaredArea): string {
+    return `${declared.value} ${declared.unit}`
+}
+
+function matchNamePatterns(
+    text: string,
+    config: DeclaredAreaConfig
+): Omit<DeclaredArea, 'source'> | null {
+    for (const { pattern, unit } of config.namePatterns) {
+        const match = new RegExp(pattern, 'i').exec(text)
+        const value = match ? parseFloat(match[1]) : NaN
+        if (match && !isNaN(value) && value > 0) {
+            return { value, unit, squareMeters: toSquareMeters(value, unit), sourceText: match[0] }
+        }
+    }
+    return null
+}
+
+function normalizeKey(key: string): string {
+    return key.toLowerCase().replace(/[^a-z0-9]/g, '')
+}
@@ -0,0 +1,48 @@
+import type { KmlContainer, KmlDocument, KmlPlacemark } from './types'
+
+/**
+ * Returns a copy of the document with every Placemark passed through `transform`
+ * The container tree and the flat Placemark list are rebuilt together so they
+ * keep referring to the same Placemark objects
+ *
+ * @param document - The source document (not modified)
+ * @param transform - Returns the replacement Placemark, or null to remove it
+ * @returns KmlDocument - The transformed document
+ */
+export function mapPlacemarks(
+    document: KmlDocument,
+    transform: (placemark: KmlPlacemark) => KmlPlacemark | null
+): KmlDocument {
+    return flatMapPlacemarks(document, (placemark) => {
+        const replacement = transform(placemark)
+        return replacement ? [replacement] : []
+    })
+}
+
+/**
+ * Like mapPlacemarks, but a Placemark can be replaced by any number of Placemarks,
+ * which take its place in its container
+ *
+ * @param document - The source document (not modified)
+ * @param transform - Returns the replacement Placemarks; an empty list removes it
+ * @returns KmlDocument - The transformed document
+ */
+export function flatMapPlacemarks(
+    document: KmlDocument,
+    transform: (placemark: KmlPlacemark) => KmlPlacemark[]
+): KmlDocument {
+    const placemarks: KmlPlacemark[] = []
+
+    const mapContainer = (container: KmlContainer): KmlContainer => ({
+        ...container,
+        children: container.children.reduce<KmlContainer['children']>((children, child) => {
+            if (child.kind !== 'Placemark') return children.concat([mapContainer(child)])
+
+            const replacements = transform(child)
+            replacements.forEach(replacement => placemarks.push(replacement))
+            return children.concat(replacements)
+        }, [])
+    })
+
+    return { root: mapContainer(document.root), placemarks }
+}
@@ -0,0 +1,265 @@
+import polygonClipping, { type MultiPolygon, type Polygon as ClipPolygon } from 'polygon-clipping'
+import { flattenGeometry } from './geometry'
+import type { Coordinate, KmlDocument, KmlGeometry, LinearRing, PolygonGeometry } from './types'
+
+/**
+ * Geometry editing
+ * Pure operations behind the in-browser editor. An edit session is a list of
+ * EditedPlacemark: the geometry of every Placemark of the new version, each naming the
+ * original Placemark it came from, whose name and style it keeps, and its ExtendedData
+ * unless the attribute editor replaced it.
+ * Splitting a plot yields several entries with the same source; merging drops all but one.
+ * Coordinates are treated as planar, which is accurate enough at plot scale.
+ */
+
+export interface EditedPlacemark {
+    /** Unique within the session, e.g. `pm-3`, or `pm-3.2` for the second piece of a split */
+    key: string
+    /** ID of the Placemark in the original document */
+    sourceId: string
+    geometry: KmlGeometry | null
+    /** Replaces all ExtendedData fields when set; omitted to keep the original ones */
+    extendedData?: Record<string, string>
+}
+
+/** A vertex: ring 0 is the outer boundary, the line or the point; 1+ are inner boundaries */
+export interface VertexPath {
+    ring: number
+    index: number
+}
+
+// Fewest vertices (without the closing one) a ring or line can be left with
+const MIN_RING_VERTICES = 3
+const MIN_LINE_VERTICES = 2
+
+/**
+ * Starts an edit session with every Placemark unchanged
+ *
+ * @param document - The original document
+ * @returns EditedPlacemark[] - One entry per Placemark
+ */
+export function startEditing(document: KmlDocument): EditedPlacemark[] {
+    return document.placemarks.map(placemark => ({
+        key: placemark.id,
+        sourceId: placemark.id,
+        geometry: placemark.geometry
+    }))
+}
+
+/**
+ * Checks that a value from a request body is a well-formed EditedPlacemark
+ *
+ * @param value - Untrusted input
+ * @returns boolean - Whether it can be passed to writePlacemarkEdits
+ */
+export function isEditedPlacemark(value: unknown): value is EditedPlacemark {
+    const edit = value as EditedPlacemark
+    return !!edit && typeof edit === 'object' &&
+        typeof edit.key === 'string' &&
+        typeof edit.sourceId === 'string' &&
+        (edit.geometry === null || isGeometry(edit.geometry)) &&
+        (edit.extendedData === undefined || isFieldMap(edit.extendedData))
+}
+
+/**
+ * The vertices an editor can move: the rings of a polygon (without the closing vertex),
+ * the vertices of a line, or the point
+ *
+ * @param geometry - The geometry
+ * @returns Coordinate[][] | null - Vertex lists by ring, or null for MultiGeometry and missing geometry
+ */
+export function editableRings(geometry: KmlGeometry | null): Coordinate[][] | null {
+    if (!geometry) return null
+
+    switch (geometry.type) {
+        case 'Point':
+            return [[geometry.coordinates]]
+        case 'LineString':
+            return [geometry.coordinates]
+        case 'Polygon':
+            return [geometry.outerBoundary].concat(geometry.innerBoundaries).map(openRing)
+        case 'MultiGeometry':
+            return null
+    }
+}
+
+/**
+ * Moves one vertex
+ *
+ * @param geometry - A Point, LineString or Polygon
+ * @param path - The vertex to move
+ * @param coordinate - Its new position
+ * @returns KmlGeometry - The changed geometry
+ */
+export function moveVertex(geometry: KmlGeometry, path: VertexPath, coordinate: Coordinate): KmlGeometry {
+    return updateRings(geometry, rings => rings.map((ring, ringIndex) => ringIndex !== path.ring
+        ? ring
+        : ring.map((vertex, index) => (index === path.index ? coordinate : vertex))))
+}
+
+/**
+ * Inserts a vertex into a line or polygon ring
+ *
+ * @param geometry - A LineString or Polygon
+ * @param path - Where the new vertex goes; the vertex at that index moves up one
+ * @param coordinate - The new vertex
+ * @returns KmlGeometry - The changed geometry
+ */
+export function insertVertex(geometry: KmlGeometry, path: VertexPath, coordinate: Coordinate): KmlGeometry {
+    if (geometry.type === 'Point') return geometry
+    return updateRings(geometry, rings => rings.map((ring, ringIndex) => ringIndex !== path.ring
+        ? ring
+        : ring.slice(0, path.index).concat([coordinate], ring.slice(path.index))))
+}
+
+/**
+ * Removes a vertex from a line or polygon ring
+ *
+ * @param geometry - A LineString or Polygon
+ * @param path - The vertex to remove
+ * @returns KmlGeometry | null - The changed geometry, or null when the ring or line would be left too short
+ */
+export function removeVertex(geometry: KmlGeometry, path: VertexPath): KmlGeometry | null {
+    const rings = editableRings(geometry)
+    const minimum = geometry.type === 'LineString' ? MIN_LINE_VERTICES : MIN_RING_VERTICES
+    if (geometry.type === 'Point' || !rings || rings[path.ring].length <= minimum) return null
+
+    return updateRings(geometry, all => all.map((ring, ringIndex) => ringIndex !== path.ring
+        ? ring
+        : ring.filter((vertex, index) => index !== path.index)))
+}
+
+/**
+ * Cuts a polygon in two along the straight line through two points
+ *
+ * @param polygon - The polygon to split
+ * @param from - A point on the cut line
+ * @param to - Another point on the cut line
+ * @returns PolygonGeometry[] | null - The pieces (two or more), or null when the line does not cross the polygon
+ */
+export function splitPolygon(polygon: PolygonGeometry, from: Coordinate, to: Coordinate): PolygonGeometry[] | null {
+    const dx = to[0] - from[0]
+    const dy = to[1] - from[1]
+    const length = Math.sqrt(dx * dx + dy * dy)
+    if (length === 0) return null
+
+    // A rectangle on the left of the line, far larger than the polygon
+    const extent = polygon.outerBoundary.concat([from, to])
+    const reach = extent.reduce((max, [lon, lat]) =>
+        Math.max(max, Math.abs(lon - from[0]), Math.abs(lat - from[1])), 0) * 4 + 1
+    const ux = (dx / length) * reach
+    const uy = (dy / length) * reach
+    const start: [number, number] = [from[0] - ux, from[1] - uy]
+    const end: [number, number] = [from[0] + ux, from[1] + uy]
+    const leftSide: ClipPolygon = [[
+        start,
+        end,
+        [end[0] - uy, end[1] + ux],
+        [start[0] - uy, start[1] + ux],
+        start
+    ]]
+
+    const subject = toClipPolygon(polygon)
+    let left: MultiPolygon
+    let right: MultiPolygon
+    try {
+        left = polygonClipping.intersection(subject, leftSide)
+        right = polygonClipping.difference(subject, leftSide)
+    } catch {
+        return null
+    }
+    if (left.length === 0 || right.length === 0) return null
+
+    return left.concat(right).map(fromClipPolygon)
+}
+
+/**
+ * Joins polygons into one plot
+ *
+ * @param geometries - Geometries whose polygons are merged; other parts are ignored
+ * @returns KmlGeometry | null - A Polygon, or a MultiGeometry when they do not touch; null without polygons
+ */
+export function mergePolygons(geometries: (KmlGeometry | null)[]): KmlGeometry | null {
+    const polygons = geometries.reduce<ClipPolygon[]>((all, geometry) => all.concat(
+        flattenGeometry(geometry)
+            .filter((part): part is PolygonGeometry => part.type === 'Polygon')
+            .map(toClipPolygon)
+    ), [])
+    if (polygons.length === 0) return null
+
+    let union: MultiPolygon
+    try {
+        union = polygonClipping.union(polygons[0], ...polygons.slice(1))
+    } catch {
+        return null
+    }
+    if (union.length === 0) return null
+
+    return union.length === 1
+        ? fromClipPolygon(union[0])
+        : { type: 'MultiGeometry', geometries: union.map(fromClipPolygon) }
+}
+
+function updateRings(geometry: KmlGeometry, update: (rings: Coordinate[][]) => Coordinate[][]): KmlGeometry {
+    const rings = editableRings(geometry)
+    if (!rings) return geometry
+    const updated = update(rings)
+
+    switch (geometry.type) {
+        case 'Point':
+            return { ...geometry, coordinates: updated[0][0] }
+        case 'LineString':
+            return { ...geometry, coordinates: updated[0] }
+        default:
+            return { type: 'Polygon', outerBoundary: closeRing(updated[0]), innerBoundaries: updated.slice(1).map(closeRing) }
+    }
+}
+
+function openRing(ring: LinearRing): Coordinate[] {
+    const first = ring[0]
+    const last = ring[ring.length - 1]
+    return ring.length > 1 && first[0] === last[0] && first[1] === last[1] ? ring.slice(0, -1) : ring
+}
+
+function closeRing(vertices: Coordinate[]): LinearRing {
+    return vertices.length > 0 ? vertices.concat([vertices[0]]) : vertices
+}
+
+function toClipPolygon(polygon: PolygonGeometry): ClipPolygon {
+    return [polygon.outerBoundary].concat(polygon.innerBoundaries)
+        .map(ring => closeRing(openRing(ring)).map(([lon, lat]) => [lon, lat] as [number, number]))
+}
+
+function fromClipPolygon([outerBoundary, ...innerBoundaries]: ClipPolygon): PolygonGeometry {
+    return { type: 'Polygon', outerBoundary, innerBoundaries }
+}
+
+function isCoordinate(value: unknown): value is Coordinate {
+    return Array.isArray(value) && (value.length === 2 || value.length === 3) &&
+        value.every(part => typeof part === 'number' && isFinite(part))
+}
+
+function isFieldMap(value: unknown): value is Record<string, string> {
+    return !!value && typeof value === 'object' && !Array.isArray(value) &&
+        Object.keys(value).every(key => typeof (value as Record<string, unknown>)[key] === 'string')
+}
+
+function isGeometry(value: unknown): value is KmlGeometry {
+    const geometry = value as KmlGeometry
+    if (!geometry || typeof geometry !== 'object') return false
+
+    switch (geometry.type) {
+        case 'Point':
+            return isCoordinate(geometry.coordinates)
+        case 'LineString':
+            return Array.isArray(geometry.coordinates) && geometry.coordinates.every(isCoordinate)
+        case 'Polygon':
+            return Array.isArray(geometry.outerBoundary) && geometry.outerBoundary.every(isCoordinate) &&
+                Array.isArray(geometry.innerBoundaries) &&
+                geometry.innerBoundaries.every(ring => Array.isArray(ring) && ring.every(isCoordinate))
+        case 'MultiGeometry':
+            return Array.isArray(geometry.geometries) && geometry.geometries.every(isGeometry)
+        default:
+            return false
+    }
+}
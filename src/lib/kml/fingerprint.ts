@@ -0,0 +1,98 @@
+import { flattenGeometry, type SimpleGeometry } from './geometry'
+import type { Coordinate, KmlDocument, LinearRing } from './types'
+
+/**
+ * File fingerprints for spotting the same KML uploaded more than once
+ * `contentHash` matches byte-identical files. `geometryFingerprint` also matches files
+ * that were renamed, re-saved or re-exported: it ignores names, descriptions, styles,
+ * placemark order, altitudes, coordinate noise below ~10 cm, and where each ring
+ * starts and which way it winds.
+ */
+
+export interface KmlFingerprint {
+    /** SHA-256 of the file, hex encoded */
+    contentHash: string
+    /** SHA-256 of the normalized geometry; null when the file has none */
+    geometryFingerprint: string | null
+}
+
+// 6 decimal places of a degree is about 11 cm at the equator
+const COORDINATE_DECIMALS = 6
+
+/**
+ * Fingerprints a file and its parsed document
+ *
+ * @param bytes - Raw file contents
+ * @param document - The parsed document, or null when the file could not be parsed
+ * @returns Promise<KmlFingerprint> - The content hash and geometry fingerprint
+ */
+export async function fingerprintKml(bytes: Uint8Array, document: KmlDocument | null): Promise<KmlFingerprint> {
+    const geometry = document ? canonicalGeometry(document) : ''
+    return {
+        contentHash: await sha256Hex(bytes),
+        geometryFingerprint: geometry ? await sha256Hex(new TextEncoder().encode(geometry)) : null
+    }
+}
+
+/**
+ * Hashes bytes with SHA-256 using Web Crypto, available in browsers, workers and Node
+ *
+ * @param bytes - The data to hash
+ * @returns Promise<string> - The digest, hex encoded
+ */
+export async function sha256Hex(bytes: Uint8Array): Promise<string> {
+    // Copied so the digest never sees a view into a larger or shared buffer
+    const digest = await crypto.subtle.digest('SHA-256', new Uint8Array(bytes))
+    return Array.from(new Uint8Array(digest))
+        .map(byte => (byte < 16 ? '0' : '') + byte.toString(16))
+        .join('')
+}
+
+// Every geometry part as text, sorted so document order does not matter
+function canonicalGeometry(document: KmlDocument): string {
+    const parts: string[] = []
+    document.placemarks.forEach(({ geometry }) => {
+        flattenGeometry(geometry).forEach(part => parts.push(canonicalPart(part)))
+    })
+    return parts.sort().join('\n')
+}
+
+function canonicalPart(part: SimpleGeometry): string {
+    switch (part.type) {
+        case 'Point':
+            return `P ${formatCoordinate(part.coordinates)}`
+        case 'LineString':
+            return `L ${canonicalLine(part.coordinates.map(formatCoordinate))}`
+        case 'Polygon':
+            return `A ${[canonicalRing(part.outerBoundary)]
+                .concat(part.innerBoundaries.map(canonicalRing).sort())
+                .join(' | ')}`
+    }
+}
+
+// A line reads the same from either end
+function canonicalLine(points: string[]): string {
+    const forward = points.join(' ')
+    const backward = points.slice().reverse().join(' ')
+    return forward < backward ? forward : backward
+}
+
+// A ring reads the same from any vertex and in either direction
+function canonicalRing(ring: LinearRing): string {
+    const points = ring.map(formatCoordinate)
+    if (points.length > 1 && points[0] === points[points.length - 1]) points.pop()
+    if (points.length === 0) return ''
+
+    const start = points.reduce((min, point, index) => (point < points[min] ? index : min), 0)
+    const rotated = points.slice(start).concat(points.slice(0, start))
+    const reversed = [rotated[0]].concat(rotated.slice(1).reverse())
+
+    const forward = rotated.join(' ')
+    const backward = reversed.join(' ')
+    return forward < backward ? forward : backward
+}
+
+// Altitude is dropped; Number() turns -0 into 0
+function formatCoordinate(coordinate: Coordinate): string {
+    return `${Number(coordinate[0].toFixed(COORDINATE_DECIMALS))},${Number(coordinate[1].toFixed(COORDINATE_DECIMALS))}`
+}
@@ -0,0 +1,70 @@
+import type {
+    BoundingBox,
+    Coordinate,
+    KmlGeometry,
+    LineStringGeometry,
+    PointGeometry,
+    PolygonGeometry
+} from './types'
+
+/**
+ * Geometry helpers shared by the analysis, validation and rendering code
+ */
+
+export type SimpleGeometry = PointGeometry | LineStringGeometry | PolygonGeometry
+
+/**
+ * Flattens MultiGeometry (recursively) into its primitive geometries
+ *
+ * @param geometry - Any KML geometry, or null for Placemarks without one
+ * @returns SimpleGeometry[] - Points, LineStrings and Polygons in document order
+ */
+export function flattenGeometry(geometry: KmlGeometry | null): SimpleGeometry[] {
+    if (!geometry) return []
+    if (geometry.type === 'MultiGeometry') {
+        return geometry.geometries.reduce<SimpleGeometry[]>(
+            (all, child) => all.concat(flattenGeometry(child)),
+            []
+        )
+    }
+    return [geometry]
+}
+
+/**
+ * Collects every coordinate of a geometry, including polygon holes
+ *
+ * @param geometry - Any KML geometry
+ * @returns Coordinate[] - All vertices
+ */
+export function geometryCoordinates(geometry: KmlGeometry | null): Coordinate[] {
+    return flattenGeometry(geometry).reduce<Coordinate[]>((all, part) => {
+        switch (part.type) {
+            case 'Point':
+                return all.concat([part.coordinates])
+            case 'LineString':
+                return all.concat(part.coordinates)
+            case 'Polygon':
+                return part.innerBoundaries.reduce((ring, hole) => ring.concat(hole), all.concat(part.outerBoundary))
+        }
+    }, [])
+}
+
+/**
+ * Computes the bounding box of a set of coordinates
+ *
+ * @param coordinates - Coordinates in lon/lat order
+ * @returns BoundingBox | null - The extent, or null when there are no coordinates
+ */
+export function computeBoundingBox(coordinates: Coordinate[]): BoundingBox | null {
+    if (coordinates.length === 0) return null
+
+    return coordinates.reduce<BoundingBox>(
+        (box, [lon, lat]) => ({
+            north: Math.max(box.north, lat),
+            south: Math.min(box.south, lat),
+            east: Math.max(box.east, lon),
+            west: Math.min(box.west, lon)
+        }),
+        { north: -Infinity, south: Infinity, east: -Infinity, west: Infinity }
+    )
+}
@@ -0,0 +1,74 @@
+export * from './types'
+export { parseKml, parseKmlBytes, parseKmlFile, parseCoordinates } from './parse'
+export { isKmz, extractKmzDocument, replaceKmzDocument, readKmlSource } from './kmz'
+export { flattenGeometry, geometryCoordinates, computeBoundingBox, type SimpleGeometry } from './geometry'
+export { summarizeKml, type KmlSummary } from './summary'
+export { analyzeKml, type KmlAnalysis, type PlotReport, type AnalysisOptions } from './analysis'
+export { measureGeometry, polygonArea, ringArea, ringLength, lineLength, geodesicDistance, type GeometryMeasurement } from './measure'
+export { AREA_UNITS, DISPLAY_AREA_UNITS, convertArea, toSquareMeters, formatArea, formatLength, type AreaUnit } from './units'
+export {
+    DEFAULT_DECLARED_AREA_CONFIG,
+    extractDeclaredArea,
+    compareDeclaredArea,
+    resolveDeclaredAreaConfig,
+    formatDeclaredArea,
+    type DeclaredAreaConfig,
+    type DeclaredArea,
+    type AreaCheck
+} from './declared-area'
+export {
+    GEOMETRY_ISSUE_TYPES,
+    DEFAULT_VALIDATION_OPTIONS,
+    validateDocument,
+    validateGeometry,
+    type GeometryIssue,
+    type GeometryIssueType,
+    type IssueSeverity,
+    type ValidationOptions
+} from './validate'
+export {
+    MIN_OVERLAP_SQUARE_METERS,
+    plotFootprint,
+    findOverlaps,
+    type PlotFootprint,
+    type PlotOverlap
+} from './overlap'
+export { serializeKml, formatCoordinates } from './serialize'
+export { mapPlacemarks, flatMapPlacemarks } from './document'
+export {
+    DEFAULT_REPAIR_OPTIONS,
+    repairDocument,
+    type RepairOptions,
+    type RepairResult,
+    type PlacemarkRepair
+} from './repair'
+export { inspectKml, sniffKmlFormat, type KmlInspection } from './inspect'
+export { fingerprintKml, sha256Hex, type KmlFingerprint } from './fingerprint'
+export {
+    startEditing,
+    isEditedPlacemark,
+    editableRings,
+    moveVertex,
+    insertVertex,
+    removeVertex,
+    splitPolygon,
+    mergePolygons,
+    type EditedPlacemark,
+    type VertexPath
+} from './edit'
+export { writePlacemarkEdits } from './write-edits'
+export {
+    attributeTable,
+    setAttribute,
+    addAttributeColumn,
+    removeAttributeColumn,
+    replaceInAttributes,
+    parseCsv,
+    joinCsvAttributes,
+    attributeEdits,
+    type AttributeRow,
+    type AttributeTable,
+    type FindReplaceOptions,
+    type CsvJoinOptions,
+    type CsvJoinResult
+} from './attributes'
@@ -0,0 +1,105 @@
+import { fingerprintKml, type KmlFingerprint } from './fingerprint'
+import { isKmz, readKmlSource } from './kmz'
+import { parseKml } from './parse'
+import { summarizeKml, type KmlSummary } from './summary'
+import type { KmlDocument } from './types'
+import { validateGeometry } from './validate'
+
+/**
+ * Pre-upload inspection
+ * A quick look at a selected file before it is uploaded: whether it is usable at all
+ * (blocking errors) and what the analysis will find (summary and warnings).
+ */
+
+export interface KmlInspection {
+    format: 'kml' | 'kmz'
+    placemarkCount: number
+    /** Totals for the preview; null when the file could not be parsed */
+    summary: KmlSummary | null
+    /** Problems that make the file unusable; such files are not uploaded */
+    errors: string[]
+    /** Problems the analysis will report, e.g. invalid geometries */
+    warnings: string[]
+    /** For finding earlier uploads of the same file; null when it could not be computed */
+    fingerprint: KmlFingerprint | null
+}
+
+/**
+ * Inspects the raw contents of a KML or KMZ file
+ *
+ * @param bytes - Raw file contents
+ * @param fileName - The file name, used to check the contents match the extension
+ * @returns Promise<KmlInspection> - Blocking errors, warnings, a summary of the contents and the file's fingerprint
+ */
+export async function inspectKml(bytes: Uint8Array, fileName: string): Promise<KmlInspection> {
+    const format = isKmz(bytes) ? 'kmz' : 'kml'
+    const inspection: KmlInspection = {
+        format,
+        placemarkCount: 0,
+        summary: null,
+        errors: [],
+        warnings: [],
+        fingerprint: null
+    }
+
+    if (bytes.length === 0) {
+        inspection.errors.push('The file is empty')
+        return inspection
+    }
+    if (/\.kmz$/i.test(fileName) && format !== 'kmz') {
+        inspection.errors.push('The file has a .kmz extension but is not a KMZ (zip) archive')
+        return inspection
+    }
+
+    let document: KmlDocument | null = null
+    try {
+        document = parseKml(readKmlSource(bytes))
+        inspection.placemarkCount = document.placemarks.length
+        inspection.summary = summarizeKml(document)
+
+        if (document.placemarks.length === 0) {
+            inspection.errors.push('The file contains no placemarks')
+        }
+
+        const withoutGeometry = document.placemarks.filter(placemark => !placemark.geometry).length
+        if (withoutGeometry > 0) {
+            inspection.warnings.push(`${withoutGeometry} placemark${withoutGeometry === 1 ? ' has' : 's have'} no geometry`)
+        }
+
+        const invalid = document.placemarks.filter(placemark =>
+            validateGeometry(placemark.geometry).some(issue => issue.severity === 'error')
+        ).length
+        if (invalid > 0) {
+            inspection.warnings.push(`${invalid} placemark${invalid === 1 ? ' has' : 's have'} invalid geometry`)
+        }
+    } catch (error) {
+        inspection.errors.push(error instanceof Error ? error.message : 'The file could not be read')
+    }
+
+    if (inspection.errors.length === 0) {
+        try {
+            inspection.fingerprint = await fingerprintKml(bytes, document)
+        } catch (error) {
+            // Web Crypto is missing outside secure contexts (plain HTTP other than localhost)
+            console.warn('Could not fingerprint file:', error)
+        }
+    }
+
+    return inspection
+}
+
+/**
+ * Recognises KML and KMZ files from their first bytes
+ * Used where the whole file is not at hand, e.g. while it is streamed to storage.
+ *
+ * @param head - The first few kilobytes of the file
+ * @returns 'kml' | 'kmz' | null - The format, or null when the bytes are neither
+ */
+export function sniffKmlFormat(head: Uint8Array): 'kml' | 'kmz' | null {
+    if (isKmz(head)) return 'kmz'
+
+    // An XML declaration, comments and a BOM may come before the root element
+    const text = new TextDecoder().decode(head).replace(/^\uFEFF?\s*/, '')
+    if (text.charAt(0) !== '<') return null
+    return /<(\w+:)?kml[\s>]/.test(text) ? 'kml' : null
+}
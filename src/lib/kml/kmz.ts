@@ -0,0 +1,85 @@
+import { unzipSync, zipSync, strFromU8, strToU8 } from 'fflate'
+
+/**
+ * KMZ helpers
+ * A KMZ is a zip archive whose main document is `doc.kml` (or, for files produced
+ * by older tools, the first .kml entry in the archive)
+ */
+
+const ZIP_SIGNATURE = [0x50, 0x4b, 0x03, 0x04]
+
+/**
+ * Checks whether the given bytes start with a zip local file header
+ *
+ * @param bytes - Raw file contents
+ * @returns boolean - True when the bytes look like a KMZ/zip archive
+ */
+export function isKmz(bytes: Uint8Array): boolean {
+    return ZIP_SIGNATURE.every((byte, index) => bytes[index] === byte)
+}
+
+/**
+ * Extracts the main KML document from a KMZ archive
+ *
+ * @param bytes - Raw KMZ contents
+ * @returns string - The text of the main KML document
+ */
+export function extractKmzDocument(bytes: Uint8Array): string {
+    let entries: Record<string, Uint8Array>
+    try {
+        entries = unzipSync(bytes, {
+            filter: (file) => file.name.toLowerCase().endsWith('.kml')
+        })
+    } catch (error) {
+        const reason = error instanceof Error ? error.message : 'unknown error'
+        throw new Error(`Invalid KMZ archive: ${reason}`)
+    }
+
+    return strFromU8(entries[mainEntryName(Object.keys(entries))])
+}
+
+/**
+ * Builds a copy of a KMZ archive with a new main KML document
+ * Every other entry (images, models, further .kml files) is kept as it was.
+ *
+ * @param bytes - Raw KMZ contents
+ * @param text - The new text of the main KML document
+ * @returns Uint8Array - The new archive
+ */
+export function replaceKmzDocument(bytes: Uint8Array, text: string): Uint8Array {
+    let entries: Record<string, Uint8Array>
+    try {
+        entries = unzipSync(bytes)
+    } catch (error) {
+        const reason = error instanceof Error ? error.message : 'unknown error'
+        throw new Error(`Invalid KMZ archive: ${reason}`)
+    }
+
+    const mainEntry = mainEntryName(Object.keys(entries).filter(name => name.toLowerCase().endsWith('.kml')))
+
+    return zipSync({ ...entries, [mainEntry]: strToU8(text) })
+}
+
+/**
+ * Decodes raw KML or KMZ bytes into KML text
+ *
+ * @param bytes - Raw file contents
+ * @returns string - KML text with any byte order mark removed
+ */
+export function readKmlSource(bytes: Uint8Array): string {
+    const text = isKmz(bytes) ? extractKmzDocument(bytes) : strFromU8(bytes)
+    return text.replace(/^\uFEFF/, '')
+}
+
+// Picks the main document among the archive's .kml entries
+function mainEntryName(names: string[]): string {
+    const mainEntry =
+        names.find(name => name.toLowerCase() === 'doc.kml') ||
+        names.find(name => !name.includes('/')) ||
+        names[0]
+
+    if (!mainEntry) {
+        throw new Error('Invalid KMZ archive: no .kml document found')
+    }
+    return mainEntry
+}
@@ -0,0 +1,194 @@
+import { flattenGeometry } from './geometry'
+import type { Coordinate, KmlGeometry, LinearRing, PolygonGeometry } from './types'
+
+/**
+ * Geodesic measurements on the WGS84 ellipsoid
+ * Areas are computed on the authalic (equal-area) sphere after converting latitudes
+ * to authalic latitudes, which keeps the error well below 0.1% for plot-sized
+ * polygons. Distances use Vincenty's inverse formula.
+ */
+
+const WGS84_A = 6378137
+const WGS84_F = 1 / 298.257223563
+const WGS84_B = WGS84_A * (1 - WGS84_F)
+const WGS84_E2 = WGS84_F * (2 - WGS84_F)
+const WGS84_E = Math.sqrt(WGS84_E2)
+
+// q(φ) at the pole, and the radius of the sphere with the same surface area as the ellipsoid
+const Q_POLE = authalicQ(1)
+const AUTHALIC_RADIUS = WGS84_A * Math.sqrt(Q_POLE / 2)
+
+export interface GeometryMeasurement {
+    /** Polygon area with holes subtracted, in square meters */
+    areaSquareMeters: number
+    /** Length of the outer boundaries, in meters */
+    perimeterMeters: number
+}
+
+/**
+ * Measures the polygons of a geometry (MultiGeometry parts are summed)
+ * Points and LineStrings contribute nothing
+ *
+ * @param geometry - Any KML geometry
+ * @returns GeometryMeasurement - Area and perimeter of the polygon parts
+ */
+export function measureGeometry(geometry: KmlGeometry | null): GeometryMeasurement {
+    return flattenGeometry(geometry).reduce<GeometryMeasurement>(
+        (total, part) => {
+            if (part.type !== 'Polygon') return total
+            return {
+                areaSquareMeters: total.areaSquareMeters + polygonArea(part),
+                perimeterMeters: total.perimeterMeters + ringLength(part.outerBoundary)
+            }
+        },
+        { areaSquareMeters: 0, perimeterMeters: 0 }
+    )
+}
+
+/**
+ * Geodesic area of a polygon, holes subtracted
+ *
+ * @param polygon - The polygon to measure
+ * @returns number - Area in square meters
+ */
+export function polygonArea(polygon: PolygonGeometry): number {
+    const outer = Math.abs(ringArea(polygon.outerBoundary))
+    const holes = polygon.innerBoundaries.reduce((sum, ring) => sum + Math.abs(ringArea(ring)), 0)
+    return Math.max(outer - holes, 0)
+}
+
+/**
+ * Signed geodesic area of a ring; positive when the ring is counter-clockwise
+ * The ring may be open or closed
+ *
+ * @param ring - Ring vertices in lon/lat order
+ * @returns number - Signed area in square meters
+ */
+export function ringArea(ring: LinearRing): number {
+    const points = openRing(ring)
+    if (points.length < 3) return 0
+
+    let sum = 0
+    for (let i = 0; i < points.length; i++) {
+        const previous = points[(i + points.length - 1) % points.length]
+        const current = points[i]
+        const next = points[(i + 1) % points.length]
+        sum += (toRadians(next[0]) - toRadians(previous[0])) * Math.sin(authalicLatitude(current[1]))
+    }
+
+    // The sum is clockwise-positive, so flip it for the usual orientation convention
+    return -(sum * AUTHALIC_RADIUS * AUTHALIC_RADIUS) / 2
+}
+
+/**
+ * Length of a ring including the closing segment
+ *
+ * @param ring - Ring vertices in lon/lat order; may be open or closed
+ * @returns number - Length in meters
+ */
+export function ringLength(ring: LinearRing): number {
+    const points = openRing(ring)
+    if (points.length < 2) return 0
+    return lineLength(points.concat([points[0]]))
+}
+
+/**
+ * Length of a line string
+ *
+ * @param coordinates - Vertices in lon/lat order
+ * @returns number - Length in meters
+ */
+export function lineLength(coordinates: Coordinate[]): number {
+    let length = 0
+    for (let i = 1; i < coordinates.length; i++) {
+        length += geodesicDistance(coordinates[i - 1], coordinates[i])
+    }
+    return length
+}
+
+/**
+ * Geodesic distance between two points using Vincenty's inverse formula
+ * Falls back to the haversine distance for nearly antipodal points, where
+ * Vincenty's iteration does not converge
+ *
+ * @param from - Start point in lon/lat order
+ * @param to - End point in lon/lat order
+ * @returns number - Distance in meters
+ */
+export function geodesicDistance(from: Coordinate, to: Coordinate): number {
+    const L = toRadians(to[0] - from[0])
+    const U1 = Math.atan((1 - WGS84_F) * Math.tan(toRadians(from[1])))
+    const U2 = Math.atan((1 - WGS84_F) * Math.tan(toRadians(to[1])))
+    const sinU1 = Math.sin(U1)
+    const cosU1 = Math.cos(U1)
+    const sinU2 = Math.sin(U2)
+    const cosU2 = Math.cos(U2)
+
+    let lambda = L
+    for (let iteration = 0; iteration < 100; iteration++) {
+        const sinLambda = Math.sin(lambda)
+        const cosLambda = Math.cos(lambda)
+        const sinSigma = Math.sqrt(
+            (cosU2 * sinLambda) ** 2 + (cosU1 * sinU2 - sinU1 * cosU2 * cosLambda) ** 2
+        )
+        if (sinSigma === 0) return 0
+
+        const cosSigma = sinU1 * sinU2 + cosU1 * cosU2 * cosLambda
+        const sigma = Math.atan2(sinSigma, cosSigma)
+        const sinAlpha = (cosU1 * cosU2 * sinLambda) / sinSigma
+        const cos2Alpha = 1 - sinAlpha * sinAlpha
+        const cos2SigmaM = cos2Alpha === 0 ? 0 : cosSigma - (2 * sinU1 * sinU2) / cos2Alpha
+        const C = (WGS84_F / 16) * cos2Alpha * (4 + WGS84_F * (4 - 3 * cos2Alpha))
+        const previousLambda = lambda
+        lambda = L + (1 - C) * WGS84_F * sinAlpha *
+            (sigma + C * sinSigma * (cos2SigmaM + C * cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM)))
+
+        if (Math.abs(lambda - previousLambda) < 1e-12) {
+            const u2 = (cos2Alpha * (WGS84_A * WGS84_A - WGS84_B * WGS84_B)) / (WGS84_B * WGS84_B)
+            const A = 1 + (u2 / 16384) * (4096 + u2 * (-768 + u2 * (320 - 175 * u2)))
+            const B = (u2 / 1024) * (256 + u2 * (-128 + u2 * (74 - 47 * u2)))
+            const deltaSigma = B * sinSigma * (cos2SigmaM + (B / 4) * (
+                cosSigma * (-1 + 2 * cos2SigmaM * cos2SigmaM) -
+                (B / 6) * cos2SigmaM * (-3 + 4 * sinSigma * sinSigma) * (-3 + 4 * cos2SigmaM * cos2SigmaM)
+            ))
+            return WGS84_B * A * (sigma - deltaSigma)
+        }
+    }
+
+    return haversineDistance(from, to)
+}
+
+function haversineDistance(from: Coordinate, to: Coordinate): number {
+    const dLat = toRadians(to[1] - from[1])
+    const dLon = toRadians(to[0] - from[0])
+    const h = Math.sin(dLat / 2) ** 2 +
+        Math.cos(toRadians(from[1])) * Math.cos(toRadians(to[1])) * Math.sin(dLon / 2) ** 2
+    return 2 * AUTHALIC_RADIUS * Math.asin(Math.min(1, Math.sqrt(h)))
+}
+
+/**
+ * Drops the closing vertex of a closed ring
+ */
+function openRing(ring: LinearRing): Coordinate[] {
+    if (ring.length < 2) return ring
+    const first = ring[0]
+    const last = ring[ring.length - 1]
+    return first[0] === last[0] && first[1] === last[1] ? ring.slice(0, -1) : ring
+}
+
+function authalicLatitude(latitude: number): number {
+    const ratio = authalicQ(Math.sin(toRadians(latitude))) / Q_POLE
+    return Math.asin(Math.max(-1, Math.min(1, ratio)))
+}
+
+function authalicQ(sinPhi: number): number {
+    const eSinPhi = WGS84_E * sinPhi
+    return (1 - WGS84_E2) * (
+        sinPhi / (1 - eSinPhi * eSinPhi) -
+        (1 / (2 * WGS84_E)) * Math.log((1 - eSinPhi) / (1 + eSinPhi))
+    )
+}
+
+function toRadians(degrees: number): number {
+    return (degrees * Math.PI) / 180
+}
@@ -0,0 +1,131 @@
+import polygonClipping, { type MultiPolygon } from 'polygon-clipping'
+import { computeBoundingBox, flattenGeometry } from './geometry'
+import { polygonArea } from './measure'
+import type { BoundingBox, Coordinate, KmlPlacemark } from './types'
+
+/**
+ * Plot overlap detection
+ * Plots are reduced to footprints (the union of their polygons) so they can be stored
+ * and compared against plots from other files. Intersections are computed in lon/lat
+ * and measured geodesically.
+ */
+
+/**
+ * The polygon extent of one Placemark
+ */
+export interface PlotFootprint {
+    id: string
+    name?: string
+    /** Polygons as [outer, ...holes] rings, closed, in lon/lat order */
+    polygons: Coordinate[][][]
+    boundingBox: BoundingBox
+    areaSquareMeters: number
+}
+
+export interface PlotOverlap {
+    plotId: string
+    plotName?: string
+    otherPlotId: string
+    otherPlotName?: string
+    areaSquareMeters: number
+    /** Overlap area as a percentage of the plot's area */
+    percentOfPlot: number
+    /** Overlap area as a percentage of the other plot's area */
+    percentOfOther: number
+}
+
+// Plots that only share an edge produce numerical slivers well below this
+export const MIN_OVERLAP_SQUARE_METERS = 1
+
+/**
+ * Builds the footprint of a Placemark
+ *
+ * @param placemark - The Placemark
+ * @returns PlotFootprint | null - The footprint, or null when the Placemark has no usable polygon
+ */
+export function plotFootprint(placemark: KmlPlacemark): PlotFootprint | null {
+    const polygons = flattenGeometry(placemark.geometry)
+        .reduce<MultiPolygon>((all, part) => part.type === 'Polygon'
+            ? all.concat([[part.outerBoundary].concat(part.innerBoundaries).map(toClipRing)])
+            : all, [])
+        .filter(polygon => polygon[0].length >= 4)
+    if (polygons.length === 0) return null
+
+    let union: MultiPolygon
+    try {
+        union = polygonClipping.union(polygons)
+    } catch {
+        // Degenerate input polygon-clipping cannot resolve; validation reports it
+        return null
+    }
+
+    const areaSquareMeters = multiPolygonArea(union)
+    const boundingBox = computeBoundingBox(union.reduce<Coordinate[]>((all, polygon) => all.concat(polygon[0]), []))
+    if (areaSquareMeters === 0 || !boundingBox) return null
+
+    return { id: placemark.id, name: placemark.name, polygons: union, boundingBox, areaSquareMeters }
+}
+
+/**
+ * Finds intersecting plot pairs
+ * With only `plots`, every pair within the list is compared; with `others`, every
+ * plot is compared against every other plot instead.
+ *
+ * @param plots - Footprints to check
+ * @param others - Optional footprints to check against
+ * @returns PlotOverlap[] - Intersecting pairs, largest overlap first
+ */
+export function findOverlaps(plots: PlotFootprint[], others?: PlotFootprint[]): PlotOverlap[] {
+    const overlaps: PlotOverlap[] = []
+
+    plots.forEach((plot, index) => {
+        const candidates = others || plots.slice(index + 1)
+        candidates.forEach((other) => {
+            if (!boxesIntersect(plot.boundingBox, other.boundingBox)) return
+
+            const overlap = measureOverlap(plot, other)
+            if (overlap) overlaps.push(overlap)
+        })
+    })
+
+    return overlaps.sort((a, b) => b.areaSquareMeters - a.areaSquareMeters)
+}
+
+function measureOverlap(plot: PlotFootprint, other: PlotFootprint): PlotOverlap | null {
+    let intersection: MultiPolygon
+    try {
+        intersection = polygonClipping.intersection(plot.polygons as MultiPolygon, other.polygons as MultiPolygon)
+    } catch {
+        return null
+    }
+
+    const areaSquareMeters = multiPolygonArea(intersection)
+    if (areaSquareMeters < MIN_OVERLAP_SQUARE_METERS) return null
+
+    return {
+        plotId: plot.id,
+        plotName: plot.name,
+        otherPlotId: other.id,
+        otherPlotName: other.name,
+        areaSquareMeters,
+        percentOfPlot: (areaSquareMeters / plot.areaSquareMeters) * 100,
+        percentOfOther: (areaSquareMeters / other.areaSquareMeters) * 100
+    }
+}
+
+function multiPolygonArea(polygons: Coordinate[][][]): number {
+    return polygons.reduce((sum, [outerBoundary, ...innerBoundaries]) =>
+        sum + polygonArea({ type: 'Polygon', outerBoundary, innerBoundaries }), 0)
+}
+
+function boxesIntersect(a: BoundingBox, b: BoundingBox): boolean {
+    return a.west <= b.east && b.west <= a.east && a.south <= b.north && b.south <= a.north
+}
+
+function toClipRing(ring: Coordinate[]): [number, number][] {
+    const vertices = ring.map(([lon, lat]) => [lon, lat] as [number, number])
+    const first = vertices[0]
+    const last = vertices[vertices.length - 1]
+    if (first && (first[0] !== last[0] || first[1] !== last[1])) vertices.push(first)
+    return vertices
+}
@@ -0,0 +1,297 @@
+import { XMLValidator } from 'fast-xml-parser'
+import { readKmlSource } from './kmz'
+import type {
+    Coordinate,
+    KmlContainer,
+    KmlDocument,
+    KmlExtendedData,
+    KmlGeometry,
+    KmlNode,
+    KmlPlacemark,
+    KmlStyle,
+    KmlStyleMap,
+    LinearRing
+} from './types'
+import {
+    attribute,
+    childElement,
+    childElements,
+    childText,
+    findElement,
+    localName,
+    parseXml,
+    tagName,
+    textContent,
+    type XmlNode
+} from './xml'
+
+/**
+ * KML parser
+ * Converts KML text into the typed feature model in ./types. Namespace prefixes
+ * (kml:, gx:) are ignored so that prefixed and unprefixed documents parse the same way,
+ * and Documents, Folders and Placemarks are read in the order the file lists them.
+ */
+
+const GEOMETRY_ELEMENTS = ['Point', 'LineString', 'LinearRing', 'Polygon', 'MultiGeometry']
+
+interface ParseContext {
+    placemarks: KmlPlacemark[]
+}
+
+/**
+ * Parses KML text into a typed document
+ *
+ * @param text - The KML document text
+ * @returns KmlDocument - The container tree plus a flat list of Placemarks
+ */
+export function parseKml(text: string): KmlDocument {
+    const validation = XMLValidator.validate(text)
+    if (validation !== true) {
+        const { msg, line } = validation.err
+        throw new Error(`Invalid KML: ${msg} (line ${line})`)
+    }
+
+    const kml = findElement(parseXml(text), 'kml')
+    if (!kml) {
+        throw new Error('Invalid KML: missing <kml> root element')
+    }
+
+    const context: ParseContext = { placemarks: [] }
+    const documents = childElements(kml, 'Document')
+
+    // A single top-level Document is the usual shape; anything else gets wrapped
+    const root = documents.length === 1 && childElements(kml, 'Folder').length === 0 && childElements(kml, 'Placemark').length === 0
+        ? readContainer(documents[0], 'Document', [], context)
+        : readContainer(kml, 'Document', [], context)
+
+    return { root, placemarks: context.placemarks }
+}
+
+/**
+ * Parses raw KML or KMZ bytes
+ *
+ * @param bytes - Raw file contents
+ * @returns KmlDocument - The parsed document
+ */
+export function parseKmlBytes(bytes: Uint8Array): KmlDocument {
+    return parseKml(readKmlSource(bytes))
+}
+
+/**
+ * Reads and parses a KML or KMZ file selected in the browser
+ *
+ * @param file - The file to parse
+ * @returns Promise<KmlDocument> - The parsed document
+ */
+export async function parseKmlFile(file: Blob): Promise<KmlDocument> {
+    const buffer = await file.arrayBuffer()
+    return parseKmlBytes(new Uint8Array(buffer))
+}
+
+/**
+ * Parses a KML coordinates string ("lon,lat[,alt] lon,lat[,alt] ...")
+ * Whitespace around commas is tolerated since hand-edited files often contain it
+ *
+ * @param value - The raw text of a <coordinates> element
+ * @returns Coordinate[] - Parsed coordinate tuples
+ */
+export function parseCoordinates(value: string): Coordinate[] {
+    return value
+        .trim()
+        .replace(/\s*,\s*/g, ',')
+        .split(/\s+/)
+        .filter(Boolean)
+        .map((tuple) => {
+            const parts = tuple.split(',').map(Number)
+            if (parts.length < 2 || parts.some(isNaN)) {
+                throw new Error(`Invalid KML: malformed coordinate "${tuple}"`)
+            }
+            return parts.length > 2
+                ? [parts[0], parts[1], parts[2]] as Coordinate
+                : [parts[0], parts[1]] as Coordinate
+        })
+}
+
+/**
+ * Reads a Document or Folder and everything below it
+ */
+function readContainer(
+    node: XmlNode,
+    kind: KmlContainer['kind'],
+    parentPath: string[],
+    context: ParseContext
+): KmlContainer {
+    const name = childText(node, 'name')
+    const path = name ? [...parentPath, name] : parentPath
+    const children: KmlNode[] = []
+
+    childElements(node).forEach((child) => {
+        const childName = localName(tagName(child) as string)
+        if (childName === 'Document' || childName === 'Folder') {
+            children.push(readContainer(child, childName, path, context))
+        } else if (childName === 'Placemark') {
+            children.push(readPlacemark(child, path, context))
+        }
+    })
+
+    return {
+        kind,
+        kmlId: attribute(node, 'id'),
+        name,
+        description: childText(node, 'description'),
+        styles: childElements(node, 'Style').map(readStyle),
+        styleMaps: childElements(node, 'StyleMap').map(readStyleMap),
+        children
+    }
+}
+
+function readPlacemark(node: XmlNode, path: string[], context: ParseContext): KmlPlacemark {
+    const style = childElement(node, 'Style')
+    const placemark: KmlPlacemark = {
+        kind: 'Placemark',
+        id: `pm-${context.placemarks.length}`,
+        kmlId: attribute(node, 'id'),
+        name: childText(node, 'name'),
+        description: childText(node, 'description'),
+        styleUrl: childText(node, 'styleUrl'),
+        style: style ? readStyle(style) : undefined,
+        extendedData: readExtendedData(childElement(node, 'ExtendedData')),
+        geometry: readGeometries(node)[0] || null,
+        path
+    }
+
+    context.placemarks.push(placemark)
+    return placemark
+}
+
+/**
+ * Reads every geometry element directly under the given node
+ */
+function readGeometries(node: XmlNode): KmlGeometry[] {
+    return childElements(node)
+        .filter(element => GEOMETRY_ELEMENTS.indexOf(localName(tagName(element) as string)) !== -1)
+        .map(readGeometry)
+        .filter((geometry): geometry is KmlGeometry => geometry !== null)
+}
+
+// Null for a Point without coordinates
+function readGeometry(element: XmlNode): KmlGeometry | null {
+    switch (localName(tagName(element) as string)) {
+        case 'Point': {
+            const [coordinate] = readCoordinates(element)
+            return coordinate ? { type: 'Point', coordinates: coordinate } : null
+        }
+        case 'LineString':
+            return { type: 'LineString', coordinates: readCoordinates(element) }
+        case 'LinearRing':
+            // A bare LinearRing is treated as a polygon without holes
+            return { type: 'Polygon', outerBoundary: readCoordinates(element), innerBoundaries: [] }
+        case 'Polygon':
+            return readPolygon(element)
+        case 'MultiGeometry':
+            return { type: 'MultiGeometry', geometries: readGeometries(element) }
+        default:
+            return null
+    }
+}
+
+function readPolygon(node: XmlNode): KmlGeometry {
+    const outerRing = childElement(node, 'outerBoundaryIs', 'LinearRing')
+    const innerBoundaries: LinearRing[] = []
+
+    childElements(node, 'innerBoundaryIs').forEach((boundary) => {
+        childElements(boundary, 'LinearRing').forEach(ring => innerBoundaries.push(readCoordinates(ring)))
+    })
+
+    return {
+        type: 'Polygon',
+        outerBoundary: outerRing ? readCoordinates(outerRing) : [],
+        innerBoundaries
+    }
+}
+
+function readCoordinates(node: XmlNode): Coordinate[] {
+    const value = childText(node, 'coordinates')
+    return value ? parseCoordinates(value) : []
+}
+
+function readExtendedData(node: XmlNode | undefined): KmlExtendedData {
+    const extendedData: KmlExtendedData = { fields: {} }
+
+    childElements(node).forEach((child) => {
+        const childName = localName(tagName(child) as string)
+        if (childName === 'Data') {
+            const name = attribute(child, 'name')
+            if (name) extendedData.fields[name] = childText(child, 'value') || ''
+        } else if (childName === 'SchemaData') {
+            extendedData.schemaUrl = extendedData.schemaUrl || attribute(child, 'schemaUrl')
+            childElements(child, 'SimpleData').forEach((simpleData) => {
+                const name = attribute(simpleData, 'name')
+                if (name) extendedData.fields[name] = textContent(simpleData) || ''
+            })
+        }
+    })
+
+    return extendedData
+}
+
+function readStyle(node: XmlNode): KmlStyle {
+    const style: KmlStyle = { id: attribute(node, 'id') }
+    const lineStyle = childElement(node, 'LineStyle')
+    const polyStyle = childElement(node, 'PolyStyle')
+    const iconStyle = childElement(node, 'IconStyle')
+    const labelStyle = childElement(node, 'LabelStyle')
+
+    if (lineStyle) {
+        style.lineStyle = {
+            color: childText(lineStyle, 'color'),
+            width: readNumber(childText(lineStyle, 'width'))
+        }
+    }
+    if (polyStyle) {
+        style.polyStyle = {
+            color: childText(polyStyle, 'color'),
+            fill: readBoolean(childText(polyStyle, 'fill')),
+            outline: readBoolean(childText(polyStyle, 'outline'))
+        }
+    }
+    if (iconStyle) {
+        style.iconStyle = {
+            color: childText(iconStyle, 'color'),
+            scale: readNumber(childText(iconStyle, 'scale')),
+            href: childText(iconStyle, 'Icon', 'href')
+        }
+    }
+    if (labelStyle) {
+        style.labelStyle = {
+            color: childText(labelStyle, 'color'),
+            scale: readNumber(childText(labelStyle, 'scale'))
+        }
+    }
+
+    return style
+}
+
+function readStyleMap(node: XmlNode): KmlStyleMap {
+    const styleMap: KmlStyleMap = { id: attribute(node, 'id') }
+
+    childElements(node, 'Pair').forEach((pair) => {
+        const key = childText(pair, 'key')
+        if (key === 'normal' || key === 'highlight') {
+            styleMap[key] = childText(pair, 'styleUrl')
+        }
+    })
+
+    return styleMap
+}
+
+function readNumber(text: string | undefined): number | undefined {
+    if (text === undefined || text === '') return undefined
+    const number = Number(text)
+    return isNaN(number) ? undefined : number
+}
+
+function readBoolean(text: string | undefined): boolean | undefined {
+    if (text === undefined || text === '') return undefined
+    return text === '1' || text.toLowerCase() === 'true'
+}
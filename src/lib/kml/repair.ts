@@ -0,0 +1,305 @@
+import polygonClipping, { type MultiPolygon, type Polygon as ClipPolygon } from 'polygon-clipping'
+import { mapPlacemarks } from './document'
+import { ringArea } from './measure'
+import { DEFAULT_VALIDATION_OPTIONS, findSelfIntersections } from './validate'
+import type {
+    Coordinate,
+    KmlDocument,
+    KmlGeometry,
+    LinearRing,
+    PolygonGeometry
+} from './types'
+
+/**
+ * Automatic geometry repair
+ * Fixes the problems reported by ./validate that have an unambiguous fix: unclosed
+ * rings, duplicate and spike vertices, winding order, self-intersecting (bow-tie)
+ * boundaries and altitude noise. Problems without a safe fix (invalid coordinates,
+ * rings with too few vertices) are reported as unresolved and left untouched.
+ */
+
+export interface RepairOptions {
+    /** Drop altitude values; plot boundaries are clamped to ground */
+    stripAltitude: boolean
+    /** Vertices whose interior angle is below this are removed as spikes */
+    spikeAngleDegrees: number
+}
+
+export const DEFAULT_REPAIR_OPTIONS: RepairOptions = {
+    stripAltitude: true,
+    spikeAngleDegrees: DEFAULT_VALIDATION_OPTIONS.spikeAngleDegrees
+}
+
+export interface PlacemarkRepair {
+    placemarkId: string
+    name?: string
+    /** Changes that were applied */
+    changes: string[]
+    /** Problems found that could not be repaired automatically */
+    unresolved: string[]
+}
+
+export interface RepairResult {
+    document: KmlDocument
+    /** One entry per Placemark that was changed or has unresolved problems */
+    repairs: PlacemarkRepair[]
+}
+
+interface GeometryRepair {
+    geometries: KmlGeometry[]
+    changes: string[]
+    unresolved: string[]
+}
+
+/**
+ * Repairs every Placemark geometry of a document
+ *
+ * @param document - The parsed document (not modified)
+ * @param options - Repair options
+ * @returns RepairResult - The repaired document and a change log per Placemark
+ */
+export function repairDocument(
+    document: KmlDocument,
+    options: RepairOptions = DEFAULT_REPAIR_OPTIONS
+): RepairResult {
+    const repairs: PlacemarkRepair[] = []
+
+    const repaired = mapPlacemarks(document, (placemark) => {
+        if (!placemark.geometry) return placemark
+
+        const result = repairGeometry(placemark.geometry, options)
+        if (result.changes.length > 0 || result.unresolved.length > 0) {
+            repairs.push({
+                placemarkId: placemark.id,
+                name: placemark.name,
+                changes: summarizeMessages(result.changes),
+                unresolved: summarizeMessages(result.unresolved)
+            })
+        }
+
+        const geometry: KmlGeometry = result.geometries.length === 1
+            ? result.geometries[0]
+            : { type: 'MultiGeometry', geometries: result.geometries }
+        return { ...placemark, geometry }
+    })
+
+    return { document: repaired, repairs }
+}
+
+function repairGeometry(geometry: KmlGeometry, options: RepairOptions): GeometryRepair {
+    switch (geometry.type) {
+        case 'Point': {
+            const [coordinate] = stripAltitude([geometry.coordinates], options)
+            return {
+                geometries: [{ type: 'Point', coordinates: coordinate }],
+                changes: coordinate.length < geometry.coordinates.length ? ['Removed altitude'] : [],
+                unresolved: []
+            }
+        }
+
+        case 'LineString': {
+            const changes: string[] = []
+            let coordinates = stripAltitude(geometry.coordinates, options)
+            if (coordinates !== geometry.coordinates) changes.push('Removed altitude')
+            const deduplicated = removeConsecutiveDuplicates(coordinates)
+            if (deduplicated.length < coordinates.length) {
+                changes.push(`Removed ${countVertices(coordinates.length - deduplicated.length, 'duplicate')}`)
+                coordinates = deduplicated
+            }
+            return { geometries: [{ type: 'LineString', coordinates }], changes, unresolved: [] }
+        }
+
+        case 'Polygon':
+            return repairPolygon(geometry, options)
+
+        case 'MultiGeometry': {
+            const parts = geometry.geometries.map(part => repairGeometry(part, options))
+            return {
+                geometries: [{
+                    type: 'MultiGeometry',
+                    geometries: parts.reduce<KmlGeometry[]>((all, part) => all.concat(part.geometries), [])
+                }],
+                changes: parts.reduce<string[]>((all, part) => all.concat(part.changes), []),
+                unresolved: parts.reduce<string[]>((all, part) => all.concat(part.unresolved), [])
+            }
+        }
+    }
+}
+
+function repairPolygon(polygon: PolygonGeometry, options: RepairOptions): GeometryRepair {
+    const changes: string[] = []
+    const unresolved: string[] = []
+    const unchanged = { geometries: [polygon], changes, unresolved }
+
+    const allRings = [polygon.outerBoundary].concat(polygon.innerBoundaries)
+    if (allRings.some(ring => ring.some(isInvalidCoordinate))) {
+        unresolved.push('Coordinates outside the valid longitude/latitude range')
+        return unchanged
+    }
+
+    const outer = cleanRing(polygon.outerBoundary, 'outer boundary', options, changes)
+    if (outer.length < 3) {
+        unresolved.push('Outer boundary has fewer than 3 distinct vertices')
+        return unchanged
+    }
+
+    const inners: Coordinate[][] = []
+    polygon.innerBoundaries.forEach((ring) => {
+        const cleaned = cleanRing(ring, 'inner boundary', options, changes)
+        if (cleaned.length < 3) {
+            changes.push('Dropped inner boundary with fewer than 3 distinct vertices')
+        } else {
+            inners.push(cleaned)
+        }
+    })
+
+    const isSelfIntersecting = [outer].concat(inners).some(ring => findSelfIntersections(ring).length > 0)
+    if (isSelfIntersecting) {
+        const rebuilt = rebuildPolygon(outer, inners)
+        if (rebuilt.length === 0) {
+            unresolved.push('Self-intersecting boundary encloses no area')
+            return unchanged
+        }
+        changes.push(rebuilt.length > 1
+            ? `Split self-intersecting polygon into ${rebuilt.length} polygons`
+            : 'Rebuilt self-intersecting boundary')
+        return { geometries: rebuilt, changes, unresolved }
+    }
+
+    if (Math.abs(ringArea(outer)) === 0) {
+        unresolved.push('Outer boundary encloses no area')
+        return unchanged
+    }
+
+    return {
+        geometries: [{
+            type: 'Polygon',
+            outerBoundary: closeRing(orientRing(outer, true, 'outer boundary', changes)),
+            innerBoundaries: inners.map(ring => closeRing(orientRing(ring, false, 'inner boundary', changes)))
+        }],
+        changes,
+        unresolved
+    }
+}
+
+/**
+ * Strips altitude, closes the ring and removes duplicate and spike vertices
+ * @returns Coordinate[] - The cleaned ring without its closing vertex
+ */
+function cleanRing(ring: LinearRing, ringName: string, options: RepairOptions, changes: string[]): Coordinate[] {
+    let vertices = stripAltitude(ring, options)
+    if (vertices !== ring) changes.push('Removed altitude')
+
+    if (vertices.length > 0 && !samePosition(vertices[0], vertices[vertices.length - 1])) {
+        changes.push(`Closed ${ringName}`)
+    } else {
+        vertices = vertices.slice(0, -1)
+    }
+
+    const deduplicated = removeConsecutiveDuplicates(vertices)
+    if (deduplicated.length < vertices.length) {
+        changes.push(`Removed ${countVertices(vertices.length - deduplicated.length, 'duplicate')} from ${ringName}`)
+    }
+
+    const withoutSpikes = removeSpikes(deduplicated, options.spikeAngleDegrees)
+    if (withoutSpikes.length < deduplicated.length) {
+        changes.push(`Removed ${countVertices(deduplicated.length - withoutSpikes.length, 'spike')} from ${ringName}`)
+    }
+
+    return withoutSpikes
+}
+
+/**
+ * Re-derives valid polygons from self-intersecting rings by unioning the shell
+ * and subtracting the holes; bow-ties come out as one polygon per lobe
+ */
+function rebuildPolygon(outer: Coordinate[], inners: Coordinate[][]): PolygonGeometry[] {
+    const toClipRing = (ring: Coordinate[]) => closeRing(ring).map(([lon, lat]) => [lon, lat] as [number, number])
+
+    let result: MultiPolygon = polygonClipping.union([toClipRing(outer)])
+    if (inners.length > 0) {
+        const holes: ClipPolygon[] = inners.map(ring => [toClipRing(ring)])
+        result = polygonClipping.difference(result, ...holes)
+    }
+
+    return result.map(([shell, ...holes]) => ({
+        type: 'Polygon',
+        outerBoundary: shell as Coordinate[],
+        innerBoundaries: holes as Coordinate[][]
+    }))
+}
+
+function orientRing(ring: Coordinate[], isOuter: boolean, ringName: string, changes: string[]): Coordinate[] {
+    const isCounterClockwise = ringArea(ring) > 0
+    if (isCounterClockwise === isOuter) return ring
+    changes.push(`Reversed ${ringName} to ${isOuter ? 'counter-clockwise' : 'clockwise'} order`)
+    return ring.slice().reverse()
+}
+
+function removeSpikes(vertices: Coordinate[], maxAngleDegrees: number): Coordinate[] {
+    let result = vertices
+    let hasRemoved = true
+
+    // Removing one spike can expose another at its neighbour, so repeat until stable
+    while (hasRemoved && result.length > 3) {
+        hasRemoved = false
+        const count = result.length
+        for (let i = 0; i < count; i++) {
+            if (interiorAngle(result[(i + count - 1) % count], result[i], result[(i + 1) % count]) < maxAngleDegrees) {
+                result = result.slice(0, i).concat(result.slice(i + 1))
+                hasRemoved = true
+                break
+            }
+        }
+    }
+
+    return result
+}
+
+function interiorAngle(previous: Coordinate, current: Coordinate, next: Coordinate): number {
+    const scale = Math.cos(current[1] * Math.PI / 180)
+    const ax = (previous[0] - current[0]) * scale
+    const ay = previous[1] - current[1]
+    const bx = (next[0] - current[0]) * scale
+    const by = next[1] - current[1]
+    const lengths = Math.hypot(ax, ay) * Math.hypot(bx, by)
+    if (lengths === 0) return 180
+    return Math.acos(Math.max(-1, Math.min(1, (ax * bx + ay * by) / lengths))) * 180 / Math.PI
+}
+
+/**
+ * Returns the same array when there is nothing to strip, so callers can detect changes
+ */
+function stripAltitude(coordinates: Coordinate[], options: RepairOptions): Coordinate[] {
+    if (!options.stripAltitude || !coordinates.some(coordinate => coordinate.length > 2)) return coordinates
+    return coordinates.map(([lon, lat]) => [lon, lat] as Coordinate)
+}
+
+function removeConsecutiveDuplicates(vertices: Coordinate[]): Coordinate[] {
+    const result = vertices.filter((vertex, index) => index === 0 || !samePosition(vertex, vertices[index - 1]))
+    while (result.length > 1 && samePosition(result[0], result[result.length - 1])) result.pop()
+    return result
+}
+
+function closeRing(vertices: Coordinate[]): Coordinate[] {
+    return vertices.concat([vertices[0]])
+}
+
+function isInvalidCoordinate([lon, lat]: Coordinate): boolean {
+    return !isFinite(lon) || !isFinite(lat) || lon < -180 || lon > 180 || lat < -90 || lat > 90
+}
+
+function samePosition(a: Coordinate, b: Coordinate): boolean {
+    return a[0] === b[0] && a[1] === b[1]
+}
+
+function countVertices(count: number, kind: string): string {
+    return `${count} ${kind} ${count === 1 ? 'vertex' : 'vertices'}`
+}
+
+/**
+ * Collapses repeated messages (e.g. "Removed altitude" once per ring) into one line
+ */
+function summarizeMessages(messages: string[]): string[] {
+    return messages.filter((message, index) => messages.indexOf(message) === index)
+}
@@ -0,0 +1,228 @@
+import type {
+    Coordinate,
+    KmlContainer,
+    KmlExtendedData,
+    KmlGeometry,
+    KmlPlacemark,
+    KmlStyle,
+    KmlStyleMap,
+    KmlDocument
+} from './types'
+
+/**
+ * KML writer
+ * Serializes the typed feature model back to KML 2.2. Everything the parser keeps
+ * (names, descriptions, styles, style maps, ExtendedData, geometry) round-trips;
+ * elements the parser ignores (NetworkLinks, overlays, Schema definitions) are not written.
+ */
+
+const INDENT = '  '
+
+/**
+ * Serializes a document to KML text
+ *
+ * @param document - The document to write
+ * @returns string - KML text
+ */
+export function serializeKml(document: KmlDocument): string {
+    const lines = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<kml xmlns="http://www.opengis.net/kml/2.2">'
+    ]
+    writeContainer(lines, document.root, 1)
+    lines.push('</kml>')
+    return lines.join('\n') + '\n'
+}
+
+/**
+ * Formats coordinates the way KML expects: "lon,lat[,alt]" tuples separated by spaces
+ *
+ * @param coordinates - Coordinates to format
+ * @returns string - The contents of a <coordinates> element
+ */
+export function formatCoordinates(coordinates: Coordinate[]): string {
+    return coordinates.map(coordinate => coordinate.join(',')).join(' ')
+}
+
+function writeContainer(lines: string[], container: KmlContainer, depth: number) {
+    const pad = INDENT.repeat(depth)
+    lines.push(`${pad}<${container.kind}${idAttribute(container.kmlId)}>`)
+    writeTextElement(lines, 'name', container.name, depth + 1)
+    writeDescription(lines, container.description, depth + 1)
+    container.styles.forEach(style => writeStyle(lines, style, depth + 1))
+    container.styleMaps.forEach(styleMap => writeStyleMap(lines, styleMap, depth + 1))
+    container.children.forEach((child) => {
+        if (child.kind === 'Placemark') writePlacemark(lines, child, depth + 1)
+        else writeContainer(lines, child, depth + 1)
+    })
+    lines.push(`${pad}</${container.kind}>`)
+}
+
+function writePlacemark(lines: string[], placemark: KmlPlacemark, depth: number) {
+    const pad = INDENT.repeat(depth)
+    lines.push(`${pad}<Placemark${idAttribute(placemark.kmlId)}>`)
+    writeTextElement(lines, 'name', placemark.name, depth + 1)
+    writeDescription(lines, placemark.description, depth + 1)
+    writeTextElement(lines, 'styleUrl', placemark.styleUrl, depth + 1)
+    if (placemark.style) writeStyle(lines, placemark.style, depth + 1)
+    writeExtendedData(lines, placemark.extendedData, depth + 1)
+    if (placemark.geometry) writeGeometry(lines, placemark.geometry, depth + 1)
+    lines.push(`${pad}</Placemark>`)
+}
+
+function writeGeometry(lines: string[], geometry: KmlGeometry, depth: number) {
+    const pad = INDENT.repeat(depth)
+    const inner = INDENT.repeat(depth + 1)
+
+    switch (geometry.type) {
+        case 'Point':
+            lines.push(`${pad}<Point>`)
+            lines.push(`${inner}<coordinates>${formatCoordinates([geometry.coordinates])}</coordinates>`)
+            lines.push(`${pad}</Point>`)
+            break
+        case 'LineString':
+            lines.push(`${pad}<LineString>`)
+            lines.push(`${inner}<coordinates>${formatCoordinates(geometry.coordinates)}</coordinates>`)
+            lines.push(`${pad}</LineString>`)
+            break
+        case 'Polygon':
+            lines.push(`${pad}<Polygon>`)
+            writeBoundary(lines, 'outerBoundaryIs', geometry.outerBoundary, depth + 1)
+            geometry.innerBoundaries.forEach(ring => writeBoundary(lines, 'innerBoundaryIs', ring, depth + 1))
+            lines.push(`${pad}</Polygon>`)
+            break
+        case 'MultiGeometry':
+            lines.push(`${pad}<MultiGeometry>`)
+            geometry.geometries.forEach(part => writeGeometry(lines, part, depth + 1))
+            lines.push(`${pad}</MultiGeometry>`)
+            break
+    }
+}
+
+function writeBoundary(lines: string[], tag: string, ring: Coordinate[], depth: number) {
+    const pad = INDENT.repeat(depth)
+    lines.push(`${pad}<${tag}>`)
+    lines.push(`${pad}${INDENT}<LinearRing>`)
+    lines.push(`${pad}${INDENT}${INDENT}<coordinates>${formatCoordinates(ring)}</coordinates>`)
+    lines.push(`${pad}${INDENT}</LinearRing>`)
+    lines.push(`${pad}</${tag}>`)
+}
+
+function writeExtendedData(lines: string[], extendedData: KmlExtendedData, depth: number) {
+    const keys = Object.keys(extendedData.fields)
+    if (keys.length === 0) return
+
+    const pad = INDENT.repeat(depth)
+    const inner = INDENT.repeat(depth + 1)
+    lines.push(`${pad}<ExtendedData>`)
+
+    if (extendedData.schemaUrl) {
+        lines.push(`${inner}<SchemaData schemaUrl="${escapeXml(extendedData.schemaUrl)}">`)
+        keys.forEach(key => lines.push(
+            `${inner}${INDENT}<SimpleData name="${escapeXml(key)}">${escapeXml(extendedData.fields[key])}</SimpleData>`
+        ))
+        lines.push(`${inner}</SchemaData>`)
+    } else {
+        keys.forEach(key => lines.push(
+            `${inner}<Data name="${escapeXml(key)}"><value>${escapeXml(extendedData.fields[key])}</value></Data>`
+        ))
+    }
+
+    lines.push(`${pad}</ExtendedData>`)
+}
+
+function writeStyle(lines: string[], style: KmlStyle, depth: number) {
+    const pad = INDENT.repeat(depth)
+    const inner = depth + 1
+    lines.push(`${pad}<Style${idAttribute(style.id)}>`)
+
+    if (style.iconStyle) {
+        writeSubStyle(lines, 'IconStyle', inner, [
+            ['color', style.iconStyle.color],
+            ['scale', style.iconStyle.scale]
+        ], style.iconStyle.href
+            ? `<Icon><href>${escapeXml(style.iconStyle.href)}</href></Icon>`
+            : undefined)
+    }
+    if (style.labelStyle) {
+        writeSubStyle(lines, 'LabelStyle', inner, [
+            ['color', style.labelStyle.color],
+            ['scale', style.labelStyle.scale]
+        ])
+    }
+    if (style.lineStyle) {
+        writeSubStyle(lines, 'LineStyle', inner, [
+            ['color', style.lineStyle.color],
+            ['width', style.lineStyle.width]
+        ])
+    }
+    if (style.polyStyle) {
+        writeSubStyle(lines, 'PolyStyle', inner, [
+            ['color', style.polyStyle.color],
+            ['fill', booleanValue(style.polyStyle.fill)],
+            ['outline', booleanValue(style.polyStyle.outline)]
+        ])
+    }
+
+    lines.push(`${pad}</Style>`)
+}
+
+function writeSubStyle(
+    lines: string[],
+    tag: string,
+    depth: number,
+    fields: [string, string | number | undefined][],
+    extra?: string
+) {
+    const pad = INDENT.repeat(depth)
+    lines.push(`${pad}<${tag}>`)
+    fields.forEach(([name, value]) => writeTextElement(lines, name, value === undefined ? undefined : String(value), depth + 1))
+    if (extra) lines.push(`${pad}${INDENT}${extra}`)
+    lines.push(`${pad}</${tag}>`)
+}
+
+function writeStyleMap(lines: string[], styleMap: KmlStyleMap, depth: number) {
+    const pad = INDENT.repeat(depth)
+    lines.push(`${pad}<StyleMap${idAttribute(styleMap.id)}>`)
+    ;(['normal', 'highlight'] as const).forEach((key) => {
+        const styleUrl = styleMap[key]
+        if (styleUrl) {
+            lines.push(`${pad}${INDENT}<Pair><key>${key}</key><styleUrl>${escapeXml(styleUrl)}</styleUrl></Pair>`)
+        }
+    })
+    lines.push(`${pad}</StyleMap>`)
+}
+
+function writeTextElement(lines: string[], tag: string, value: string | undefined, depth: number) {
+    if (value === undefined) return
+    lines.push(`${INDENT.repeat(depth)}<${tag}>${escapeXml(value)}</${tag}>`)
+}
+
+/**
+ * Descriptions usually hold HTML, which is kept readable inside CDATA
+ */
+function writeDescription(lines: string[], description: string | undefined, depth: number) {
+    if (description === undefined) return
+    const value = /[<&]/.test(description)
+        ? `<![CDATA[${description.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`
+        : escapeXml(description)
+    lines.push(`${INDENT.repeat(depth)}<description>${value}</description>`)
+}
+
+function idAttribute(id: string | undefined): string {
+    return id ? ` id="${escapeXml(id)}"` : ''
+}
+
+function booleanValue(value: boolean | undefined): string | undefined {
+    if (value === undefined) return undefined
+    return value ? '1' : '0'
+}
+
+function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;')
+}
@@ -0,0 +1,62 @@
+import { computeBoundingBox, flattenGeometry, geometryCoordinates } from './geometry'
+import { measureGeometry } from './measure'
+import type { BoundingBox, Coordinate, GeometryType, KmlDocument } from './types'
+
+/**
+ * Document-level totals shown in the analysis results card
+ */
+export interface KmlSummary {
+    totalFeatures: number
+    geometryTypes: GeometryType[]
+    boundingBox: BoundingBox | null
+    statistics: {
+        points: number
+        lines: number
+        polygons: number
+        /** Geodesic polygon area across all Placemarks, in square meters */
+        areaSquareMeters: number
+        /** Geodesic length of all polygon outer boundaries, in meters */
+        perimeterMeters: number
+    }
+}
+
+// Display order for geometry types in the summary
+const GEOMETRY_TYPE_ORDER: GeometryType[] = ['Point', 'LineString', 'Polygon', 'MultiGeometry']
+
+/**
+ * Summarizes a parsed KML document
+ * MultiGeometry parts are counted individually in `statistics`
+ *
+ * @param document - The parsed KML document
+ * @returns KmlSummary - Feature totals, geometry types and overall extent
+ */
+export function summarizeKml(document: KmlDocument): KmlSummary {
+    const statistics = { points: 0, lines: 0, polygons: 0, areaSquareMeters: 0, perimeterMeters: 0 }
+    const seenTypes: Partial<Record<GeometryType, boolean>> = {}
+    const coordinates: Coordinate[] = []
+
+    document.placemarks.forEach(({ geometry }) => {
+        if (!geometry) return
+        seenTypes[geometry.type] = true
+
+        flattenGeometry(geometry).forEach((part) => {
+            seenTypes[part.type] = true
+            if (part.type === 'Point') statistics.points++
+            if (part.type === 'LineString') statistics.lines++
+            if (part.type === 'Polygon') statistics.polygons++
+        })
+
+        const measurement = measureGeometry(geometry)
+        statistics.areaSquareMeters += measurement.areaSquareMeters
+        statistics.perimeterMeters += measurement.perimeterMeters
+
+        geometryCoordinates(geometry).forEach(coordinate => coordinates.push(coordinate))
+    })
+
+    return {
+        totalFeatures: document.placemarks.length,
+        geometryTypes: GEOMETRY_TYPE_ORDER.filter(type => seenTypes[type]),
+        boundingBox: computeBoundingBox(coordinates),
+        statistics
+    }
+}
@@ -0,0 +1,111 @@
+/**
+ * Typed feature model for parsed KML documents
+ * Coordinates follow the KML (and GeoJSON) axis order: longitude, latitude, altitude
+ */
+
+export type Coordinate = [number, number] | [number, number, number]
+
+export type LinearRing = Coordinate[]
+
+export interface PointGeometry {
+    type: 'Point'
+    coordinates: Coordinate
+}
+
+export interface LineStringGeometry {
+    type: 'LineString'
+    coordinates: Coordinate[]
+}
+
+export interface PolygonGeometry {
+    type: 'Polygon'
+    outerBoundary: LinearRing
+    innerBoundaries: LinearRing[]
+}
+
+export interface MultiGeometry {
+    type: 'MultiGeometry'
+    geometries: KmlGeometry[]
+}
+
+export type KmlGeometry = PointGeometry | LineStringGeometry | PolygonGeometry | MultiGeometry
+
+export type GeometryType = KmlGeometry['type']
+
+export interface KmlStyle {
+    id?: string
+    lineStyle?: {
+        color?: string
+        width?: number
+    }
+    polyStyle?: {
+        color?: string
+        fill?: boolean
+        outline?: boolean
+    }
+    iconStyle?: {
+        color?: string
+        scale?: number
+        href?: string
+    }
+    labelStyle?: {
+        color?: string
+        scale?: number
+    }
+}
+
+export interface KmlStyleMap {
+    id?: string
+    normal?: string
+    highlight?: string
+}
+
+/**
+ * ExtendedData values keyed by field name. `schemaUrl` is kept so that
+ * SchemaData blocks can be written back as SchemaData rather than Data.
+ */
+export interface KmlExtendedData {
+    fields: Record<string, string>
+    schemaUrl?: string
+}
+
+export interface KmlPlacemark {
+    kind: 'Placemark'
+    /** Stable identifier derived from document order, e.g. `pm-0` */
+    id: string
+    /** Value of the KML `id` attribute, if the file declared one */
+    kmlId?: string
+    name?: string
+    description?: string
+    styleUrl?: string
+    style?: KmlStyle
+    extendedData: KmlExtendedData
+    geometry: KmlGeometry | null
+    /** Names of the enclosing Documents/Folders, outermost first */
+    path: string[]
+}
+
+export interface KmlContainer {
+    kind: 'Document' | 'Folder'
+    kmlId?: string
+    name?: string
+    description?: string
+    styles: KmlStyle[]
+    styleMaps: KmlStyleMap[]
+    children: KmlNode[]
+}
+
+export type KmlNode = KmlContainer | KmlPlacemark
+
+export interface KmlDocument {
+    root: KmlContainer
+    /** Every Placemark in document order, flattened out of the container tree */
+    placemarks: KmlPlacemark[]
+}
+
+export interface BoundingBox {
+    north: number
+    south: number
+    east: number
+    west: number
+}
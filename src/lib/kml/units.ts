@@ -0,0 +1,64 @@
+/**
+ * Area and length units used when reporting plot measurements
+ * The bigha has no national standard; the default is the 5/8 acre "pucca bigha" and
+ * can be overridden per deployment with NEXT_PUBLIC_BIGHA_SQUARE_METERS.
+ */
+
+const BIGHA_SQUARE_METERS = Number(process.env.NEXT_PUBLIC_BIGHA_SQUARE_METERS) || 2529.285264
+
+export const AREA_UNITS = {
+    squareMeters: { label: 'm²', squareMeters: 1 },
+    hectares: { label: 'ha', squareMeters: 10000 },
+    acres: { label: 'acres', squareMeters: 4046.8564224 },
+    bigha: { label: 'bigha', squareMeters: BIGHA_SQUARE_METERS },
+    guntha: { label: 'guntha', squareMeters: 101.17141056 }
+}
+
+export type AreaUnit = keyof typeof AREA_UNITS
+
+// Units shown next to each other wherever an area is displayed
+export const DISPLAY_AREA_UNITS: AreaUnit[] = ['hectares', 'acres', 'bigha', 'guntha']
+
+/**
+ * Converts an area in square meters to the given unit
+ *
+ * @param squareMeters - Area in square meters
+ * @param unit - Target unit
+ * @returns number - Area in the target unit
+ */
+export function convertArea(squareMeters: number, unit: AreaUnit): number {
+    return squareMeters / AREA_UNITS[unit].squareMeters
+}
+
+/**
+ * Converts an area in the given unit to square meters
+ *
+ * @param value - Area in `unit`
+ * @param unit - Source unit
+ * @returns number - Area in square meters
+ */
+export function toSquareMeters(value: number, unit: AreaUnit): number {
+    return value * AREA_UNITS[unit].squareMeters
+}
+
+/**
+ * Formats an area for display, e.g. "0.51 ha"
+ *
+ * @param squareMeters - Area in square meters
+ * @param unit - Display unit
+ * @param fractionDigits - Decimal places (default 2)
+ * @returns string - Formatted value with unit label
+ */
+export function formatArea(squareMeters: number, unit: AreaUnit, fractionDigits = 2): string {
+    return `${convertArea(squareMeters, unit).toFixed(fractionDigits)} ${AREA_UNITS[unit].label}`
+}
+
+/**
+ * Formats a length for display, switching to kilometers above 1000 m
+ *
+ * @param meters - Length in meters
+ * @returns string - Formatted value with unit label
+ */
+export function formatLength(meters: number): string {
+    return meters >= 1000 ? `${(meters / 1000).toFixed(2)} km` : `${meters.toFixed(1)} m`
+}
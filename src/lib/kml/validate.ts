@@ -0,0 +1,307 @@
+import { flattenGeometry } from './geometry'
+import { ringArea } from './measure'
+import type { Coordinate, KmlDocument, KmlGeometry, LinearRing } from './types'
+
+/**
+ * Geometry validity checks
+ * Each issue carries the coordinates involved so that it can be highlighted on a map.
+ * Self-intersection and spike tests work in a local equirectangular projection,
+ * which is accurate enough at plot scale.
+ */
+
+export const GEOMETRY_ISSUE_TYPES = {
+    'invalid-coordinate': { label: 'Invalid coordinate', severity: 'error' },
+    'too-few-vertices': { label: 'Too few vertices', severity: 'error' },
+    'unclosed-ring': { label: 'Unclosed ring', severity: 'error' },
+    'self-intersection': { label: 'Self-intersection', severity: 'error' },
+    'zero-area': { label: 'Zero-area polygon', severity: 'error' },
+    'duplicate-vertex': { label: 'Duplicate vertex', severity: 'warning' },
+    'spike': { label: 'Spike', severity: 'warning' },
+    'wrong-winding': { label: 'Wrong winding order', severity: 'warning' }
+} as const
+
+export type GeometryIssueType = keyof typeof GEOMETRY_ISSUE_TYPES
+
+export type IssueSeverity = 'error' | 'warning'
+
+export interface GeometryIssue {
+    type: GeometryIssueType
+    severity: IssueSeverity
+    message: string
+    /** Index of the part within the flattened (MultiGeometry-expanded) geometry */
+    partIndex: number
+    /** 'outer' or the index of the inner boundary; null for points and lines */
+    ring: 'outer' | number | null
+    /** Locations to highlight */
+    coordinates: Coordinate[]
+}
+
+export interface ValidationOptions {
+    /** Vertices whose interior angle is below this are reported as spikes */
+    spikeAngleDegrees: number
+    /** Polygons smaller than this are reported as zero-area */
+    minAreaSquareMeters: number
+}
+
+export const DEFAULT_VALIDATION_OPTIONS: ValidationOptions = {
+    spikeAngleDegrees: 1,
+    minAreaSquareMeters: 1
+}
+
+/**
+ * Validates every Placemark of a document
+ *
+ * @param document - The parsed KML document
+ * @param options - Spike and area thresholds
+ * @returns Record<string, GeometryIssue[]> - Issues keyed by Placemark id (only Placemarks with issues)
+ */
+export function validateDocument(
+    document: KmlDocument,
+    options: ValidationOptions = DEFAULT_VALIDATION_OPTIONS
+): Record<string, GeometryIssue[]> {
+    const issuesByPlacemark: Record<string, GeometryIssue[]> = {}
+    document.placemarks.forEach((placemark) => {
+        const issues = validateGeometry(placemark.geometry, options)
+        if (issues.length > 0) issuesByPlacemark[placemark.id] = issues
+    })
+    return issuesByPlacemark
+}
+
+/**
+ * Validates a single geometry
+ *
+ * @param geometry - Any KML geometry
+ * @param options - Spike and area thresholds
+ * @returns GeometryIssue[] - Issues found, in part order
+ */
+export function validateGeometry(
+    geometry: KmlGeometry | null,
+    options: ValidationOptions = DEFAULT_VALIDATION_OPTIONS
+): GeometryIssue[] {
+    const issues: GeometryIssue[] = []
+
+    flattenGeometry(geometry).forEach((part, partIndex) => {
+        const report = (type: GeometryIssueType, message: string, coordinates: Coordinate[], ring: GeometryIssue['ring'] = null) => {
+            issues.push({ type, severity: GEOMETRY_ISSUE_TYPES[type].severity, message, partIndex, ring, coordinates })
+        }
+
+        switch (part.type) {
+            case 'Point':
+                checkCoordinateRanges([part.coordinates], (message, coordinates) =>
+                    report('invalid-coordinate', message, coordinates))
+                break
+
+            case 'LineString':
+                checkCoordinateRanges(part.coordinates, (message, coordinates) =>
+                    report('invalid-coordinate', message, coordinates))
+                if (part.coordinates.length < 2) {
+                    report('too-few-vertices', `Line has ${part.coordinates.length} vertices; at least 2 are required`, part.coordinates)
+                }
+                findDuplicateVertices(part.coordinates, false).forEach(coordinate =>
+                    report('duplicate-vertex', 'Consecutive duplicate vertex', [coordinate]))
+                break
+
+            case 'Polygon': {
+                const rings: { ring: LinearRing, label: GeometryIssue['ring'] }[] = [
+                    { ring: part.outerBoundary, label: 'outer' },
+                    ...part.innerBoundaries.map((ring, index) => ({ ring, label: index as GeometryIssue['ring'] }))
+                ]
+                rings.forEach(({ ring, label }) => {
+                    validateRing(ring, label === 'outer', options, (type, message, coordinates) =>
+                        report(type, message, coordinates, label))
+                })
+                break
+            }
+        }
+    })
+
+    return issues
+}
+
+function validateRing(
+    ring: LinearRing,
+    isOuter: boolean,
+    options: ValidationOptions,
+    report: (type: GeometryIssueType, message: string, coordinates: Coordinate[]) => void
+) {
+    const ringName = isOuter ? 'Outer boundary' : 'Inner boundary'
+
+    const hasInvalidCoordinates = checkCoordinateRanges(ring, (message, coordinates) =>
+        report('invalid-coordinate', message, coordinates))
+    if (hasInvalidCoordinates) return
+
+    if (ring.length > 0 && !samePosition(ring[0], ring[ring.length - 1])) {
+        report('unclosed-ring', `${ringName} does not end at its first vertex`, [ring[0], ring[ring.length - 1]])
+    }
+
+    const open = openRing(ring)
+    findDuplicateVertices(open, true).forEach(coordinate =>
+        report('duplicate-vertex', 'Consecutive duplicate vertex', [coordinate]))
+
+    const vertices = removeConsecutiveDuplicates(open)
+    if (vertices.length < 3) {
+        report('too-few-vertices', `${ringName} has ${vertices.length} distinct vertices; at least 3 are required`, vertices)
+        return
+    }
+
+    findSpikes(vertices, options.spikeAngleDegrees).forEach(coordinate =>
+        report('spike', 'Vertex forms a spike (near-zero interior angle)', [coordinate]))
+
+    const intersections = findSelfIntersections(vertices)
+    intersections.forEach(coordinate =>
+        report('self-intersection', `${ringName} crosses itself`, [coordinate]))
+
+    const signedArea = ringArea(vertices)
+    if (Math.abs(signedArea) < options.minAreaSquareMeters) {
+        report('zero-area', `${ringName} encloses ${Math.abs(signedArea).toFixed(2)} m²`, vertices)
+        return
+    }
+
+    // Orientation is meaningless for a ring that crosses itself
+    if (intersections.length > 0) return
+
+    // KML expects counter-clockwise outer boundaries; holes conventionally run clockwise
+    const isCounterClockwise = signedArea > 0
+    if (isOuter !== isCounterClockwise) {
+        report('wrong-winding', `${ringName} is ${isCounterClockwise ? 'counter-clockwise' : 'clockwise'}`, [vertices[0]])
+    }
+}
+
+/**
+ * Reports coordinates outside the valid longitude/latitude ranges
+ * @returns boolean - True when any invalid coordinate was found
+ */
+function checkCoordinateRanges(
+    coordinates: Coordinate[],
+    report: (message: string, coordinates: Coordinate[]) => void
+): boolean {
+    let hasInvalid = false
+    coordinates.forEach((coordinate) => {
+        const [lon, lat] = coordinate
+        if (!isFinite(lon) || !isFinite(lat) || lon < -180 || lon > 180 || lat < -90 || lat > 90) {
+            hasInvalid = true
+            report(`Coordinate ${lon},${lat} is outside the valid range (lon ±180, lat ±90)`, [coordinate])
+        }
+    })
+    return hasInvalid
+}
+
+function findDuplicateVertices(coordinates: Coordinate[], isRing: boolean): Coordinate[] {
+    const duplicates: Coordinate[] = []
+    const count = coordinates.length
+    const limit = isRing ? count : count - 1
+    for (let i = 0; i < limit && count > 1; i++) {
+        const next = coordinates[(i + 1) % count]
+        if (samePosition(coordinates[i], next)) duplicates.push(next)
+    }
+    return duplicates
+}
+
+function findSpikes(vertices: Coordinate[], maxAngleDegrees: number): Coordinate[] {
+    const count = vertices.length
+    const projected = projectLocal(vertices)
+    const spikes: Coordinate[] = []
+
+    for (let i = 0; i < count; i++) {
+        const previous = projected[(i + count - 1) % count]
+        const current = projected[i]
+        const next = projected[(i + 1) % count]
+        const ax = previous[0] - current[0]
+        const ay = previous[1] - current[1]
+        const bx = next[0] - current[0]
+        const by = next[1] - current[1]
+        const lengths = Math.hypot(ax, ay) * Math.hypot(bx, by)
+        if (lengths === 0) continue
+
+        const angle = Math.acos(Math.max(-1, Math.min(1, (ax * bx + ay * by) / lengths))) * 180 / Math.PI
+        if (angle < maxAngleDegrees) spikes.push(vertices[i])
+    }
+
+    return spikes
+}
+
+/**
+ * Finds crossings and touches between non-adjacent edges of an open ring
+ *
+ * @param vertices - Ring vertices without the closing vertex or consecutive duplicates
+ * @returns Coordinate[] - The intersection points
+ */
+export function findSelfIntersections(vertices: Coordinate[]): Coordinate[] {
+    const count = vertices.length
+    const projected = projectLocal(vertices)
+    const intersections: Coordinate[] = []
+
+    for (let i = 0; i < count; i++) {
+        const a1 = projected[i]
+        const a2 = projected[(i + 1) % count]
+        for (let j = i + 1; j < count; j++) {
+            // Skip the edge itself and its neighbours, which share a vertex
+            if (j === i + 1 || (i === 0 && j === count - 1)) continue
+
+            const b1 = projected[j]
+            const b2 = projected[(j + 1) % count]
+            const point = segmentIntersection(a1, a2, b1, b2)
+            if (point) intersections.push(unprojectLocal(point, vertices))
+        }
+    }
+
+    return intersections
+}
+
+type PlanarPoint = [number, number]
+
+function segmentIntersection(p1: PlanarPoint, p2: PlanarPoint, p3: PlanarPoint, p4: PlanarPoint): PlanarPoint | null {
+    const d1x = p2[0] - p1[0]
+    const d1y = p2[1] - p1[1]
+    const d2x = p4[0] - p3[0]
+    const d2y = p4[1] - p3[1]
+    const denominator = d1x * d2y - d1y * d2x
+
+    if (denominator === 0) {
+        // Parallel; report an overlap of collinear segments at the first shared point
+        const cross = (p3[0] - p1[0]) * d1y - (p3[1] - p1[1]) * d1x
+        if (cross !== 0) return null
+        const candidates = [p3, p4, p1, p2]
+        return candidates.find(point => onSegment(p1, p2, point) && onSegment(p3, p4, point)) || null
+    }
+
+    const t = ((p3[0] - p1[0]) * d2y - (p3[1] - p1[1]) * d2x) / denominator
+    const u = ((p3[0] - p1[0]) * d1y - (p3[1] - p1[1]) * d1x) / denominator
+    if (t < 0 || t > 1 || u < 0 || u > 1) return null
+
+    return [p1[0] + t * d1x, p1[1] + t * d1y]
+}
+
+function onSegment(a: PlanarPoint, b: PlanarPoint, point: PlanarPoint): boolean {
+    return point[0] >= Math.min(a[0], b[0]) && point[0] <= Math.max(a[0], b[0]) &&
+        point[1] >= Math.min(a[1], b[1]) && point[1] <= Math.max(a[1], b[1])
+}
+
+/**
+ * Projects lon/lat to meters around the first vertex (equirectangular)
+ */
+function projectLocal(vertices: Coordinate[]): PlanarPoint[] {
+    const [lon0, lat0] = vertices[0]
+    const scale = Math.cos(lat0 * Math.PI / 180)
+    return vertices.map(([lon, lat]) => [(lon - lon0) * scale * 111320, (lat - lat0) * 110540])
+}
+
+function unprojectLocal(point: PlanarPoint, vertices: Coordinate[]): Coordinate {
+    const [lon0, lat0] = vertices[0]
+    const scale = Math.cos(lat0 * Math.PI / 180)
+    return [lon0 + point[0] / (scale * 111320), lat0 + point[1] / 110540]
+}
+
+function openRing(ring: LinearRing): Coordinate[] {
+    return ring.length > 1 && samePosition(ring[0], ring[ring.length - 1]) ? ring.slice(0, -1) : ring
+}
+
+function removeConsecutiveDuplicates(vertices: Coordinate[]): Coordinate[] {
+    const result = vertices.filter((vertex, index) => index === 0 || !samePosition(vertex, vertices[index - 1]))
+    while (result.length > 1 && samePosition(result[0], result[result.length - 1])) result.pop()
+    return result
+}
+
+function samePosition(a: Coordinate, b: Coordinate): boolean {
+    return a[0] === b[0] && a[1] === b[1]
+}
@@ -0,0 +1,227 @@
+import type { EditedPlacemark } from './edit'
+import { formatCoordinates } from './serialize'
+import type { KmlDocument, KmlGeometry, KmlPlacemark, LinearRing } from './types'
+import {
+    attribute,
+    buildXml,
+    childElement,
+    childElements,
+    childNodes,
+    cloneNode,
+    createElement,
+    createTextElement,
+    findElement,
+    localName,
+    parseXml,
+    setAttribute,
+    setTextContent,
+    tagName,
+    textContent,
+    type XmlNode
+} from './xml'
+
+/**
+ * Writing edits back
+ * Edits are applied to the file's own XML tree rather than by serializing the feature
+ * model, so a new version differs from the original only where it was edited: Schema
+ * definitions, TimeStamps, altitude modes, comments and other namespaces are kept, and
+ * an ExtendedData edit leaves geometry alone.
+ */
+
+const GEOMETRY_ELEMENTS = ['Point', 'LineString', 'LinearRing', 'Polygon', 'MultiGeometry']
+
+// Children a rewritten geometry element gets anew; the rest (extrude, tessellate, altitudeMode) are kept
+const COORDINATE_ELEMENTS = ['coordinates', 'outerBoundaryIs', 'innerBoundaryIs']
+
+interface PlacemarkElement {
+    element: XmlNode
+    /** Children of the Document or Folder holding it */
+    siblings: XmlNode[]
+}
+
+/**
+ * Applies an edit session to the original KML text
+ * Placemarks keep everything but the geometry and ExtendedData fields that changed. The
+ * pieces of a split Placemark follow it in its folder; all but the first get a numbered
+ * name and lose the KML id, which must stay unique. Placemarks without an entry (merged
+ * into another) are removed.
+ *
+ * @param source - The original KML text
+ * @param document - The document parsed from it
+ * @param edits - The session's Placemarks
+ * @returns string - The KML text of the new version
+ */
+export function writePlacemarkEdits(source: string, document: KmlDocument, edits: EditedPlacemark[]): string {
+    const nodes = parseXml(source)
+    const placemarkElements: PlacemarkElement[] = []
+    collectPlacemarks(findElement(nodes, 'kml'), placemarkElements)
+
+    placemarkElements.forEach(({ element, siblings }, placemarkIndex) => {
+        const placemark = document.placemarks[placemarkIndex]
+        const pieces = edits
+            .filter(edit => edit.sourceId === placemark.id)
+            .map((edit, index) => {
+                if (index === 0) return editPlacemark(element, placemark, edit)
+
+                const piece = cloneNode(element)
+                setAttribute(piece, 'id', undefined)
+                const name = childElement(piece, 'name')
+                if (name && placemark.name) setTextContent(name, `${placemark.name} (${index + 1})`)
+                return editPlacemark(piece, placemark, edit)
+            })
+        siblings.splice(siblings.indexOf(element), 1, ...pieces)
+    })
+
+    return buildXml(nodes)
+}
+
+// Placemarks in the order the parser numbers them
+function collectPlacemarks(node: XmlNode | undefined, found: PlacemarkElement[]) {
+    if (!node) return
+    const siblings = childNodes(node)
+    childElements(node).forEach((child) => {
+        const childName = localName(tagName(child) as string)
+        if (childName === 'Document' || childName === 'Folder') collectPlacemarks(child, found)
+        else if (childName === 'Placemark') found.push({ element: child, siblings })
+    })
+}
+
+function editPlacemark(element: XmlNode, placemark: KmlPlacemark, edit: EditedPlacemark): XmlNode {
+    if (JSON.stringify(edit.geometry) !== JSON.stringify(placemark.geometry)) {
+        replaceGeometry(element, edit.geometry)
+    }
+    if (edit.extendedData && !sameFields(edit.extendedData, placemark.extendedData.fields)) {
+        replaceExtendedData(element, edit.extendedData)
+    }
+    return element
+}
+
+function replaceGeometry(placemark: XmlNode, geometry: KmlGeometry | null) {
+    const children = childNodes(placemark)
+    const old = childElements(placemark).filter(isGeometryElement)[0]
+    const index = old ? children.indexOf(old) : -1
+
+    if (!geometry) {
+        if (old) children.splice(index, 1)
+        return
+    }
+
+    const element = geometryElement(geometry, old, prefixOf(placemark))
+    if (old) children.splice(index, 1, element)
+    else children.push(element)
+}
+
+/**
+ * Builds a geometry element, keeping the attributes and non-coordinate children of the
+ * element it replaces when that has the same type
+ */
+function geometryElement(geometry: KmlGeometry, old: XmlNode | undefined, prefix: string): XmlNode {
+    const oldTag = old ? tagName(old) as string : undefined
+    const sameType = old !== undefined && localName(oldTag as string) === geometry.type
+    const tag = sameType ? oldTag as string : prefix + geometry.type
+    const kept = sameType && geometry.type !== 'MultiGeometry'
+        ? childElements(old).filter(child => COORDINATE_ELEMENTS.indexOf(localName(tagName(child) as string)) === -1)
+        : []
+    const element = sameType ? cloneNode(old as XmlNode) : createElement(tag)
+    const children = childNodes(element)
+    children.splice(0, children.length, ...kept)
+
+    switch (geometry.type) {
+        case 'Point':
+            children.push(createTextElement(`${prefix}coordinates`, formatCoordinates([geometry.coordinates])))
+            break
+        case 'LineString':
+            children.push(createTextElement(`${prefix}coordinates`, formatCoordinates(geometry.coordinates)))
+            break
+        case 'Polygon':
+            children.push(boundaryElement(`${prefix}outerBoundaryIs`, geometry.outerBoundary, prefix))
+            geometry.innerBoundaries.forEach((ring) => {
+                children.push(boundaryElement(`${prefix}innerBoundaryIs`, ring, prefix))
+            })
+            break
+        case 'MultiGeometry': {
+            const oldParts = sameType ? childElements(old).filter(isGeometryElement) : []
+            geometry.geometries.forEach((part, index) => {
+                children.push(geometryElement(part, oldParts[index], prefix))
+            })
+            break
+        }
+    }
+
+    return element
+}
+
+function boundaryElement(tag: string, ring: LinearRing, prefix: string): XmlNode {
+    return createElement(tag, [
+        createElement(`${prefix}LinearRing`, [createTextElement(`${prefix}coordinates`, formatCoordinates(ring))])
+    ])
+}
+
+/**
+ * Updates Data and SimpleData values in place, drops fields that were removed and adds
+ * new ones as Data; a SchemaData's schemaUrl and anything else in ExtendedData is kept
+ */
+function replaceExtendedData(placemark: XmlNode, fields: Record<string, string>) {
+    const prefix = prefixOf(placemark)
+    const children = childNodes(placemark)
+    let extendedData = childElement(placemark, 'ExtendedData')
+    const remaining = Object.keys(fields)
+
+    const updateField = (element: XmlNode, valueElement: XmlNode | undefined): boolean => {
+        const name = attribute(element, 'name')
+        if (!name || remaining.indexOf(name) === -1) return false
+        remaining.splice(remaining.indexOf(name), 1)
+        if (valueElement && textContent(valueElement) !== fields[name]) setTextContent(valueElement, fields[name])
+        return true
+    }
+
+    if (extendedData) {
+        const dataChildren = childNodes(extendedData)
+        dataChildren.slice().forEach((child) => {
+            const tag = tagName(child)
+            if (!tag) return
+            if (localName(tag) === 'Data') {
+                let value = childElement(child, 'value')
+                if (!value) {
+                    value = createElement(`${prefix}value`)
+                    childNodes(child).push(value)
+                }
+                if (!updateField(child, value)) dataChildren.splice(dataChildren.indexOf(child), 1)
+            } else if (localName(tag) === 'SchemaData') {
+                const simpleDataChildren = childNodes(child)
+                childElements(child, 'SimpleData').forEach((simpleData) => {
+                    if (!updateField(simpleData, simpleData)) {
+                        simpleDataChildren.splice(simpleDataChildren.indexOf(simpleData), 1)
+                    }
+                })
+            }
+        })
+    } else if (remaining.length > 0) {
+        extendedData = createElement(`${prefix}ExtendedData`)
+        const geometry = childElements(placemark).filter(isGeometryElement)[0]
+        children.splice(geometry ? children.indexOf(geometry) : children.length, 0, extendedData)
+    }
+
+    if (!extendedData) return
+    remaining.forEach((name) => {
+        childNodes(extendedData as XmlNode).push(createElement(`${prefix}Data`, [
+            createTextElement(`${prefix}value`, fields[name])
+        ], { name }))
+    })
+    if (childNodes(extendedData).length === 0) children.splice(children.indexOf(extendedData), 1)
+}
+
+function sameFields(fields: Record<string, string>, original: Record<string, string>): boolean {
+    const keys = Object.keys(fields)
+    return keys.length === Object.keys(original).length && keys.every(key => original[key] === fields[key])
+}
+
+function isGeometryElement(element: XmlNode): boolean {
+    return GEOMETRY_ELEMENTS.indexOf(localName(tagName(element) as string)) !== -1
+}
+
+// The namespace prefix new elements get, e.g. `kml:` when the Placemark is `kml:Placemark`
+function prefixOf(element: XmlNode): string {
+    const tag = tagName(element) as string
+    return tag.slice(0, tag.indexOf(':') + 1)
+}
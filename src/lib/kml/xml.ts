@@ -0,0 +1,249 @@
+import { XMLBuilder, XMLParser } from 'fast-xml-parser'
+
+/**
+ * Ordered XML tree
+ * KML is read with fast-xml-parser's preserveOrder mode, which keeps elements, comments
+ * and CDATA sections in source order. The parser reads features in file order from it,
+ * and edits are written back into the same tree, so whatever the feature model does not
+ * cover (Schema, TimeStamp, altitudeMode, other namespaces) survives a save.
+ * Tags keep their namespace prefix; lookups compare local names, so `kml:Placemark` and
+ * `Placemark` are found alike.
+ */
+
+/** An element (`{ [tag]: children, ':@': attributes }`), text, CDATA or comment node */
+export type XmlNode = Record<string, unknown>
+
+const ATTRIBUTES_KEY = ':@'
+const ATTRIBUTE_PREFIX = '@_'
+const TEXT_KEY = '#text'
+const CDATA_KEY = '#cdata'
+const COMMENT_KEY = '#comment'
+
+const XML_OPTIONS = {
+    preserveOrder: true,
+    ignoreAttributes: false,
+    attributeNamePrefix: ATTRIBUTE_PREFIX,
+    parseTagValue: false,
+    parseAttributeValue: false,
+    trimValues: true,
+    cdataPropName: CDATA_KEY,
+    commentPropName: COMMENT_KEY
+}
+
+const xmlParser = new XMLParser(XML_OPTIONS)
+const xmlBuilder = new XMLBuilder({ ...XML_OPTIONS, format: true, indentBy: '  ', suppressEmptyNode: true })
+
+/**
+ * Parses XML text that has already been validated
+ *
+ * @param text - The XML text
+ * @returns XmlNode[] - The top-level nodes, including the XML declaration
+ */
+export function parseXml(text: string): XmlNode[] {
+    return xmlParser.parse(text) as XmlNode[]
+}
+
+/**
+ * Writes a tree back to XML text
+ *
+ * @param nodes - Top-level nodes, as returned by parseXml
+ * @returns string - Indented XML text
+ */
+export function buildXml(nodes: XmlNode[]): string {
+    const xml = xmlBuilder.build(nodes) as string
+    // The builder indents the closing tag after a CDATA section, which would add whitespace to the text
+    return `${xml.replace(/\]\]>\n\s*</g, ']]><').trim()}\n`
+}
+
+/**
+ * The tag of an element, with any namespace prefix
+ *
+ * @param node - Any node
+ * @returns string | undefined - The tag, or undefined for text, CDATA and comments
+ */
+export function tagName(node: XmlNode): string | undefined {
+    const tag = Object.keys(node).filter(key => key !== ATTRIBUTES_KEY)[0]
+    return tag && tag.charAt(0) !== '#' && tag.charAt(0) !== '?' ? tag : undefined
+}
+
+/**
+ * A tag without its namespace prefix
+ *
+ * @param tag - e.g. `gx:Track`
+ * @returns string - e.g. `Track`
+ */
+export function localName(tag: string): string {
+    return tag.slice(tag.indexOf(':') + 1)
+}
+
+/**
+ * Child nodes of an element, in source order
+ *
+ * @param node - The element
+ * @returns XmlNode[] - Its children; the array itself, so it can be edited in place
+ */
+export function childNodes(node: XmlNode): XmlNode[] {
+    const tag = tagName(node)
+    const children = tag ? node[tag] : undefined
+    return Array.isArray(children) ? children as XmlNode[] : []
+}
+
+/**
+ * Child elements of an element, in source order
+ *
+ * @param node - The element; undefined gives no children
+ * @param name - Only children with this local name
+ * @returns XmlNode[] - Matching child elements
+ */
+export function childElements(node: XmlNode | undefined, name?: string): XmlNode[] {
+    if (!node) return []
+    return childNodes(node).filter((child) => {
+        const tag = tagName(child)
+        return tag !== undefined && (name === undefined || localName(tag) === name)
+    })
+}
+
+/**
+ * The first of a list of nodes that is an element with the given local name
+ *
+ * @param nodes - e.g. the top-level nodes from parseXml
+ * @param name - Local name
+ * @returns XmlNode | undefined - The element
+ */
+export function findElement(nodes: XmlNode[], name: string): XmlNode | undefined {
+    return nodes.filter((node) => {
+        const tag = tagName(node)
+        return tag !== undefined && localName(tag) === name
+    })[0]
+}
+
+/**
+ * Follows a path of child elements, taking the first match at each step
+ *
+ * @param node - Where to start
+ * @param names - Local names, outermost first
+ * @returns XmlNode | undefined - The element at the end of the path
+ */
+export function childElement(node: XmlNode | undefined, ...names: string[]): XmlNode | undefined {
+    return names.reduce<XmlNode | undefined>((current, name) => childElements(current, name)[0], node)
+}
+
+/**
+ * The text inside an element, including CDATA sections
+ *
+ * @param node - The element
+ * @returns string | undefined - The text, or undefined when there is none
+ */
+export function textContent(node: XmlNode | undefined): string | undefined {
+    if (!node) return undefined
+    const parts = childNodes(node).reduce<string[]>((texts, child) => {
+        if (typeof child[TEXT_KEY] === 'string') return texts.concat([child[TEXT_KEY] as string])
+        if (Array.isArray(child[CDATA_KEY])) {
+            return texts.concat((child[CDATA_KEY] as XmlNode[]).map(part => String(part[TEXT_KEY] ?? '')))
+        }
+        return texts
+    }, [])
+    return parts.length > 0 ? parts.join('') : undefined
+}
+
+/**
+ * The text of a nested element, e.g. `childText(placemark, 'name')`
+ *
+ * @param node - Where to start
+ * @param names - Local names, outermost first
+ * @returns string | undefined - The text, or undefined when the element or text is missing
+ */
+export function childText(node: XmlNode | undefined, ...names: string[]): string | undefined {
+    return textContent(childElement(node, ...names))
+}
+
+/**
+ * An attribute of an element
+ *
+ * @param node - The element
+ * @param name - Attribute name, with any prefix
+ * @returns string | undefined - The value, or undefined when the attribute is missing
+ */
+export function attribute(node: XmlNode, name: string): string | undefined {
+    const attributes = node[ATTRIBUTES_KEY] as Record<string, unknown> | undefined
+    const value = attributes ? attributes[ATTRIBUTE_PREFIX + name] : undefined
+    return value === undefined || value === null ? undefined : String(value)
+}
+
+/**
+ * Builds an element
+ *
+ * @param tag - Tag, with any prefix
+ * @param children - Child nodes
+ * @param attributes - Attribute values by name
+ * @returns XmlNode - The element
+ */
+export function createElement(tag: string, children: XmlNode[] = [], attributes: Record<string, string> = {}): XmlNode {
+    const names = Object.keys(attributes)
+    const node: XmlNode = { [tag]: children }
+    if (names.length > 0) {
+        node[ATTRIBUTES_KEY] = names.reduce<Record<string, string>>((result, name) => {
+            result[ATTRIBUTE_PREFIX + name] = attributes[name]
+            return result
+        }, {})
+    }
+    return node
+}
+
+/**
+ * Builds an element holding only text
+ *
+ * @param tag - Tag, with any prefix
+ * @param text - The text; written escaped
+ * @returns XmlNode - The element
+ */
+export function createTextElement(tag: string, text: string): XmlNode {
+    return createElement(tag, text ? [{ [TEXT_KEY]: text }] : [])
+}
+
+/**
+ * Replaces the children of an element
+ *
+ * @param node - The element; changed in place
+ * @param children - Its new children
+ */
+export function setChildNodes(node: XmlNode, children: XmlNode[]) {
+    const tag = tagName(node)
+    if (tag) node[tag] = children
+}
+
+/**
+ * Replaces the children of an element with text
+ *
+ * @param node - The element; changed in place
+ * @param text - The text; written escaped
+ */
+export function setTextContent(node: XmlNode, text: string) {
+    setChildNodes(node, text ? [{ [TEXT_KEY]: text }] : [])
+}
+
+/**
+ * Copies an element and everything below it
+ *
+ * @param node - The element
+ * @returns XmlNode - An independent copy
+ */
+export function cloneNode(node: XmlNode): XmlNode {
+    return JSON.parse(JSON.stringify(node)) as XmlNode
+}
+
+/**
+ * Sets or removes an attribute
+ *
+ * @param node - The element; changed in place
+ * @param name - Attribute name, with any prefix
+ * @param value - The new value; undefined removes the attribute
+ */
+export function setAttribute(node: XmlNode, name: string, value: string | undefined) {
+    const attributes = { ...(node[ATTRIBUTES_KEY] as Record<string, unknown> | undefined) }
+    if (value === undefined) delete attributes[ATTRIBUTE_PREFIX + name]
+    else attributes[ATTRIBUTE_PREFIX + name] = value
+
+    if (Object.keys(attributes).length > 0) node[ATTRIBUTES_KEY] = attributes
+    else delete node[ATTRIBUTES_KEY]
+}
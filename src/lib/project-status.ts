@@ -0,0 +1,7 @@
+/**
+ * Project lifecycle statuses, shared by the projects API and the project pages
+ * Archived projects are kept for their history but hidden from pickers.
+ */
+export const PROJECT_STATUSES = ['Pending', 'Active', 'Completed', 'Archived'] as const
+
+export type ProjectStatus = typeof PROJECT_STATUSES[number]
@@ -0,0 +1,64 @@
+/**
+ * User roles and what each role may do, shared by the API routes and the pages
+ * Field uploaders only work on requests they are assigned to, and client viewers
+ * only see the requests sent from their own email address.
+ */
+
+export type Permission =
+    | 'users:manage'
+    | 'registries:manage'
+    | 'projects:view'
+    | 'projects:manage'
+    | 'requests:view-all'
+    | 'requests:manage'
+    | 'kml:upload'
+    | 'kml:edit'
+    | 'checklist:run'
+    | 'analyses:approve'
+
+export type Role = 'admin' | 'reviewer' | 'field-uploader' | 'client-viewer'
+
+export const ROLES: Record<Role, { label: string, permissions: Permission[] }> = {
+    'admin': {
+        label: 'Admin',
+        permissions: [
+            'users:manage',
+            'registries:manage',
+            'projects:view',
+            'projects:manage',
+            'requests:view-all',
+            'requests:manage',
+            'kml:upload',
+            'kml:edit',
+            'checklist:run',
+            'analyses:approve'
+        ]
+    },
+    'reviewer': {
+        label: 'Reviewer',
+        permissions: ['projects:view', 'requests:view-all', 'kml:edit', 'checklist:run', 'analyses:approve']
+    },
+    'field-uploader': {
+        label: 'Field Uploader',
+        permissions: ['kml:upload']
+    },
+    'client-viewer': {
+        label: 'Client Viewer',
+        permissions: []
+    }
+}
+
+export function isRole(value: unknown): value is Role {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(ROLES, value)
+}
+
+/**
+ * Checks whether a role grants a permission
+ *
+ * @param role - The user's role
+ * @param permission - The permission to check
+ * @returns boolean - Whether the role has the permission
+ */
+export function hasPermission(role: Role, permission: Permission): boolean {
+    return ROLES[role].permissions.indexOf(permission) !== -1
+}
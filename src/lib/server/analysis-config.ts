@@ -0,0 +1,95 @@
+import type { AnalysisOptions } from '@/lib/kml/analysis'
+import type { DeclaredAreaConfig } from '@/lib/kml/declared-area'
+import { AREA_UNITS, type AreaUnit } from '@/lib/kml/units'
+import type { ValidationOptions } from '@/lib/kml/validate'
+
+/**
+ * Reads per-deployment analysis settings from the environment
+ *
+ * KML_DECLARED_AREA_CONFIG - JSON overriding any of `extendedDataKeys`, `namePatterns`
+ *   and `tolerancePercent` (see DEFAULT_DECLARED_AREA_CONFIG)
+ * KML_AREA_TOLERANCE_PERCENT - Shorthand for just the tolerance
+ * KML_VALIDATION_CONFIG - JSON overriding `spikeAngleDegrees` and/or `minAreaSquareMeters`
+ *
+ * Fields with the wrong type are logged and ignored, so the defaults apply to them.
+ *
+ * @returns AnalysisOptions - Options passed to analyzeKml
+ */
+export function loadAnalysisOptions(): AnalysisOptions {
+    const declaredArea = readDeclaredAreaConfig('KML_DECLARED_AREA_CONFIG')
+    const tolerance = Number(process.env.KML_AREA_TOLERANCE_PERCENT)
+    if (!isNaN(tolerance) && process.env.KML_AREA_TOLERANCE_PERCENT) {
+        declaredArea.tolerancePercent = tolerance
+    }
+
+    return {
+        declaredArea,
+        validation: readValidationOptions('KML_VALIDATION_CONFIG')
+    }
+}
+
+function readDeclaredAreaConfig(name: string): Partial<DeclaredAreaConfig> {
+    const config = parseJsonEnv(name)
+    const result: Partial<DeclaredAreaConfig> = {}
+
+    if (isUnitList(config.extendedDataKeys, 'key')) result.extendedDataKeys = config.extendedDataKeys
+    else warnInvalid(name, 'extendedDataKeys', config.extendedDataKeys)
+
+    if (isUnitList(config.namePatterns, 'pattern')) result.namePatterns = config.namePatterns
+    else warnInvalid(name, 'namePatterns', config.namePatterns)
+
+    if (isFiniteNumber(config.tolerancePercent)) result.tolerancePercent = config.tolerancePercent
+    else warnInvalid(name, 'tolerancePercent', config.tolerancePercent)
+
+    return result
+}
+
+function readValidationOptions(name: string): Partial<ValidationOptions> {
+    const config = parseJsonEnv(name)
+    const result: Partial<ValidationOptions> = {}
+
+    if (isFiniteNumber(config.spikeAngleDegrees)) result.spikeAngleDegrees = config.spikeAngleDegrees
+    else warnInvalid(name, 'spikeAngleDegrees', config.spikeAngleDegrees)
+
+    if (isFiniteNumber(config.minAreaSquareMeters)) result.minAreaSquareMeters = config.minAreaSquareMeters
+    else warnInvalid(name, 'minAreaSquareMeters', config.minAreaSquareMeters)
+
+    return result
+}
+
+function parseJsonEnv(name: string): Record<string, unknown> {
+    const value = process.env[name]
+    if (!value) return {}
+
+    let parsed: unknown
+    try {
+        parsed = JSON.parse(value)
+    } catch (error) {
+        console.error(`Ignoring invalid JSON in ${name}:`, error)
+        return {}
+    }
+
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        console.error(`Ignoring ${name}: expected a JSON object`)
+        return {}
+    }
+    return parsed as Record<string, unknown>
+}
+
+// Only fields that are set but unusable are reported; missing ones just keep their default
+function warnInvalid(name: string, field: string, value: unknown) {
+    if (value !== undefined) console.error(`Ignoring invalid ${field} in ${name}`)
+}
+
+function isFiniteNumber(value: unknown): value is number {
+    return typeof value === 'number' && isFinite(value)
+}
+
+function isUnitList<K extends string>(value: unknown, field: K): value is (Record<K, string> & { unit: AreaUnit })[] {
+    return Array.isArray(value) && value.every((item: unknown) => {
+        const entry = item as Record<string, unknown> | null
+        return !!entry && typeof entry === 'object' &&
+            typeof entry[field] === 'string' &&
+            typeof entry.unit === 'string' && Object.prototype.hasOwnProperty.call(AREA_UNITS, entry.unit)
+    })
+}
@@ -0,0 +1,261 @@
+import { randomUUID } from 'crypto'
+import { analyzeKml, type KmlAnalysis } from '@/lib/kml/analysis'
+import { fingerprintKml, type KmlFingerprint } from '@/lib/kml/fingerprint'
+import { parseKmlBytes } from '@/lib/kml/parse'
+import { loadAnalysisOptions } from './analysis-config'
+import { indexPlots, removeIndexedPlots } from './plot-index'
+import { createCollection, createDocumentStore } from './store'
+import { readUploadedFile } from './uploaded-files'
+
+/**
+ * In-process analysis queue
+ * Jobs are persisted in the `analyses` collection and processed one at a time by a
+ * background worker loop; result documents are stored separately per job.
+ */
+
+export type AnalysisJobStatus = 'queued' | 'processing' | 'analyzing' | 'completed' | 'error'
+
+export interface AnalysisJob {
+    id: string
+    fileKey: string
+    fileName: string
+    requestId?: string
+    /** The user who uploaded the file */
+    createdBy?: string
+    status: AnalysisJobStatus
+    progress: number
+    error?: string
+    createdAt: string
+    updatedAt: string
+    completedAt?: string
+    /** Name of the reviewer who approved the result */
+    approvedBy?: string
+    approvedAt?: string
+    /** SHA-256 of the uploaded file, set once the file has been read */
+    contentHash?: string
+    /** See fingerprintKml; set once the file has been parsed */
+    geometryFingerprint?: string | null
+    /** 1 for uploads; edited versions count up from there */
+    version?: number
+    /** The analysis of the file this version was edited from */
+    versionOf?: string
+    /** The analysis of the edited version that replaced this file */
+    supersededBy?: string
+}
+
+/** An earlier upload of the same file, or of a file with the same plots */
+export interface FileDuplicate {
+    analysisId: string
+    fileName: string
+    requestId?: string
+    createdAt: string
+    match: 'identical' | 'geometry'
+}
+
+export interface EnqueueAnalysisInput {
+    fileKey: string
+    fileName?: string
+    requestId?: string
+    createdBy?: string
+    /** For edited versions: the analysis the file was edited from and the new version number */
+    versionOf?: string
+    version?: number
+}
+
+interface QueueState {
+    isRunning: boolean
+    hasRecovered: boolean
+}
+
+const analyses = createCollection<AnalysisJob>('analyses')
+const analysisResults = createDocumentStore<KmlAnalysis>('analysis-results')
+
+const globalQueue = globalThis as typeof globalThis & { __kmlAnalysisQueue?: QueueState }
+const queueState: QueueState = globalQueue.__kmlAnalysisQueue ||
+    (globalQueue.__kmlAnalysisQueue = { isRunning: false, hasRecovered: false })
+
+/**
+ * Queues a new analysis job and wakes the worker
+ *
+ * @param input - The uploaded file key plus optional display name, owning request and uploader
+ * @returns Promise<AnalysisJob> - The queued job
+ */
+export async function enqueueAnalysis(input: EnqueueAnalysisInput): Promise<AnalysisJob> {
+    const job = createJob(input)
+    await analyses.insert(job)
+    startWorker()
+    return job
+}
+
+/**
+ * Queues the analysis of an edited version and marks the original as replaced by it
+ * The check that the original has not been replaced yet and both writes happen under the
+ * collection's lock, so two saves from the same original cannot both create a version.
+ * The original's plots are dropped from the overlap index so the two versions are not
+ * reported as overlapping each other.
+ *
+ * @param input - The edited file, with the original's ID and the new version number
+ * @returns Promise<AnalysisJob | null> - The queued job, or null when the original is missing or already replaced
+ */
+export async function enqueueVersion(
+    input: EnqueueAnalysisInput & { versionOf: string, version: number }
+): Promise<AnalysisJob | null> {
+    const job = createJob(input)
+    const isSaved = await analyses.mutate((items) => {
+        const original = items.find(item => item.id === input.versionOf)
+        if (!original || original.supersededBy) return false
+
+        original.supersededBy = job.id
+        original.updatedAt = job.createdAt
+        items.push(job)
+        return true
+    })
+    if (!isSaved) return null
+
+    await removeIndexedPlots(input.versionOf)
+    startWorker()
+    return job
+}
+
+export function getAnalysis(id: string): Promise<AnalysisJob | null> {
+    return analyses.get(id)
+}
+
+/**
+ * Lists analysis jobs, newest first
+ *
+ * @param filter - Optional request ID to restrict the list to
+ * @returns Promise<AnalysisJob[]> - Matching jobs
+ */
+export async function listAnalyses(filter: { requestId?: string } = {}): Promise<AnalysisJob[]> {
+    const jobs = await analyses.list()
+    return jobs
+        .filter(job => !filter.requestId || job.requestId === filter.requestId)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+}
+
+/**
+ * Finds earlier uploads with the same content or the same geometry
+ *
+ * @param fingerprint - The new file's content hash and geometry fingerprint
+ * @returns Promise<AnalysisJob & { match }[]> - Matching jobs, identical files first, then newest first
+ */
+export async function findDuplicateAnalyses(
+    fingerprint: KmlFingerprint
+): Promise<(AnalysisJob & { match: FileDuplicate['match'] })[]> {
+    const jobs = await listAnalyses()
+    return jobs
+        .filter(job => job.contentHash === fingerprint.contentHash ||
+            (fingerprint.geometryFingerprint && job.geometryFingerprint === fingerprint.geometryFingerprint))
+        .map((job): AnalysisJob & { match: FileDuplicate['match'] } => ({
+            ...job,
+            match: job.contentHash === fingerprint.contentHash ? 'identical' : 'geometry'
+        }))
+        // listAnalyses is newest first and sort is stable
+        .sort((a, b) => (a.match === b.match ? 0 : a.match === 'identical' ? -1 : 1))
+}
+
+/**
+ * Records a reviewer's approval of a completed analysis
+ *
+ * @param id - Analysis ID
+ * @param reviewerName - Shown next to the approval
+ * @returns Promise<AnalysisJob | null> - The updated job, or null when it does not exist
+ */
+export function approveAnalysis(id: string, reviewerName: string): Promise<AnalysisJob | null> {
+    const now = new Date().toISOString()
+    return analyses.update(id, { approvedBy: reviewerName, approvedAt: now, updatedAt: now })
+}
+
+export function getAnalysisResult(id: string): Promise<KmlAnalysis | null> {
+    return analysisResults.get(id)
+}
+
+function createJob(input: EnqueueAnalysisInput): AnalysisJob {
+    const now = new Date().toISOString()
+    return {
+        id: `analysis-${randomUUID()}`,
+        fileKey: input.fileKey,
+        fileName: input.fileName || input.fileKey.split('/').pop() || input.fileKey,
+        requestId: input.requestId,
+        createdBy: input.createdBy,
+        version: input.version,
+        versionOf: input.versionOf,
+        status: 'queued',
+        progress: 0,
+        createdAt: now,
+        updatedAt: now
+    }
+}
+
+function startWorker() {
+    if (queueState.isRunning) return
+    queueState.isRunning = true
+
+    runWorker()
+        .catch(error => console.error('Analysis worker crashed:', error))
+        .finally(() => {
+            queueState.isRunning = false
+            // A job may have been queued between the last poll and the flag reset
+            analyses.list()
+                .then((jobs) => {
+                    if (jobs.some(job => job.status === 'queued')) startWorker()
+                })
+                .catch(error => console.error('Failed to check the analysis queue:', error))
+        })
+}
+
+async function runWorker() {
+    if (!queueState.hasRecovered) {
+        queueState.hasRecovered = true
+        await requeueInterruptedJobs()
+    }
+
+    for (;;) {
+        const jobs = await analyses.list()
+        const next = jobs
+            .filter(job => job.status === 'queued')
+            .sort((a, b) => a.createdAt.localeCompare(b.createdAt))[0]
+        if (!next) return
+        await processJob(next)
+    }
+}
+
+/**
+ * Jobs left mid-flight by a server restart are put back on the queue
+ */
+async function requeueInterruptedJobs() {
+    await analyses.mutate((items) => {
+        items.forEach((job) => {
+            if (job.status === 'processing' || job.status === 'analyzing') {
+                job.status = 'queued'
+                job.progress = 0
+            }
+        })
+    })
+}
+
+async function processJob(job: AnalysisJob) {
+    const setStatus = (status: AnalysisJobStatus, progress: number, extra: Partial<AnalysisJob> = {}) =>
+        analyses.update(job.id, { status, progress, updatedAt: new Date().toISOString(), ...extra })
+
+    try {
+        await setStatus('processing', 10)
+        const bytes = await readUploadedFile(job.fileKey)
+
+        await setStatus('processing', 40)
+        const document = parseKmlBytes(bytes)
+        await setStatus('processing', 50, await fingerprintKml(bytes, document))
+
+        await setStatus('analyzing', 70)
+        const result = analyzeKml(document, loadAnalysisOptions())
+        await analysisResults.put(job.id, result)
+        await indexPlots(job, document)
+
+        await setStatus('completed', 100, { completedAt: new Date().toISOString() })
+    } catch (error) {
+        const message = error instanceof Error ? error.message : 'Analysis failed'
+        console.error(`Analysis ${job.id} failed:`, error)
+        await setStatus('error', 100, { error: message })
+    }
+}
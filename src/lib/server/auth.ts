@@ -0,0 +1,371 @@
+import { randomBytes, randomUUID, scrypt, timingSafeEqual } from 'crypto'
+import type { Role } from '@/lib/roles'
+import { signSessionToken, verifySessionToken } from './session-token'
+import { createCollection } from './store'
+
+/**
+ * Users, password hashing and sessions
+ * Passwords are hashed with scrypt. A session is a record in the `sessions`
+ * collection referenced by a signed, HTTP-only cookie; deleting the record
+ * (logout) invalidates the cookie even before it expires. Sessions started with
+ * "Remember me" last 30 days; others end with the browser session, after 8 hours,
+ * or after 30 minutes without requests.
+ */
+
+export interface StoredUser {
+    id: string
+    email: string
+    name: string
+    role: Role
+    /** Deactivated users cannot log in and their sessions are ended */
+    isActive: boolean
+    /** "scrypt:<salt hex>:<key hex>" */
+    passwordHash: string
+    createdAt: string
+    updatedAt: string
+}
+
+/**
+ * The user fields that are safe to send to the browser
+ */
+export interface User {
+    id: string
+    email: string
+    name: string
+    role: Role
+    isActive: boolean
+}
+
+interface Session {
+    id: string
+    userId: string
+    /** Started with "Remember me": a persistent cookie and no idle timeout */
+    isPersistent: boolean
+    createdAt: string
+    lastSeenAt: string
+    expiresAt: string
+}
+
+/**
+ * Session timing sent to the browser so it can warn before logging the user out
+ */
+export interface SessionInfo {
+    expiresAt: string
+    /** null for remembered sessions, which do not time out when idle */
+    idleTimeoutSeconds: number | null
+}
+
+export const SESSION_DURATION_SECONDS = 8 * 60 * 60
+export const REMEMBERED_SESSION_DURATION_SECONDS = 30 * 24 * 60 * 60
+export const IDLE_TIMEOUT_SECONDS = 30 * 60
+
+// lastSeenAt is only rewritten this often, to avoid a write on every request
+const LAST_SEEN_RESOLUTION_MS = 60 * 1000
+
+export const MIN_PASSWORD_LENGTH = 8
+
+const SCRYPT_KEY_LENGTH = 64
+
+const users = createCollection<StoredUser>('users')
+const sessions = createCollection<Session>('sessions')
+
+/**
+ * Hashes a password with a random salt
+ *
+ * @param password - The plain-text password
+ * @returns Promise<string> - The encoded hash
+ */
+export async function hashPassword(password: string): Promise<string> {
+    const salt = randomBytes(16)
+    const key = await deriveKey(password, salt)
+    return `scrypt:${salt.toString('hex')}:${key.toString('hex')}`
+}
+
+/**
+ * Checks a password against an encoded hash in constant time
+ *
+ * @param password - The plain-text password
+ * @param passwordHash - A hash produced by hashPassword
+ * @returns Promise<boolean> - Whether the password matches
+ */
+export async function verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+    const [scheme, saltHex, keyHex] = passwordHash.split(':')
+    if (scheme !== 'scrypt' || !saltHex || !keyHex) return false
+
+    const expected = Buffer.from(keyHex, 'hex')
+    const actual = await deriveKey(password, Buffer.from(saltHex, 'hex'))
+    return actual.length === expected.length && timingSafeEqual(actual, expected)
+}
+
+/**
+ * Checks an email and password
+ *
+ * @param email - Login email, matched case-insensitively
+ * @param password - The plain-text password
+ * @returns Promise<User | null> - The user, or null when the credentials are wrong
+ */
+export async function authenticate(email: string, password: string): Promise<User | null> {
+    await ensureInitialUser()
+    const user = await findUserByEmail(email)
+
+    // Hash anyway for unknown emails so response times do not reveal which emails exist
+    const isValid = await verifyPassword(password, user?.passwordHash || await dummyHash())
+    return user && user.isActive && isValid ? toPublicUser(user) : null
+}
+
+export async function findUserByEmail(email: string): Promise<StoredUser | null> {
+    const normalized = email.trim().toLowerCase()
+    const items = await users.list()
+    return items.find(user => user.email === normalized) || null
+}
+
+export async function getUser(id: string): Promise<User | null> {
+    const user = await users.get(id)
+    return user ? toPublicUser(user) : null
+}
+
+/**
+ * Lists user accounts, sorted by name
+ *
+ * @returns Promise<User[]> - All users
+ */
+export async function listUsers(): Promise<User[]> {
+    const items = await users.list()
+    return items
+        .map(toPublicUser)
+        .sort((a, b) => a.name.localeCompare(b.name))
+}
+
+/**
+ * Creates a user account
+ *
+ * @param input - Email, display name, role and plain-text password
+ * @returns Promise<User> - The new user
+ */
+export async function createUser(input: { email: string, name: string, role: Role, password: string }): Promise<User> {
+    const email = input.email.trim().toLowerCase()
+    if (await findUserByEmail(email)) {
+        throw new Error(`A user with email ${email} already exists`)
+    }
+
+    const now = new Date().toISOString()
+    const user = await users.insert({
+        id: `user-${randomUUID()}`,
+        email,
+        name: input.name.trim() || email.split('@')[0],
+        role: input.role,
+        isActive: true,
+        passwordHash: await hashPassword(input.password),
+        createdAt: now,
+        updatedAt: now
+    })
+    return toPublicUser(user)
+}
+
+/**
+ * Changes the name, role or status of a user
+ * Deactivating a user ends all of their sessions.
+ *
+ * @param id - User ID
+ * @param changes - Fields to change
+ * @returns Promise<User | null> - The updated user, or null when it does not exist
+ */
+export async function updateUser(
+    id: string,
+    changes: Partial<Pick<User, 'name' | 'role' | 'isActive'>>
+): Promise<User | null> {
+    const updated = await users.update(id, user => ({
+        ...user,
+        ...changes,
+        updatedAt: new Date().toISOString()
+    }))
+
+    if (updated && !updated.isActive) await destroyUserSessions(id)
+    return updated ? toPublicUser(updated) : null
+}
+
+/**
+ * Replaces a user's password and ends their sessions
+ *
+ * @param id - User ID
+ * @param password - The new plain-text password
+ * @returns Promise<User | null> - The user, or null when it does not exist
+ */
+export async function setPassword(id: string, password: string): Promise<User | null> {
+    const passwordHash = await hashPassword(password)
+    const updated = await users.update(id, user => ({
+        ...user,
+        passwordHash,
+        updatedAt: new Date().toISOString()
+    }))
+
+    if (updated) await destroyUserSessions(id)
+    return updated ? toPublicUser(updated) : null
+}
+
+/**
+ * Checks a new password against the password policy
+ *
+ * @param password - The proposed password
+ * @returns string | undefined - A message describing the problem, if any
+ */
+export function validatePassword(password: unknown): string | undefined {
+    if (typeof password !== 'string') return 'password is required'
+    if (password.length < MIN_PASSWORD_LENGTH) {
+        return `password must be at least ${MIN_PASSWORD_LENGTH} characters`
+    }
+    return undefined
+}
+
+/**
+ * Starts a session for a user
+ *
+ * @param userId - The authenticated user
+ * @param isPersistent - Keep the user logged in across browser restarts ("Remember me")
+ * @returns Promise<{ token, maxAge, info }> - The cookie value, the cookie lifetime in seconds
+ * (undefined for a browser-session cookie) and the session timing
+ */
+export async function createSession(
+    userId: string,
+    isPersistent = false
+): Promise<{ token: string, maxAge: number | undefined, info: SessionInfo }> {
+    const now = Date.now()
+    const duration = isPersistent ? REMEMBERED_SESSION_DURATION_SECONDS : SESSION_DURATION_SECONDS
+    const expiresAt = now + duration * 1000
+    const session: Session = {
+        id: randomUUID(),
+        userId,
+        isPersistent,
+        createdAt: new Date(now).toISOString(),
+        lastSeenAt: new Date(now).toISOString(),
+        expiresAt: new Date(expiresAt).toISOString()
+    }
+
+    await sessions.mutate((items) => {
+        // Drop expired sessions while the file is open anyway
+        const active = items.filter(item => !isSessionExpired(item, now))
+        items.splice(0, items.length, ...active, session)
+    })
+
+    const token = await signSessionToken({ sid: session.id, uid: userId, exp: Math.floor(expiresAt / 1000) })
+    return { token, maxAge: isPersistent ? duration : undefined, info: toSessionInfo(session) }
+}
+
+/**
+ * Cookie attributes for the session cookie
+ *
+ * @param maxAge - Lifetime in seconds; 0 clears the cookie and undefined makes it last
+ * until the browser is closed
+ * @returns The options to pass to `cookies.set`
+ */
+export function sessionCookieOptions(maxAge: number | undefined) {
+    return {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'lax' as const,
+        path: '/',
+        ...(maxAge === undefined ? {} : { maxAge })
+    }
+}
+
+/**
+ * Resolves the user of a session cookie and records the request as session activity
+ *
+ * @param token - The session cookie value
+ * @returns Promise<User | null> - The user, or null when the session is invalid, expired, idle or ended
+ */
+export async function getSessionUser(token: string | undefined): Promise<User | null> {
+    const resolved = await resolveSession(token)
+    return resolved ? resolved.user : null
+}
+
+/**
+ * Resolves the user and timing of a session cookie
+ *
+ * @param token - The session cookie value
+ * @returns Promise<{ user, session } | null> - The user and session timing, or null like getSessionUser
+ */
+export async function getSessionInfo(token: string | undefined): Promise<{ user: User, session: SessionInfo } | null> {
+    const resolved = await resolveSession(token)
+    return resolved ? { user: resolved.user, session: toSessionInfo(resolved.session) } : null
+}
+
+/**
+ * Ends the session of a cookie
+ *
+ * @param token - The session cookie value
+ */
+export async function destroySession(token: string | undefined): Promise<void> {
+    const payload = await verifySessionToken(token)
+    if (payload) await sessions.remove(payload.sid)
+}
+
+async function resolveSession(token: string | undefined): Promise<{ user: User, session: Session } | null> {
+    const payload = await verifySessionToken(token)
+    if (!payload) return null
+
+    const now = Date.now()
+    let session = await sessions.get(payload.sid)
+    if (!session || session.userId !== payload.uid || isSessionExpired(session, now)) return null
+
+    const user = await getUser(session.userId)
+    if (!user || !user.isActive) return null
+
+    if (now - Date.parse(session.lastSeenAt) >= LAST_SEEN_RESOLUTION_MS) {
+        session = await sessions.update(session.id, { lastSeenAt: new Date(now).toISOString() }) || session
+    }
+    return { user, session }
+}
+
+function isSessionExpired(session: Session, now: number): boolean {
+    if (Date.parse(session.expiresAt) <= now) return true
+    return !session.isPersistent && now - Date.parse(session.lastSeenAt) >= IDLE_TIMEOUT_SECONDS * 1000
+}
+
+function toSessionInfo(session: Session): SessionInfo {
+    return {
+        expiresAt: session.expiresAt,
+        idleTimeoutSeconds: session.isPersistent ? null : IDLE_TIMEOUT_SECONDS
+    }
+}
+
+async function destroyUserSessions(userId: string) {
+    await sessions.mutate((items) => {
+        const kept = items.filter(item => item.userId !== userId)
+        items.splice(0, items.length, ...kept)
+    })
+}
+
+/**
+ * Creates the first account, an admin, from AUTH_INITIAL_USER_EMAIL /
+ * AUTH_INITIAL_USER_PASSWORD when no users exist yet
+ */
+async function ensureInitialUser() {
+    const email = process.env.AUTH_INITIAL_USER_EMAIL
+    const password = process.env.AUTH_INITIAL_USER_PASSWORD
+    if (!email || !password) return
+
+    const existing = await users.list()
+    if (existing.length > 0) return
+
+    await createUser({ email, name: process.env.AUTH_INITIAL_USER_NAME || '', role: 'admin', password })
+}
+
+function toPublicUser(user: StoredUser): User {
+    return { id: user.id, email: user.email, name: user.name, role: user.role, isActive: user.isActive }
+}
+
+let dummyHashPromise: Promise<string> | null = null
+
+function dummyHash(): Promise<string> {
+    return dummyHashPromise || (dummyHashPromise = hashPassword(randomUUID()))
+}
+
+function deriveKey(password: string, salt: Buffer): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        scrypt(password.normalize('NFKC'), salt, SCRYPT_KEY_LENGTH, (error, key) => {
+            if (error) reject(error)
+            else resolve(key)
+        })
+    })
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { hasPermission, type Permission } from '@/lib/roles'
+import type { AnalysisJob } from './analysis-queue'
+import { getSessionUser, type User } from './auth'
+import { getRequest, type ClientRequest } from './requests'
+import { SESSION_COOKIE } from './session-token'
+
+/**
+ * Route-level access checks
+ * Every API route resolves the session user first; record-level checks then decide
+ * which requests and analyses that user may see.
+ */
+
+export type Authorization =
+    | { user: User, errorResponse?: undefined }
+    | { user: null, errorResponse: NextResponse }
+
+/**
+ * Resolves the session user and checks a permission
+ *
+ * @param request - The incoming request carrying the session cookie
+ * @param permission - Permission the route requires, if any
+ * @returns Promise<Authorization> - The user, or a 401/403 response to return as-is
+ */
+export async function authorize(request: NextRequest, permission?: Permission): Promise<Authorization> {
+    const user = await getSessionUser(request.cookies.get(SESSION_COOKIE)?.value)
+
+    if (!user) {
+        return {
+            user: null,
+            errorResponse: NextResponse.json(
+                { error: 'Not authenticated' },
+                { status: 401 }
+            )
+        }
+    }
+
+    if (permission && !hasPermission(user.role, permission)) {
+        return {
+            user: null,
+            errorResponse: NextResponse.json(
+                { error: 'You do not have permission to do this' },
+                { status: 403 }
+            )
+        }
+    }
+
+    return { user }
+}
+
+/**
+ * Checks whether a user may see a request
+ * Reviewers and admins see every request, field uploaders see the requests they are
+ * assigned to and client viewers see the requests sent from their email address.
+ *
+ * @param user - The session user
+ * @param clientRequest - The request to check
+ * @returns boolean - Whether the request is visible to the user
+ */
+export function canAccessRequest(user: User, clientRequest: ClientRequest): boolean {
+    if (hasPermission(user.role, 'requests:view-all')) return true
+    if (user.role === 'field-uploader') return clientRequest.assignedUserIds.indexOf(user.id) !== -1
+    return clientRequest.email.toLowerCase() === user.email
+}
+
+/**
+ * Checks whether a user may see an analysis job and its results
+ * Jobs inherit the visibility of their request; jobs without one are visible to
+ * their uploader and to reviewers.
+ *
+ * @param user - The session user
+ * @param job - The analysis job to check
+ * @returns Promise<boolean> - Whether the job is visible to the user
+ */
+export async function canAccessAnalysis(user: User, job: AnalysisJob): Promise<boolean> {
+    if (hasPermission(user.role, 'requests:view-all') || job.createdBy === user.id) return true
+    if (!job.requestId) return false
+
+    const clientRequest = await getRequest(job.requestId)
+    return clientRequest !== null && canAccessRequest(user, clientRequest)
+}
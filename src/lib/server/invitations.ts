@@ -0,0 +1,160 @@
+import { randomUUID } from 'crypto'
+import { isRole, ROLES, type Role } from '@/lib/roles'
+import { createSession, createUser, findUserByEmail, type User } from './auth'
+import { appUrl, sendMail } from './mailer'
+import { consumeToken, findToken, issueToken, revokeTokens } from './one-time-tokens'
+import { createCollection } from './store'
+
+/**
+ * Invitations
+ * An admin invites a colleague by email; the emailed one-time link lets them pick a
+ * password, which creates their account with the invited role.
+ */
+
+export interface Invitation {
+    id: string
+    email: string
+    name: string
+    role: Role
+    /** Name of the admin who sent the invitation */
+    invitedBy: string
+    createdAt: string
+    expiresAt: string
+}
+
+export type InvitationInput = Pick<Invitation, 'email' | 'name' | 'role'>
+
+export const INVITATION_TTL_SECONDS = 7 * 24 * 60 * 60
+
+const invitations = createCollection<Invitation>('invitations')
+
+/**
+ * Lists invitations that have not been accepted, revoked or expired
+ *
+ * @returns Promise<Invitation[]> - Pending invitations, newest first
+ */
+export async function listInvitations(): Promise<Invitation[]> {
+    const now = Date.now()
+    const items = await invitations.list()
+    return items
+        .filter(invitation => Date.parse(invitation.expiresAt) > now)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+}
+
+/**
+ * Creates an invitation and emails the link
+ * Inviting an email again replaces the earlier invitation.
+ *
+ * @param input - Email, display name and role
+ * @param invitedBy - The admin sending the invitation
+ * @param origin - Origin of the current request, for the link
+ * @returns Promise<Invitation> - The stored invitation
+ */
+export async function createInvitation(input: InvitationInput, invitedBy: User, origin: string): Promise<Invitation> {
+    const now = Date.now()
+    const invitation: Invitation = {
+        id: `invitation-${randomUUID()}`,
+        ...input,
+        email: input.email.toLowerCase(),
+        invitedBy: invitedBy.name,
+        createdAt: new Date(now).toISOString(),
+        expiresAt: new Date(now + INVITATION_TTL_SECONDS * 1000).toISOString()
+    }
+
+    const replaced = (await invitations.list()).filter(existing => existing.email === invitation.email)
+    await Promise.all(replaced.map(existing => revokeInvitation(existing.id)))
+    await invitations.insert(invitation)
+
+    const token = await issueToken('invitation', invitation.id, INVITATION_TTL_SECONDS)
+    await sendMail({
+        to: invitation.email,
+        subject: 'You have been invited to the KML Webapp',
+        text: [
+            `${invitedBy.name} invited you to join the KML Webapp as ${ROLES[invitation.role].label}.`,
+            '',
+            'Choose a password to activate your account:',
+            appUrl(`/accept-invite?token=${encodeURIComponent(token)}`, origin),
+            '',
+            'The link expires in 7 days.'
+        ].join('\n')
+    })
+
+    return invitation
+}
+
+/**
+ * Looks up the invitation of a link without using it
+ *
+ * @param token - The token from the link
+ * @returns Promise<Invitation | null> - The invitation, or null when the link is invalid or expired
+ */
+export async function getInvitationByToken(token: string): Promise<Invitation | null> {
+    const invitationId = await findToken('invitation', token)
+    return invitationId ? invitations.get(invitationId) : null
+}
+
+/**
+ * Creates the invited user's account and logs them in
+ *
+ * @param token - The token from the link
+ * @param input - The display name and password the user chose
+ * @returns Promise<{ user, session } | null> - The new user and session, or null when the link is invalid or expired
+ */
+export async function acceptInvitation(
+    token: string,
+    input: { name: string, password: string }
+): Promise<{ user: User, session: { token: string, maxAge: number | undefined } } | null> {
+    const invitationId = await consumeToken('invitation', token)
+    const invitation = invitationId ? await invitations.get(invitationId) : null
+    if (!invitation) return null
+
+    await invitations.remove(invitation.id)
+    const user = await createUser({
+        email: invitation.email,
+        name: input.name || invitation.name,
+        role: invitation.role,
+        password: input.password
+    })
+
+    return { user, session: await createSession(user.id) }
+}
+
+/**
+ * Withdraws an invitation so its link stops working
+ *
+ * @param id - Invitation ID
+ * @returns Promise<boolean> - Whether the invitation existed
+ */
+export async function revokeInvitation(id: string): Promise<boolean> {
+    await revokeTokens('invitation', id)
+    return invitations.remove(id)
+}
+
+/**
+ * Picks and checks the fields of an invitation body
+ *
+ * @param body - Parsed JSON body
+ * @returns Promise<{ input, error }> - The cleaned fields, or a message describing the first invalid one
+ */
+export async function parseInvitationInput(
+    body: Record<string, unknown>
+): Promise<{ input: Partial<InvitationInput>, error?: string }> {
+    const input: Partial<InvitationInput> = {}
+
+    if (typeof body.email !== 'string' || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(body.email.trim())) {
+        return { input, error: 'email is not a valid email address' }
+    }
+    input.email = body.email.trim().toLowerCase()
+
+    if (body.name !== undefined && typeof body.name !== 'string') return { input, error: 'name must be a string' }
+    input.name = typeof body.name === 'string' ? body.name.trim() : ''
+
+    if (!isRole(body.role)) return { input, error: `role must be one of ${Object.keys(ROLES).join(', ')}` }
+    input.role = body.role
+
+    if (await findUserByEmail(input.email)) {
+        return { input, error: `A user with email ${input.email} already exists` }
+    }
+
+    return { input }
+}
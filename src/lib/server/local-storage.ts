@@ -0,0 +1,231 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto'
+import { promises as fs } from 'fs'
+import path from 'path'
+import { getAuthSecret } from './session-token'
+import type { StorageBackend, StoredObject } from './storage'
+
+/**
+ * Local-disk storage backend, for development and single-instance deployments
+ * Objects are files under KML_UPLOAD_DIR (default: "uploads" in the data directory).
+ * The browser reaches them through /api/storage with URLs signed like S3 presigned
+ * URLs, so uploads work end to end without AWS. Parts of multipart uploads are kept
+ * as hidden objects until the upload is completed or aborted.
+ */
+
+export const LOCAL_STORAGE_ROUTE = '/api/storage'
+// Hidden, so listings skip it
+const MULTIPART_FOLDER = '.multipart'
+
+const UPLOAD_DIR = path.resolve(
+    process.env.KML_UPLOAD_DIR || path.join(process.env.KML_DATA_DIR || path.join(process.cwd(), '.data'), 'uploads')
+)
+
+/**
+ * Creates the local-disk backend
+ *
+ * @returns StorageBackend - Storage in KML_UPLOAD_DIR
+ */
+export function createLocalStorage(): StorageBackend {
+    return {
+        type: 'local',
+
+        presignPut: (key, expiresIn) => signLocalUrl('PUT', key, expiresIn),
+
+        presignGet: (key, expiresIn) => signLocalUrl('GET', key, expiresIn),
+
+        keyFromUrl: localKeyFromUrl,
+
+        putToUrl: async (url, body) => {
+            const key = localKeyFromUrl(url)
+            if (!key) throw new Error('Invalid or expired upload URL')
+            await writeLocalObject(key, body)
+        },
+
+        list: async (prefix) => {
+            // Only the folder the prefix points into needs walking
+            const folder = prefix.slice(0, prefix.lastIndexOf('/') + 1)
+            const objects = await listFolder(folder)
+            return objects.filter(object => object.key.indexOf(prefix) === 0)
+        },
+
+        head: async (key) => {
+            try {
+                const stats = await fs.stat(objectPath(key))
+                return stats.isFile() ? { key, size: stats.size, lastModified: stats.mtime.toISOString() } : null
+            } catch (error) {
+                if (isMissingFileError(error)) return null
+                throw error
+            }
+        },
+
+        remove: async (key) => {
+            try {
+                await fs.unlink(objectPath(key))
+            } catch (error) {
+                if (!isMissingFileError(error)) throw error
+            }
+        },
+
+        read: async (key) => new Uint8Array(await fs.readFile(objectPath(key))),
+
+        write: (key, body) => writeLocalObject(key, new Blob([new Uint8Array(body)]).stream()),
+
+        multipart: {
+            start: async () => randomUUID(),
+
+            presignPart: (key, uploadId, partNumber, expiresIn) =>
+                signLocalUrl('PUT', partKey(uploadId, partNumber), expiresIn),
+
+            listParts: (key, uploadId) => listLocalParts(uploadId),
+
+            complete: async (key, uploadId) => {
+                const partNumbers = await listLocalParts(uploadId)
+                let index = 0
+                // One part in memory at a time
+                const body = new ReadableStream<Uint8Array>({
+                    async pull(controller) {
+                        if (index === partNumbers.length) {
+                            controller.close()
+                            return
+                        }
+                        controller.enqueue(new Uint8Array(await fs.readFile(objectPath(partKey(uploadId, partNumbers[index++])))))
+                    }
+                })
+                await writeLocalObject(key, body)
+                await fs.rm(objectPath(partKey(uploadId)), { recursive: true, force: true })
+            },
+
+            abort: async (key, uploadId) => {
+                await fs.rm(objectPath(partKey(uploadId)), { recursive: true, force: true })
+            }
+        }
+    }
+}
+
+/**
+ * Checks the signature and expiry of a local storage URL
+ *
+ * @param method - The request's HTTP method
+ * @param key - Object key from the URL path
+ * @param searchParams - The URL's query, holding `expires` and `signature`
+ * @returns boolean - Whether the URL was signed by this server for this method and key and is still valid
+ */
+export function verifyLocalUrl(method: string, key: string, searchParams: URLSearchParams): boolean {
+    const expires = Number(searchParams.get('expires'))
+    const signature = searchParams.get('signature') || ''
+    if (!expires || expires * 1000 < Date.now()) return false
+
+    const expected = Buffer.from(urlSignature(method, key, expires))
+    const actual = Buffer.from(signature)
+    return actual.length === expected.length && timingSafeEqual(actual, expected)
+}
+
+/**
+ * Stores an object, replacing any earlier one with the same key
+ * The body is streamed to a file next to its destination and renamed into place, so
+ * readers never see a partial upload.
+ *
+ * @param key - Object key
+ * @param body - The file contents
+ */
+export async function writeLocalObject(key: string, body: ReadableStream<Uint8Array>): Promise<void> {
+    const filePath = objectPath(key)
+    const tempPath = path.join(path.dirname(filePath), `.${path.basename(filePath)}.${randomUUID()}.tmp`)
+
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    const file = await fs.open(tempPath, 'w')
+    try {
+        const reader = body.getReader()
+        for (;;) {
+            const { done, value } = await reader.read()
+            if (done) break
+            await file.write(value)
+        }
+        await file.close()
+    } catch (error) {
+        await file.close()
+        await fs.unlink(tempPath).catch(() => undefined)
+        throw error
+    }
+    await fs.rename(tempPath, filePath)
+}
+
+function signLocalUrl(method: string, key: string, expiresIn: number): string {
+    const expires = Math.floor(Date.now() / 1000) + expiresIn
+    const query = new URLSearchParams({ expires: String(expires), signature: urlSignature(method, key, expires) })
+    return `${LOCAL_STORAGE_ROUTE}/${key.split('/').map(encodeURIComponent).join('/')}?${query}`
+}
+
+// Path and signature are what matter; the origin is whatever host served the URL
+function localKeyFromUrl(url: string): string | null {
+    try {
+        const parsed = new URL(url, 'http://localhost')
+        if (parsed.pathname.indexOf(`${LOCAL_STORAGE_ROUTE}/`) !== 0) return null
+
+        const key = parsed.pathname.slice(LOCAL_STORAGE_ROUTE.length + 1).split('/').map(decodeURIComponent).join('/')
+        return key && verifyLocalUrl('PUT', key, parsed.searchParams) ? key : null
+    } catch {
+        return null
+    }
+}
+
+async function listLocalParts(uploadId: string): Promise<number[]> {
+    let names: string[]
+    try {
+        names = await fs.readdir(objectPath(partKey(uploadId)))
+    } catch (error) {
+        if (isMissingFileError(error)) return []
+        throw error
+    }
+    // Parts still being written are hidden temp files
+    return names
+        .filter(name => /^\d+$/.test(name))
+        .map(Number)
+        .sort((a, b) => a - b)
+}
+
+function partKey(uploadId: string, partNumber?: number): string {
+    return `${MULTIPART_FOLDER}/${uploadId}${partNumber === undefined ? '' : `/${partNumber}`}`
+}
+
+function urlSignature(method: string, key: string, expires: number): string {
+    return createHmac('sha256', getAuthSecret()).update(`${method}\n${key}\n${expires}`).digest('hex')
+}
+
+// Keys are relative paths under UPLOAD_DIR and may not escape it
+function objectPath(key: string): string {
+    const filePath = path.resolve(UPLOAD_DIR, key)
+    if (!filePath.startsWith(UPLOAD_DIR + path.sep)) {
+        throw new Error(`Invalid file key: ${key}`)
+    }
+    return filePath
+}
+
+async function listFolder(folder: string): Promise<StoredObject[]> {
+    const folderPath = folder ? objectPath(folder) : UPLOAD_DIR
+    let entries: { name: string, isDirectory: () => boolean, isFile: () => boolean }[]
+    try {
+        entries = await fs.readdir(folderPath, { withFileTypes: true })
+    } catch (error) {
+        if (isMissingFileError(error)) return []
+        throw error
+    }
+
+    const nested = await Promise.all(entries
+        // Hidden files are uploads still being written
+        .filter(entry => entry.name.charAt(0) !== '.')
+        .map(async (entry): Promise<StoredObject[]> => {
+            const key = `${folder}${entry.name}`
+            if (entry.isDirectory()) return listFolder(`${key}/`)
+            if (!entry.isFile()) return []
+
+            const stats = await fs.stat(path.join(folderPath, entry.name))
+            return [{ key, size: stats.size, lastModified: stats.mtime.toISOString() }]
+        }))
+
+    return ([] as StoredObject[]).concat(...nested)
+}
+
+function isMissingFileError(error: unknown): boolean {
+    return (error as NodeJS.ErrnoException)?.code === 'ENOENT'
+}
@@ -0,0 +1,103 @@
+import { createCollection } from './store'
+
+/**
+ * Lockout after repeated failed logins
+ * Failures are counted per email address and per client IP over a sliding window.
+ * Reaching the limit for either locks further attempts from it until the lockout
+ * ends, even with the right password, so a password cannot be guessed by volume.
+ */
+
+interface LoginFailures {
+    /** `email:<address>` or `ip:<address>` */
+    id: string
+    /** Times of the failures still inside the window */
+    failedAt: string[]
+    lockedUntil?: string
+}
+
+interface ThrottleRule {
+    maxFailures: number
+    windowSeconds: number
+    lockoutSeconds: number
+}
+
+const EMAIL_RULE: ThrottleRule = { maxFailures: 5, windowSeconds: 15 * 60, lockoutSeconds: 15 * 60 }
+// Higher, since an office or mobile carrier can put many users behind one address
+const IP_RULE: ThrottleRule = { maxFailures: 20, windowSeconds: 15 * 60, lockoutSeconds: 15 * 60 }
+
+const failures = createCollection<LoginFailures>('login-failures')
+
+/**
+ * Checks whether login attempts for an email address or from an IP are locked out
+ *
+ * @param email - The email address being logged in to
+ * @param ip - The client IP, when known
+ * @returns Promise<number> - Seconds until attempts are allowed again; 0 when not locked
+ */
+export async function getLockoutSeconds(email: string, ip: string | null): Promise<number> {
+    const now = Date.now()
+    const records = await Promise.all(throttleKeys(email, ip).map(key => failures.get(key)))
+    return Math.max(0, ...records.map(record => remainingSeconds(record?.lockedUntil, now)))
+}
+
+/**
+ * Records a failed login and locks out further attempts once a limit is reached
+ *
+ * @param email - The email address that was tried
+ * @param ip - The client IP, when known
+ * @returns Promise<number> - Seconds of lockout now in force; 0 when not locked
+ */
+export async function recordFailedLogin(email: string, ip: string | null): Promise<number> {
+    const now = Date.now()
+    const keys = throttleKeys(email, ip)
+
+    return failures.mutate((items) => {
+        // Forget windows that have passed while the file is open anyway
+        const kept = items.filter(item =>
+            remainingSeconds(item.lockedUntil, now) > 0 ||
+            item.failedAt.some(time => now - Date.parse(time) < IP_RULE.windowSeconds * 1000)
+        )
+        items.splice(0, items.length, ...kept)
+
+        let lockout = 0
+        keys.forEach((key) => {
+            const rule = key.indexOf('ip:') === 0 ? IP_RULE : EMAIL_RULE
+            let record = items.find(item => item.id === key)
+            if (!record) {
+                record = { id: key, failedAt: [] }
+                items.push(record)
+            }
+
+            record.failedAt = record.failedAt
+                .filter(time => now - Date.parse(time) < rule.windowSeconds * 1000)
+                .concat(new Date(now).toISOString())
+            if (record.failedAt.length >= rule.maxFailures && remainingSeconds(record.lockedUntil, now) === 0) {
+                record.lockedUntil = new Date(now + rule.lockoutSeconds * 1000).toISOString()
+                record.failedAt = []
+            }
+            lockout = Math.max(lockout, remainingSeconds(record.lockedUntil, now))
+        })
+        return lockout
+    })
+}
+
+/**
+ * Forgets the failed logins for an email address after a successful login
+ *
+ * @param email - The email address that logged in
+ */
+export async function clearFailedLogins(email: string): Promise<void> {
+    await failures.remove(emailKey(email))
+}
+
+function throttleKeys(email: string, ip: string | null): string[] {
+    return ip ? [emailKey(email), `ip:${ip}`] : [emailKey(email)]
+}
+
+function emailKey(email: string): string {
+    return `email:${email.trim().toLowerCase()}`
+}
+
+function remainingSeconds(until: string | undefined, now: number): number {
+    return until ? Math.max(0, Math.ceil((Date.parse(until) - now) / 1000)) : 0
+}
@@ -0,0 +1,62 @@
+import { randomUUID } from 'crypto'
+import { createCollection } from './store'
+
+/**
+ * Outgoing mail
+ * Messages are caught in the `mail-outbox` collection instead of being delivered,
+ * so invitation and password-reset links can be followed from /settings/mail during
+ * development. Replace deliver() to send through a real mail provider.
+ */
+
+export interface MailMessage {
+    id: string
+    to: string
+    subject: string
+    text: string
+    sentAt: string
+}
+
+const outbox = createCollection<MailMessage>('mail-outbox')
+
+/**
+ * Sends a plain-text email
+ *
+ * @param message - Recipient, subject and body
+ * @returns Promise<MailMessage> - The sent message
+ */
+export async function sendMail(message: { to: string, subject: string, text: string }): Promise<MailMessage> {
+    const sent: MailMessage = {
+        id: randomUUID(),
+        ...message,
+        sentAt: new Date().toISOString()
+    }
+
+    await deliver(sent)
+    return sent
+}
+
+/**
+ * Lists caught messages, newest first
+ *
+ * @returns Promise<MailMessage[]> - Messages in the outbox
+ */
+export async function listMail(): Promise<MailMessage[]> {
+    const items = await outbox.list()
+    return items.sort((a, b) => b.sentAt.localeCompare(a.sentAt))
+}
+
+/**
+ * Builds an absolute link into the app
+ *
+ * @param path - Path and query, starting with "/"
+ * @param origin - Origin of the current request, used when APP_URL is not set
+ * @returns string - The absolute URL
+ */
+export function appUrl(path: string, origin: string): string {
+    return `${(process.env.APP_URL || origin).replace(/\/$/, '')}${path}`
+}
+
+async function deliver(message: MailMessage) {
+    await outbox.insert(message)
+    console.log(`Mail to ${message.to} caught in outbox: ${message.subject}`)
+}
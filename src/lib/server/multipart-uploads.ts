@@ -0,0 +1,198 @@
+import { randomUUID } from 'crypto'
+import { getStorage, MAX_UPLOAD_BYTES, uploadKey } from './storage'
+import { createCollection } from './store'
+
+/**
+ * Multipart uploads of large KML/KMZ files straight from the browser to storage
+ * The server starts the upload, presigns each part and completes it from the backend's
+ * own list of stored parts. Each upload is recorded here so it can be resumed after a
+ * page reload and only by its uploader.
+ */
+
+export interface MultipartUpload {
+    id: string
+    fileKey: string
+    fileName: string
+    fileSize: number
+    partSize: number
+    partCount: number
+    createdBy: string
+    createdAt: string
+}
+
+export interface MultipartUploadInput {
+    fileName: string
+    fileSize: number
+}
+
+interface StoredMultipartUpload extends MultipartUpload {
+    /** The storage backend's ID for the upload */
+    storageUploadId: string
+}
+
+// S3's minimum size for every part but the last; the local backend uses the same
+export const MULTIPART_PART_SIZE = 5 * 1024 * 1024
+const PART_URL_TTL_SECONDS = 60 * 60
+// Uploads left unfinished this long are forgotten and aborted
+const UPLOAD_RETENTION_MS = 7 * 24 * 60 * 60 * 1000
+
+const uploads = createCollection<StoredMultipartUpload>('multipart-uploads')
+
+/**
+ * Starts a multipart upload
+ *
+ * @param input - The file being uploaded
+ * @param createdBy - ID of the uploading user
+ * @returns Promise<MultipartUpload> - The upload, with the part size the browser must use
+ */
+export async function createMultipartUpload(input: MultipartUploadInput, createdBy: string): Promise<MultipartUpload> {
+    const fileKey = uploadKey(input.fileName)
+
+    const { multipart } = getStorage()
+    const storageUploadId = await multipart.start(fileKey)
+
+    const now = Date.now()
+    const upload: StoredMultipartUpload = {
+        id: randomUUID(),
+        fileKey,
+        fileName: input.fileName,
+        fileSize: input.fileSize,
+        partSize: MULTIPART_PART_SIZE,
+        partCount: Math.max(1, Math.ceil(input.fileSize / MULTIPART_PART_SIZE)),
+        createdBy,
+        createdAt: new Date(now).toISOString(),
+        storageUploadId
+    }
+
+    const expired = await uploads.mutate((items) => {
+        const isRecent = (item: StoredMultipartUpload) => now - Date.parse(item.createdAt) < UPLOAD_RETENTION_MS
+        const stale = items.filter(item => !isRecent(item))
+        items.splice(0, items.length, ...items.filter(isRecent), upload)
+        return stale
+    })
+    // Local storage has no lifecycle rules, so forgotten uploads' parts are removed here
+    await Promise.all(expired.map(item =>
+        multipart.abort(item.fileKey, item.storageUploadId).catch(() => undefined)))
+
+    return toMultipartUpload(upload)
+}
+
+/**
+ * Gets an unfinished upload
+ *
+ * @param id - Upload ID
+ * @returns Promise<MultipartUpload | null> - The upload, or null when it is unknown, completed or aborted
+ */
+export async function getMultipartUpload(id: string): Promise<MultipartUpload | null> {
+    const upload = await uploads.get(id)
+    return upload ? toMultipartUpload(upload) : null
+}
+
+/**
+ * Lists the parts storage already holds, so a resumed upload can skip them
+ *
+ * @param id - Upload ID
+ * @returns Promise<number[]> - Stored part numbers, ascending
+ */
+export async function listUploadedParts(id: string): Promise<number[]> {
+    const upload = await requireUpload(id)
+    return getStorage().multipart.listParts(upload.fileKey, upload.storageUploadId)
+}
+
+/**
+ * Presigns the URLs the browser PUTs each part to
+ *
+ * @param id - Upload ID
+ * @param partNumbers - Parts to presign, 1-based
+ * @returns Promise<{ partNumber, url }[]> - One URL per part
+ */
+export async function presignPartUrls(id: string, partNumbers: number[]): Promise<{ partNumber: number, url: string }[]> {
+    const upload = await requireUpload(id)
+    const { multipart } = getStorage()
+    return partNumbers.map(partNumber => ({
+        partNumber,
+        url: multipart.presignPart(upload.fileKey, upload.storageUploadId, partNumber, PART_URL_TTL_SECONDS)
+    }))
+}
+
+/**
+ * Assembles the stored parts into the final object
+ *
+ * @param id - Upload ID
+ * @returns Promise<{ fileKey } | { error }> - The object key, or which parts are still missing
+ */
+export async function completeMultipartUpload(id: string): Promise<{ fileKey: string } | { error: string }> {
+    const upload = await requireUpload(id)
+    const { multipart } = getStorage()
+
+    const stored = await multipart.listParts(upload.fileKey, upload.storageUploadId)
+    const missing: number[] = []
+    for (let partNumber = 1; partNumber <= upload.partCount; partNumber++) {
+        if (stored.indexOf(partNumber) === -1) missing.push(partNumber)
+    }
+    if (missing.length > 0) {
+        return { error: `Parts ${missing.join(', ')} have not been uploaded yet` }
+    }
+
+    await multipart.complete(upload.fileKey, upload.storageUploadId)
+    await uploads.remove(upload.id)
+
+    return { fileKey: upload.fileKey }
+}
+
+/**
+ * Cancels an upload and discards its stored parts
+ *
+ * @param id - Upload ID
+ * @returns Promise<boolean> - Whether the upload existed
+ */
+export async function abortMultipartUpload(id: string): Promise<boolean> {
+    const upload = await uploads.get(id)
+    if (!upload) return false
+
+    await getStorage().multipart.abort(upload.fileKey, upload.storageUploadId)
+    return uploads.remove(upload.id)
+}
+
+/**
+ * Validates the body of a start-upload request
+ *
+ * @param body - The parsed JSON body
+ * @returns { input, error } - The validated input, or the first validation error
+ */
+export function parseMultipartUploadInput(
+    body: Record<string, unknown>
+): { input: Partial<MultipartUploadInput>, error?: string } {
+    const input: Partial<MultipartUploadInput> = {}
+
+    if (typeof body.fileName !== 'string' || !body.fileName.trim()) return { input, error: 'fileName is required' }
+    if (!/\.km[lz]$/i.test(body.fileName)) return { input, error: 'Only KML and KMZ files are allowed' }
+    input.fileName = body.fileName.trim()
+
+    if (typeof body.fileSize !== 'number' || !Number.isInteger(body.fileSize) || body.fileSize <= 0) {
+        return { input, error: 'fileSize must be a positive number of bytes' }
+    }
+    if (body.fileSize > MAX_UPLOAD_BYTES) return { input, error: 'File size exceeds 50MB limit' }
+    input.fileSize = body.fileSize
+
+    return { input }
+}
+
+async function requireUpload(id: string): Promise<StoredMultipartUpload> {
+    const upload = await uploads.get(id)
+    if (!upload) throw new Error(`Multipart upload ${id} not found`)
+    return upload
+}
+
+function toMultipartUpload(upload: StoredMultipartUpload): MultipartUpload {
+    return {
+        id: upload.id,
+        fileKey: upload.fileKey,
+        fileName: upload.fileName,
+        fileSize: upload.fileSize,
+        partSize: upload.partSize,
+        partCount: upload.partCount,
+        createdBy: upload.createdBy,
+        createdAt: upload.createdAt
+    }
+}
@@ -0,0 +1,103 @@
+import { createHash, randomBytes } from 'crypto'
+import { createCollection } from './store'
+
+/**
+ * One-time tokens for invitation and password-reset links
+ * Only a SHA-256 hash of each token is stored, a token is deleted once used and
+ * issuing a new token for the same subject replaces the previous one.
+ */
+
+export type TokenPurpose = 'invitation' | 'password-reset'
+
+interface OneTimeToken {
+    /** SHA-256 of the token, hex */
+    id: string
+    purpose: TokenPurpose
+    /** The invitation or user the token acts on */
+    subjectId: string
+    createdAt: string
+    expiresAt: string
+}
+
+const tokens = createCollection<OneTimeToken>('one-time-tokens')
+
+/**
+ * Issues a token for a subject
+ *
+ * @param purpose - What the token may be used for
+ * @param subjectId - The invitation or user ID
+ * @param ttlSeconds - Lifetime of the token
+ * @returns Promise<string> - The token to put in the link; it cannot be recovered later
+ */
+export async function issueToken(purpose: TokenPurpose, subjectId: string, ttlSeconds: number): Promise<string> {
+    const token = randomBytes(32).toString('base64url')
+    const now = Date.now()
+    const record: OneTimeToken = {
+        id: hashToken(token),
+        purpose,
+        subjectId,
+        createdAt: new Date(now).toISOString(),
+        expiresAt: new Date(now + ttlSeconds * 1000).toISOString()
+    }
+
+    await tokens.mutate((items) => {
+        const kept = items.filter(item =>
+            Date.parse(item.expiresAt) > now &&
+            !(item.purpose === purpose && item.subjectId === subjectId)
+        )
+        items.splice(0, items.length, ...kept, record)
+    })
+
+    return token
+}
+
+/**
+ * Looks up a token without using it
+ *
+ * @param purpose - The purpose the token must have been issued for
+ * @param token - The token from the link
+ * @returns Promise<string | null> - The subject ID, or null when the token is unknown or expired
+ */
+export async function findToken(purpose: TokenPurpose, token: string): Promise<string | null> {
+    const record = await tokens.get(hashToken(token))
+    return record && record.purpose === purpose && Date.parse(record.expiresAt) > Date.now()
+        ? record.subjectId
+        : null
+}
+
+/**
+ * Uses up a token
+ *
+ * @param purpose - The purpose the token must have been issued for
+ * @param token - The token from the link
+ * @returns Promise<string | null> - The subject ID, or null when the token is unknown or expired
+ */
+export async function consumeToken(purpose: TokenPurpose, token: string): Promise<string | null> {
+    const id = hashToken(token)
+    return tokens.mutate((items) => {
+        const index = items.findIndex(item => item.id === id)
+        if (index === -1) return null
+
+        const [record] = items.splice(index, 1)
+        return record.purpose === purpose && Date.parse(record.expiresAt) > Date.now()
+            ? record.subjectId
+            : null
+    })
+}
+
+/**
+ * Invalidates every token issued for a subject
+ *
+ * @param purpose - Token purpose
+ * @param subjectId - The invitation or user ID
+ */
+export async function revokeTokens(purpose: TokenPurpose, subjectId: string): Promise<void> {
+    await tokens.mutate((items) => {
+        const kept = items.filter(item => !(item.purpose === purpose && item.subjectId === subjectId))
+        items.splice(0, items.length, ...kept)
+    })
+}
+
+function hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex')
+}
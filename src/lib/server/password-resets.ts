@@ -0,0 +1,46 @@
+import { setPassword, type User } from './auth'
+import { appUrl, sendMail } from './mailer'
+import { consumeToken, issueToken } from './one-time-tokens'
+
+/**
+ * Password-reset links
+ * Admins issue a reset for a user; the emailed one-time link lets the user choose a
+ * new password, which also ends their existing sessions.
+ */
+
+export const PASSWORD_RESET_TTL_SECONDS = 60 * 60
+
+/**
+ * Emails a password-reset link to a user
+ * Issuing a new link invalidates the previous one.
+ *
+ * @param user - The user whose password is reset
+ * @param origin - Origin of the current request, for the link
+ */
+export async function sendPasswordReset(user: User, origin: string): Promise<void> {
+    const token = await issueToken('password-reset', user.id, PASSWORD_RESET_TTL_SECONDS)
+    await sendMail({
+        to: user.email,
+        subject: 'Reset your KML Webapp password',
+        text: [
+            `Hello ${user.name},`,
+            '',
+            'Choose a new password with this link:',
+            appUrl(`/reset-password?token=${encodeURIComponent(token)}`, origin),
+            '',
+            'The link expires in 1 hour. If you did not expect this email, let your administrator know.'
+        ].join('\n')
+    })
+}
+
+/**
+ * Sets a new password using a reset link
+ *
+ * @param token - The token from the link
+ * @param password - The new plain-text password
+ * @returns Promise<User | null> - The user, or null when the link is invalid or expired
+ */
+export async function resetPassword(token: string, password: string): Promise<User | null> {
+    const userId = await consumeToken('password-reset', token)
+    return userId ? setPassword(userId, password) : null
+}
@@ -0,0 +1,105 @@
+import { findOverlaps, plotFootprint, type PlotFootprint, type PlotOverlap } from '@/lib/kml/overlap'
+import type { KmlDocument } from '@/lib/kml/types'
+import { createCollection } from './store'
+
+/**
+ * Index of plot footprints from every analysed file
+ * Used to detect plots that overlap land already submitted in another file or request.
+ */
+
+interface IndexedFile {
+    /** The analysis ID the footprints were taken from */
+    id: string
+    requestId?: string
+    fileName: string
+    footprints: PlotFootprint[]
+}
+
+export interface ExternalPlotOverlap extends PlotOverlap {
+    /** The file the other plot belongs to */
+    other: {
+        analysisId: string
+        requestId?: string
+        fileName: string
+    }
+}
+
+const indexedFiles = createCollection<IndexedFile>('plot-footprints')
+
+/**
+ * Stores the footprints of an analysed document, replacing any earlier entry for the analysis
+ *
+ * @param analysis - The analysis the document belongs to
+ * @param document - The parsed document
+ */
+export async function indexPlots(
+    analysis: { id: string, requestId?: string, fileName: string },
+    document: KmlDocument
+): Promise<void> {
+    const entry: IndexedFile = {
+        id: analysis.id,
+        requestId: analysis.requestId,
+        fileName: analysis.fileName,
+        footprints: document.placemarks
+            .map(plotFootprint)
+            .filter((footprint): footprint is PlotFootprint => footprint !== null)
+    }
+
+    await indexedFiles.mutate((items) => {
+        const index = items.findIndex(item => item.id === analysis.id)
+        if (index === -1) items.push(entry)
+        else items[index] = entry
+    })
+}
+
+/**
+ * Drops the footprints of an analysis, e.g. one replaced by an edited version
+ *
+ * @param analysisId - The analysis whose plots no longer count
+ */
+export async function removeIndexedPlots(analysisId: string): Promise<void> {
+    await indexedFiles.mutate((items) => {
+        const index = items.findIndex(item => item.id === analysisId)
+        if (index !== -1) items.splice(index, 1)
+    })
+}
+
+/**
+ * Finds overlaps between the plots of one analysis and the plots of every other indexed file
+ *
+ * @param analysisId - The analysis to check
+ * @returns Promise<ExternalPlotOverlap[]> - Intersecting pairs, largest overlap first
+ */
+export async function findExternalOverlaps(analysisId: string): Promise<ExternalPlotOverlap[]> {
+    const files = await indexedFiles.list()
+    const file = files.find(item => item.id === analysisId)
+    if (!file) return []
+
+    return files
+        .filter(other => other.id !== analysisId)
+        .reduce<ExternalPlotOverlap[]>((all, other) => all.concat(
+            findOverlaps(file.footprints, other.footprints).map(overlap => ({
+                ...overlap,
+                other: { analysisId: other.id, requestId: other.requestId, fileName: other.fileName }
+            }))
+        ), [])
+        .sort((a, b) => b.areaSquareMeters - a.areaSquareMeters)
+}
+
+/**
+ * Totals the indexed plots of a set of requests
+ *
+ * @param requestIds - Requests to include
+ * @returns Promise<{ plotCount, areaSquareMeters }> - Number of polygon plots and their combined area
+ */
+export async function summarizeRequestPlots(
+    requestIds: string[]
+): Promise<{ plotCount: number, areaSquareMeters: number }> {
+    const files = await indexedFiles.list()
+    return files
+        .filter(file => file.requestId && requestIds.indexOf(file.requestId) !== -1)
+        .reduce((totals, file) => ({
+            plotCount: totals.plotCount + file.footprints.length,
+            areaSquareMeters: file.footprints.reduce((sum, footprint) => sum + footprint.areaSquareMeters, totals.areaSquareMeters)
+        }), { plotCount: 0, areaSquareMeters: 0 })
+}
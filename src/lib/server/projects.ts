@@ -0,0 +1,163 @@
+import { PROJECT_STATUSES, type ProjectStatus } from '@/lib/project-status'
+import { summarizeRequestPlots } from './plot-index'
+import { listRequests, type ClientRequest } from './requests'
+import { createCollection, nextSequence } from './store'
+
+/**
+ * Projects
+ * A project groups client requests (each request belongs to at most one project).
+ * Request and plot counts are derived from the linked requests rather than stored.
+ */
+
+export interface ProjectStatusChange {
+    status: ProjectStatus
+    changedAt: string
+}
+
+export interface Project {
+    id: string
+    name: string
+    description: string
+    status: ProjectStatus
+    /** Every status the project has had, oldest first */
+    statusHistory: ProjectStatusChange[]
+    createdAt: string
+    updatedAt: string
+}
+
+export type ProjectInput = Pick<Project, 'name' | 'description' | 'status'>
+
+/**
+ * A project with the totals of its linked requests
+ */
+export interface ProjectSummary extends Project {
+    requestCount: number
+    plotCount: number
+    areaSquareMeters: number
+}
+
+export interface ProjectDetails extends ProjectSummary {
+    requests: ClientRequest[]
+}
+
+const PROJECT_ID_PREFIX = 'P'
+const PROJECT_ID_DIGITS = 3
+
+const projects = createCollection<Project>('projects')
+
+/**
+ * Lists projects with their derived totals, most recently updated first
+ *
+ * @returns Promise<ProjectSummary[]> - All projects, including archived ones
+ */
+export async function listProjects(): Promise<ProjectSummary[]> {
+    const [items, requests] = await Promise.all([projects.list(), listRequests()])
+
+    const summaries = await Promise.all(items.map(project =>
+        summarizeProject(project, requests.filter(request => request.projectId === project.id))))
+    return summaries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+}
+
+/**
+ * Gets a project with its requests and derived totals
+ *
+ * @param id - Project ID
+ * @returns Promise<ProjectDetails | null> - The project, or null when it does not exist
+ */
+export async function getProjectDetails(id: string): Promise<ProjectDetails | null> {
+    const project = await projects.get(id)
+    if (!project) return null
+
+    const requests = await listRequests({ projectId: id })
+    return { ...(await summarizeProject(project, requests)), requests }
+}
+
+export function getProject(id: string): Promise<Project | null> {
+    return projects.get(id)
+}
+
+/**
+ * Creates a project with the next sequential ID
+ *
+ * @param input - Project details
+ * @returns Promise<Project> - The stored project
+ */
+export async function createProject(input: ProjectInput): Promise<Project> {
+    const sequence = await nextSequence('projects')
+
+    const now = new Date().toISOString()
+    const project: Project = {
+        ...input,
+        id: `${PROJECT_ID_PREFIX}${String(sequence).padStart(PROJECT_ID_DIGITS, '0')}`,
+        statusHistory: [{ status: input.status, changedAt: now }],
+        createdAt: now,
+        updatedAt: now
+    }
+
+    return projects.insert(project)
+}
+
+/**
+ * Updates a project, recording a status change in its history
+ *
+ * @param id - Project ID
+ * @param changes - Fields to change
+ * @returns Promise<Project | null> - The updated project, or null when it does not exist
+ */
+export function updateProject(id: string, changes: Partial<ProjectInput>): Promise<Project | null> {
+    return projects.update(id, (project) => {
+        const now = new Date().toISOString()
+        const hasStatusChanged = changes.status !== undefined && changes.status !== project.status
+
+        return {
+            ...project,
+            ...changes,
+            statusHistory: hasStatusChanged
+                ? project.statusHistory.concat([{ status: changes.status!, changedAt: now }])
+                : project.statusHistory,
+            updatedAt: now
+        }
+    })
+}
+
+/**
+ * Picks and checks the editable fields of a project body
+ *
+ * @param body - Parsed JSON body
+ * @param isPartial - Allow missing fields (for updates)
+ * @returns { input, error } - The cleaned fields, or a message describing the first invalid one
+ */
+export function parseProjectInput(
+    body: Record<string, unknown>,
+    isPartial = false
+): { input: Partial<ProjectInput>, error?: string } {
+    const input: Partial<ProjectInput> = {}
+
+    if (body.name !== undefined) {
+        if (typeof body.name !== 'string' || !body.name.trim()) return { input, error: 'name must be a non-empty string' }
+        input.name = body.name.trim()
+    }
+    if (body.description !== undefined) {
+        if (typeof body.description !== 'string') return { input, error: 'description must be a string' }
+        input.description = body.description.trim()
+    }
+    if (body.status !== undefined) {
+        if (PROJECT_STATUSES.indexOf(body.status as ProjectStatus) === -1) {
+            return { input, error: `status must be one of ${PROJECT_STATUSES.join(', ')}` }
+        }
+        input.status = body.status as ProjectStatus
+    }
+
+    if (!isPartial) {
+        if (!input.name) return { input, error: 'name is required' }
+        input.description = input.description || ''
+        input.status = input.status || 'Pending'
+    }
+
+    return { input }
+}
+
+async function summarizeProject(project: Project, requests: ClientRequest[]): Promise<ProjectSummary> {
+    const { plotCount, areaSquareMeters } = await summarizeRequestPlots(requests.map(request => request.id))
+    return { ...project, requestCount: requests.length, plotCount, areaSquareMeters }
+}
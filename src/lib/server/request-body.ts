@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+
+export type JsonBody =
+    | { body: Record<string, unknown>, errorResponse?: undefined }
+    | { body: null, errorResponse: NextResponse }
+
+/**
+ * Reads a JSON object from a request body
+ * A body that is not JSON is the client's mistake, so it gets a 400 rather than ending
+ * up in a route's 500 handler.
+ *
+ * @param request - The incoming request
+ * @returns Promise<JsonBody> - The parsed object, or a 400 response to return as-is
+ */
+export async function readJsonBody(request: NextRequest): Promise<JsonBody> {
+    let body: unknown
+    try {
+        body = await request.json()
+    } catch {
+        return {
+            body: null,
+            errorResponse: NextResponse.json(
+                { error: 'Request body must be valid JSON' },
+                { status: 400 }
+            )
+        }
+    }
+
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+        return {
+            body: null,
+            errorResponse: NextResponse.json(
+                { error: 'Request body must be a JSON object' },
+                { status: 400 }
+            )
+        }
+    }
+
+    return { body: body as Record<string, unknown> }
+}
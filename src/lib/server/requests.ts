@@ -0,0 +1,160 @@
+import { listUsers } from './auth'
+import { createCollection, nextSequence } from './store'
+
+/**
+ * Client requests
+ * Each request groups the KML files a client submitted; IDs are sequential
+ * ("R00001", "R00002", ...) and never reused after a request is deleted.
+ */
+
+export interface ClientRequest {
+    id: string
+    clientName: string
+    email: string
+    /** Date the request was received, YYYY-MM-DD */
+    receivedOn: string
+    location: string
+    registry: string
+    projectType: string
+    folderName: string
+    /** The project the request belongs to, '' when unassigned */
+    projectId: string
+    /** Field uploaders who may add KML files to the request */
+    assignedUserIds: string[]
+    createdAt: string
+    updatedAt: string
+}
+
+export type ClientRequestInput = Pick<
+    ClientRequest,
+    | 'clientName' | 'email' | 'receivedOn' | 'location' | 'registry' | 'projectType' | 'folderName' | 'projectId'
+    | 'assignedUserIds'
+>
+
+const REQUEST_ID_PREFIX = 'R'
+const REQUEST_ID_DIGITS = 5
+
+const requests = createCollection<ClientRequest>('requests')
+
+/**
+ * Lists requests, newest first
+ *
+ * @param filter - Optional project ID to restrict the list to
+ * @returns Promise<ClientRequest[]> - Matching requests
+ */
+export async function listRequests(filter: { projectId?: string } = {}): Promise<ClientRequest[]> {
+    const items = await requests.list()
+    return items
+        .filter(request => !filter.projectId || request.projectId === filter.projectId)
+        .sort((a, b) => b.id.localeCompare(a.id))
+}
+
+export function getRequest(id: string): Promise<ClientRequest | null> {
+    return requests.get(id)
+}
+
+/**
+ * Creates a request with the next sequential ID
+ *
+ * @param input - Request details
+ * @returns Promise<ClientRequest> - The stored request
+ */
+export async function createRequest(input: ClientRequestInput): Promise<ClientRequest> {
+    const sequence = await nextSequence('requests')
+
+    const now = new Date().toISOString()
+    const request: ClientRequest = {
+        ...input,
+        id: `${REQUEST_ID_PREFIX}${String(sequence).padStart(REQUEST_ID_DIGITS, '0')}`,
+        createdAt: now,
+        updatedAt: now
+    }
+
+    return requests.insert(request)
+}
+
+/**
+ * Updates the details of a request
+ *
+ * @param id - Request ID
+ * @param changes - Fields to change
+ * @returns Promise<ClientRequest | null> - The updated request, or null when it does not exist
+ */
+export function updateRequest(id: string, changes: Partial<ClientRequestInput>): Promise<ClientRequest | null> {
+    return requests.update(id, request => ({
+        ...request,
+        ...changes,
+        updatedAt: new Date().toISOString()
+    }))
+}
+
+export function deleteRequest(id: string): Promise<boolean> {
+    return requests.remove(id)
+}
+
+/**
+ * Picks and checks the editable fields of a request body
+ *
+ * @param body - Parsed JSON body
+ * @param isPartial - Allow missing fields (for updates)
+ * @returns { input, error } - The cleaned fields, or a message describing the first invalid one
+ */
+export function parseRequestInput(
+    body: Record<string, unknown>,
+    isPartial = false
+): { input: Partial<ClientRequestInput>, error?: string } {
+    const input: Partial<ClientRequestInput> = {}
+    const fields: Exclude<keyof ClientRequestInput, 'assignedUserIds'>[] = [
+        'clientName', 'email', 'receivedOn', 'location', 'registry', 'projectType', 'folderName', 'projectId'
+    ]
+    const requiredFields: typeof fields = ['clientName', 'email', 'receivedOn']
+
+    for (const field of fields) {
+        const value = body[field]
+        if (value === undefined) continue
+        if (typeof value !== 'string') return { input, error: `${field} must be a string` }
+        input[field] = value.trim()
+    }
+
+    if (body.assignedUserIds !== undefined) {
+        const ids = body.assignedUserIds
+        if (!Array.isArray(ids) || ids.some(id => typeof id !== 'string')) {
+            return { input, error: 'assignedUserIds must be an array of user IDs' }
+        }
+        input.assignedUserIds = ids
+    }
+
+    if (!isPartial) {
+        const missing = requiredFields.find(field => !input[field])
+        if (missing) return { input, error: `${missing} is required` }
+        fields.forEach((field) => {
+            if (input[field] === undefined) input[field] = ''
+        })
+        if (!input.assignedUserIds) input.assignedUserIds = []
+    }
+
+    if (input.email !== undefined && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(input.email)) {
+        return { input, error: 'email is not a valid email address' }
+    }
+    if (input.receivedOn !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(input.receivedOn)) {
+        return { input, error: 'receivedOn must be a date in YYYY-MM-DD format' }
+    }
+
+    return { input }
+}
+
+/**
+ * Checks that every assigned user exists and is a field uploader
+ *
+ * @param userIds - The proposed assignedUserIds
+ * @returns Promise<string | undefined> - A message describing the first invalid ID, if any
+ */
+export async function validateAssignees(userIds: string[] | undefined): Promise<string | undefined> {
+    if (!userIds || userIds.length === 0) return undefined
+
+    const uploaderIds = (await listUsers())
+        .filter(user => user.role === 'field-uploader')
+        .map(user => user.id)
+    const invalid = userIds.find(id => uploaderIds.indexOf(id) === -1)
+    return invalid ? `${invalid} is not a field uploader` : undefined
+}
@@ -0,0 +1,263 @@
+import { createHash, createHmac } from 'crypto'
+import { XMLParser } from 'fast-xml-parser'
+
+/**
+ * Minimal S3 client for uploads, multipart uploads and the S3 storage backend
+ * Requests are signed with AWS Signature Version 4 using S3_BUCKET, AWS_REGION and the
+ * standard AWS credential variables. S3_ENDPOINT points at an S3-compatible service
+ * (e.g. MinIO) and switches to path-style URLs.
+ */
+
+interface S3Config {
+    bucket: string
+    region: string
+    accessKeyId: string
+    secretAccessKey: string
+    sessionToken?: string
+    endpoint?: string
+}
+
+export interface S3Response {
+    status: number
+    headers: Headers
+    body: string
+}
+
+const UNSIGNED_PAYLOAD = 'UNSIGNED-PAYLOAD'
+
+/** The parts of S3 XML responses that are read; values stay text since tag values are not parsed */
+export interface S3XmlDocument {
+    Error?: { Code?: string, Message?: string }
+    ListBucketResult?: {
+        Contents?: { Key: string, Size: string, LastModified: string }[]
+        IsTruncated?: string
+        NextContinuationToken?: string
+    }
+    InitiateMultipartUploadResult?: { UploadId?: string }
+    ListPartsResult?: {
+        Part?: { PartNumber: string, ETag: string }[]
+        IsTruncated?: string
+        NextPartNumberMarker?: string
+    }
+}
+
+const xmlParser = new XMLParser({
+    removeNSPrefix: true,
+    parseTagValue: false,
+    trimValues: true,
+    isArray: (name) => name === 'Part' || name === 'Contents'
+})
+
+/**
+ * Reads the S3 configuration from the environment
+ *
+ * @returns S3Config | null - The configuration, or null when S3 access is not configured
+ */
+export function getS3Config(): S3Config | null {
+    const { S3_BUCKET, AWS_REGION, AWS_ACCESS_KEY_ID, AWS_SECRET_ACCESS_KEY, AWS_SESSION_TOKEN, S3_ENDPOINT } = process.env
+    if (!S3_BUCKET || !AWS_ACCESS_KEY_ID || !AWS_SECRET_ACCESS_KEY) return null
+
+    return {
+        bucket: S3_BUCKET,
+        // The upload bucket lives in Mumbai
+        region: AWS_REGION || 'ap-south-1',
+        accessKeyId: AWS_ACCESS_KEY_ID,
+        secretAccessKey: AWS_SECRET_ACCESS_KEY,
+        sessionToken: AWS_SESSION_TOKEN || undefined,
+        endpoint: S3_ENDPOINT ? S3_ENDPOINT.replace(/\/$/, '') : undefined
+    }
+}
+
+/**
+ * Sends a signed request for an object
+ *
+ * @param method - HTTP method
+ * @param key - Object key; empty for bucket-level calls such as ListObjectsV2
+ * @param options - Query parameters, an optional body, and whether a 404 is an answer rather than an error
+ * @returns Promise<S3Response> - The response; throws with S3's error message when it is not 2xx
+ */
+export async function s3Request(
+    method: string,
+    key: string,
+    options: { query?: Record<string, string>, body?: string, allowMissing?: boolean } = {}
+): Promise<S3Response> {
+    const config = requireConfig()
+    const query = options.query || {}
+    const now = new Date()
+    const { host, path } = objectLocation(config, key)
+    const payloadHash = sha256Hex(options.body || '')
+
+    // fetch sets Host itself from the URL, but it is part of the signature
+    const amzHeaders: Record<string, string> = {
+        'x-amz-content-sha256': payloadHash,
+        'x-amz-date': amzDate(now)
+    }
+    if (config.sessionToken) amzHeaders['x-amz-security-token'] = config.sessionToken
+    const headers: Record<string, string> = { host, ...amzHeaders }
+
+    const signedHeaders = Object.keys(headers).sort()
+    const canonicalHeaders = signedHeaders.map(name => `${name}:${headers[name]}\n`).join('')
+    const canonicalRequest = [
+        method,
+        path,
+        canonicalQuery(query),
+        canonicalHeaders,
+        signedHeaders.join(';'),
+        payloadHash
+    ].join('\n')
+    const authorization = `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${credentialScope(config, now)}, ` +
+        `SignedHeaders=${signedHeaders.join(';')}, Signature=${sign(config, now, canonicalRequest)}`
+
+    const response = await fetch(objectUrl(config, key, query), {
+        method,
+        headers: { ...amzHeaders, authorization, ...(options.body ? { 'content-type': 'application/xml' } : {}) },
+        body: options.body,
+        cache: 'no-store'
+    })
+    const body = await response.text()
+    if (response.status === 404 && options.allowMissing) {
+        return { status: response.status, headers: response.headers, body }
+    }
+
+    // CompleteMultipartUpload can fail with a 200 status and an <Error> body
+    if (!response.ok || /<Error>/.test(body)) {
+        const message = body ? parseS3Xml(body).Error?.Message : undefined
+        throw new Error(`S3 ${method} ${key} failed: ${message || `${response.status} ${response.statusText}`}`)
+    }
+
+    return { status: response.status, headers: response.headers, body }
+}
+
+/**
+ * Creates a presigned URL the browser can use directly
+ *
+ * @param method - HTTP method the URL is valid for
+ * @param key - Object key
+ * @param query - Query parameters that are part of the signature (e.g. partNumber and uploadId)
+ * @param expiresIn - Lifetime of the URL in seconds
+ * @returns string - The presigned URL
+ */
+export function presignS3Url(method: string, key: string, query: Record<string, string>, expiresIn: number): string {
+    const config = requireConfig()
+    const now = new Date()
+    const { host, path } = objectLocation(config, key)
+
+    const signedQuery: Record<string, string> = {
+        ...query,
+        'X-Amz-Algorithm': 'AWS4-HMAC-SHA256',
+        'X-Amz-Credential': `${config.accessKeyId}/${credentialScope(config, now)}`,
+        'X-Amz-Date': amzDate(now),
+        'X-Amz-Expires': String(expiresIn),
+        'X-Amz-SignedHeaders': 'host'
+    }
+    if (config.sessionToken) signedQuery['X-Amz-Security-Token'] = config.sessionToken
+
+    const canonicalRequest = [
+        method,
+        path,
+        canonicalQuery(signedQuery),
+        `host:${host}\n`,
+        'host',
+        UNSIGNED_PAYLOAD
+    ].join('\n')
+
+    return objectUrl(config, key, { ...signedQuery, 'X-Amz-Signature': sign(config, now, canonicalRequest) })
+}
+
+/**
+ * Finds the object a presigned URL points at, if it points into the configured bucket
+ * Multipart part URLs are not object URLs and are refused too.
+ *
+ * @param url - A presigned URL
+ * @returns string | null - The object key, or null for URLs of any other host or bucket
+ */
+export function s3KeyFromUrl(url: string): string | null {
+    const config = getS3Config()
+    if (!config) return null
+
+    try {
+        const parsed = new URL(url)
+        const { origin, path } = objectLocation(config, '')
+        if (parsed.origin !== origin || parsed.pathname.indexOf(path) !== 0) return null
+        if (!parsed.searchParams.get('X-Amz-Signature') || parsed.searchParams.has('uploadId')) return null
+
+        const key = parsed.pathname.slice(path.length).split('/').map(decodeURIComponent).join('/')
+        return key || null
+    } catch {
+        // Not a URL, or a malformed escape in its path
+        return null
+    }
+}
+
+/**
+ * Parses an S3 XML response body
+ *
+ * @param body - The XML text
+ * @returns S3XmlDocument - The parsed document; repeated `Part` and `Contents` elements are always arrays
+ */
+export function parseS3Xml(body: string): S3XmlDocument {
+    const document: unknown = xmlParser.parse(body)
+    return document && typeof document === 'object' ? document as S3XmlDocument : {}
+}
+
+function requireConfig(): S3Config {
+    const config = getS3Config()
+    if (!config) throw new Error('S3 is not configured: set S3_BUCKET, AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY')
+    return config
+}
+
+function objectLocation(config: S3Config, key: string): { origin: string, host: string, path: string } {
+    const encodedKey = key.split('/').map(encodeRfc3986).join('/')
+    if (config.endpoint) {
+        return { origin: config.endpoint, host: new URL(config.endpoint).host, path: `/${config.bucket}/${encodedKey}` }
+    }
+    const host = `${config.bucket}.s3.${config.region}.amazonaws.com`
+    return { origin: `https://${host}`, host, path: `/${encodedKey}` }
+}
+
+function objectUrl(config: S3Config, key: string, query: Record<string, string>): string {
+    const { origin, path } = objectLocation(config, key)
+    const search = canonicalQuery(query)
+    return `${origin}${path}${search ? `?${search}` : ''}`
+}
+
+function canonicalQuery(query: Record<string, string>): string {
+    return Object.keys(query)
+        .sort()
+        .map(name => `${encodeRfc3986(name)}=${encodeRfc3986(query[name])}`)
+        .join('&')
+}
+
+function sign(config: S3Config, now: Date, canonicalRequest: string): string {
+    const stringToSign = [
+        'AWS4-HMAC-SHA256',
+        amzDate(now),
+        credentialScope(config, now),
+        sha256Hex(canonicalRequest)
+    ].join('\n')
+
+    const dateKey = hmac(`AWS4${config.secretAccessKey}`, amzDate(now).slice(0, 8))
+    const signingKey = hmac(hmac(hmac(dateKey, config.region), 's3'), 'aws4_request')
+    return createHmac('sha256', signingKey).update(stringToSign).digest('hex')
+}
+
+function credentialScope(config: S3Config, now: Date): string {
+    return `${amzDate(now).slice(0, 8)}/${config.region}/s3/aws4_request`
+}
+
+// e.g. 20240101T120000Z
+function amzDate(date: Date): string {
+    return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+function hmac(key: string | Buffer, value: string): Buffer {
+    return createHmac('sha256', key).update(value).digest()
+}
+
+function sha256Hex(value: string): string {
+    return createHash('sha256').update(value).digest('hex')
+}
+
+function encodeRfc3986(value: string): string {
+    return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`)
+}
@@ -0,0 +1,98 @@
+/**
+ * Signed session tokens
+ * Tokens are "<payload>.<signature>" with an HMAC-SHA256 signature over the base64url
+ * JSON payload. Only Web Crypto is used so the same code verifies tokens in route
+ * handlers and in edge middleware.
+ */
+
+export const SESSION_COOKIE = 'kml_session'
+
+export interface SessionTokenPayload {
+    /** Session ID in the sessions collection */
+    sid: string
+    /** User ID */
+    uid: string
+    /** Expiry, seconds since the epoch */
+    exp: number
+}
+
+const DEVELOPMENT_SECRET = 'development-only-auth-secret'
+
+/**
+ * Signs a session payload
+ *
+ * @param payload - Session, user and expiry
+ * @returns Promise<string> - The token to store in the session cookie
+ */
+export async function signSessionToken(payload: SessionTokenPayload): Promise<string> {
+    const encoded = toBase64Url(new TextEncoder().encode(JSON.stringify(payload)))
+    const signature = await crypto.subtle.sign('HMAC', await signingKey(), new TextEncoder().encode(encoded))
+    return `${encoded}.${toBase64Url(new Uint8Array(signature))}`
+}
+
+/**
+ * Checks the signature and expiry of a token
+ * This does not check that the session still exists; see getSessionUser for that.
+ *
+ * @param token - The session cookie value
+ * @returns Promise<SessionTokenPayload | null> - The payload, or null when invalid or expired
+ */
+export async function verifySessionToken(token: string | undefined): Promise<SessionTokenPayload | null> {
+    if (!token) return null
+    const [encoded, signature] = token.split('.')
+    if (!encoded || !signature) return null
+
+    try {
+        const isValid = await crypto.subtle.verify(
+            'HMAC',
+            await signingKey(),
+            fromBase64Url(signature),
+            new TextEncoder().encode(encoded)
+        )
+        if (!isValid) return null
+
+        const payload = JSON.parse(new TextDecoder().decode(fromBase64Url(encoded))) as SessionTokenPayload
+        if (typeof payload.exp !== 'number' || payload.exp * 1000 <= Date.now()) return null
+        return payload
+    } catch {
+        return null
+    }
+}
+
+/**
+ * The secret tokens and signed URLs are signed with
+ *
+ * @returns string - AUTH_SECRET, or a fixed development secret outside production
+ */
+export function getAuthSecret(): string {
+    const secret = process.env.AUTH_SECRET
+    if (!secret && process.env.NODE_ENV === 'production') {
+        throw new Error('AUTH_SECRET must be set in production')
+    }
+    return secret || DEVELOPMENT_SECRET
+}
+
+function signingKey(): Promise<CryptoKey> {
+    return crypto.subtle.importKey(
+        'raw',
+        new TextEncoder().encode(getAuthSecret()),
+        { name: 'HMAC', hash: 'SHA-256' },
+        false,
+        ['sign', 'verify']
+    )
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+    let binary = ''
+    bytes.forEach((byte) => {
+        binary += String.fromCharCode(byte)
+    })
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+    const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'))
+    const bytes = new Uint8Array(binary.length)
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+    return bytes
+}
@@ -0,0 +1,227 @@
+import { randomUUID } from 'crypto'
+import { createLocalStorage } from './local-storage'
+import { getS3Config, parseS3Xml, presignS3Url, s3KeyFromUrl, s3Request } from './s3'
+
+/**
+ * Where uploaded files are kept
+ * Every backend hands out presigned URLs the browser uploads to and downloads from
+ * directly, so file contents normally bypass the route handlers. STORAGE_BACKEND selects
+ * the backend; without it S3 is used when it is configured and the local disk otherwise.
+ */
+
+export type StorageType = 's3' | 'local'
+
+export interface StoredObject {
+    key: string
+    size: number
+    lastModified: string
+}
+
+export interface StorageBackend {
+    type: StorageType
+    /** URL the browser PUTs the file to */
+    presignPut: (key: string, expiresIn: number) => string
+    /** URL the file can be downloaded from */
+    presignGet: (key: string, expiresIn: number) => string
+    /** The key a presigned PUT URL of this backend points at; null for any other URL */
+    keyFromUrl: (url: string) => string | null
+    /** Streams a file to a presigned PUT URL of this backend */
+    putToUrl: (url: string, body: ReadableStream<Uint8Array>, size: number) => Promise<void>
+    /** Objects whose key starts with `prefix` */
+    list: (prefix: string) => Promise<StoredObject[]>
+    /** The object's size and age, or null when it does not exist */
+    head: (key: string) => Promise<StoredObject | null>
+    /** Deletes an object; deleting a missing object is not an error */
+    remove: (key: string) => Promise<void>
+    read: (key: string) => Promise<Uint8Array>
+    /** Stores a file generated on the server, replacing any object with the same key */
+    write: (key: string, body: Uint8Array) => Promise<void>
+    multipart: MultipartStorage
+}
+
+/**
+ * Uploads in parts, which the browser PUTs separately and the server joins in order
+ * `uploadId` is the backend's own ID for the upload, returned by `start`.
+ */
+export interface MultipartStorage {
+    start: (key: string) => Promise<string>
+    /** URL the browser PUTs one part to, numbered from 1 */
+    presignPart: (key: string, uploadId: string, partNumber: number, expiresIn: number) => string
+    /** Numbers of the parts stored so far, ascending */
+    listParts: (key: string, uploadId: string) => Promise<number[]>
+    /** Joins the stored parts into the object; the caller checks that none is missing */
+    complete: (key: string, uploadId: string) => Promise<void>
+    /** Discards the stored parts */
+    abort: (key: string, uploadId: string) => Promise<void>
+}
+
+export const MAX_UPLOAD_BYTES = 50 * 1024 * 1024
+export const UPLOAD_URL_TTL_SECONDS = 60 * 60
+// Server-side reads and writes use the URL immediately
+const READ_URL_TTL_SECONDS = 60
+
+/**
+ * Gets the configured storage backend
+ *
+ * @returns StorageBackend - The backend selected by STORAGE_BACKEND
+ */
+export function getStorage(): StorageBackend {
+    const type = process.env.STORAGE_BACKEND || (getS3Config() ? 's3' : 'local')
+
+    if (type === 's3') return createS3Storage()
+    if (type === 'local') return createLocalStorage()
+    throw new Error(`Unknown STORAGE_BACKEND "${type}": use "s3" or "local"`)
+}
+
+/**
+ * Chooses the storage key for a newly uploaded file
+ * Only the file name is kept, made safe for URLs, behind a timestamp and a random ID so
+ * uploads of files with the same name, even in the same millisecond, do not overwrite
+ * each other.
+ *
+ * @param fileName - The uploaded file's name; any folder path is dropped
+ * @returns string - The storage key, e.g. "input_kml_files/1700000000000-<uuid>-village_a.kml"
+ */
+export function uploadKey(fileName: string): string {
+    const safeName = (fileName.split('/').pop() || fileName).replace(/[^\w.\-]+/g, '_')
+    return `input_kml_files/${Date.now()}-${randomUUID()}-${safeName}`
+}
+
+function createS3Storage(): StorageBackend {
+    return {
+        type: 's3',
+
+        presignPut: (key, expiresIn) => presignS3Url('PUT', key, {}, expiresIn),
+
+        presignGet: (key, expiresIn) => presignS3Url('GET', key, {}, expiresIn),
+
+        keyFromUrl: s3KeyFromUrl,
+
+        putToUrl: async (url, body, size) => {
+            // S3 refuses chunked PUTs, so the length is sent up front; duplex is required for stream bodies
+            const init: RequestInit & { duplex: 'half' } = {
+                method: 'PUT',
+                body,
+                headers: { 'content-length': String(size) },
+                duplex: 'half',
+                cache: 'no-store'
+            }
+            const response = await fetch(url, init)
+            if (!response.ok) {
+                throw new Error(`Storage refused the upload: ${response.status} ${response.statusText}`)
+            }
+        },
+
+        list: async (prefix) => {
+            const objects: StoredObject[] = []
+            let continuationToken: string | null = null
+
+            // ListObjectsV2 returns at most 1000 keys per page
+            for (;;) {
+                const query: Record<string, string> = { 'list-type': '2', prefix }
+                if (continuationToken) query['continuation-token'] = continuationToken
+
+                const response = await s3Request('GET', '', { query })
+                const result = parseS3Xml(response.body).ListBucketResult
+                const page = result?.Contents || []
+                page.forEach(object => objects.push({
+                    key: object.Key,
+                    size: Number(object.Size),
+                    lastModified: new Date(object.LastModified).toISOString()
+                }))
+
+                if (result?.IsTruncated !== 'true' || !result.NextContinuationToken) break
+                continuationToken = result.NextContinuationToken
+            }
+
+            return objects
+        },
+
+        head: async (key) => {
+            const response = await s3Request('HEAD', key, { allowMissing: true })
+            if (response.status === 404) return null
+
+            return {
+                key,
+                size: Number(response.headers.get('content-length') || 0),
+                lastModified: new Date(response.headers.get('last-modified') || Date.now()).toISOString()
+            }
+        },
+
+        remove: async (key) => {
+            await s3Request('DELETE', key)
+        },
+
+        read: async (key) => {
+            // s3Request reads bodies as text, which would corrupt KMZ archives
+            const response = await fetch(presignS3Url('GET', key, {}, READ_URL_TTL_SECONDS), { cache: 'no-store' })
+            if (!response.ok) {
+                throw new Error(`Failed to fetch ${key}: ${response.status} ${response.statusText}`)
+            }
+            return new Uint8Array(await response.arrayBuffer())
+        },
+
+        write: async (key, body) => {
+            const response = await fetch(presignS3Url('PUT', key, {}, READ_URL_TTL_SECONDS), {
+                method: 'PUT',
+                // Copied so fetch is never handed a view into a shared buffer
+                body: new Uint8Array(body),
+                cache: 'no-store'
+            })
+            if (!response.ok) {
+                throw new Error(`Failed to store ${key}: ${response.status} ${response.statusText}`)
+            }
+        },
+
+        multipart: {
+            start: async (key) => {
+                const response = await s3Request('POST', key, { query: { uploads: '' } })
+                const uploadId = parseS3Xml(response.body).InitiateMultipartUploadResult?.UploadId
+                if (!uploadId) throw new Error('S3 did not return an upload ID')
+                return uploadId
+            },
+
+            presignPart: (key, uploadId, partNumber, expiresIn) =>
+                presignS3Url('PUT', key, { partNumber: String(partNumber), uploadId }, expiresIn),
+
+            listParts: async (key, uploadId) => (await listS3Parts(key, uploadId)).map(part => part.partNumber),
+
+            // S3 is given its own list of stored parts, so the browser never needs to read part ETags
+            complete: async (key, uploadId) => {
+                const parts = await listS3Parts(key, uploadId)
+                const body = '<CompleteMultipartUpload>' +
+                    parts.map(part => `<Part><PartNumber>${part.partNumber}</PartNumber><ETag>${escapeXml(part.etag)}</ETag></Part>`).join('') +
+                    '</CompleteMultipartUpload>'
+                await s3Request('POST', key, { query: { uploadId }, body })
+            },
+
+            abort: async (key, uploadId) => {
+                await s3Request('DELETE', key, { query: { uploadId } })
+            }
+        }
+    }
+}
+
+async function listS3Parts(key: string, uploadId: string): Promise<{ partNumber: number, etag: string }[]> {
+    const parts: { partNumber: number, etag: string }[] = []
+    let marker = '0'
+
+    // ListParts returns at most 1000 parts per page
+    for (;;) {
+        const response = await s3Request('GET', key, {
+            query: { uploadId, 'part-number-marker': marker }
+        })
+        const result = parseS3Xml(response.body).ListPartsResult
+        const page = result?.Part || []
+        page.forEach(part => parts.push({ partNumber: Number(part.PartNumber), etag: part.ETag }))
+
+        if (result?.IsTruncated !== 'true' || !result.NextPartNumberMarker) break
+        marker = result.NextPartNumberMarker
+    }
+
+    return parts.sort((a, b) => a.partNumber - b.partNumber)
+}
+
+function escapeXml(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
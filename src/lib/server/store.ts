@@ -0,0 +1,170 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+
+/**
+ * File-backed JSON store for local development and single-instance deployments
+ * Collections are kept as one JSON array per file; large documents (e.g. analysis
+ * results) live in their own file per id. Writes go through a per-file queue and
+ * are renamed into place so readers never see a partial file.
+ */
+
+const DATA_DIR = process.env.KML_DATA_DIR || path.join(process.cwd(), '.data')
+
+interface StoreState {
+    locks: Record<string, Promise<unknown>>
+}
+
+// Kept on globalThis so that every route bundle shares the same write queue
+const globalStore = globalThis as typeof globalThis & { __kmlStore?: StoreState }
+const state: StoreState = globalStore.__kmlStore || (globalStore.__kmlStore = { locks: {} })
+
+export interface Collection<T extends { id: string }> {
+    list: () => Promise<T[]>
+    get: (id: string) => Promise<T | null>
+    insert: (item: T) => Promise<T>
+    update: (id: string, changes: Partial<T> | ((item: T) => T)) => Promise<T | null>
+    remove: (id: string) => Promise<boolean>
+    /** Runs `mutation` against the full item list under the collection lock and saves the result */
+    mutate: <R>(mutation: (items: T[]) => R) => Promise<R>
+}
+
+export interface DocumentStore<T> {
+    get: (id: string) => Promise<T | null>
+    put: (id: string, document: T) => Promise<T>
+    remove: (id: string) => Promise<boolean>
+}
+
+/**
+ * Creates (or reopens) a named collection
+ *
+ * @param name - Collection name, used as the file name under the data directory
+ * @returns Collection<T> - CRUD helpers for the collection
+ */
+export function createCollection<T extends { id: string }>(name: string): Collection<T> {
+    const filePath = path.join(DATA_DIR, `${name}.json`)
+
+    const mutate = <R>(mutation: (items: T[]) => R): Promise<R> =>
+        withLock(filePath, async () => {
+            const items = (await readJson<T[]>(filePath)) || []
+            const result = mutation(items)
+            await writeJson(filePath, items)
+            return result
+        })
+
+    return {
+        list: async () => (await readJson<T[]>(filePath)) || [],
+
+        get: async (id) => {
+            const items = (await readJson<T[]>(filePath)) || []
+            return items.find(item => item.id === id) || null
+        },
+
+        insert: (item) => mutate((items) => {
+            if (items.some(existing => existing.id === item.id)) {
+                throw new Error(`${name}: duplicate id ${item.id}`)
+            }
+            items.push(item)
+            return item
+        }),
+
+        update: (id, changes) => mutate((items) => {
+            const index = items.findIndex(item => item.id === id)
+            if (index === -1) return null
+            items[index] = typeof changes === 'function'
+                ? changes(items[index])
+                : { ...items[index], ...changes }
+            return items[index]
+        }),
+
+        remove: (id) => mutate((items) => {
+            const index = items.findIndex(item => item.id === id)
+            if (index === -1) return false
+            items.splice(index, 1)
+            return true
+        }),
+
+        mutate
+    }
+}
+
+/**
+ * Creates (or reopens) a store that keeps one JSON file per document
+ *
+ * @param name - Store name, used as the directory name under the data directory
+ * @returns DocumentStore<T> - Get/put/remove helpers
+ */
+export function createDocumentStore<T>(name: string): DocumentStore<T> {
+    const documentPath = (id: string) => path.join(DATA_DIR, name, `${encodeURIComponent(id)}.json`)
+
+    return {
+        get: (id) => readJson<T>(documentPath(id)),
+
+        put: (id, document) => withLock(documentPath(id), async () => {
+            await writeJson(documentPath(id), document)
+            return document
+        }),
+
+        remove: (id) => withLock(documentPath(id), async () => {
+            try {
+                await fs.unlink(documentPath(id))
+                return true
+            } catch (error) {
+                if (isMissingFileError(error)) return false
+                throw error
+            }
+        })
+    }
+}
+
+interface Sequence {
+    id: string
+    value: number
+}
+
+const sequences = createCollection<Sequence>('sequences')
+
+/**
+ * Returns the next value of a named counter, starting at 1
+ * Counters only ever increase, so IDs built from them are not reused after a delete
+ *
+ * @param name - Counter name
+ * @returns Promise<number> - The new counter value
+ */
+export function nextSequence(name: string): Promise<number> {
+    return sequences.mutate((items) => {
+        const sequence = items.find(item => item.id === name)
+        if (sequence) {
+            sequence.value += 1
+            return sequence.value
+        }
+        items.push({ id: name, value: 1 })
+        return 1
+    })
+}
+
+function withLock<R>(key: string, task: () => Promise<R>): Promise<R> {
+    const previous = state.locks[key] || Promise.resolve()
+    const next = previous.catch(() => undefined).then(task)
+    state.locks[key] = next.catch(() => undefined)
+    return next
+}
+
+async function readJson<T>(filePath: string): Promise<T | null> {
+    try {
+        return JSON.parse(await fs.readFile(filePath, 'utf8')) as T
+    } catch (error) {
+        if (isMissingFileError(error)) return null
+        throw error
+    }
+}
+
+async function writeJson(filePath: string, data: unknown): Promise<void> {
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    const tempPath = `${filePath}.${process.pid}.tmp`
+    await fs.writeFile(tempPath, JSON.stringify(data, null, 2))
+    await fs.rename(tempPath, filePath)
+}
+
+function isMissingFileError(error: unknown): boolean {
+    return (error as NodeJS.ErrnoException)?.code === 'ENOENT'
+}
@@ -0,0 +1,47 @@
+import { createCollection } from './store'
+
+/**
+ * Storage keys handed out for uploads, and to whom
+ * A key is recorded when the server issues it (presigned PUT or completed multipart
+ * upload), so analyses can only be queued for files the user uploaded themselves, not
+ * for any key they learnt or guessed.
+ */
+
+interface UploadKey {
+    /** The storage key */
+    id: string
+    createdBy: string
+    createdAt: string
+}
+
+const uploadKeys = createCollection<UploadKey>('upload-keys')
+
+/**
+ * Records that a storage key was issued to a user
+ * Recording a key again for the same user is harmless (e.g. a repeated completion), but
+ * a key already issued to someone else is refused, so it cannot change owner.
+ *
+ * @param fileKey - The storage key
+ * @param userId - The uploading user
+ */
+export async function recordUploadKey(fileKey: string, userId: string): Promise<void> {
+    await uploadKeys.mutate((items) => {
+        const existing = items.find(item => item.id === fileKey)
+        if (existing && existing.createdBy !== userId) {
+            throw new Error(`Upload key ${fileKey} was issued to another user`)
+        }
+        if (!existing) items.push({ id: fileKey, createdBy: userId, createdAt: new Date().toISOString() })
+    })
+}
+
+/**
+ * Checks whether a storage key was issued to a user
+ *
+ * @param fileKey - The storage key
+ * @param userId - The user
+ * @returns Promise<boolean> - Whether the user was given the key to upload to
+ */
+export async function isUploadKeyOf(fileKey: string, userId: string): Promise<boolean> {
+    const uploadKey = await uploadKeys.get(fileKey)
+    return uploadKey !== null && uploadKey.createdBy === userId
+}
@@ -0,0 +1,78 @@
+/**
+ * Helpers for passing request bodies on to storage without holding whole files in memory
+ */
+
+/**
+ * Reads the first bytes of a stream without consuming them
+ *
+ * @param body - The stream to look into
+ * @param length - How many bytes to read; fewer are returned when the stream is shorter
+ * @returns Promise<{ head, body }> - The first bytes, and a stream that still yields everything
+ */
+export async function peekStream(
+    body: ReadableStream<Uint8Array>,
+    length: number
+): Promise<{ head: Uint8Array, body: ReadableStream<Uint8Array> }> {
+    const reader = body.getReader()
+    const chunks: Uint8Array[] = []
+    let buffered = 0
+    let isDone = false
+
+    while (buffered < length) {
+        const { done, value } = await reader.read()
+        if (done) {
+            isDone = true
+            break
+        }
+        chunks.push(value)
+        buffered += value.length
+    }
+
+    const head = new Uint8Array(Math.min(buffered, length))
+    let offset = 0
+    chunks.forEach((chunk) => {
+        const part = chunk.subarray(0, head.length - offset)
+        head.set(part, offset)
+        offset += part.length
+    })
+
+    const replay = new ReadableStream<Uint8Array>({
+        start(controller) {
+            chunks.forEach(chunk => controller.enqueue(chunk))
+            if (isDone) controller.close()
+        },
+        async pull(controller) {
+            const { done, value } = await reader.read()
+            if (done) controller.close()
+            else controller.enqueue(value)
+        },
+        cancel(reason) {
+            return reader.cancel(reason)
+        }
+    })
+
+    return { head, body: replay }
+}
+
+/**
+ * Passes a stream through, failing it once more than `maxBytes` have gone through
+ * Guards against clients that send more than their Content-Length announced.
+ *
+ * @param body - The stream to limit
+ * @param maxBytes - The most bytes allowed
+ * @returns ReadableStream<Uint8Array> - The same bytes, or an error past the limit
+ */
+export function limitStreamSize(body: ReadableStream<Uint8Array>, maxBytes: number): ReadableStream<Uint8Array> {
+    let total = 0
+
+    return body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+            total += chunk.length
+            if (total > maxBytes) {
+                controller.error(new Error(`Upload is larger than the ${maxBytes} bytes announced`))
+                return
+            }
+            controller.enqueue(chunk)
+        }
+    }))
+}
@@ -0,0 +1,22 @@
+import { getStorage } from './storage'
+
+/**
+ * Reads the contents of an uploaded file by its storage key
+ * Files are read from the configured storage backend (S3 or the local upload directory)
+ *
+ * @param fileKey - The storage key returned by the upload step
+ * @returns Promise<Uint8Array> - The raw file contents
+ */
+export async function readUploadedFile(fileKey: string): Promise<Uint8Array> {
+    return getStorage().read(fileKey)
+}
+
+/**
+ * Stores a file generated on the server, such as an edited version of an upload
+ *
+ * @param fileKey - The storage key, usually from uploadKey
+ * @param contents - The file contents
+ */
+export async function writeUploadedFile(fileKey: string, contents: Uint8Array): Promise<void> {
+    await getStorage().write(fileKey, contents)
+}
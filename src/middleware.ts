@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { SESSION_COOKIE, verifySessionToken } from '@/lib/server/session-token'
+
+/**
+ * Session check for protected pages and API routes
+ * Only the cookie's signature and expiry are checked here, since the session store
+ * is not reachable from the edge runtime; route handlers still look the session up,
+ * so a session ended by logout is refused there.
+ *
+ * Routes that stream uploads are not matched: running middleware makes Next.js hold
+ * the request body, which would defeat streaming. They check access themselves, the
+ * upload proxy by session and /api/storage by URL signature.
+ */
+
+// Login, logout and session lookup must work without a session
+const PUBLIC_API_PREFIXES = ['/api/auth/']
+
+export async function middleware(request: NextRequest) {
+    const { pathname, search } = request.nextUrl
+
+    // CORS preflights never carry cookies
+    if (request.method === 'OPTIONS' || PUBLIC_API_PREFIXES.some(prefix => pathname.startsWith(prefix))) {
+        return NextResponse.next()
+    }
+
+    const session = await verifySessionToken(request.cookies.get(SESSION_COOKIE)?.value)
+    if (session) return NextResponse.next()
+
+    if (pathname.startsWith('/api/')) {
+        return NextResponse.json(
+            { error: 'Not authenticated' },
+            { status: 401 }
+        )
+    }
+
+    const loginUrl = new URL('/', request.url)
+    loginUrl.searchParams.set('returnTo', `${pathname}${search}`)
+    return NextResponse.redirect(loginUrl)
+}
+
+export const config = {
+    matcher: [
+        '/requests/:path*',
+        '/projects/:path*',
+        '/view-kml/:path*',
+        '/kml-analysis-demo/:path*',
+        '/settings/:path*',
+        '/api/((?!upload-proxy|storage/).*)'
+    ]
+}